@@ -20,12 +20,15 @@ import Customers from "@/pages/Customers";
 import CustomerProfile from "@/pages/CustomerProfile";
 import { CustomerProfilePage } from "@/pages/CustomerProfilePage";
 import Contracts from "@/pages/Contracts";
+import Workshop from "@/pages/Workshop";
+import Leads from "@/pages/Leads";
 import SettingsOverviewPage from "@/pages/SettingsOverview";
 import AssistantBubble from "@/components/AssistantBubble";
 import SimpleAdminPortal from "@/pages/SimpleAdminPortal";
 import InviteAccept from "@/pages/InviteAccept";
 import { useAuth } from "@/contexts/AuthContext";
 import { SettingsOrganization } from "@/pages/settings/SettingsOrganization";
+import { normalizeRole } from "@shared/roles";
 
 function Router() {
   return (
@@ -83,11 +86,21 @@ function Router() {
           <CustomerProfilePage />
         </ProtectedRoute>
       </Route>
+      <Route path="/leads">
+        <ProtectedRoute>
+          <Leads />
+        </ProtectedRoute>
+      </Route>
       <Route path="/contracts">
         <ProtectedRoute>
           <Contracts />
         </ProtectedRoute>
       </Route>
+      <Route path="/workshop">
+        <ProtectedRoute>
+          <Workshop />
+        </ProtectedRoute>
+      </Route>
       <Route path="/settings">
         <ProtectedRoute>
           <SettingsOverviewPage />
@@ -117,28 +130,9 @@ function AssistantBubbleWrapper() {
     return null;
   }
   
-  // Map auth roles to assistant roles
-  const mapRole = (role: string | null): "SELGER" | "EIER" | "REGNSKAP" | "VERKSTED" => {
-    if (!role) return "SELGER";
-    switch (role.toLowerCase()) {
-      case "owner":
-      case "admin":
-      case "eier":
-        return "EIER";
-      case "accountant":
-      case "regnskap":
-        return "REGNSKAP";
-      case "workshop":
-      case "verksted":
-        return "VERKSTED";
-      default:
-        return "SELGER";
-    }
-  };
-  
   return (
     <AssistantBubble 
-      userRole={mapRole(user.role)} 
+      userRole={normalizeRole(user.role) ?? undefined} 
       activeCompanyId={company.id} 
       userId={user.id} 
     />
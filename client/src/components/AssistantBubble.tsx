@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { X, MessageCircle } from "lucide-react";
+import type { Role } from "@shared/roles";
 
 // AI Assistant Bear Mascot Component - Full body
 const AIBear = ({ className = "w-5 h-5" }: { className?: string }) => (
@@ -61,7 +62,7 @@ export default function AssistantBubble({
   activeCompanyId,
   userId,
 }: { 
-  userRole?: "EIER" | "SELGER" | "REGNSKAP" | "VERKSTED"; 
+  userRole?: Role; 
   activeCompanyId?: string;
   userId?: string;
 }) {
@@ -0,0 +1,133 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { nb } from "date-fns/locale";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { formatCurrency } from "@/lib/format";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import type { CarPriceHistory, PriceField } from "@shared/schema";
+
+type PriceHistoryEntry = CarPriceHistory & { changedByName: string | null };
+
+const FIELD_LABELS: Record<PriceField, string> = {
+  sale_price: "Salgspris",
+  cost_price: "Innkjøpspris",
+  recond_cost: "Klargjøring",
+};
+
+const SOURCE_LABELS: Record<CarPriceHistory["source"], string> = {
+  intake: "Innlegging",
+  manual: "Manuell",
+  aging: "Liggetid",
+  recon: "Arbeidsordre",
+};
+
+interface PriceHistoryChartProps {
+  carId: string;
+  currentPrice: number;
+}
+
+// List price over time, with every price, cost and recon change listed below
+export default function PriceHistoryChart({ carId, currentPrice }: PriceHistoryChartProps) {
+  const { data: history = [] } = useQuery<PriceHistoryEntry[]>({
+    queryKey: [`/api/cars/${carId}/price-history`],
+    enabled: !!carId,
+  });
+
+  const chartData = useMemo(() => {
+    const points = history
+      .filter(entry => entry.field === "sale_price")
+      .map(entry => ({
+        time: new Date(entry.createdAt ?? Date.now()).getTime(),
+        price: Number(entry.newPrice),
+      }));
+    // Extend the line to today so the current price shows for as long as it has held
+    points.push({ time: Date.now(), price: currentPrice });
+    return points;
+  }, [history, currentPrice]);
+
+  const priceDrops = history.filter(
+    entry => entry.field === "sale_price" && entry.oldPrice !== null && Number(entry.newPrice) < Number(entry.oldPrice),
+  ).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Prishistorikk
+        </CardTitle>
+        {priceDrops > 0 && (
+          <Badge variant="outline">{priceDrops} {priceDrops === 1 ? "prisnedsettelse" : "prisnedsettelser"}</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {chartData.length > 1 && (
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="1 1" className="stroke-border opacity-30" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(time: number) => format(new Date(time), "d. MMM", { locale: nb })}
+                className="text-xs"
+                tick={{ fill: "hsl(var(--muted-foreground))" }}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tickFormatter={(value: number) => `${Math.round(value / 1000)}k`}
+                className="text-xs"
+                tick={{ fill: "hsl(var(--muted-foreground))" }}
+              />
+              <Tooltip
+                labelFormatter={(time: number) => format(new Date(time), "d. MMM yyyy", { locale: nb })}
+                formatter={(value: number) => [formatCurrency(value), "Salgspris"]}
+                contentStyle={{
+                  backgroundColor: "hsl(var(--background))",
+                  border: "1px solid hsl(var(--border))",
+                  borderRadius: "8px",
+                }}
+              />
+              <Line
+                type="stepAfter"
+                dataKey="price"
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Ingen prisendringer registrert ennå.</p>
+        ) : (
+          <ol className="space-y-3 border-l pl-4">
+            {[...history].reverse().map(entry => (
+              <li key={entry.id} className="text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{FIELD_LABELS[entry.field]}</span>
+                  <span>
+                    {entry.oldPrice !== null && `${formatCurrency(Number(entry.oldPrice))} → `}
+                    {formatCurrency(Number(entry.newPrice))}
+                  </span>
+                  <Badge variant="secondary">{SOURCE_LABELS[entry.source]}</Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  {entry.createdAt && format(new Date(entry.createdAt), "d. MMM yyyy HH:mm", { locale: nb })}
+                  {" · "}
+                  {entry.changedByName ?? "Automatisk"}
+                  {entry.reason && ` · ${entry.reason}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { formatCurrency, formatKm } from "@/lib/format";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, Lightbulb, RefreshCw, TrendingDown, TrendingUp } from "lucide-react";
+
+// Response of GET /api/cars/:id/price-recommendation. The margin bounds are
+// left out for users without access to cost figures, and so is a recommended
+// price taken from them.
+interface PriceRecommendation {
+  carId: string;
+  currentPrice: number;
+  recommendedPrice: number | null;
+  costBased: boolean;
+  marketPrice: number | null;
+  daysInStock: number;
+  agingDiscountPct: number;
+  floorPrice?: number | null;
+  targetPrice?: number | null;
+  quantiles: {
+    p10: number;
+    p50: number;
+    p90: number;
+    prob14: number;
+    prob30: number;
+  } | null;
+  comps: {
+    count: number;
+    median: number | null;
+    p25: number | null;
+    p75: number | null;
+    sample: Array<{
+      id: string;
+      source: string;
+      year: number | null;
+      km: number | null;
+      location: string | null;
+      price: number;
+    }>;
+  };
+  explanation: string[];
+  costExplanation?: string[];
+}
+
+interface PriceRecommendationPanelProps {
+  carId: string;
+  disabled?: boolean;
+}
+
+export default function PriceRecommendationPanel({ carId, disabled }: PriceRecommendationPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+
+  const { data: recommendation, isLoading, isError, refetch, isFetching } = useQuery<PriceRecommendation>({
+    queryKey: [`/api/cars/${carId}/price-recommendation`],
+    enabled: !!carId,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (price: number) => {
+      return await apiRequest("PUT", `/api/cars/${carId}`, {
+        salePrice: String(price),
+        priceChangeReason: "Prisforslag fra prisassistenten",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}/price-recommendation`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}/price-history`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cars"] });
+      toast({
+        title: "Pris oppdatert",
+        description: "Foreslått pris er lagt inn som salgspris",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Feil",
+        description: "Kunne ikke oppdatere prisen",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (isError || !recommendation) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">
+          Kunne ikke hente prisforslag.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { recommendedPrice } = recommendation;
+  const difference = recommendedPrice === null ? 0 : recommendedPrice - recommendation.currentPrice;
+  const canApply = can("cars.price") && !disabled && difference !== 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Lightbulb className="h-4 w-4" />
+            Prisforslag
+          </CardTitle>
+          <CardDescription>
+            Basert på markedet, prismodellen og hvor lenge bilen har stått
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end justify-between">
+          <div>
+            <p className="text-sm text-muted-foreground">Foreslått pris</p>
+            <p className="text-3xl font-bold">{recommendedPrice !== null ? formatCurrency(recommendedPrice) : "-"}</p>
+            {recommendedPrice === null && (
+              <p className="text-sm text-muted-foreground">Prisen bygger på kostpris og vises ikke for din rolle</p>
+            )}
+            {difference !== 0 && (
+              <p className={`flex items-center gap-1 text-sm ${difference > 0 ? "text-green-600" : "text-amber-600"}`}>
+                {difference > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                {difference > 0 ? "+" : ""}{formatCurrency(difference)} mot dagens pris
+              </p>
+            )}
+          </div>
+          {canApply && recommendedPrice !== null && (
+            <Button
+              onClick={() => applyMutation.mutate(recommendedPrice)}
+              disabled={applyMutation.isPending}
+              data-testid="button-apply-price"
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Bruk foreslått pris
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Markedspris</p>
+            <p className="font-medium">
+              {recommendation.marketPrice !== null ? formatCurrency(recommendation.marketPrice) : "-"}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Dager på lager</p>
+            <p className="font-medium">
+              {recommendation.daysInStock}
+              {recommendation.agingDiscountPct > 0 && (
+                <Badge variant="outline" className="ml-2">
+                  -{(recommendation.agingDiscountPct * 100).toFixed(1)} %
+                </Badge>
+              )}
+            </p>
+          </div>
+          {recommendation.quantiles && (
+            <>
+              <div>
+                <p className="text-muted-foreground">Modellens prisintervall</p>
+                <p className="font-medium">
+                  {formatCurrency(recommendation.quantiles.p10)} – {formatCurrency(recommendation.quantiles.p90)}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Sannsynlighet for salg</p>
+                <p className="font-medium">
+                  {Math.round(recommendation.quantiles.prob14 * 100)} % innen 14 dager,{" "}
+                  {Math.round(recommendation.quantiles.prob30 * 100)} % innen 30
+                </p>
+              </div>
+            </>
+          )}
+          {recommendation.floorPrice != null && (
+            <div>
+              <p className="text-muted-foreground">Laveste pris (minstemargin)</p>
+              <p className="font-medium">{formatCurrency(recommendation.floorPrice)}</p>
+            </div>
+          )}
+          {recommendation.targetPrice != null && (
+            <div>
+              <p className="text-muted-foreground">Pris ved målmargin</p>
+              <p className="font-medium">{formatCurrency(recommendation.targetPrice)}</p>
+            </div>
+          )}
+        </div>
+
+        <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+          {[...recommendation.explanation, ...(recommendation.costExplanation ?? [])].map((line, index) => (
+            <li key={index}>{line}</li>
+          ))}
+        </ul>
+
+        {recommendation.comps.sample.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Sammenlignbare annonser ({recommendation.comps.count})
+            </p>
+            <div className="divide-y rounded-md border text-sm">
+              {recommendation.comps.sample.map(comp => (
+                <div key={comp.id} className="flex items-center justify-between px-3 py-2">
+                  <span className="text-muted-foreground">
+                    {[comp.year, comp.km !== null ? formatKm(comp.km) : null, comp.location, comp.source]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </span>
+                  <span className="font-medium">{formatCurrency(comp.price)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { formatCurrency } from "@/lib/format";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Clock } from "lucide-react";
+import type { CarPriceSuggestion } from "@shared/schema";
+
+// Pending price drop from the aging job, with apply and dismiss for users who may set prices
+export default function PriceSuggestionAlert({ carId }: { carId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+
+  // The price is left out when it is held at the margin floor and the user may not see cost
+  const { data: suggestions = [] } = useQuery<Array<Omit<CarPriceSuggestion, "suggestedPrice"> & { suggestedPrice: string | null }>>({
+    queryKey: [`/api/cars/${carId}/price-suggestions`],
+    enabled: !!carId,
+  });
+  const pending = suggestions.find(suggestion => suggestion.status === "pending");
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "apply" | "dismiss" }) => {
+      const response = await apiRequest("POST", `/api/price-suggestions/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}/price-suggestions`] });
+      if (action === "apply") {
+        queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}/price-recommendation`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}/price-history`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/cars"] });
+      }
+      toast({
+        title: action === "apply" ? "Pris oppdatert" : "Forslag avvist",
+        description: action === "apply" ? "Ny pris er lagt inn" : "Prisen er uendret",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Feil",
+        description: "Kunne ikke behandle prisforslaget",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!pending) return null;
+
+  return (
+    <Alert>
+      <Clock className="h-4 w-4" />
+      <AlertTitle>
+        {pending.suggestedPrice !== null
+          ? <>Foreslått ny pris: {formatCurrency(Number(pending.suggestedPrice))}</>
+          : "Foreslått prisnedsettelse"}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          {pending.reason ?? `Stått ${pending.daysOnLot} dager`}. Nåværende pris var{" "}
+          {formatCurrency(Number(pending.currentPrice))} da forslaget ble laget.
+        </p>
+        {can("cars.price") && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => resolveMutation.mutate({ id: pending.id, action: "apply" })}
+              disabled={resolveMutation.isPending}
+              data-testid="button-apply-price-suggestion"
+            >
+              Bruk ny pris
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => resolveMutation.mutate({ id: pending.id, action: "dismiss" })}
+              disabled={resolveMutation.isPending}
+              data-testid="button-dismiss-price-suggestion"
+            >
+              Avvis
+            </Button>
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
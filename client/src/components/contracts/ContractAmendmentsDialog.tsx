@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Send, FileSignature, Plus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CONTRACT_STATUS_LABELS,
+  canTransitionAmendment,
+  type AmendmentStatus,
+} from "@shared/contract-lifecycle";
+import {
+  amendmentReference,
+  calculateAmendmentTotal,
+  effectiveSalePrice,
+} from "@shared/contract-render";
+import type { AmendmentKind, Contract, ContractAmendment } from "@shared/schema";
+
+interface ContractAmendmentsDialogProps {
+  contract: Contract;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<AmendmentKind, string> = {
+  tillegg: "Tillegg",
+  kreditnota: "Kreditnota",
+};
+
+function formatPrice(amount: number) {
+  return new Intl.NumberFormat("no-NO", {
+    style: "currency",
+    currency: "NOK",
+    minimumFractionDigits: 0,
+  }).format(amount);
+}
+
+// Amendments and credit notes on a signed contract, each signed on its own
+export default function ContractAmendmentsDialog({ contract, onClose }: ContractAmendmentsDialogProps) {
+  const [kind, setKind] = useState<AmendmentKind>("tillegg");
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [deliveryDate, setDeliveryDate] = useState("");
+  const [addOnDescription, setAddOnDescription] = useState("");
+  const [addOnPrice, setAddOnPrice] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const amendmentsKey = [`/api/contracts/${contract.id}/amendments`];
+  const { data: amendments = [] } = useQuery<ContractAmendment[]>({ queryKey: amendmentsKey });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: amendmentsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/cars"] });
+  };
+
+  const onError = () => {
+    toast({ title: "Feil", description: "Kunne ikke oppdatere tillegget", variant: "destructive" });
+  };
+
+  const resetForm = () => {
+    setDescription("");
+    setAmount("");
+    setDeliveryDate("");
+    setAddOnDescription("");
+    setAddOnPrice("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const value = Number(amount || 0);
+      const response = await apiRequest("POST", `/api/contracts/${contract.id}/amendments`, {
+        kind,
+        description,
+        // Credit notes are entered as the amount to credit and stored as a reduction
+        priceAdjustment: kind === "kreditnota" ? -Math.abs(value) : value,
+        deliveryDate: kind === "tillegg" && deliveryDate ? deliveryDate : null,
+        addOns: kind === "tillegg" && addOnDescription && addOnPrice
+          ? [{ id: crypto.randomUUID(), description: addOnDescription, cost: "0", price: addOnPrice, quantity: 1 }]
+          : [],
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      resetForm();
+      toast({ title: "Opprettet", description: `${KIND_LABELS[kind]} er lagret som utkast` });
+    },
+    onError,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ id, to }: { id: string; to: AmendmentStatus }) => {
+      const response = await apiRequest("POST", `/api/contract-amendments/${id}/transitions`, { to });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/contract-amendments/${id}/send-for-esign`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Sendt", description: "Sendt til kunden for signering" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/contract-amendments/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const busy = transitionMutation.isPending || sendMutation.isPending || deleteMutation.isPending;
+  const canSubmit = description.trim() && (kind === "tillegg" || Number(amount) > 0);
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto" data-testid="dialog-contract-amendments">
+        <DialogHeader>
+          <DialogTitle>Tillegg og kreditnotaer</DialogTitle>
+          <DialogDescription>
+            Endringer etter signering av kontrakt {contract.contractNumber}. Den signerte kontrakten endres ikke.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 rounded-lg bg-muted/50 p-3 text-sm">
+          <div>
+            <p className="text-muted-foreground">Opprinnelig salgspris</p>
+            <p className="font-medium">{formatPrice(Number(contract.salePrice))}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Gjeldende salgspris</p>
+            <p className="font-medium" data-testid="text-effective-price">
+              {formatPrice(effectiveSalePrice(contract.salePrice, amendments))}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {amendments.length === 0 && (
+            <p className="text-sm text-muted-foreground">Ingen tillegg eller kreditnotaer ennå.</p>
+          )}
+          {amendments.map(amendment => (
+            <div key={amendment.id} className="rounded-lg border p-3 space-y-2" data-testid={`amendment-${amendment.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{amendmentReference(contract.contractNumber, amendment.amendmentNumber)}</span>
+                  <Badge variant="outline">{KIND_LABELS[amendment.kind as AmendmentKind] ?? amendment.kind}</Badge>
+                  <Badge variant="secondary">
+                    {CONTRACT_STATUS_LABELS[amendment.status as AmendmentStatus] ?? amendment.status}
+                  </Badge>
+                </div>
+                <span className="font-medium">{formatPrice(calculateAmendmentTotal(amendment))}</span>
+              </div>
+              <p className="text-sm text-muted-foreground">{amendment.description}</p>
+              {amendment.deliveryDate && (
+                <p className="text-sm">Ny leveringsdato: {new Date(amendment.deliveryDate).toLocaleDateString("no-NO")}</p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(amendment.pdfUrl && amendment.status === "signed"
+                    ? amendment.pdfUrl
+                    : `/api/contract-amendments/${amendment.id}/html`, "_blank")}
+                >
+                  <FileText className="w-4 h-4 mr-1" />
+                  Vis
+                </Button>
+                {canTransitionAmendment(amendment.status, "pending_signature") && (
+                  <Button variant="outline" size="sm" disabled={busy} onClick={() => sendMutation.mutate(amendment.id)}>
+                    <Send className="w-4 h-4 mr-1" />
+                    Send til signering
+                  </Button>
+                )}
+                {canTransitionAmendment(amendment.status, "signed") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => transitionMutation.mutate({ id: amendment.id, to: "signed" })}
+                  >
+                    <FileSignature className="w-4 h-4 mr-1" />
+                    Marker som signert
+                  </Button>
+                )}
+                {canTransitionAmendment(amendment.status, "cancelled") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => transitionMutation.mutate({ id: amendment.id, to: "cancelled" })}
+                  >
+                    Kanseller
+                  </Button>
+                )}
+                {amendment.status === "draft" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy}
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => deleteMutation.mutate(amendment.id)}
+                  >
+                    Slett
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as AmendmentKind)}>
+                <SelectTrigger data-testid="select-amendment-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tillegg">Tillegg (endring av vilkår)</SelectItem>
+                  <SelectItem value="kreditnota">Kreditnota (prisavslag)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="amendment-amount">
+                {kind === "kreditnota" ? "Beløp å kreditere" : "Prisjustering (kan være negativ)"}
+              </Label>
+              <Input
+                id="amendment-amount"
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0"
+                data-testid="input-amendment-amount"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="amendment-description">Beskrivelse</Label>
+            <Textarea
+              id="amendment-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder={kind === "kreditnota"
+                ? "F.eks. prisavslag etter reklamasjon på ripe i lakk"
+                : "F.eks. ny leveringsdato eller ekstra utstyr"}
+              rows={3}
+              data-testid="textarea-amendment-description"
+            />
+          </div>
+
+          {kind === "tillegg" && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="amendment-delivery">Ny leveringsdato</Label>
+                <Input
+                  id="amendment-delivery"
+                  type="date"
+                  value={deliveryDate}
+                  onChange={(e) => setDeliveryDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="amendment-addon">Tilleggsutstyr</Label>
+                <Input
+                  id="amendment-addon"
+                  value={addOnDescription}
+                  onChange={(e) => setAddOnDescription(e.target.value)}
+                  placeholder="F.eks. vinterhjul"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="amendment-addon-price">Pris utstyr</Label>
+                <Input
+                  id="amendment-addon-price"
+                  type="number"
+                  value={addOnPrice}
+                  onChange={(e) => setAddOnPrice(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!canSubmit || createMutation.isPending} data-testid="button-create-amendment">
+              <Plus className="w-4 h-4 mr-1" />
+              Opprett {KIND_LABELS[kind].toLowerCase()}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
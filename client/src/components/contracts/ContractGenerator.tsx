@@ -17,6 +17,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, CalendarDays, FileText, Download, Eye } from "lucide-react";
 import { z } from "zod";
+import ContractPreview from "./ContractPreview";
 
 interface ContractGeneratorProps {
   onClose: () => void;
@@ -24,7 +25,7 @@ interface ContractGeneratorProps {
 }
 
 const contractFormSchema = insertContractSchema.extend({
-  contractNumber: z.string().min(1, "Kontraktnummer er påkrevd"),
+  contractNumber: z.string().optional(), // allocated by the server on create
   saleDate: z.string().min(1, "Salgsdato er påkrevd"),
 });
 
@@ -51,7 +52,7 @@ export default function ContractGenerator({ onClose, contract }: ContractGenerat
   const form = useForm<ContractForm>({
     resolver: zodResolver(contractFormSchema),
     defaultValues: {
-      contractNumber: contract?.contractNumber || `KONTRAKT-${Date.now()}`,
+      contractNumber: contract?.contractNumber || "",
       carId: contract?.carId || "",
       customerId: contract?.customerId || "",
       salePrice: contract?.salePrice?.toString() || "0",
@@ -167,84 +168,7 @@ export default function ContractGenerator({ onClose, contract }: ContractGenerat
             </div>
           </DialogHeader>
 
-          <div className="bg-white p-8 border rounded-lg">
-            <div className="text-center mb-8">
-              <h1 className="text-2xl font-bold text-slate-900">SALGSKONTRAKT</h1>
-              <p className="text-slate-600">ForhandlerPRO AS</p>
-            </div>
-
-            <div className="grid grid-cols-2 gap-8 mb-8">
-              <div>
-                <h3 className="font-semibold text-slate-900 mb-2">SELGER</h3>
-                <p className="text-sm text-slate-600">
-                  ForhandlerPRO AS<br />
-                  Org.nr: 123 456 789<br />
-                  Forhandlerveien 1<br />
-                  0123 Oslo
-                </p>
-              </div>
-              <div>
-                <h3 className="font-semibold text-slate-900 mb-2">KJØPER</h3>
-                {selectedCustomer && (
-                  <p className="text-sm text-slate-600">
-                    {selectedCustomer.name}<br />
-                    {selectedCustomer.organizationNumber && `Org.nr: ${selectedCustomer.organizationNumber}`}
-                    {selectedCustomer.personNumber && `Pers.nr: ${selectedCustomer.personNumber}`}<br />
-                    {selectedCustomer.email}<br />
-                    {selectedCustomer.phone}<br />
-                    {selectedCustomer.address}
-                  </p>
-                )}
-              </div>
-            </div>
-
-            <div className="mb-8">
-              <h3 className="font-semibold text-slate-900 mb-4">KJØRETØY</h3>
-              {selectedCar && (
-                <div className="bg-slate-50 p-4 rounded-lg">
-                  <div className="grid grid-cols-2 gap-4 text-sm">
-                    <div>
-                      <span className="font-medium">Merke/Modell:</span> {selectedCar.make} {selectedCar.model}
-                    </div>
-                    <div>
-                      <span className="font-medium">Årsmodell:</span> {selectedCar.year}
-                    </div>
-                    <div>
-                      <span className="font-medium">Reg.nr:</span> {selectedCar.registrationNumber}
-                    </div>
-                    <div>
-                      <span className="font-medium">Kilometerstand:</span> {selectedCar.mileage.toLocaleString('no-NO')} km
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
-
-            <div className="mb-8">
-              <h3 className="font-semibold text-slate-900 mb-4">ØKONOMISKE FORHOLD</h3>
-              <div className="bg-slate-50 p-4 rounded-lg">
-                <div className="flex justify-between items-center text-lg">
-                  <span className="font-medium">Salgspris:</span>
-                  <span className="font-bold">{formatPrice(watchedSalePrice)}</span>
-                </div>
-              </div>
-            </div>
-
-            <div className="border-t pt-8 mt-8">
-              <div className="grid grid-cols-2 gap-8">
-                <div>
-                  <p className="text-sm text-slate-600 mb-4">SELGERS SIGNATUR</p>
-                  <div className="border-b border-slate-400 w-full h-8"></div>
-                  <p className="text-xs text-slate-500 mt-2">Dato og sted</p>
-                </div>
-                <div>
-                  <p className="text-sm text-slate-600 mb-4">KJØPERS SIGNATUR</p>
-                  <div className="border-b border-slate-400 w-full h-8"></div>
-                  <p className="text-xs text-slate-500 mt-2">Dato og sted</p>
-                </div>
-              </div>
-            </div>
-          </div>
+          <ContractPreview contract={form.getValues()} car={selectedCar} customer={selectedCustomer} />
         </DialogContent>
       </Dialog>
     );
@@ -275,7 +199,7 @@ export default function ContractGenerator({ onClose, contract }: ContractGenerat
                       <FormItem>
                         <FormLabel>Kontraktnummer</FormLabel>
                         <FormControl>
-                          <Input {...field} />
+                          <Input {...field} disabled placeholder="Tildeles ved lagring" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -295,29 +219,6 @@ export default function ContractGenerator({ onClose, contract }: ContractGenerat
                       </FormItem>
                     )}
                   />
-
-                  <FormField
-                    control={form.control}
-                    name="status"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Status</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Velg status" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="draft">Utkast</SelectItem>
-                            <SelectItem value="signed">Signert</SelectItem>
-                            <SelectItem value="completed">Fullført</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,58 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  prepareContractData,
+  renderContractTemplate,
+  type ContractCarInput,
+  type ContractCompanyInput,
+  type ContractCustomerInput,
+  type ContractInput,
+} from "@shared/contract-render";
+import type { ContractTemplateVersion } from "@shared/schema";
+
+// Seller details for contract rendering, from the active company and its settings
+export function useContractCompany(): ContractCompanyInput {
+  const { company } = useAuth();
+  const { data: settings } = useQuery<any>({ queryKey: ["/api/settings/company"] });
+
+  return useMemo(() => ({
+    name: company?.name,
+    orgNumber: settings?.organizationNumber,
+    address: settings?.address,
+  }), [company, settings]);
+}
+
+interface ContractPreviewProps {
+  contract: ContractInput;
+  car?: ContractCarInput | null;
+  customer?: ContractCustomerInput | null;
+  className?: string;
+}
+
+// Live preview of an unsaved contract using the company's published template
+export default function ContractPreview({ contract, car, customer, className }: ContractPreviewProps) {
+  const company = useContractCompany();
+  const contractType = contract.contractTemplate || "privatsalg";
+  const { data: published } = useQuery<ContractTemplateVersion | null>({
+    queryKey: ["/api/contract-templates/published", contractType],
+  });
+
+  const html = useMemo(() => {
+    try {
+      return renderContractTemplate(prepareContractData(contract, car, customer, company), published?.body);
+    } catch (error: any) {
+      return `<pre style="color:#b91c1c">Feil i kontraktmalen: ${error.message}</pre>`;
+    }
+  }, [contract, car, customer, company, published]);
+
+  return (
+    <iframe
+      title="Forhåndsvisning av kontrakt"
+      srcDoc={html}
+      sandbox=""
+      className={className ?? "w-full h-[70vh] border rounded-md bg-white"}
+      data-testid="contract-preview"
+    />
+  );
+}
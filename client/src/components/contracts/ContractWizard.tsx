@@ -29,8 +29,10 @@ import {
 import { cn } from "@/lib/utils";
 import { z } from "zod";
 import { debounce } from "@/lib/utils";
-import { renderContractTemplate, prepareContractData } from "@/lib/contracts/render";
+import { calculateContractTotals, renderContractTemplate, prepareContractData } from "@shared/contract-render";
 import { generateAndDownloadPdf, htmlToPdf } from "@/lib/contracts/pdf";
+import { useContractCompany } from "./ContractPreview";
+import { lookupVehicle, cleanRegnr, validateRegnr } from "@/lib/svv";
 
 interface ContractWizardProps {
   open: boolean;
@@ -41,7 +43,7 @@ interface ContractWizardProps {
 
 // Extended form schema with all fields
 const wizardFormSchema = insertContractSchema.extend({
-  contractNumber: z.string().min(1, "Kontraktnummer er påkrevd"),
+  contractNumber: z.string().optional(), // allocated by the server on create
   saleDate: z.string().min(1, "Salgsdato er påkrevd"),
   deliveryDate: z.string().optional(),
   financingType: z.enum(["cash", "loan", "lease"]).default("cash"),
@@ -101,6 +103,31 @@ const ADD_ONS = {
   ]
 };
 
+// Wizard toggles become contract add-on lines so preview, PDF and saved contract agree
+function toContractInput(values: WizardFormData) {
+  const addOns: Array<{ id: string; description: string; cost: string; price: string; quantity: number }> = [];
+  if (values.warranty) {
+    addOns.push({ id: "warranty", description: "Garanti", cost: "0", price: values.warrantyPrice || "0", quantity: 1 });
+  }
+  if (values.insurance) {
+    addOns.push({ id: "insurance", description: "Forsikring", cost: "0", price: values.insurancePrice || "0", quantity: 1 });
+  }
+  if (values.servicePackage) {
+    addOns.push({ id: "service", description: "Servicepakke", cost: "0", price: values.servicePackagePrice || "0", quantity: 1 });
+  }
+  values.accessories?.forEach((acc, index) => {
+    addOns.push({ id: `accessory-${index}`, description: acc.name, cost: "0", price: acc.price || "0", quantity: 1 });
+  });
+
+  return {
+    ...values,
+    contractTemplate: values.tradeInVehicle && (values.contractTemplate ?? "privatsalg") === "privatsalg" ? "innbytte" : values.contractTemplate,
+    addOns,
+    tradeInValuation: values.tradeInVehicle ? values.tradeInValue : null,
+    tradeInRegistration: values.tradeInVehicle ? values.tradeInRegistration : null,
+  };
+}
+
 export default function ContractWizard({ 
   open, 
   onClose, 
@@ -128,6 +155,25 @@ export default function ContractWizard({
   const [lastSaved, setLastSaved] = useState(new Date());
   
   const { toast } = useToast();
+  const sellerCompany = useContractCompany();
+  const [tradeInLookup, setTradeInLookup] = useState<{ loading: boolean; message?: string }>({ loading: false });
+
+  const lookupTradeIn = async () => {
+    const regnr = form.getValues("tradeInRegistration") || "";
+    if (!validateRegnr(regnr)) {
+      setTradeInLookup({ loading: false, message: "Ugyldig registreringsnummer" });
+      return;
+    }
+    setTradeInLookup({ loading: true });
+    const result = await lookupVehicle(cleanRegnr(regnr));
+    form.setValue("tradeInRegistration", cleanRegnr(regnr));
+    setTradeInLookup({
+      loading: false,
+      message: result.ok && result.data
+        ? [result.data.brand, result.data.model, result.data.modelYear].filter(Boolean).join(" ")
+        : result.message || "Fant ikke kjøretøyet",
+    });
+  };
   
   const queryClient = useQueryClient();
   const isEditing = !!contract;
@@ -152,7 +198,7 @@ export default function ContractWizard({
   const form = useForm<WizardFormData>({
     resolver: zodResolver(wizardFormSchema),
     defaultValues: {
-      contractNumber: contract?.contractNumber || `K-${Date.now().toString().slice(-8)}`,
+      contractNumber: contract?.contractNumber || "",
       carId: contract?.carId || prefilledData?.carId || "",
       customerId: contract?.customerId || prefilledData?.customerId || "",
       salePrice: contract?.salePrice?.toString() || "0",
@@ -186,23 +232,9 @@ export default function ContractWizard({
   // Calculate pricing in real-time
   const calculatePricing = useCallback(
     debounce(() => {
-      const basePrice = parseFloat(watchedValues.salePrice || "0");
-      const discount = parseFloat(watchedValues.discount || "0");
-      const tradeIn = parseFloat(watchedValues.tradeInValue || "0");
-      
-      // Calculate add-ons
-      let addOnsTotal = 0;
-      if (watchedValues.warranty) addOnsTotal += parseFloat(watchedValues.warrantyPrice || "0");
-      if (watchedValues.insurance) addOnsTotal += parseFloat(watchedValues.insurancePrice || "0");
-      if (watchedValues.servicePackage) addOnsTotal += parseFloat(watchedValues.servicePackagePrice || "0");
-      
-      watchedValues.accessories?.forEach(acc => {
-        addOnsTotal += parseFloat(acc.price || "0");
-      });
-
-      const subtotal = basePrice + addOnsTotal - discount - tradeIn;
-      const vat = subtotal * 0.25; // 25% MVA
-      const total = subtotal + vat;
+      const totals = calculateContractTotals(toContractInput(watchedValues as WizardFormData));
+      const subtotal = totals.total - totals.vatAmount;
+      const total = totals.total;
 
       // Calculate financing
       const downPayment = parseFloat(watchedValues.downPayment || "0");
@@ -225,12 +257,12 @@ export default function ContractWizard({
       const margin = subtotal > 0 ? (profit / subtotal) * 100 : 0;
 
       setCalculations({
-        basePrice,
-        addOns: addOnsTotal,
-        discount,
-        tradeIn,
+        basePrice: totals.vehiclePrice,
+        addOns: totals.addOnsTotal,
+        discount: totals.discount,
+        tradeIn: totals.tradeInCredit,
         subtotal,
-        vat,
+        vat: totals.vatAmount,
         total,
         profit,
         margin,
@@ -292,8 +324,12 @@ export default function ContractWizard({
   // Mutation for saving contract
   const saveMutation = useMutation({
     mutationFn: async (data: WizardFormData) => {
+      const input = toContractInput(data);
       const contractData = {
         ...data,
+        contractTemplate: input.contractTemplate,
+        addOns: input.addOns,
+        tradeInValuation: input.tradeInValuation,
         saleDate: new Date(data.saleDate),
         deliveryDate: data.deliveryDate ? new Date(data.deliveryDate) : undefined,
         salePrice: parseFloat(data.salePrice),
@@ -717,12 +753,27 @@ export default function ContractWizard({
                                 render={({ field }) => (
                                   <FormItem>
                                     <FormLabel>Innbytte reg.nr</FormLabel>
-                                    <FormControl>
-                                      <Input
-                                        {...field}
-                                        placeholder="XX12345"
-                                      />
-                                    </FormControl>
+                                    <div className="flex gap-2">
+                                      <FormControl>
+                                        <Input
+                                          {...field}
+                                          value={field.value ?? ""}
+                                          placeholder="XX12345"
+                                        />
+                                      </FormControl>
+                                      <Button
+                                        type="button"
+                                        variant="outline"
+                                        onClick={lookupTradeIn}
+                                        disabled={tradeInLookup.loading}
+                                        data-testid="button-trade-in-lookup"
+                                      >
+                                        {tradeInLookup.loading ? "Søker..." : "Slå opp"}
+                                      </Button>
+                                    </div>
+                                    {tradeInLookup.message && (
+                                      <p className="text-sm text-muted-foreground">{tradeInLookup.message}</p>
+                                    )}
                                   </FormItem>
                                 )}
                               />
@@ -925,7 +976,7 @@ export default function ContractWizard({
                           <div className="rounded-lg bg-muted p-4 space-y-3">
                             <div className="flex justify-between items-center">
                               <span className="font-medium">Kontraktnummer:</span>
-                              <Badge variant="outline">{watchedValues.contractNumber}</Badge>
+                              <Badge variant="outline">{watchedValues.contractNumber || "Tildeles ved lagring"}</Badge>
                             </div>
                             <Separator />
                             <div className="space-y-2">
@@ -981,30 +1032,6 @@ export default function ContractWizard({
                               </FormItem>
                             )}
                           />
-
-                          <FormField
-                            control={form.control}
-                            name="status"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Status</FormLabel>
-                                <Select onValueChange={field.onChange} value={field.value || ""}>
-                                  <FormControl>
-                                    <SelectTrigger>
-                                      <SelectValue placeholder="Velg status" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent className="max-h-60 overflow-y-auto">
-                                    <SelectItem value="draft">Utkast</SelectItem>
-                                    <SelectItem value="pending">Venter</SelectItem>
-                                    <SelectItem value="signed">Signert</SelectItem>
-                                    <SelectItem value="completed">Fullført</SelectItem>
-                                    <SelectItem value="cancelled">Kansellert</SelectItem>
-                                  </SelectContent>
-                                </Select>
-                              </FormItem>
-                            )}
-                          />
                         </CardContent>
                       </Card>
 
@@ -1024,10 +1051,10 @@ export default function ContractWizard({
                                 
                                 // Prepare contract data
                                 const contractData = prepareContractData(
-                                  formData,
+                                  toContractInput(formData),
                                   selectedCar,
                                   selectedCustomer,
-                                  { name: "ForhandlerPRO AS", orgNumber: "123456789" } // TODO: Get from auth context
+                                  sellerCompany
                                 );
                                 
                                 // Generate HTML
@@ -1068,10 +1095,10 @@ export default function ContractWizard({
                                 
                                 // Prepare contract data
                                 const contractData = prepareContractData(
-                                  formData,
+                                  toContractInput(formData),
                                   selectedCar,
                                   selectedCustomer,
-                                  { name: "ForhandlerPRO AS", orgNumber: "123456789" } // TODO: Get from auth context
+                                  sellerCompany
                                 );
                                 
                                 // Generate HTML
@@ -1242,27 +1269,18 @@ export default function ContractWizard({
 
                 <Separator />
 
-                <div className="space-y-2">
-                  <div className="flex justify-between">
-                    <span>Sum eks MVA:</span>
-                    <span className="font-semibold">
-                      kr {calculations.subtotal.toLocaleString()}
-                    </span>
-                  </div>
-                  
-                  <div className="flex justify-between text-sm text-muted-foreground">
-                    <span>MVA (25%):</span>
-                    <span>+ kr {calculations.vat.toLocaleString()}</span>
-                  </div>
-                </div>
-
-                <Separator className="border-2" />
-
                 <div className="flex justify-between text-lg font-bold">
                   <span>TOTALT:</span>
                   <span>kr {calculations.total.toLocaleString()}</span>
                 </div>
 
+                {calculations.vat > 0 && (
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Herav MVA (25%):</span>
+                    <span>kr {calculations.vat.toLocaleString()}</span>
+                  </div>
+                )}
+
                 {watchedValues.financingType === "loan" && calculations.monthlyPayment > 0 && (
                   <>
                     <Separator />
@@ -47,6 +47,7 @@ import {
   Calculator, TrendingUp, TrendingDown, AlertTriangle,
   FileText, PenTool, CheckCircle, Clock, X
 } from "lucide-react";
+import ContractPreview from "./ContractPreview";
 
 interface EnhancedContractGeneratorProps {
   onClose: () => void;
@@ -56,7 +57,7 @@ interface EnhancedContractGeneratorProps {
 
 // Contract form schema with enhanced validation
 const contractFormSchema = z.object({
-  contractNumber: z.string().min(1, "Kontraktnummer er påkrevd"),
+  contractNumber: z.string().optional(), // allocated by the server on create
   contractTemplate: z.enum(["privatsalg", "innbytte", "kommisjon", "mva_pliktig"]),
   carId: z.string().min(1, "Bil må velges"),
   customerId: z.string().min(1, "Kunde må velges"),
@@ -142,7 +143,7 @@ export default function EnhancedContractGenerator({ onClose, contract, prefilled
   const form = useForm<ContractForm>({
     resolver: zodResolver(contractFormSchema),
     defaultValues: {
-      contractNumber: contract?.contractNumber || `KONTRAKT-${Date.now()}`,
+      contractNumber: contract?.contractNumber || "",
       contractTemplate: (contract as any)?.contractTemplate || "privatsalg",
       carId: contract?.carId || prefilledData?.carId || "",
       customerId: contract?.customerId || prefilledData?.customerId || "",
@@ -384,18 +385,7 @@ export default function EnhancedContractGenerator({ onClose, contract, prefilled
             </div>
           </DialogHeader>
           
-          {/* PDF Preview will be implemented here */}
-          <div className="bg-white p-8 border rounded-lg">
-            <div className="text-center mb-8">
-              <h1 className="text-2xl font-bold text-slate-900">SALGSKONTRAKT</h1>
-              <p className="text-slate-600">ForhandlerPRO AS - {contractTemplates[currentTemplate].name}</p>
-            </div>
-            
-            {/* Contract content will be detailed here */}
-            <div className="text-center text-slate-500 py-8">
-              PDF preview coming soon...
-            </div>
-          </div>
+          <ContractPreview contract={form.getValues()} car={selectedCar} customer={selectedCustomer} />
         </DialogContent>
       </Dialog>
     );
@@ -481,7 +471,7 @@ export default function EnhancedContractGenerator({ onClose, contract, prefilled
                         <FormItem>
                           <FormLabel>Kontraktnummer</FormLabel>
                           <FormControl>
-                            <Input {...field} data-testid="input-contract-number" />
+                            <Input {...field} disabled placeholder="Tildeles ved lagring" data-testid="input-contract-number" />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -8,7 +8,19 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import type { InsertFollowup } from '@shared/schema';
+import { FOLLOWUP_TYPE_LABELS, RECURRENCE_UNIT_LABELS } from '@/lib/followups';
+import { memberName, type TeamMember } from '@/lib/recon';
+import {
+  FOLLOWUP_RECURRENCE_UNITS,
+  FOLLOWUP_TYPES,
+  type FollowupRecurrenceUnit,
+  type FollowupType,
+  type InsertFollowup,
+  type User,
+} from '@shared/schema';
+
+const NO_RECURRENCE = 'none';
+const ME = 'me';
 
 interface CreateFollowupModalProps {
   customerId: string;
@@ -18,30 +30,25 @@ interface CreateFollowupModalProps {
 }
 
 export function CreateFollowupModal({ customerId, customerName, onClose, onSuccess }: CreateFollowupModalProps) {
+  const [type, setType] = useState<FollowupType>('call');
   const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('09:00');
   const [note, setNote] = useState('');
-  const [assignedUserId, setAssignedUserId] = useState('');
+  const [assignedUserId, setAssignedUserId] = useState(ME);
+  const [recurrenceUnit, setRecurrenceUnit] = useState<FollowupRecurrenceUnit | typeof NO_RECURRENCE>(NO_RECURRENCE);
+  const [recurrenceInterval, setRecurrenceInterval] = useState('1');
   const { toast } = useToast();
+  const { data: currentUser } = useQuery<User>({ queryKey: ['/api/auth/user'] });
 
-  // Get user info for default assignment
-  const { data: currentUser } = useQuery({
-    queryKey: ['/api/auth/user'],
-    queryFn: () => apiRequest('/api/auth/user'),
+  const { data: members = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team/members'],
   });
-
-  // Set default assignment to current user
-  React.useEffect(() => {
-    if (currentUser && !assignedUserId) {
-      setAssignedUserId(currentUser.id);
-    }
-  }, [currentUser, assignedUserId]);
+  const otherMembers = members.filter(member => member.userId !== currentUser?.id);
 
   const createFollowupMutation = useMutation({
     mutationFn: async (followupData: InsertFollowup) => {
-      return apiRequest('/api/followups', {
-        method: 'POST',
-        body: JSON.stringify(followupData),
-      });
+      const response = await apiRequest('POST', '/api/followups', followupData);
+      return response.json();
     },
     onSuccess: () => {
       toast({
@@ -71,11 +78,16 @@ export function CreateFollowupModal({ customerId, customerName, onClose, onSucce
       return;
     }
 
+    const recurring = recurrenceUnit !== NO_RECURRENCE;
     createFollowupMutation.mutate({
       customerId,
-      userId: assignedUserId || currentUser?.id || '',
-      dueDate,
+      userId: assignedUserId === ME ? undefined : assignedUserId,
+      type,
+      // Local date and time, sent as an instant
+      dueAt: new Date(`${dueDate}T${dueTime || '09:00'}`),
       note: note.trim() || null,
+      recurrenceUnit: recurring ? recurrenceUnit : null,
+      recurrenceInterval: recurring ? Math.max(1, Number(recurrenceInterval) || 1) : null,
     });
   };
 
@@ -97,17 +109,40 @@ export function CreateFollowupModal({ customerId, customerName, onClose, onSucce
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as FollowupType)}>
+              <SelectTrigger data-testid="select-followup-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FOLLOWUP_TYPES.map(followupType => (
+                  <SelectItem key={followupType} value={followupType}>{FOLLOWUP_TYPE_LABELS[followupType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="due-date">Forfallsdato</Label>
-            <Input
-              id="due-date"
-              type="date"
-              value={dueDate}
-              onChange={(e) => setDueDate(e.target.value)}
-              min={new Date().toISOString().split('T')[0]}
-              data-testid="input-due-date"
-              required
-            />
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                id="due-date"
+                type="date"
+                className="col-span-2"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                min={new Date().toISOString().split('T')[0]}
+                data-testid="input-due-date"
+                required
+              />
+              <Input
+                type="time"
+                value={dueTime}
+                onChange={(e) => setDueTime(e.target.value)}
+                data-testid="input-due-time"
+              />
+            </div>
             <div className="flex space-x-2">
               <Button
                 type="button"
@@ -139,6 +174,40 @@ export function CreateFollowupModal({ customerId, customerName, onClose, onSucce
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>Gjentas</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Select
+                value={recurrenceUnit}
+                onValueChange={(value) => setRecurrenceUnit(value as FollowupRecurrenceUnit | typeof NO_RECURRENCE)}
+              >
+                <SelectTrigger className="col-span-2" data-testid="select-recurrence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_RECURRENCE}>Ikke gjenta</SelectItem>
+                  {FOLLOWUP_RECURRENCE_UNITS.map(unit => (
+                    <SelectItem key={unit} value={unit}>Hver {RECURRENCE_UNIT_LABELS[unit]} (antall)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="1"
+                max="120"
+                value={recurrenceInterval}
+                onChange={(e) => setRecurrenceInterval(e.target.value)}
+                disabled={recurrenceUnit === NO_RECURRENCE}
+                data-testid="input-recurrence-interval"
+              />
+            </div>
+            {recurrenceUnit !== NO_RECURRENCE && (
+              <p className="text-xs text-muted-foreground">
+                Når oppfølgingen lukkes, opprettes neste med samme intervall fra forfallsdatoen
+              </p>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="note">Notat (valgfritt)</Label>
             <Textarea
@@ -158,11 +227,12 @@ export function CreateFollowupModal({ customerId, customerName, onClose, onSucce
                 <SelectValue placeholder="Velg bruker" />
               </SelectTrigger>
               <SelectContent>
-                {currentUser && (
-                  <SelectItem value={currentUser.id} data-testid={`user-option-${currentUser.id}`}>
-                    {currentUser.email} (deg)
+                <SelectItem value={ME}>Meg</SelectItem>
+                {otherMembers.map(member => (
+                  <SelectItem key={member.userId} value={member.userId} data-testid={`user-option-${member.userId}`}>
+                    {memberName(member)}
                   </SelectItem>
-                )}
+                ))}
               </SelectContent>
             </Select>
           </div>
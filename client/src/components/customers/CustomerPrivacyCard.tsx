@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle, Download, ShieldOff, XCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Customer, PrivacyRequest, PrivacyRequestOutcome } from '@shared/schema';
+
+const OUTCOME_LABELS: Record<PrivacyRequestOutcome, string> = {
+  exported: 'Innsyn utlevert',
+  deleted: 'Slettet',
+  pseudonymized: 'Anonymisert',
+};
+
+type PrivacyRequestEntry = PrivacyRequest & { requestedByName: string | null };
+
+// Consent, access and erasure requests for one customer, with the audit trail
+export function CustomerPrivacyCard({ customer }: { customer: Customer }) {
+  const [, setLocation] = useLocation();
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const queryClient = useQueryClient();
+  const canHandle = can('customers.privacy');
+  const requestsKey = [`/api/customers/${customer.id}/privacy/requests`];
+
+  const { data: requests = [] } = useQuery<PrivacyRequestEntry[]>({
+    queryKey: requestsKey,
+    enabled: canHandle,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/customers/${customer.id}/privacy/export`);
+      return response.blob();
+    },
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `kundedata-${customer.id}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      queryClient.invalidateQueries({ queryKey: requestsKey });
+    },
+    onError: () => {
+      toast({ title: 'Feil', description: 'Kunne ikke hente ut kundedata', variant: 'destructive' });
+    },
+  });
+
+  const eraseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/customers/${customer.id}/privacy/erase`, { reason: reason.trim() || null });
+      return response.json() as Promise<PrivacyRequest>;
+    },
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/followups'] });
+      if (request.outcome === 'deleted') {
+        toast({ title: 'Kunde slettet', description: 'Alle opplysninger om kunden er slettet' });
+        setLocation('/customers');
+        return;
+      }
+      toast({
+        title: 'Kunde anonymisert',
+        description: 'Kontaktopplysningene er slettet. Kontraktene beholdes til oppbevaringstiden er ute.',
+      });
+      queryClient.invalidateQueries({ queryKey: requestsKey });
+      setReason('');
+    },
+    onError: () => {
+      toast({ title: 'Feil', description: 'Kunne ikke slette kundedata', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personvern</CardTitle>
+        <CardDescription>Samtykke, innsyn og sletting</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          {customer.gdprConsent ? (
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          ) : (
+            <XCircle className="h-4 w-4 text-muted-foreground" />
+          )}
+          <span className="text-sm">
+            {customer.gdprConsent ? 'GDPR-samtykke gitt' : 'Samtykke ikke registrert'}
+          </span>
+          {customer.gdprConsent && customer.gdprConsentAt && (
+            <span className="text-xs text-muted-foreground">
+              {new Date(customer.gdprConsentAt).toLocaleDateString('no-NO')}
+            </span>
+          )}
+        </div>
+
+        {customer.erasedAt && (
+          <Badge variant="secondary" data-testid="badge-customer-erased">
+            Anonymisert {new Date(customer.erasedAt).toLocaleDateString('no-NO')}
+          </Badge>
+        )}
+
+        {canHandle && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => exportMutation.mutate()}
+                disabled={exportMutation.isPending}
+                data-testid="button-export-customer-data"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Last ned kundedata
+              </Button>
+              {!customer.erasedAt && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="destructive" data-testid="button-erase-customer">
+                      <ShieldOff className="h-4 w-4 mr-2" />
+                      Slett kundedata
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Slette opplysninger om {customer.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Oppfølginger og aktivitetshistorikk slettes. Har kunden kontrakter, beholdes de som
+                        regnskapsbilag i oppbevaringstiden, og kunden anonymiseres i stedet for å slettes.
+                        Dette kan ikke angres.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="space-y-2">
+                      <Label htmlFor="erase-reason">Begrunnelse</Label>
+                      <Textarea
+                        id="erase-reason"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="F.eks. slettekrav fra kunden på e-post 12. mars"
+                        maxLength={500}
+                        rows={3}
+                      />
+                    </div>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Avbryt</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => eraseMutation.mutate()}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        Slett
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+
+            {requests.length > 0 && (
+              <div className="pt-2 border-t space-y-2">
+                <p className="text-sm text-muted-foreground">Behandlede forespørsler</p>
+                {requests.map(request => (
+                  <div key={request.id} className="text-sm" data-testid={`privacy-request-${request.id}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{OUTCOME_LABELS[request.outcome]}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {request.createdAt && new Date(request.createdAt).toLocaleDateString('no-NO')}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {request.requestedByName ?? 'Automatisk sletting'}
+                      {request.reason && ` · ${request.reason}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -7,40 +7,37 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Phone, Mail, MapPin, Calendar, Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
-import type { Customer, Car, Contract, Followup, Activity } from '@shared/schema';
+import { Phone, Mail, MapPin, MessageSquare } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Customer, Car, Contract, CustomerMessageWithSender, Followup, MessageChannel } from '@shared/schema';
 import { CreateFollowupModal } from './CreateFollowupModal';
+import { CustomerPrivacyCard } from './CustomerPrivacyCard';
+import { CustomerTimeline } from './CustomerTimeline';
+import { FollowupItem } from './FollowupItem';
+import { LogInboundMessageDialog } from './LogInboundMessageDialog';
+import { SendMessageDialog } from './SendMessageDialog';
+import { isOverdue } from '@/lib/followups';
+import { customerTimeline } from '@/lib/messages';
 
 interface CustomerProfileData {
   customer: Customer;
   cars: Car[];
   contracts: Contract[];
   followups: Followup[];
-  activities: Activity[];
+  messages: CustomerMessageWithSender[];
 }
 
 export function CustomerProfile({ customerId }: { customerId: string }) {
   const [, setLocation] = useLocation();
   const [showFollowupModal, setShowFollowupModal] = useState(false);
+  const [messageChannel, setMessageChannel] = useState<MessageChannel | null>(null);
+  const [showInboundDialog, setShowInboundDialog] = useState(false);
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canMessage = can('customers.manage');
 
   const { data: profile, isLoading, error } = useQuery<CustomerProfileData>({
     queryKey: ['/api/customers', customerId, 'profile'],
-    queryFn: () => apiRequest(`/api/customers/${customerId}/profile`),
-  });
-
-  const updateFollowupMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: 'DONE' | 'SKIPPED' }) => {
-      return apiRequest(`/api/followups/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify({ status }),
-      });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/customers', customerId, 'profile'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/followups'] });
-    },
   });
 
   if (isLoading) {
@@ -60,7 +57,9 @@ export function CustomerProfile({ customerId }: { customerId: string }) {
     );
   }
 
-  const { customer, cars, contracts, followups, activities } = profile;
+  const { customer, cars, contracts, followups, messages } = profile;
+  const timeline = customerTimeline(messages, followups, contracts);
+  const canContact = canMessage && !customer.erasedAt;
 
   // Calculate customer metrics
   const totalPurchases = contracts.filter(c => c.status === 'completed').length;
@@ -69,10 +68,10 @@ export function CustomerProfile({ customerId }: { customerId: string }) {
     .reduce((sum, c) => sum + Number(c.salePrice || 0), 0);
 
   const openFollowups = followups.filter(f => f.status === 'OPEN');
-  const overdueFollowups = openFollowups.filter(f => new Date(f.dueDate) < new Date());
+  const overdueFollowups = openFollowups.filter(f => isOverdue(f));
 
   // Determine customer temperature (Hot/Warm/Cold)
-  const lastActivityDate = activities[0]?.createdAt ? new Date(activities[0].createdAt) : null;
+  const lastActivityDate = timeline[0]?.at ?? null;
   const daysSinceLastActivity = lastActivityDate 
     ? Math.floor((new Date().getTime() - lastActivityDate.getTime()) / (1000 * 60 * 60 * 24))
     : null;
@@ -90,15 +89,8 @@ export function CustomerProfile({ customerId }: { customerId: string }) {
     }
   }
 
-  const getActivityIcon = (type: string) => {
-    switch (type) {
-      case 'CUSTOMER_CREATED': return '👤';
-      case 'CAR_SOLD': return '🚗';
-      case 'CONTRACT_SIGNED': return '📄';
-      case 'FOLLOWUP_CREATED': return '📝';
-      case 'ALERT': return '🔔';
-      default: return '📋';
-    }
+  const refreshProfile = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/customers', customerId, 'profile'] });
   };
 
   return (
@@ -144,8 +136,14 @@ export function CustomerProfile({ customerId }: { customerId: string }) {
               Ring
             </Button>
           )}
-          {customer.email && (
-            <Button size="sm" variant="outline" data-testid="button-email">
+          {customer.phone && canContact && (
+            <Button size="sm" variant="outline" onClick={() => setMessageChannel('sms')} data-testid="button-sms">
+              <MessageSquare className="h-4 w-4 mr-2" />
+              SMS
+            </Button>
+          )}
+          {customer.email && canContact && (
+            <Button size="sm" variant="outline" onClick={() => setMessageChannel('email')} data-testid="button-email">
               <Mail className="h-4 w-4 mr-2" />
               E-post
             </Button>
@@ -219,36 +217,24 @@ export function CustomerProfile({ customerId }: { customerId: string }) {
 
             <TabsContent value="timeline" className="mt-6">
               <Card>
-                <CardHeader>
-                  <CardTitle>Aktivitetstidslinje</CardTitle>
-                  <CardDescription>Alle hendelser knyttet til denne kunden</CardDescription>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <div>
+                    <CardTitle>Aktivitetstidslinje</CardTitle>
+                    <CardDescription>Meldinger, oppfølginger og kontrakter for denne kunden</CardDescription>
+                  </div>
+                  {canMessage && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setShowInboundDialog(true)}
+                      data-testid="button-log-inbound"
+                    >
+                      Registrer mottatt
+                    </Button>
+                  )}
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4 max-h-96 overflow-y-auto">
-                    {activities.map((activity, index) => (
-                      <div key={activity.id} className="flex items-start space-x-4 border-l-2 border-muted pl-4 pb-4">
-                        <div className="text-2xl">
-                          {getActivityIcon(activity.type)}
-                        </div>
-                        <div className="flex-1">
-                          <p className="font-medium" data-testid={`activity-description-${index}`}>
-                            {activity.description}
-                          </p>
-                          <p className="text-sm text-muted-foreground">
-                            {new Date(activity.createdAt!).toLocaleString('no-NO')}
-                          </p>
-                          {activity.priority === 'HIGH' && (
-                            <Badge variant="destructive" className="mt-1">Høy prioritet</Badge>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                    {activities.length === 0 && (
-                      <p className="text-center text-muted-foreground py-8">
-                        Ingen aktiviteter registrert
-                      </p>
-                    )}
-                  </div>
+                  <CustomerTimeline entries={timeline} />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -375,73 +361,9 @@ export function CustomerProfile({ customerId }: { customerId: string }) {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {followups.map((followup) => {
-                  const isOverdue = new Date(followup.dueDate) < new Date() && followup.status === 'OPEN';
-                  const isDueToday = new Date(followup.dueDate).toDateString() === new Date().toDateString();
-
-                  return (
-                    <div 
-                      key={followup.id} 
-                      className={`p-3 rounded-lg border ${
-                        isOverdue ? 'border-red-200 bg-red-50' : 
-                        isDueToday ? 'border-yellow-200 bg-yellow-50' : 
-                        'border-muted bg-muted/50'
-                      }`}
-                      data-testid={`followup-${followup.id}`}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-2">
-                            <Calendar className="h-4 w-4" />
-                            <span className="text-sm font-medium">
-                              {new Date(followup.dueDate).toLocaleDateString('no-NO')}
-                            </span>
-                            {isOverdue && <AlertCircle className="h-4 w-4 text-red-500" />}
-                            {isDueToday && <Clock className="h-4 w-4 text-yellow-500" />}
-                          </div>
-                          {followup.note && (
-                            <p className="text-sm text-muted-foreground mt-1">
-                              {followup.note}
-                            </p>
-                          )}
-                          <div className="flex items-center justify-between mt-2">
-                            <Badge 
-                              variant={
-                                followup.status === 'DONE' ? 'default' : 
-                                followup.status === 'SKIPPED' ? 'secondary' : 'outline'
-                              }
-                            >
-                              {followup.status === 'DONE' ? 'Fullført' : 
-                               followup.status === 'SKIPPED' ? 'Hoppet over' : 'Åpen'}
-                            </Badge>
-                            {followup.status === 'OPEN' && (
-                              <div className="flex space-x-1">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => updateFollowupMutation.mutate({ id: followup.id, status: 'DONE' })}
-                                  disabled={updateFollowupMutation.isPending}
-                                  data-testid={`button-complete-${followup.id}`}
-                                >
-                                  <CheckCircle className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => updateFollowupMutation.mutate({ id: followup.id, status: 'SKIPPED' })}
-                                  disabled={updateFollowupMutation.isPending}
-                                  data-testid={`button-skip-${followup.id}`}
-                                >
-                                  <XCircle className="h-4 w-4" />
-                                </Button>
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
+                {followups.map((followup) => (
+                  <FollowupItem key={followup.id} followup={followup} customerId={customerId} />
+                ))}
                 
                 {followups.length === 0 && (
                   <p className="text-center text-muted-foreground py-4">
@@ -489,25 +411,38 @@ export function CustomerProfile({ customerId }: { customerId: string }) {
                   </p>
                 </div>
               )}
-
-              {customer.gdprConsent && (
-                <div className="pt-2 border-t">
-                  <div className="flex items-center space-x-2">
-                    <CheckCircle className="h-4 w-4 text-green-500" />
-                    <span className="text-sm">GDPR-samtykke gitt</span>
-                  </div>
-                  {customer.gdprConsentAt && (
-                    <p className="text-xs text-muted-foreground">
-                      {new Date(customer.gdprConsentAt).toLocaleDateString('no-NO')}
-                    </p>
-                  )}
-                </div>
-              )}
             </CardContent>
           </Card>
+
+          <CustomerPrivacyCard customer={customer} />
         </div>
       </div>
 
+      {messageChannel && (
+        <SendMessageDialog
+          customer={customer}
+          cars={cars}
+          contracts={contracts}
+          initialChannel={messageChannel}
+          onClose={() => setMessageChannel(null)}
+          onSuccess={() => {
+            setMessageChannel(null);
+            refreshProfile();
+          }}
+        />
+      )}
+
+      {showInboundDialog && (
+        <LogInboundMessageDialog
+          customer={customer}
+          onClose={() => setShowInboundDialog(false)}
+          onSuccess={() => {
+            setShowInboundDialog(false);
+            refreshProfile();
+          }}
+        />
+      )}
+
       {/* Follow-up Creation Modal */}
       {showFollowupModal && (
         <CreateFollowupModal
@@ -516,7 +451,7 @@ export function CustomerProfile({ customerId }: { customerId: string }) {
           onClose={() => setShowFollowupModal(false)}
           onSuccess={() => {
             setShowFollowupModal(false);
-            queryClient.invalidateQueries({ queryKey: ['/api/customers', customerId, 'profile'] });
+            refreshProfile();
             queryClient.invalidateQueries({ queryKey: ['/api/followups'] });
           }}
         />
@@ -0,0 +1,69 @@
+import { Badge } from '@/components/ui/badge';
+import { ArrowDownLeft, ArrowUpRight, CheckCircle, FileText, Mail, MessageSquare, XCircle } from 'lucide-react';
+import { MESSAGE_CHANNEL_LABELS, MESSAGE_STATUS_LABELS, type TimelineEntry } from '@/lib/messages';
+import type { CustomerMessageWithSender } from '@shared/schema';
+
+function MessageEntry({ message }: { message: CustomerMessageWithSender }) {
+  const ChannelIcon = message.channel === 'email' ? Mail : MessageSquare;
+  const DirectionIcon = message.direction === 'inbound' ? ArrowDownLeft : ArrowUpRight;
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <ChannelIcon className="h-4 w-4 text-muted-foreground" />
+        <DirectionIcon className="h-3 w-3 text-muted-foreground" />
+        <span className="font-medium">
+          {message.direction === 'inbound' ? 'Fra kunden' : message.createdByName ? `Fra ${message.createdByName}` : 'Sendt'}
+        </span>
+        <Badge variant="outline">{MESSAGE_CHANNEL_LABELS[message.channel]}</Badge>
+        {message.status === 'failed' && <Badge variant="destructive">{MESSAGE_STATUS_LABELS.failed}</Badge>}
+      </div>
+      {message.subject && <p className="text-sm font-medium mt-1">{message.subject}</p>}
+      <p className="text-sm text-muted-foreground whitespace-pre-wrap mt-1">{message.body}</p>
+      {message.error && <p className="text-xs text-red-600 mt-1">{message.error}</p>}
+    </>
+  );
+}
+
+// Messages, closed follow-ups and contracts for one customer, newest first
+export function CustomerTimeline({ entries }: { entries: TimelineEntry[] }) {
+  if (entries.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        Ingen aktiviteter registrert
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+      {entries.map(entry => {
+        const key = entry.kind === 'message' ? entry.message.id
+          : entry.kind === 'followup' ? entry.followup.id
+          : entry.contract.id;
+        return (
+          <div key={`${entry.kind}-${key}`} className="border-l-2 border-muted pl-4 pb-2" data-testid={`timeline-${entry.kind}-${key}`}>
+            {entry.kind === 'message' && <MessageEntry message={entry.message} />}
+            {entry.kind === 'followup' && (
+              <>
+                <div className="flex items-center gap-2">
+                  {entry.followup.status === 'DONE'
+                    ? <CheckCircle className="h-4 w-4 text-green-600" />
+                    : <XCircle className="h-4 w-4 text-muted-foreground" />}
+                  <span className="font-medium">{entry.title}</span>
+                </div>
+                {entry.followup.note && <p className="text-sm text-muted-foreground mt-1">{entry.followup.note}</p>}
+              </>
+            )}
+            {entry.kind === 'contract' && (
+              <div className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">Kontrakt #{entry.contract.contractNumber} opprettet</span>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">{entry.at.toLocaleString('no-NO')}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Calendar, CheckCircle, Clock, Repeat, Workflow, XCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  FOLLOWUP_STATUS_LABELS,
+  FOLLOWUP_TYPE_LABELS,
+  formatDueAt,
+  isDueToday,
+  isOverdue,
+  recurrenceLabel,
+} from '@/lib/followups';
+import { memberName, type TeamMember } from '@/lib/recon';
+import type { Followup, FollowupStatus } from '@shared/schema';
+
+interface FollowupItemProps {
+  followup: Followup;
+  customerId: string;
+}
+
+// One follow-up on the customer profile: close it or hand it to someone else
+export function FollowupItem({ followup, customerId }: FollowupItemProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can('customers.manage') && followup.status === 'OPEN';
+
+  const { data: members = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team/members'],
+    enabled: canManage,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: { status: FollowupStatus } | { userId: string }) => {
+      const response = await apiRequest('PUT', `/api/followups/${followup.id}`, update);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers', customerId, 'profile'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/followups'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/followups/today'] });
+    },
+    onError: () => {
+      toast({ title: 'Feil', description: 'Kunne ikke oppdatere oppfølgingen', variant: 'destructive' });
+    },
+  });
+
+  const overdue = isOverdue(followup);
+  const dueToday = followup.status === 'OPEN' && isDueToday(followup);
+  const recurrence = recurrenceLabel(followup);
+
+  return (
+    <div
+      className={`p-3 rounded-lg border ${
+        overdue ? 'border-red-200 bg-red-50' :
+        dueToday ? 'border-yellow-200 bg-yellow-50' :
+        'border-muted bg-muted/50'
+      }`}
+      data-testid={`followup-${followup.id}`}
+    >
+      <div className="flex items-center space-x-2">
+        <Calendar className="h-4 w-4" />
+        <span className="text-sm font-medium">{formatDueAt(followup.dueAt)}</span>
+        <Badge variant="outline">{FOLLOWUP_TYPE_LABELS[followup.type]}</Badge>
+        {followup.playbookId && (
+          <Badge variant="secondary" className="gap-1" title="Opprettet av en oppfølgingsplan">
+            <Workflow className="h-3 w-3" />
+            Automatisk
+          </Badge>
+        )}
+        {overdue && <AlertCircle className="h-4 w-4 text-red-500" />}
+        {dueToday && !overdue && <Clock className="h-4 w-4 text-yellow-500" />}
+      </div>
+      {recurrence && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+          <Repeat className="h-3 w-3" />
+          {recurrence}
+        </p>
+      )}
+      {followup.note && (
+        <p className="text-sm text-muted-foreground mt-1">{followup.note}</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <Badge
+          variant={
+            followup.status === 'DONE' ? 'default' :
+            followup.status === 'SKIPPED' ? 'secondary' : 'outline'
+          }
+        >
+          {FOLLOWUP_STATUS_LABELS[followup.status]}
+        </Badge>
+        {canManage && (
+          <div className="flex space-x-1">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateMutation.mutate({ status: 'DONE' })}
+              disabled={updateMutation.isPending}
+              data-testid={`button-complete-${followup.id}`}
+            >
+              <CheckCircle className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateMutation.mutate({ status: 'SKIPPED' })}
+              disabled={updateMutation.isPending}
+              data-testid={`button-skip-${followup.id}`}
+            >
+              <XCircle className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {canManage && members.length > 1 && (
+        <Select
+          value={followup.userId}
+          onValueChange={(userId) => updateMutation.mutate({ userId })}
+          disabled={updateMutation.isPending}
+        >
+          <SelectTrigger className="h-8 mt-2" data-testid={`select-followup-assignee-${followup.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {members.map(member => (
+              <SelectItem key={member.userId} value={member.userId}>{memberName(member)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { MESSAGE_CHANNEL_LABELS } from '@/lib/messages';
+import { MESSAGE_CHANNELS, type Customer, type LogInboundMessage, type MessageChannel } from '@shared/schema';
+
+interface LogInboundMessageDialogProps {
+  customer: Customer;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Add a message the customer sent outside the CRM, such as an email reply
+export function LogInboundMessageDialog({ customer, onClose, onSuccess }: LogInboundMessageDialogProps) {
+  const [channel, setChannel] = useState<MessageChannel>('email');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const { toast } = useToast();
+
+  const logMutation = useMutation({
+    mutationFn: async (message: LogInboundMessage) => {
+      const response = await apiRequest('POST', `/api/customers/${customer.id}/messages/inbound`, message);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Melding registrert', description: `Meldingen fra ${customer.name} er lagt i loggen` });
+      onSuccess();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Feil',
+        description: error.message || 'Kunne ikke registrere meldingen',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    logMutation.mutate({
+      channel,
+      subject: channel === 'email' ? subject.trim() || null : null,
+      body: body.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]" data-testid="modal-log-inbound-message">
+        <DialogHeader>
+          <DialogTitle>Registrer mottatt melding</DialogTitle>
+          <DialogDescription>
+            SMS-svar registreres automatisk. Bruk dette for e-post og meldinger mottatt andre steder.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Kanal</Label>
+            <Select value={channel} onValueChange={(value) => setChannel(value as MessageChannel)}>
+              <SelectTrigger data-testid="select-inbound-channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MESSAGE_CHANNELS.map(option => (
+                  <SelectItem key={option} value={option}>{MESSAGE_CHANNEL_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {channel === 'email' && (
+            <div className="space-y-2">
+              <Label htmlFor="inbound-subject">Emne (valgfritt)</Label>
+              <Input id="inbound-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="inbound-body">Melding</Label>
+            <Textarea
+              id="inbound-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={6}
+              data-testid="textarea-inbound-body"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Avbryt
+            </Button>
+            <Button type="submit" disabled={!body.trim() || logMutation.isPending} data-testid="button-log-message">
+              {logMutation.isPending ? 'Lagrer...' : 'Registrer'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { MESSAGE_CHANNEL_LABELS, SMS_SEGMENT_LENGTH } from '@/lib/messages';
+import { buildMergeData, MERGE_FIELDS, renderMergeText } from '@shared/merge-fields';
+import {
+  MESSAGE_CHANNELS,
+  type Car,
+  type Contract,
+  type Customer,
+  type CustomerMessage,
+  type MessageChannel,
+  type MessageTemplate,
+  type SendCustomerMessage,
+  type User,
+} from '@shared/schema';
+
+const NONE = 'none';
+
+interface SendMessageDialogProps {
+  customer: Customer;
+  cars: Car[];
+  contracts: Contract[];
+  initialChannel: MessageChannel;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Write an email or SMS to the customer, optionally from a template
+export function SendMessageDialog({ customer, cars, contracts, initialChannel, onClose, onSuccess }: SendMessageDialogProps) {
+  const [channel, setChannel] = useState<MessageChannel>(initialChannel);
+  const [templateId, setTemplateId] = useState(NONE);
+  const [contractId, setContractId] = useState(contracts[0]?.id ?? NONE);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const { toast } = useToast();
+  const { data: currentUser } = useQuery<User>({ queryKey: ['/api/auth/user'] });
+
+  const { data: templates = [] } = useQuery<MessageTemplate[]>({
+    queryKey: ['/api/message-templates'],
+  });
+  const channelTemplates = templates.filter(template => template.channel === channel);
+
+  const recipient = channel === 'email' ? customer.email : customer.phone;
+  const contract = contracts.find(c => c.id === contractId);
+
+  const preview = useMemo(() => {
+    const data = buildMergeData({
+      customer,
+      car: contract ? cars.find(car => car.id === contract.carId) : undefined,
+      contract,
+      sellerName: currentUser ? [currentUser.firstName, currentUser.lastName].filter(Boolean).join(' ') || currentUser.email : null,
+    });
+    try {
+      return { subject: renderMergeText(subject, data), body: renderMergeText(body, data) };
+    } catch {
+      return null;
+    }
+  }, [customer, cars, contract, currentUser, subject, body]);
+
+  const sendMutation = useMutation({
+    mutationFn: async (message: SendCustomerMessage) => {
+      const response = await apiRequest('POST', `/api/customers/${customer.id}/messages`, message);
+      return response.json() as Promise<CustomerMessage>;
+    },
+    onSuccess: (message) => {
+      if (message.status === 'failed') {
+        toast({
+          title: 'Ikke sendt',
+          description: message.error || 'Meldingen ble lagret, men kunne ikke sendes',
+          variant: 'destructive',
+        });
+      } else {
+        toast({ title: 'Sendt', description: `${MESSAGE_CHANNEL_LABELS[message.channel]} sendt til ${customer.name}` });
+      }
+      onSuccess();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Feil',
+        description: error.message || 'Kunne ikke sende meldingen',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const changeChannel = (value: MessageChannel) => {
+    setChannel(value);
+    setTemplateId(NONE);
+  };
+
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (template) {
+      setSubject(template.subject ?? '');
+      setBody(template.body);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendMutation.mutate({
+      channel,
+      subject: channel === 'email' ? subject.trim() : null,
+      body: body.trim(),
+      contractId: contractId === NONE ? null : contractId,
+      templateId: templateId === NONE ? null : templateId,
+    });
+  };
+
+  const canSend = !!recipient && !!body.trim() && (channel !== 'email' || !!subject.trim()) && !!preview;
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px]" data-testid="modal-send-message">
+        <DialogHeader>
+          <DialogTitle>Ny melding</DialogTitle>
+          <DialogDescription>
+            {recipient
+              ? `Til ${customer.name} (${recipient})`
+              : `${customer.name} mangler ${channel === 'email' ? 'e-postadresse' : 'telefonnummer'}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Kanal</Label>
+              <Select value={channel} onValueChange={(value) => changeChannel(value as MessageChannel)}>
+                <SelectTrigger data-testid="select-message-channel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MESSAGE_CHANNELS.map(option => (
+                    <SelectItem key={option} value={option}>{MESSAGE_CHANNEL_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Mal</Label>
+              <Select value={templateId} onValueChange={applyTemplate}>
+                <SelectTrigger data-testid="select-message-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Ingen mal</SelectItem>
+                  {channelTemplates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {contracts.length > 0 && (
+            <div className="space-y-2">
+              <Label>Gjelder kontrakt</Label>
+              <Select value={contractId} onValueChange={setContractId}>
+                <SelectTrigger data-testid="select-message-contract">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Ingen kontrakt</SelectItem>
+                  {contracts.map(option => {
+                    const car = cars.find(c => c.id === option.carId);
+                    return (
+                      <SelectItem key={option.id} value={option.id}>
+                        #{option.contractNumber}{car ? ` – ${car.make} ${car.model}` : ''}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {channel === 'email' && (
+            <div className="space-y-2">
+              <Label htmlFor="message-subject">Emne</Label>
+              <Input
+                id="message-subject"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                data-testid="input-message-subject"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="message-body">Melding</Label>
+            <Textarea
+              id="message-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={6}
+              data-testid="textarea-message-body"
+            />
+            <p className="text-xs text-muted-foreground">
+              Flettefelt: {Object.keys(MERGE_FIELDS).map(field => `{{${field}}}`).join(', ')}
+            </p>
+          </div>
+
+          {body.trim() && (
+            <div className="rounded-md border bg-muted/50 p-3 space-y-1" data-testid="message-preview">
+              <p className="text-xs font-medium text-muted-foreground">Forhåndsvisning</p>
+              {preview ? (
+                <>
+                  {channel === 'email' && preview.subject && <p className="text-sm font-medium">{preview.subject}</p>}
+                  <p className="text-sm whitespace-pre-wrap">{preview.body}</p>
+                  {channel === 'sms' && (
+                    <p className="text-xs text-muted-foreground">
+                      {preview.body.length} tegn, {Math.max(1, Math.ceil(preview.body.length / SMS_SEGMENT_LENGTH))} SMS
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-red-600">Feil i flettefeltene</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel">
+              Avbryt
+            </Button>
+            <Button type="submit" disabled={!canSend || sendMutation.isPending} data-testid="button-send-message">
+              {sendMutation.isPending ? 'Sender...' : 'Send'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,12 +5,13 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useLocation } from 'wouter';
 import { apiRequest } from '@/lib/queryClient';
-import type { Followup } from '@shared/schema';
+import { FOLLOWUP_TYPE_LABELS, formatDueAt, isOverdue } from '@/lib/followups';
+import type { FollowupWithNames } from '@shared/schema';
 
 export function TodayFollowupsWidget() {
   const [, setLocation] = useLocation();
 
-  const { data: todayFollowups = [], isLoading } = useQuery<Followup[]>({
+  const { data: todayFollowups = [], isLoading } = useQuery<FollowupWithNames[]>({
     queryKey: ['/api/followups/today'],
     queryFn: async () => {
       try {
@@ -25,11 +26,9 @@ export function TodayFollowupsWidget() {
     refetchInterval: 300000, // Refresh every 5 minutes
   });
 
-  const overdue = todayFollowups.filter(f => new Date(f.dueDate) < new Date());
-  const dueToday = todayFollowups.filter(f => {
-    const today = new Date().toDateString();
-    return new Date(f.dueDate).toDateString() === today;
-  });
+  // The endpoint returns everything open up to the end of today
+  const overdue = todayFollowups.filter(f => isOverdue(f));
+  const dueToday = todayFollowups.filter(f => !isOverdue(f));
 
   if (isLoading) {
     return (
@@ -66,7 +65,7 @@ export function TodayFollowupsWidget() {
           )}
         </CardTitle>
         <CardDescription>
-          Oppfølginger som forfaller i dag
+          Oppfølginger som forfaller i dag eller er forsinket
         </CardDescription>
       </CardHeader>
       
@@ -98,7 +97,10 @@ export function TodayFollowupsWidget() {
                 <div className="flex items-center space-x-3">
                   <AlertTriangle className="h-4 w-4 text-red-500" />
                   <div>
-                    <p className="font-medium text-sm">Forsinket oppfølging</p>
+                    <p className="font-medium text-sm">
+                      {FOLLOWUP_TYPE_LABELS[followup.type]}: {followup.customerName}
+                    </p>
+                    <p className="text-xs text-red-700">Forfalt {formatDueAt(followup.dueAt)}</p>
                     {followup.note && (
                       <p className="text-xs text-muted-foreground truncate max-w-48">
                         {followup.note}
@@ -131,7 +133,10 @@ export function TodayFollowupsWidget() {
                 <div className="flex items-center space-x-3">
                   <Clock className="h-4 w-4 text-blue-500" />
                   <div>
-                    <p className="font-medium text-sm">Oppfølging i dag</p>
+                    <p className="font-medium text-sm">
+                      {FOLLOWUP_TYPE_LABELS[followup.type]}: {followup.customerName}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{formatDueAt(followup.dueAt)}</p>
                     {followup.note && (
                       <p className="text-xs text-muted-foreground truncate max-w-48">
                         {followup.note}
@@ -15,14 +15,18 @@ import {
   User,
   Settings,
   Shield,
+  Wrench,
+  Inbox,
 } from "lucide-react";
 
 const navigation = [
   { name: "Dashboard", href: "/", icon: BarChart3 },
   { name: "Pro Dashboard", href: "/dashboard-pro", icon: TrendingUp },
   { name: "Biler", href: "/cars", icon: Car },
+  { name: "Leads", href: "/leads", icon: Inbox },
   { name: "Kunder", href: "/customers", icon: Users },
   { name: "Kontrakter", href: "/contracts", icon: FileText },
+  { name: "Verksted", href: "/workshop", icon: Wrench },
   { name: "Innstillinger", href: "/settings", icon: Settings },
   { name: "Admin Portal", href: "/admin", icon: Shield },
 ];
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { formatDate } from "@/lib/format";
+import { LEAD_SOURCE_LABELS, LEAD_STAGE_LABELS, invalidateLeadQueries } from "@/lib/leads";
+import LeadConvertDialog from "@/components/leads/LeadConvertDialog";
+import LeadDialog from "@/components/leads/LeadDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Mail, Pencil, Phone, Trash2, User } from "lucide-react";
+import { LEAD_STAGES, type LeadStage, type LeadWithCars } from "@shared/schema";
+
+// Won is reached through conversion, so it is not offered as a manual stage
+const MANUAL_STAGES = LEAD_STAGES.filter(stage => stage !== "won");
+
+export default function LeadCard({ lead }: { lead: LeadWithCars }) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can("customers.manage");
+  const [editOpen, setEditOpen] = useState(false);
+  const [convertOpen, setConvertOpen] = useState(false);
+  const [lostOpen, setLostOpen] = useState(false);
+  const [lostReason, setLostReason] = useState("");
+
+  const stageMutation = useMutation({
+    mutationFn: async ({ stage, reason }: { stage: LeadStage; reason?: string }) => {
+      const response = await apiRequest("PATCH", `/api/leads/${lead.id}`, { stage, lostReason: reason ?? null });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateLeadQueries();
+      setLostOpen(false);
+      setLostReason("");
+    },
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke flytte leadet", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/leads/${lead.id}`),
+    onSuccess: () => {
+      invalidateLeadQueries();
+      toast({ title: "Lead slettet" });
+    },
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke slette leadet", variant: "destructive" });
+    },
+  });
+
+  const changeStage = (stage: LeadStage) => {
+    if (stage === "lost") {
+      setLostOpen(true);
+      return;
+    }
+    stageMutation.mutate({ stage });
+  };
+
+  const closed = lead.stage === "won" || lead.stage === "lost";
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-background p-3" data-testid={`lead-${lead.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-1">
+          <p className="font-medium">{lead.name}</p>
+          <div className="flex flex-wrap items-center gap-1">
+            <Badge variant="secondary">{LEAD_SOURCE_LABELS[lead.source]}</Badge>
+            {lead.sourceDetail && <Badge variant="outline">{lead.sourceDetail}</Badge>}
+          </div>
+        </div>
+        {canManage && !lead.convertedAt && (
+          <div className="flex">
+            <Button variant="ghost" size="icon" onClick={() => setEditOpen(true)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1 text-sm text-muted-foreground">
+        {lead.phone && (
+          <p className="flex items-center gap-1"><Phone className="h-3 w-3" />{lead.phone}</p>
+        )}
+        {lead.email && (
+          <p className="flex items-center gap-1"><Mail className="h-3 w-3" />{lead.email}</p>
+        )}
+        <p className="flex items-center gap-1"><User className="h-3 w-3" />{lead.ownerName ?? "Ikke tildelt"}</p>
+      </div>
+
+      {lead.cars.length > 0 && (
+        <div className="space-y-1">
+          {lead.cars.map(car => (
+            <Link key={car.id} href={`/cars/${car.id}/profile`}>
+              <span className="block cursor-pointer text-xs font-medium text-primary hover:underline">
+                {car.registrationNumber} · {car.make} {car.model}
+                {car.status === "sold" && " (solgt)"}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {lead.stage === "lost" && lead.lostReason && (
+        <p className="text-sm text-muted-foreground">Tapt: {lead.lostReason}</p>
+      )}
+
+      {lead.convertedAt ? (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Vunnet {formatDate(lead.convertedAt)}</span>
+          {lead.customerId && (
+            <Link href={`/customers/${lead.customerId}/profile`}>
+              <span className="cursor-pointer font-medium text-primary hover:underline">Til kunden</span>
+            </Link>
+          )}
+        </div>
+      ) : canManage ? (
+        <div className="flex items-center justify-between gap-2">
+          <Select
+            value={lead.stage}
+            onValueChange={(stage) => changeStage(stage as LeadStage)}
+            disabled={stageMutation.isPending}
+          >
+            <SelectTrigger className="h-8 w-36" data-testid={`select-lead-stage-${lead.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MANUAL_STAGES.map(stage => (
+                <SelectItem key={stage} value={stage}>{LEAD_STAGE_LABELS[stage]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!closed && (
+            <Button size="sm" onClick={() => setConvertOpen(true)} data-testid={`button-convert-${lead.id}`}>
+              Vunnet
+            </Button>
+          )}
+        </div>
+      ) : (
+        <Badge variant="outline">{LEAD_STAGE_LABELS[lead.stage]}</Badge>
+      )}
+
+      {canManage && (
+        <>
+          <LeadDialog lead={lead} open={editOpen} onOpenChange={setEditOpen} />
+          <LeadConvertDialog lead={lead} open={convertOpen} onOpenChange={setConvertOpen} />
+          <Dialog open={lostOpen} onOpenChange={setLostOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Marker {lead.name} som tapt</DialogTitle>
+                <DialogDescription>Årsaken brukes i oppfølgingen av salgsarbeidet</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor={`lost-reason-${lead.id}`}>Årsak</Label>
+                <Textarea
+                  id={`lost-reason-${lead.id}`}
+                  value={lostReason}
+                  onChange={(e) => setLostReason(e.target.value)}
+                  placeholder="F.eks. kjøpte bil et annet sted, for dyr, fikk ikke finansiering"
+                  maxLength={500}
+                  rows={3}
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setLostOpen(false)}>Avbryt</Button>
+                <Button
+                  onClick={() => stageMutation.mutate({ stage: "lost", reason: lostReason.trim() })}
+                  disabled={!lostReason.trim() || stageMutation.isPending}
+                >
+                  Marker som tapt
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </>
+      )}
+    </div>
+  );
+}
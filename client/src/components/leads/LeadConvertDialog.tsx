@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { invalidateConversionQueries } from "@/lib/leads";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Customer, LeadWithCars } from "@shared/schema";
+
+const NEW_CUSTOMER = "new";
+const NO_CONTRACT = "none";
+
+interface LeadConvertDialogProps {
+  lead: LeadWithCars;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Turns a lead into a customer, and optionally a draft contract on one of its cars
+export default function LeadConvertDialog({ lead, open, onOpenChange }: LeadConvertDialogProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canCreateContract = can("contracts.create");
+  const [customerId, setCustomerId] = useState(NEW_CUSTOMER);
+  const [type, setType] = useState<"PRIVAT" | "BEDRIFT">("PRIVAT");
+  const [address, setAddress] = useState("");
+  const [carId, setCarId] = useState(NO_CONTRACT);
+  const [salePrice, setSalePrice] = useState("");
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+    enabled: open,
+  });
+  // Suggest customers that share the lead's phone or email
+  const matches = customers.filter(customer =>
+    !customer.erasedAt && (
+      (lead.email && customer.email?.toLowerCase() === lead.email.toLowerCase()) ||
+      (lead.phone && customer.phone === lead.phone)
+    ),
+  );
+  const availableCars = lead.cars.filter(car => car.status === "available");
+
+  useEffect(() => {
+    if (!open) return;
+    setCustomerId(NEW_CUSTOMER);
+    setType("PRIVAT");
+    setAddress("");
+    setCarId(NO_CONTRACT);
+    setSalePrice("");
+  }, [open]);
+
+  const selectCar = (value: string) => {
+    setCarId(value);
+    const car = availableCars.find(candidate => candidate.id === value);
+    setSalePrice(car?.salePrice ?? "");
+  };
+
+  const convertMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leads/${lead.id}/convert`, {
+        customerId: customerId === NEW_CUSTOMER ? undefined : customerId,
+        type,
+        address: address.trim() || null,
+        contract: carId === NO_CONTRACT ? undefined : { carId, salePrice },
+      });
+      return response.json() as Promise<{ customer: Customer; contract: { id: string } | null }>;
+    },
+    onSuccess: ({ customer, contract }) => {
+      invalidateConversionQueries();
+      toast({
+        title: "Lead vunnet",
+        description: contract ? "Kunde og kontraktutkast er opprettet" : "Kunden er opprettet",
+      });
+      onOpenChange(false);
+      setLocation(contract ? "/contracts" : `/customers/${customer.id}/profile`);
+    },
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke konvertere leadet", variant: "destructive" });
+    },
+  });
+
+  const canSubmit = carId === NO_CONTRACT || Number(salePrice) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Konverter {lead.name} til kunde</DialogTitle>
+          <DialogDescription>Leadet markeres som vunnet og kan ikke endres etterpå</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Kunde</Label>
+            <Select value={customerId} onValueChange={setCustomerId}>
+              <SelectTrigger data-testid="select-convert-customer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_CUSTOMER}>Ny kunde</SelectItem>
+                {matches.map(customer => (
+                  <SelectItem key={customer.id} value={customer.id}>
+                    Eksisterende: {customer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {customerId === NEW_CUSTOMER && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Kundetype</Label>
+                <Select value={type} onValueChange={(value) => setType(value as "PRIVAT" | "BEDRIFT")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="PRIVAT">Privat</SelectItem>
+                    <SelectItem value="BEDRIFT">Bedrift</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Adresse</Label>
+                <Input value={address} onChange={(e) => setAddress(e.target.value)} maxLength={500} />
+              </div>
+            </div>
+          )}
+
+          {canCreateContract && availableCars.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Kontraktutkast</Label>
+                <Select value={carId} onValueChange={selectCar}>
+                  <SelectTrigger data-testid="select-convert-car">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CONTRACT}>Ingen kontrakt nå</SelectItem>
+                    {availableCars.map(car => (
+                      <SelectItem key={car.id} value={car.id}>
+                        {car.registrationNumber} · {car.make} {car.model}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {carId !== NO_CONTRACT && (
+                <div className="space-y-2">
+                  <Label>Salgspris</Label>
+                  <Input type="number" min="0" value={salePrice} onChange={(e) => setSalePrice(e.target.value)} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Avbryt</Button>
+          <Button
+            onClick={() => convertMutation.mutate()}
+            disabled={!canSubmit || convertMutation.isPending}
+            data-testid="button-convert-lead"
+          >
+            Konverter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { LEAD_SOURCE_LABELS, invalidateLeadQueries } from "@/lib/leads";
+import { memberName, type TeamMember } from "@/lib/recon";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { X } from "lucide-react";
+import { LEAD_SOURCES, type Car, type LeadSource, type LeadWithCars } from "@shared/schema";
+
+const UNASSIGNED = "none";
+
+interface LeadDialogProps {
+  // Edits this lead when given, otherwise creates a new one
+  lead?: LeadWithCars;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function LeadDialog({ lead, open, onOpenChange }: LeadDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [source, setSource] = useState<LeadSource>("phone");
+  const [sourceDetail, setSourceDetail] = useState("");
+  const [ownerId, setOwnerId] = useState(UNASSIGNED);
+  const [carIds, setCarIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+
+  const { data: members = [] } = useQuery<TeamMember[]>({
+    queryKey: ["/api/team/members"],
+    enabled: open,
+  });
+  const { data: cars = [] } = useQuery<Car[]>({
+    queryKey: ["/api/cars"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setName(lead?.name ?? "");
+    setPhone(lead?.phone ?? "");
+    setEmail(lead?.email ?? "");
+    setSource(lead?.source ?? "phone");
+    setSourceDetail(lead?.sourceDetail ?? "");
+    setOwnerId(lead ? lead.ownerId ?? UNASSIGNED : UNASSIGNED);
+    setCarIds(lead?.cars.map(car => car.id) ?? []);
+    setNotes(lead?.notes ?? "");
+  }, [open, lead]);
+
+  const carById = new Map(cars.map(car => [car.id, car]));
+  const selectableCars = cars.filter(car => car.status === "available" && !carIds.includes(car.id));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: name.trim(),
+        phone: phone.trim() || null,
+        email: email.trim() || null,
+        source,
+        sourceDetail: sourceDetail.trim() || null,
+        notes: notes.trim() || null,
+        carIds,
+        // A new lead without a chosen owner goes to whoever registers it
+        ownerId: ownerId === UNASSIGNED ? (lead ? null : undefined) : ownerId,
+      };
+      const response = lead
+        ? await apiRequest("PATCH", `/api/leads/${lead.id}`, body)
+        : await apiRequest("POST", "/api/leads", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateLeadQueries();
+      toast({ title: lead ? "Lead oppdatert" : "Lead registrert" });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke lagre leadet", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{lead ? "Rediger lead" : "Nytt lead"}</DialogTitle>
+          <DialogDescription>En interessent som ennå ikke er kunde</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Navn</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={200} data-testid="input-lead-name" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Telefon</Label>
+              <Input value={phone} onChange={(e) => setPhone(e.target.value)} maxLength={50} />
+            </div>
+            <div className="space-y-2">
+              <Label>E-post</Label>
+              <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Kilde</Label>
+              <Select value={source} onValueChange={(value) => setSource(value as LeadSource)}>
+                <SelectTrigger data-testid="select-lead-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAD_SOURCES.map(leadSource => (
+                    <SelectItem key={leadSource} value={leadSource}>{LEAD_SOURCE_LABELS[leadSource]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Detaljer om kilden</Label>
+              <Input
+                value={sourceDetail}
+                onChange={(e) => setSourceDetail(e.target.value)}
+                placeholder={source === "listing_site" ? "F.eks. FINN" : ""}
+                maxLength={200}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Selger</Label>
+            <Select value={ownerId} onValueChange={setOwnerId}>
+              <SelectTrigger data-testid="select-lead-owner">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>{lead ? "Ikke tildelt" : "Meg"}</SelectItem>
+                {members.map(member => (
+                  <SelectItem key={member.userId} value={member.userId}>{memberName(member)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Interessert i</Label>
+            {carIds.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {carIds.map(carId => {
+                  const car = carById.get(carId) ?? lead?.cars.find(leadCar => leadCar.id === carId);
+                  return (
+                    <Badge key={carId} variant="secondary" className="gap-1">
+                      {car ? `${car.registrationNumber} · ${car.make} ${car.model}` : carId}
+                      <button type="button" onClick={() => setCarIds(carIds.filter(id => id !== carId))}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  );
+                })}
+              </div>
+            )}
+            <Select value="" onValueChange={(carId) => setCarIds([...carIds, carId])}>
+              <SelectTrigger data-testid="select-lead-car">
+                <SelectValue placeholder="Legg til bil" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectableCars.map(car => (
+                  <SelectItem key={car.id} value={car.id}>
+                    {car.registrationNumber} · {car.make} {car.model} ({car.year})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notater</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Avbryt</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+            data-testid="button-save-lead"
+          >
+            Lagre
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { formatCurrency, formatDate } from "@/lib/format";
+import {
+  RECON_LINE_KIND_LABELS,
+  RECON_TASK_STATUS_LABELS,
+  RECON_TASK_TYPE_LABELS,
+  invalidateReconQueries,
+  type ReconTaskView,
+} from "@/lib/recon";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, User } from "lucide-react";
+import { RECON_LINE_KINDS, RECON_TASK_STATUSES, type ReconLineKind, type ReconTaskStatus } from "@shared/schema";
+
+interface ReconTaskCardProps {
+  task: ReconTaskView;
+  // On the workshop board the card links to the car and leaves the lines out
+  showCar?: boolean;
+}
+
+function ReconLineForm({ task }: { task: ReconTaskView }) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<ReconLineKind>("part");
+  const [description, setDescription] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [unitCost, setUnitCost] = useState("");
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/recon/tasks/${task.id}/lines`, {
+        kind,
+        description: description.trim(),
+        quantity,
+        unitCost,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateReconQueries(task.carId);
+      setDescription("");
+      setQuantity("1");
+      setUnitCost("");
+    },
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke legge til linjen", variant: "destructive" });
+    },
+  });
+
+  const canSubmit = description.trim() !== "" && unitCost !== "" && Number(quantity) > 0;
+
+  return (
+    <div className="grid grid-cols-12 gap-2">
+      <Select value={kind} onValueChange={(value) => setKind(value as ReconLineKind)}>
+        <SelectTrigger className="col-span-3">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RECON_LINE_KINDS.map(lineKind => (
+            <SelectItem key={lineKind} value={lineKind}>{RECON_LINE_KIND_LABELS[lineKind]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        className="col-span-4"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder={kind === "labour" ? "Arbeid utført" : "Del"}
+        maxLength={200}
+      />
+      <Input
+        className="col-span-2"
+        type="number"
+        min="0"
+        step={kind === "labour" ? "0.5" : "1"}
+        value={quantity}
+        onChange={(e) => setQuantity(e.target.value)}
+        placeholder={kind === "labour" ? "Timer" : "Antall"}
+      />
+      <Input
+        className="col-span-2"
+        type="number"
+        min="0"
+        value={unitCost}
+        onChange={(e) => setUnitCost(e.target.value)}
+        placeholder={kind === "labour" ? "Timepris" : "Pris"}
+      />
+      <Button
+        className="col-span-1"
+        size="icon"
+        variant="outline"
+        onClick={() => addMutation.mutate()}
+        disabled={!canSubmit || addMutation.isPending}
+        data-testid="button-add-recon-line"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export default function ReconTaskCard({ task, showCar }: ReconTaskCardProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can("recon.manage");
+  const canWork = can("recon.work");
+
+  const updateMutation = useMutation({
+    mutationFn: async (status: ReconTaskStatus) => {
+      const response = await apiRequest("PATCH", `/api/recon/tasks/${task.id}`, { status });
+      return response.json();
+    },
+    onSuccess: () => invalidateReconQueries(task.carId),
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke endre status", variant: "destructive" });
+    },
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/recon/tasks/${task.id}`),
+    onSuccess: () => {
+      invalidateReconQueries(task.carId);
+      toast({ title: "Oppgave slettet" });
+    },
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke slette oppgaven", variant: "destructive" });
+    },
+  });
+
+  const deleteLineMutation = useMutation({
+    mutationFn: async (lineId: string) => apiRequest("DELETE", `/api/recon/lines/${lineId}`),
+    onSuccess: () => invalidateReconQueries(task.carId),
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke slette linjen", variant: "destructive" });
+    },
+  });
+
+  const overdue = task.status !== "done" && task.dueDate && new Date(task.dueDate) < new Date();
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-background p-3" data-testid={`recon-task-${task.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-1">
+          {showCar && (
+            <Link href={`/cars/${task.car.id}/profile`}>
+              <span className="cursor-pointer text-xs font-medium text-primary hover:underline">
+                {task.car.registrationNumber} · {task.car.make} {task.car.model}
+              </span>
+            </Link>
+          )}
+          <p className="font-medium">{task.title}</p>
+          <div className="flex flex-wrap items-center gap-1">
+            <Badge variant="secondary">{RECON_TASK_TYPE_LABELS[task.type]}</Badge>
+            {task.mandatory && <Badge variant="outline">Obligatorisk</Badge>}
+            {task.dueDate && (
+              <Badge variant={overdue ? "destructive" : "outline"}>Frist {formatDate(task.dueDate)}</Badge>
+            )}
+          </div>
+        </div>
+        {canManage && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => deleteTaskMutation.mutate()}
+            disabled={deleteTaskMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {task.description && <p className="text-sm text-muted-foreground">{task.description}</p>}
+
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <User className="h-3 w-3" />
+          {task.assigneeName ?? "Ikke tildelt"}
+        </span>
+        {canManage || canWork ? (
+          <Select
+            value={task.status}
+            onValueChange={(status) => updateMutation.mutate(status as ReconTaskStatus)}
+            disabled={updateMutation.isPending}
+          >
+            <SelectTrigger className="h-8 w-40" data-testid={`select-recon-status-${task.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECON_TASK_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{RECON_TASK_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Badge variant="outline">{RECON_TASK_STATUS_LABELS[task.status]}</Badge>
+        )}
+      </div>
+
+      {!showCar && (
+        <div className="space-y-2">
+          {task.lines.length > 0 && (
+            <div className="divide-y rounded-md border text-sm">
+              {task.lines.map(line => (
+                <div key={line.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <span>
+                    <span className="text-muted-foreground">{RECON_LINE_KIND_LABELS[line.kind]}:</span>{" "}
+                    {line.description}
+                    {Number(line.quantity) !== 1 && ` × ${line.quantity}`}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {line.unitCost !== undefined && (
+                      <span className="font-medium">
+                        {formatCurrency(Number(line.quantity) * Number(line.unitCost))}
+                      </span>
+                    )}
+                    {canWork && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => deleteLineMutation.mutate(line.id)}
+                        disabled={deleteLineMutation.isPending}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {task.total !== undefined && task.lines.length > 0 && (
+            <p className="text-right text-sm">Sum: <span className="font-medium">{formatCurrency(task.total)}</span></p>
+          )}
+          {canWork && <ReconLineForm task={task} />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  RECON_TASK_TYPE_LABELS,
+  invalidateReconQueries,
+  memberName,
+  type TeamMember,
+} from "@/lib/recon";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { RECON_TASK_TYPES, type ReconTaskType } from "@shared/schema";
+
+const UNASSIGNED = "none";
+
+interface ReconTaskDialogProps {
+  carId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ReconTaskDialog({ carId, open, onOpenChange }: ReconTaskDialogProps) {
+  const { toast } = useToast();
+  const [type, setType] = useState<ReconTaskType>("polish");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [mandatory, setMandatory] = useState(true);
+  const [assignedTo, setAssignedTo] = useState(UNASSIGNED);
+  const [dueDate, setDueDate] = useState("");
+
+  const { data: members = [] } = useQuery<TeamMember[]>({
+    queryKey: ["/api/team/members"],
+    enabled: open,
+  });
+  // Workshop staff first, since they do most of the work
+  const sortedMembers = [...members].sort(
+    (a, b) => Number(b.role === "VERKSTED") - Number(a.role === "VERKSTED") || memberName(a).localeCompare(memberName(b)),
+  );
+
+  const reset = () => {
+    setType("polish");
+    setTitle("");
+    setDescription("");
+    setMandatory(true);
+    setAssignedTo(UNASSIGNED);
+    setDueDate("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/cars/${carId}/recon-tasks`, {
+        type,
+        title: title.trim() || RECON_TASK_TYPE_LABELS[type],
+        description: description.trim() || null,
+        mandatory,
+        assignedTo: assignedTo === UNASSIGNED ? null : assignedTo,
+        dueDate: dueDate || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateReconQueries(carId);
+      toast({ title: "Oppgave opprettet" });
+      reset();
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: "Feil", description: "Kunne ikke opprette oppgaven", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Ny klargjøringsoppgave</DialogTitle>
+          <DialogDescription>Legg til arbeid som skal gjøres før bilen selges</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as ReconTaskType)}>
+                <SelectTrigger data-testid="select-recon-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECON_TASK_TYPES.map(taskType => (
+                    <SelectItem key={taskType} value={taskType}>{RECON_TASK_TYPE_LABELS[taskType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Frist</Label>
+              <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tittel</Label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={RECON_TASK_TYPE_LABELS[type]}
+              maxLength={200}
+              data-testid="input-recon-title"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Beskrivelse</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="F.eks. ripe i bakre støtfanger, skift til vinterhjul"
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tildelt</Label>
+            <Select value={assignedTo} onValueChange={setAssignedTo}>
+              <SelectTrigger data-testid="select-recon-assignee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Ikke tildelt</SelectItem>
+                {sortedMembers.map(member => (
+                  <SelectItem key={member.userId} value={member.userId}>
+                    {memberName(member)}{member.role === "VERKSTED" ? " (verksted)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="recon-mandatory" checked={mandatory} onCheckedChange={(checked) => setMandatory(checked === true)} />
+            <Label htmlFor="recon-mandatory" className="font-normal">
+              Må være ferdig før bilen kan legges ut for salg
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Avbryt</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending}
+            data-testid="button-create-recon-task"
+          >
+            Opprett oppgave
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
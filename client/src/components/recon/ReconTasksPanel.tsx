@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { formatCurrency } from "@/lib/format";
+import { invalidateReconQueries, type ReconTaskView } from "@/lib/recon";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle2, Plus, Wrench } from "lucide-react";
+import ReconTaskCard from "./ReconTaskCard";
+import ReconTaskDialog from "./ReconTaskDialog";
+
+interface ReconTasksPanelProps {
+  carId: string;
+  carStatus: string;
+}
+
+// The car's work order: its recon tasks, their costs and the step to put it up for sale
+export default function ReconTasksPanel({ carId, carStatus }: ReconTasksPanelProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: tasks = [], isLoading } = useQuery<ReconTaskView[]>({
+    queryKey: [`/api/cars/${carId}/recon-tasks`],
+    enabled: !!carId,
+  });
+  const { data: settings } = useQuery<{ requireReconBeforeAvailable: boolean }>({
+    queryKey: ["/api/settings/recon"],
+  });
+
+  const mandatory = tasks.filter(task => task.mandatory);
+  const mandatoryDone = mandatory.filter(task => task.status === "done").length;
+  const blocked = !!settings?.requireReconBeforeAvailable && mandatoryDone < mandatory.length;
+  const costVisible = tasks.every(task => task.total !== undefined);
+  const total = tasks.reduce((sum, task) => sum + (task.total ?? 0), 0);
+  // Reserved and sold cars are handled by their contract
+  const canRelease = can("cars.update") && !["available", "reserved", "sold"].includes(carStatus);
+
+  const releaseMutation = useMutation({
+    mutationFn: async () => apiRequest("PUT", `/api/cars/${carId}`, { status: "available" }),
+    onSuccess: () => {
+      invalidateReconQueries(carId);
+      toast({ title: "Klar for salg", description: "Bilen er satt som tilgjengelig" });
+    },
+    onError: () => {
+      toast({
+        title: "Feil",
+        description: "Bilen kan ikke legges ut før de obligatoriske oppgavene er ferdige",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Wrench className="h-4 w-4" />
+            Klargjøring
+          </CardTitle>
+          <CardDescription>
+            {mandatory.length > 0
+              ? `${mandatoryDone} av ${mandatory.length} obligatoriske oppgaver ferdig`
+              : "Ingen obligatoriske oppgaver"}
+          </CardDescription>
+        </div>
+        {can("recon.manage") && carStatus !== "sold" && (
+          <Button size="sm" onClick={() => setDialogOpen(true)} data-testid="button-new-recon-task">
+            <Plus className="mr-2 h-4 w-4" />
+            Ny oppgave
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mandatory.length > 0 && <Progress value={(mandatoryDone / mandatory.length) * 100} />}
+
+        {tasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Ingen klargjøringsoppgaver registrert.</p>
+        ) : (
+          <div className="space-y-3">
+            {tasks.map(task => (
+              <ReconTaskCard key={task.id} task={task} />
+            ))}
+          </div>
+        )}
+
+        {costVisible && tasks.some(task => task.lines.length > 0) && (
+          <div className="flex items-center justify-between rounded-lg bg-muted p-3 text-sm">
+            <span>Faktisk klargjøringskostnad</span>
+            <span className="font-semibold">{formatCurrency(total)}</span>
+          </div>
+        )}
+
+        {canRelease && (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {blocked
+                ? "Obligatoriske oppgaver må være ferdige før bilen kan legges ut for salg."
+                : "Bilen er ikke lagt ut for salg ennå."}
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => releaseMutation.mutate()}
+              disabled={blocked || releaseMutation.isPending}
+              data-testid="button-release-car"
+            >
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Klar for salg
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <ReconTaskDialog carId={carId} open={dialogOpen} onOpenChange={setDialogOpen} />
+    </Card>
+  );
+}
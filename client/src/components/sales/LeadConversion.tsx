@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { conversionRate } from '@/lib/leads';
+import type { LeadConversionRow } from '@shared/schema';
+
+interface LeadConversionProps {
+  title: string;
+  rows: LeadConversionRow[] | undefined;
+  isLoading: boolean;
+  labelFor: (row: LeadConversionRow) => string;
+}
+
+// Won share of the leads created in the period, one row per source or seller
+export default function LeadConversion({ title, rows, isLoading, labelFor }: LeadConversionProps) {
+  const sorted = [...(rows ?? [])].sort((a, b) =>
+    conversionRate(b.won, b.total) - conversionRate(a.won, a.total) || b.total - a.total
+  );
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : sorted.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Ingen leads i perioden
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sorted.map(row => {
+              const open = row.total - row.won - row.lost;
+              return (
+                <div key={row.key ?? 'none'} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{labelFor(row)}</span>
+                    <span className="font-semibold">{conversionRate(row.won, row.total)} %</span>
+                  </div>
+                  <Progress value={conversionRate(row.won, row.total)} className="h-2" />
+                  <p className="text-xs text-muted-foreground">
+                    {row.won} vunnet · {row.lost} tapt · {open} åpne av {row.total}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
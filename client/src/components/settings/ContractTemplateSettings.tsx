@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FileText, Save, Upload, History, Plus } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  DEFAULT_CONTRACT_TEMPLATE,
+  prepareContractData,
+  renderContractTemplate,
+} from '@shared/contract-render';
+import {
+  CONTRACT_TYPES,
+  type Car,
+  type Customer,
+  type ContractTemplate,
+  type ContractTemplateVersion,
+  type ContractType,
+} from '@shared/schema';
+
+const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  privatsalg: 'Privatsalg',
+  innbytte: 'Innbytte',
+  kommisjon: 'Kommisjon',
+  mva_pliktig: 'MVA-pliktig',
+};
+
+type TemplateWithVersion = ContractTemplate & { latestVersion: number | null };
+
+export default function ContractTemplateSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { company } = useAuth();
+
+  const [contractType, setContractType] = useState<ContractType>('privatsalg');
+  const [name, setName] = useState('');
+  const [draftBody, setDraftBody] = useState('');
+  const [publishNotes, setPublishNotes] = useState('');
+  const [previewCarId, setPreviewCarId] = useState('');
+  const [previewCustomerId, setPreviewCustomerId] = useState('');
+  const [previewVersion, setPreviewVersion] = useState<ContractTemplateVersion | null>(null);
+
+  const { data: templates = [] } = useQuery<TemplateWithVersion[]>({
+    queryKey: ['/api/contract-templates'],
+  });
+  const { data: cars = [] } = useQuery<Car[]>({ queryKey: ['/api/cars'] });
+  const { data: customers = [] } = useQuery<Customer[]>({ queryKey: ['/api/customers'] });
+  const { data: companySettings } = useQuery<any>({ queryKey: ['/api/settings/company'] });
+
+  const template = templates.find(t => t.contractType === contractType);
+
+  const { data: versions = [] } = useQuery<ContractTemplateVersion[]>({
+    queryKey: ['/api/contract-templates', template?.id, 'versions'],
+    enabled: !!template,
+  });
+
+  // Load the selected type's draft into the editor
+  useEffect(() => {
+    setName(template?.name ?? `Kjøpekontrakt – ${CONTRACT_TYPE_LABELS[contractType]}`);
+    setDraftBody(template?.draftBody ?? DEFAULT_CONTRACT_TEMPLATE.trim());
+    setPreviewVersion(null);
+  }, [template?.id, contractType]);
+
+  const isDirty = !template || template.name !== name || template.draftBody !== draftBody;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = template
+        ? await apiRequest('PUT', `/api/contract-templates/${template.id}`, { name, draftBody })
+        : await apiRequest('POST', '/api/contract-templates', { contractType, name, draftBody });
+      return res.json() as Promise<ContractTemplate>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/contract-templates'] });
+      toast({ title: 'Utkast lagret', description: 'Endringene er lagret, men ikke publisert' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Feil',
+        description: error.message || 'Kunne ikke lagre malen',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const res = await apiRequest('POST', `/api/contract-templates/${templateId}/publish`, { notes: publishNotes });
+      return res.json() as Promise<ContractTemplateVersion>;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/contract-templates'] });
+      setPublishNotes('');
+      toast({
+        title: `Versjon ${version.version} publisert`,
+        description: 'Nye kontrakter sendes til signering med denne versjonen',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Feil',
+        description: error.message || 'Kunne ikke publisere malen',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const previewHtml = useMemo(() => {
+    const car = cars.find(c => c.id === previewCarId);
+    const customer = customers.find(c => c.id === previewCustomerId);
+    try {
+      const data = prepareContractData(
+        { contractNumber: 'FORHÅNDSVISNING', salePrice: car?.salePrice, contractTemplate: contractType },
+        car,
+        customer,
+        {
+          name: company?.name,
+          orgNumber: companySettings?.organizationNumber,
+          address: companySettings?.address,
+        },
+      );
+      return renderContractTemplate(data, previewVersion?.body ?? draftBody);
+    } catch (error: any) {
+      return `<pre style="color:#b91c1c">Feil i malen: ${error.message}</pre>`;
+    }
+  }, [cars, customers, previewCarId, previewCustomerId, company, companySettings, contractType, draftBody, previewVersion]);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileText className="mr-2 h-5 w-5" />
+            Kontraktmaler
+          </CardTitle>
+          <CardDescription>
+            Rediger egne maler per kontrakttype. Kun publiserte versjoner brukes ved signering.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Kontrakttype</Label>
+              <Select value={contractType} onValueChange={(value) => setContractType(value as ContractType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTRACT_TYPES.map(type => {
+                    const existing = templates.find(t => t.contractType === type);
+                    return (
+                      <SelectItem key={type} value={type}>
+                        {CONTRACT_TYPE_LABELS[type]}
+                        {existing?.latestVersion ? ` (v${existing.latestVersion})` : ''}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Navn</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {template?.latestVersion ? (
+              <Badge variant="secondary">Publisert v{template.latestVersion}</Badge>
+            ) : (
+              <Badge variant="outline">Ikke publisert – standardmal brukes</Badge>
+            )}
+            {template && isDirty && <Badge variant="outline">Ulagrede endringer</Badge>}
+          </div>
+
+          <div>
+            <Label>Mal (Handlebars/HTML)</Label>
+            <Textarea
+              value={draftBody}
+              onChange={(e) => { setDraftBody(e.target.value); setPreviewVersion(null); }}
+              className="font-mono text-xs min-h-[360px]"
+              spellCheck={false}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Tilgjengelige felt: {'{{contractNumber}}'}, {'{{buyerName}}'}, {'{{vehicleMake}}'}, {'{{totalPrice}}'} m.fl.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isDirty || !name.trim() || !draftBody.trim() || saveMutation.isPending}
+            >
+              {template ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+              {template ? 'Lagre utkast' : 'Opprett mal'}
+            </Button>
+            <div className="flex-1 min-w-[200px]">
+              <Label>Versjonsnotat</Label>
+              <Input
+                value={publishNotes}
+                onChange={(e) => setPublishNotes(e.target.value)}
+                placeholder="Hva er endret?"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => template && publishMutation.mutate(template.id)}
+              disabled={!template || isDirty || publishMutation.isPending}
+              title={isDirty ? 'Lagre utkastet før publisering' : undefined}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Publiser ny versjon
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Forhåndsvisning</CardTitle>
+          <CardDescription>
+            {previewVersion
+              ? `Viser publisert versjon ${previewVersion.version}`
+              : 'Viser gjeldende utkast med en ekte bil og kunde'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Bil</Label>
+              <Select value={previewCarId} onValueChange={setPreviewCarId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Velg bil" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cars.map(car => (
+                    <SelectItem key={car.id} value={car.id}>
+                      {car.registrationNumber} – {car.make} {car.model}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Kunde</Label>
+              <Select value={previewCustomerId} onValueChange={setPreviewCustomerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Velg kunde" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <iframe
+            title="Forhåndsvisning av kontrakt"
+            srcDoc={previewHtml}
+            sandbox=""
+            className="w-full h-[600px] border rounded-md bg-white"
+          />
+        </CardContent>
+      </Card>
+
+      {versions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <History className="mr-2 h-5 w-5" />
+              Versjonshistorikk
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between border rounded-md p-3">
+                <div>
+                  <div className="font-medium">Versjon {version.version}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {version.publishedAt ? new Date(version.publishedAt).toLocaleString('nb-NO') : ''}
+                    {version.notes ? ` – ${version.notes}` : ''}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setPreviewVersion(version)}>
+                    Vis
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => { setDraftBody(version.body); setPreviewVersion(null); }}
+                  >
+                    Gjenopprett som utkast
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Save, Sparkles, Trash2, Workflow, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { FOLLOWUP_TYPE_LABELS, PLAYBOOK_TRIGGER_LABELS, playbookOffsetLabel } from '@/lib/followups';
+import { memberName, type TeamMember } from '@/lib/recon';
+import { SUGGESTED_PLAYBOOKS } from '@shared/followup-playbooks';
+import { MERGE_FIELDS } from '@shared/merge-fields';
+import {
+  FOLLOWUP_TYPES,
+  PLAYBOOK_TRIGGERS,
+  type FollowupPlaybook,
+  type FollowupType,
+  type InsertFollowupPlaybook,
+  type PlaybookStep,
+  type PlaybookTrigger,
+} from '@shared/schema';
+
+// Select value for steps that go to the seller on the contract
+const SELLER = 'seller';
+
+const OFFSET_HINTS: Record<PlaybookTrigger, string> = {
+  contract_signed: 'Dager etter salgsdato',
+  car_delivered: 'Dager etter levering',
+  eu_control_due: 'Dager før fristen (negativt tall)',
+};
+
+const emptyStep = (trigger: PlaybookTrigger): PlaybookStep => ({
+  offsetDays: trigger === 'eu_control_due' ? -30 : 3,
+  time: '09:00',
+  type: 'call',
+  note: '',
+  assigneeId: null,
+});
+
+const emptyPlaybook = (): InsertFollowupPlaybook => ({
+  name: '',
+  trigger: 'contract_signed',
+  active: true,
+  steps: [emptyStep('contract_signed')],
+});
+
+export default function FollowupPlaybookSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canManage = can('company.manage');
+
+  // null: no editor open; id null: a new playbook
+  const [editing, setEditing] = useState<{ id: string | null; playbook: InsertFollowupPlaybook } | null>(null);
+
+  const { data: playbooks = [], isLoading } = useQuery<FollowupPlaybook[]>({
+    queryKey: ['/api/followup-playbooks'],
+  });
+  const { data: members = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team/members'],
+    enabled: canManage,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Feil',
+      description: error.message || 'Kunne ikke lagre oppfølgingsplanen',
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, playbook }: { id: string | null; playbook: Partial<InsertFollowupPlaybook> }) => {
+      const res = id
+        ? await apiRequest('PUT', `/api/followup-playbooks/${id}`, playbook)
+        : await apiRequest('POST', '/api/followup-playbooks', playbook);
+      return res.json() as Promise<FollowupPlaybook>;
+    },
+    onSuccess: (_playbook, { playbook }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/followup-playbooks'] });
+      if (playbook.steps) {
+        setEditing(null);
+        toast({ title: 'Oppfølgingsplan lagret' });
+      }
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/followup-playbooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/followup-playbooks'] });
+      setEditing(null);
+      toast({ title: 'Oppfølgingsplan slettet', description: 'Oppfølginger som alt er opprettet beholdes' });
+    },
+    onError,
+  });
+
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      for (const playbook of SUGGESTED_PLAYBOOKS) {
+        await apiRequest('POST', '/api/followup-playbooks', playbook);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/followup-playbooks'] });
+      toast({ title: 'Forslag lagt til', description: 'Tilpass tekstene og tidspunktene før neste salg' });
+    },
+    onError,
+  });
+
+  const update = (changes: Partial<InsertFollowupPlaybook>) => {
+    setEditing(current => current && { ...current, playbook: { ...current.playbook, ...changes } });
+  };
+
+  const updateStep = (index: number, changes: Partial<PlaybookStep>) => {
+    if (!editing) return;
+    update({ steps: editing.playbook.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const canSave = !!editing
+    && editing.playbook.name.trim().length > 0
+    && editing.playbook.steps.length > 0
+    && editing.playbook.steps.every(step => step.note.trim().length > 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Workflow className="mr-2 h-5 w-5" />
+            Oppfølgingsplaner
+          </CardTitle>
+          <CardDescription>
+            Opprett oppfølginger automatisk når en kontrakt signeres, en bil leveres eller EU-kontrollen nærmer seg.
+            Uten valgt ansvarlig går oppfølgingen til selgeren på kontrakten.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Laster...</p>
+          ) : playbooks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Ingen oppfølgingsplaner ennå.</p>
+          ) : (
+            playbooks.map(playbook => (
+              <div
+                key={playbook.id}
+                className="flex items-center justify-between border rounded-md p-3"
+                data-testid={`playbook-${playbook.id}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2 font-medium">
+                    {playbook.name}
+                    <Badge variant="outline">{PLAYBOOK_TRIGGER_LABELS[playbook.trigger]}</Badge>
+                    {!playbook.active && <Badge variant="secondary">Av</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {playbook.steps
+                      .map(step => `${FOLLOWUP_TYPE_LABELS[step.type]} ${playbookOffsetLabel(step.offsetDays).toLowerCase()}`)
+                      .join(' · ')}
+                  </div>
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={playbook.active}
+                      onCheckedChange={(active) => saveMutation.mutate({ id: playbook.id, playbook: { active } })}
+                      disabled={saveMutation.isPending}
+                      data-testid={`switch-playbook-active-${playbook.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({
+                        id: playbook.id,
+                        playbook: { name: playbook.name, trigger: playbook.trigger, active: playbook.active, steps: playbook.steps },
+                      })}
+                    >
+                      Rediger
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {canManage && !editing && (
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => setEditing({ id: null, playbook: emptyPlaybook() })} data-testid="button-new-playbook">
+                <Plus className="mr-2 h-4 w-4" />
+                Ny plan
+              </Button>
+              {playbooks.length === 0 && (
+                <Button variant="outline" onClick={() => suggestMutation.mutate()} disabled={suggestMutation.isPending}>
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Bruk forslag
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing.id ? 'Rediger oppfølgingsplan' : 'Ny oppfølgingsplan'}</CardTitle>
+            <CardDescription>
+              Tilgjengelige felt i notatet:{' '}
+              {Object.keys(MERGE_FIELDS).map(field => `{{${field}}}`).join(', ')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Navn</Label>
+                <Input
+                  value={editing.playbook.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  placeholder="F.eks. Etter salg"
+                  data-testid="input-playbook-name"
+                />
+              </div>
+              <div>
+                <Label>Utløses når</Label>
+                <Select
+                  value={editing.playbook.trigger}
+                  onValueChange={(value) => update({ trigger: value as PlaybookTrigger })}
+                >
+                  <SelectTrigger data-testid="select-playbook-trigger">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PLAYBOOK_TRIGGERS.map(trigger => (
+                      <SelectItem key={trigger} value={trigger}>{PLAYBOOK_TRIGGER_LABELS[trigger]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {editing.playbook.steps.map((step, index) => (
+              <div key={index} className="border rounded-md p-3 space-y-3" data-testid={`playbook-step-${index}`}>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Steg {index + 1}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ steps: editing.playbook.steps.filter((_, i) => i !== index) })}
+                    disabled={editing.playbook.steps.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <Label>Dager</Label>
+                    <Input
+                      type="number"
+                      value={step.offsetDays}
+                      onChange={(e) => updateStep(index, { offsetDays: parseInt(e.target.value, 10) || 0 })}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">{OFFSET_HINTS[editing.playbook.trigger]}</p>
+                  </div>
+                  <div>
+                    <Label>Klokkeslett</Label>
+                    <Input
+                      type="time"
+                      value={step.time}
+                      onChange={(e) => updateStep(index, { time: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Type</Label>
+                    <Select value={step.type} onValueChange={(value) => updateStep(index, { type: value as FollowupType })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FOLLOWUP_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{FOLLOWUP_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Ansvarlig</Label>
+                    <Select
+                      value={step.assigneeId ?? SELLER}
+                      onValueChange={(value) => updateStep(index, { assigneeId: value === SELLER ? null : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SELLER}>Selgeren</SelectItem>
+                        {members.map(member => (
+                          <SelectItem key={member.userId} value={member.userId}>{memberName(member)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label>Notat</Label>
+                  <Textarea
+                    value={step.note}
+                    onChange={(e) => updateStep(index, { note: e.target.value })}
+                    placeholder="Ring {{customerName}} og hør hvordan det går med {{carMake}} {{carModel}}"
+                    rows={2}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => update({ steps: [...editing.playbook.steps, emptyStep(editing.playbook.trigger)] })}
+                disabled={editing.playbook.steps.length >= 20}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Legg til steg
+              </Button>
+              <div className="flex items-center gap-2 mr-auto">
+                <Switch
+                  checked={editing.playbook.active}
+                  onCheckedChange={(active) => update({ active })}
+                />
+                <Label>Aktiv</Label>
+              </div>
+              {editing.id && (
+                <Button
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(editing.id!)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Slett
+                </Button>
+              )}
+              <Button variant="ghost" onClick={() => setEditing(null)}>
+                Avbryt
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(editing)}
+                disabled={!canSave || saveMutation.isPending}
+                data-testid="button-save-playbook"
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Lagre
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
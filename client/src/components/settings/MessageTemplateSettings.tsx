@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MessageSquare, Plus, Save, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { MESSAGE_CHANNEL_LABELS } from '@/lib/messages';
+import { MERGE_FIELDS } from '@shared/merge-fields';
+import {
+  MESSAGE_CHANNELS,
+  type InsertMessageTemplate,
+  type MessageChannel,
+  type MessageTemplate,
+} from '@shared/schema';
+
+const emptyTemplate = (): InsertMessageTemplate => ({
+  name: '',
+  channel: 'sms',
+  subject: null,
+  body: '',
+});
+
+export default function MessageTemplateSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canManage = can('company.manage');
+
+  // null: no editor open; id null: a new template
+  const [editing, setEditing] = useState<{ id: string | null; template: InsertMessageTemplate } | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<MessageTemplate[]>({
+    queryKey: ['/api/message-templates'],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Feil',
+      description: error.message || 'Kunne ikke lagre meldingsmalen',
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, template }: { id: string | null; template: InsertMessageTemplate }) => {
+      // Channel is fixed once created
+      const res = id
+        ? await apiRequest('PUT', `/api/message-templates/${id}`, { name: template.name, subject: template.subject, body: template.body })
+        : await apiRequest('POST', '/api/message-templates', template);
+      return res.json() as Promise<MessageTemplate>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/message-templates'] });
+      setEditing(null);
+      toast({ title: 'Meldingsmal lagret' });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/message-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/message-templates'] });
+      setEditing(null);
+      toast({ title: 'Meldingsmal slettet', description: 'Meldinger som alt er sendt beholdes' });
+    },
+    onError,
+  });
+
+  const update = (changes: Partial<InsertMessageTemplate>) => {
+    setEditing(current => current && { ...current, template: { ...current.template, ...changes } });
+  };
+
+  const canSave = !!editing
+    && editing.template.name.trim().length > 0
+    && editing.template.body.trim().length > 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <MessageSquare className="mr-2 h-5 w-5" />
+            Meldingsmaler
+          </CardTitle>
+          <CardDescription>
+            Ferdige tekster for e-post og SMS til kunder. Flettefelt fylles inn fra kunden, bilen og kontrakten ved sending.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Laster...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Ingen meldingsmaler ennå.</p>
+          ) : (
+            templates.map(template => (
+              <div
+                key={template.id}
+                className="flex items-center justify-between border rounded-md p-3"
+                data-testid={`message-template-${template.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 font-medium">
+                    {template.name}
+                    <Badge variant="outline">{MESSAGE_CHANNEL_LABELS[template.channel]}</Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground truncate">{template.subject || template.body}</div>
+                </div>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditing({
+                      id: template.id,
+                      template: { name: template.name, channel: template.channel, subject: template.subject, body: template.body },
+                    })}
+                  >
+                    Rediger
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+
+          {canManage && !editing && (
+            <Button onClick={() => setEditing({ id: null, template: emptyTemplate() })} data-testid="button-new-message-template">
+              <Plus className="mr-2 h-4 w-4" />
+              Ny mal
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing.id ? 'Rediger meldingsmal' : 'Ny meldingsmal'}</CardTitle>
+            <CardDescription>
+              Tilgjengelige felt:{' '}
+              {Object.keys(MERGE_FIELDS).map(field => `{{${field}}}`).join(', ')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Navn</Label>
+                <Input
+                  value={editing.template.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  placeholder="F.eks. Bilen er klar"
+                  data-testid="input-message-template-name"
+                />
+              </div>
+              <div>
+                <Label>Kanal</Label>
+                <Select
+                  value={editing.template.channel}
+                  onValueChange={(value) => update({ channel: value as MessageChannel })}
+                  disabled={!!editing.id}
+                >
+                  <SelectTrigger data-testid="select-message-template-channel">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MESSAGE_CHANNELS.map(channel => (
+                      <SelectItem key={channel} value={channel}>{MESSAGE_CHANNEL_LABELS[channel]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {editing.template.channel === 'email' && (
+              <div>
+                <Label>Emne</Label>
+                <Input
+                  value={editing.template.subject ?? ''}
+                  onChange={(e) => update({ subject: e.target.value })}
+                  placeholder="Din {{carMake}} {{carModel}} er klar"
+                />
+              </div>
+            )}
+
+            <div>
+              <Label>Tekst</Label>
+              <Textarea
+                value={editing.template.body}
+                onChange={(e) => update({ body: e.target.value })}
+                placeholder="Hei {{customerName}}! {{carMake}} {{carModel}} ({{carRegistration}}) er klar for henting. Hilsen {{sellerName}}"
+                rows={6}
+                data-testid="textarea-message-template-body"
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 justify-end">
+              {editing.id && (
+                <Button
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(editing.id!)}
+                  disabled={deleteMutation.isPending}
+                  className="mr-auto"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Slett
+                </Button>
+              )}
+              <Button variant="ghost" onClick={() => setEditing(null)}>
+                Avbryt
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(editing)}
+                disabled={!canSave || saveMutation.isPending}
+                data-testid="button-save-message-template"
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Lagre
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
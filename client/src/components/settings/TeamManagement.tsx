@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { useUserRole } from '@/hooks/useUserRole';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -32,38 +32,36 @@ import {
 } from '@/components/ui/select';
 import { UserPlus, Mail, Shield, Edit, Trash2 } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { ROLES, ROLE_LABELS, type Role } from '@shared/roles';
 
 interface TeamMember {
   id: string;
   name: string;
   email: string;
-  role: 'EIER' | 'SELGER' | 'REGNSKAP' | 'VERKSTED';
+  role: Role;
   joinedAt: string;
 }
 
-const ROLE_LABELS = {
-  EIER: 'Eier',
-  SELGER: 'Selger', 
-  REGNSKAP: 'Regnskap',
-  VERKSTED: 'Verksted'
-} as const;
+// Ownership is handed over, not granted by invite
+const INVITABLE_ROLES = ROLES.filter(role => role !== 'EIER');
 
-const ROLE_COLORS = {
+const ROLE_COLORS: Record<Role, string> = {
   EIER: 'bg-purple-100 text-purple-800',
   SELGER: 'bg-blue-100 text-blue-800',
   REGNSKAP: 'bg-green-100 text-green-800',
-  VERKSTED: 'bg-orange-100 text-orange-800'
-} as const;
+  VERKSTED: 'bg-orange-100 text-orange-800',
+  LESER: 'bg-gray-100 text-gray-800'
+};
 
 export default function TeamManagement() {
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
-  const [inviteRole, setInviteRole] = useState<'SELGER' | 'REGNSKAP' | 'VERKSTED'>('SELGER');
+  const [inviteRole, setInviteRole] = useState<Role>('SELGER');
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { role: currentUserRole } = useUserRole();
+  const { can } = usePermissions();
 
-  const isOwner = currentUserRole === 'EIER';
+  const canManageTeam = can('team.manage');
 
   // Get team members
   const { data: teamMembers = [], isLoading } = useQuery<TeamMember[]>({
@@ -165,7 +163,7 @@ export default function TeamManagement() {
               Administrer teammedlemmer og deres tilgangsnivå
             </CardDescription>
           </div>
-          {isOwner && (
+          {canManageTeam && (
             <Button onClick={() => setShowInviteModal(true)} data-testid="invite-member-button">
               <UserPlus className="mr-2 h-4 w-4" />
               Inviter medlem
@@ -194,7 +192,7 @@ export default function TeamManagement() {
             <p className="text-muted-foreground mb-4">
               Du er det eneste medlemmet i bedriften. Inviter andre for å jobbe sammen.
             </p>
-            {isOwner && (
+            {canManageTeam && (
               <Button onClick={() => setShowInviteModal(true)}>
                 <UserPlus className="mr-2 h-4 w-4" />
                 Inviter første medlem
@@ -209,7 +207,7 @@ export default function TeamManagement() {
                 <TableHead>E-post</TableHead>
                 <TableHead>Rolle</TableHead>
                 <TableHead>Ble med</TableHead>
-                {isOwner && <TableHead>Handlinger</TableHead>}
+                {canManageTeam && <TableHead>Handlinger</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -225,7 +223,7 @@ export default function TeamManagement() {
                   <TableCell>
                     {new Date(member.joinedAt).toLocaleDateString('no-NO')}
                   </TableCell>
-                  {isOwner && (
+                  {canManageTeam && (
                     <TableCell>
                       <div className="flex items-center space-x-2">
                         <Button
@@ -288,14 +286,14 @@ export default function TeamManagement() {
 
             <div className="space-y-2">
               <Label htmlFor="invite-role">Rolle</Label>
-              <Select value={inviteRole} onValueChange={setInviteRole}>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)}>
                 <SelectTrigger data-testid="invite-role-select">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="SELGER">Selger</SelectItem>
-                  <SelectItem value="REGNSKAP">Regnskap</SelectItem>
-                  <SelectItem value="VERKSTED">Verksted</SelectItem>
+                  {INVITABLE_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -9,24 +9,19 @@ import { useToast } from "@/hooks/use-toast";
 import { UserPlus, Copy, Mail, Clock, Check, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ROLE_LABELS, type Role } from "@shared/roles";
 
 interface InviteFormData {
   email: string;
-  role: "EIER" | "SELGER" | "REGNSKAP" | "VERKSTED";
+  role: Role;
 }
 
-const roleLabels = {
-  EIER: "Eier",
-  SELGER: "Selger", 
-  REGNSKAP: "Regnskap",
-  VERKSTED: "Verksted"
-};
-
-const roleDescriptions = {
+const roleDescriptions: Record<Role, string> = {
   EIER: "Full tilgang til alt, kan invitere nye brukere",
   SELGER: "Kan håndtere biler, kunder og salgskontrakter",
   REGNSKAP: "Tilgang til finansielle data og rapporter",
-  VERKSTED: "Tilgang til verksted og service informasjon"
+  VERKSTED: "Tilgang til verksted og service informasjon",
+  LESER: "Kan se biler, kunder og kontrakter uten å endre"
 };
 
 export function InviteTeamDialog({ trigger }: { trigger: React.ReactNode }) {
@@ -150,12 +145,12 @@ export function InviteTeamDialog({ trigger }: { trigger: React.ReactNode }) {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {Object.entries(roleLabels).map(([value, label]) => (
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
                         <SelectItem key={value} value={value}>
                           <div className="space-y-1">
                             <div className="font-medium">{label}</div>
                             <div className="text-xs text-muted-foreground">
-                              {roleDescriptions[value as keyof typeof roleDescriptions]}
+                              {roleDescriptions[value as Role]}
                             </div>
                           </div>
                         </SelectItem>
@@ -200,7 +195,7 @@ export function InviteTeamDialog({ trigger }: { trigger: React.ReactNode }) {
                         <div className="flex items-center gap-2">
                           <span className="font-medium">{invite.email}</span>
                           <Badge variant="secondary">
-                            {roleLabels[invite.role as keyof typeof roleLabels]}
+                            {ROLE_LABELS[invite.role as Role] ?? invite.role}
                           </Badge>
                           {invite.accepted ? (
                             <Badge variant="default" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">
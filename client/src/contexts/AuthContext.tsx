@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { login, logout, getCurrentUser, type AuthUser, type AuthCompany } from '@/lib/authApi';
 import { useToast } from '@/hooks/use-toast';
+import { hasPermission as hasRolePermission, type Permission } from '@shared/roles';
 
 interface AuthContextType {
   user: AuthUser | null;
@@ -10,7 +11,7 @@ interface AuthContextType {
   signUp: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
   isAuthenticated: boolean;
-  hasPermission: (feature: string) => boolean;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -88,27 +89,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const hasPermission = (feature: string): boolean => {
-    if (!user || !company) return false;
-    
-    // Simple permission check based on role and subscription plan
-    const permissions: Record<string, boolean> = {
-      canCreateCars: true,
-      canEditCars: true,
-      canDeleteCars: user.role === 'admin' || user.role === 'org_admin',
-      canCreateCustomers: true,
-      canEditCustomers: true,
-      canDeleteCustomers: user.role === 'admin' || user.role === 'org_admin',
-      canCreateContracts: true,
-      canEditContracts: true,
-      canDeleteContracts: user.role === 'admin' || user.role === 'org_admin',
-      canViewAnalytics: company.subscriptionPlan !== 'light',
-      canManageUsers: user.role === 'admin' || user.role === 'org_admin',
-      canManageSubscription: user.role === 'admin' || user.role === 'org_admin',
-      canViewAllData: user.role === 'admin' || user.role === 'org_admin',
-    };
-
-    return permissions[feature] || false;
+  // Role from sign-in; pages that depend on the active company use usePermissions
+  const hasPermission = (permission: Permission): boolean => {
+    return !!user && hasRolePermission(user.role, permission);
   };
 
   const value = {
@@ -1,40 +1,31 @@
-import { useAuth } from '@/contexts/AuthContext';
-import { ROLE_PERMISSIONS, type OrgRole } from '@shared/auth-types';
-
-type Resource = keyof typeof ROLE_PERMISSIONS.owner;
-type Action = 'create' | 'read' | 'update' | 'delete';
+import { useUserRole } from '@/hooks/useUserRole';
+import type { Permission, Role } from '@shared/roles';
 
+// The effective permissions the server resolved for the active company,
+// including those of a company-defined role
 export function usePermissions() {
-  const { userRole } = useAuth();
+  const { data } = useUserRole();
+  const userRole: Role | null = data?.role ?? null;
+  const permissions = data?.permissions ?? [];
 
-  const can = (action: Action, resource: Resource): boolean => {
-    if (!userRole) return false;
-    
-    const permissions = ROLE_PERMISSIONS[userRole];
-    if (!permissions) return false;
-    
-    const resourcePermissions = permissions[resource];
-    if (!resourcePermissions) return false;
-    
-    return resourcePermissions.includes(action);
+  const can = (permission: Permission): boolean => {
+    return permissions.includes(permission);
   };
 
-  const canAny = (actions: Action[], resource: Resource): boolean => {
-    return actions.some(action => can(action, resource));
+  const canAny = (required: Permission[]): boolean => {
+    return required.some(permission => can(permission));
   };
 
-  const canAll = (actions: Action[], resource: Resource): boolean => {
-    return actions.every(action => can(action, resource));
+  const canAll = (required: Permission[]): boolean => {
+    return required.every(permission => can(permission));
   };
 
-  const hasRole = (roles: OrgRole[]): boolean => {
+  const hasRole = (roles: Role[]): boolean => {
     if (!userRole) return false;
     return roles.includes(userRole);
   };
 
-  const isOwner = (): boolean => userRole === 'owner';
-  const isAdmin = (): boolean => userRole === 'admin';
-  const isOwnerOrAdmin = (): boolean => hasRole(['owner', 'admin']);
+  const isOwner = (): boolean => userRole === 'EIER';
 
   return {
     can,
@@ -42,8 +33,8 @@ export function usePermissions() {
     canAll,
     hasRole,
     isOwner,
-    isAdmin,
-    isOwnerOrAdmin,
     userRole,
+    roleName: data?.customRoleName ?? null,
+    permissions,
   };
-}
\ No newline at end of file
+}
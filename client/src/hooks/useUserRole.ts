@@ -1,10 +1,13 @@
 import { useQuery } from '@tanstack/react-query';
+import type { Permission, Role } from '@shared/roles';
 
 interface UserRole {
-  role: string;
+  role: Role;
+  customRoleName: string | null;
   canViewSensitive: boolean;
   canDelete: boolean;
   canInvite: boolean;
+  permissions: Permission[];
 }
 
 export function useUserRole() {
@@ -16,15 +19,15 @@ export function useUserRole() {
 
 export function useCanViewSensitive() {
   const { data: userRole } = useUserRole();
-  return userRole?.canViewSensitive ?? true; // Single tenant - always true
+  return userRole?.canViewSensitive ?? false; // Hidden until the role has loaded
 }
 
 export function useCanDelete() {
   const { data: userRole } = useUserRole();
-  return userRole?.canDelete ?? true; // Single tenant - always true
+  return userRole?.canDelete ?? false;
 }
 
 export function useCanInvite() {
   const { data: userRole } = useUserRole();
-  return userRole?.canInvite ?? false; // Single tenant - invites disabled
+  return userRole?.canInvite ?? false;
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
 
+// Browser-side rasterized rendering, only used for drafts that are not saved yet.
+// Saved contracts are rendered server-side via GET /api/contracts/:id/pdf.
 export async function htmlToPdf(html: string, filename: string = 'kontrakt.pdf'): Promise<Blob> {
   // Create a temporary container for the HTML
   const container = document.createElement('div');
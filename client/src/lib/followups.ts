@@ -0,0 +1,57 @@
+import type { Followup, FollowupRecurrenceUnit, FollowupStatus, FollowupType, PlaybookTrigger } from "@shared/schema";
+
+// Labels and shared client helpers for customer follow-ups
+
+export const FOLLOWUP_TYPE_LABELS: Record<FollowupType, string> = {
+  call: "Telefon",
+  email: "E-post",
+  sms: "SMS",
+  meeting: "Møte",
+  other: "Annet",
+};
+
+export const FOLLOWUP_STATUS_LABELS: Record<FollowupStatus, string> = {
+  OPEN: "Åpen",
+  DONE: "Fullført",
+  SKIPPED: "Hoppet over",
+};
+
+export const RECURRENCE_UNIT_LABELS: Record<FollowupRecurrenceUnit, string> = {
+  days: "dag",
+  weeks: "uke",
+  months: "måned",
+  years: "år",
+};
+
+export const PLAYBOOK_TRIGGER_LABELS: Record<PlaybookTrigger, string> = {
+  contract_signed: "Kontrakt signert",
+  car_delivered: "Bil levert",
+  eu_control_due: "EU-kontroll forfaller",
+};
+
+// "3 dager etter", "30 dager før"
+export function playbookOffsetLabel(offsetDays: number): string {
+  if (offsetDays === 0) return "Samme dag";
+  const days = Math.abs(offsetDays);
+  return `${days} ${days === 1 ? "dag" : "dager"} ${offsetDays > 0 ? "etter" : "før"}`;
+}
+
+// "Hver måned", "Hver 12. måned"
+export function recurrenceLabel(followup: Pick<Followup, "recurrenceUnit" | "recurrenceInterval">): string | null {
+  if (!followup.recurrenceUnit) return null;
+  const interval = followup.recurrenceInterval ?? 1;
+  const unit = RECURRENCE_UNIT_LABELS[followup.recurrenceUnit];
+  return interval === 1 ? `Hver ${unit}` : `Hver ${interval}. ${unit}`;
+}
+
+export function isOverdue(followup: Pick<Followup, "status" | "dueAt">, now = new Date()): boolean {
+  return followup.status === "OPEN" && new Date(followup.dueAt) < now;
+}
+
+export function isDueToday(followup: Pick<Followup, "dueAt">, now = new Date()): boolean {
+  return new Date(followup.dueAt).toDateString() === now.toDateString();
+}
+
+export function formatDueAt(dueAt: string | Date): string {
+  return new Date(dueAt).toLocaleString("no-NO", { dateStyle: "short", timeStyle: "short" });
+}
@@ -0,0 +1,38 @@
+import { queryClient } from "@/lib/queryClient";
+import type { LeadSource, LeadStage } from "@shared/schema";
+
+// Labels and shared client helpers for the lead pipeline
+
+export const LEAD_SOURCE_LABELS: Record<LeadSource, string> = {
+  phone: "Telefon",
+  walk_in: "Besøk i butikk",
+  web_form: "Webskjema",
+  listing_site: "Annonsesider",
+  other: "Annet",
+};
+
+export const LEAD_STAGE_LABELS: Record<LeadStage, string> = {
+  new: "Ny",
+  contacted: "Kontaktet",
+  test_drive: "Prøvekjøring",
+  offer: "Tilbud",
+  won: "Vunnet",
+  lost: "Tapt",
+};
+
+// Share of leads that were won, as a whole percentage
+export function conversionRate(won: number, total: number): number {
+  return total > 0 ? Math.round((won / total) * 100) : 0;
+}
+
+// Conversion adds a customer and possibly a contract, and marks the car sold
+export function invalidateLeadQueries() {
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/leads") });
+}
+
+export function invalidateConversionQueries() {
+  invalidateLeadQueries();
+  queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/cars"] });
+}
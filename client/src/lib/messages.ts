@@ -0,0 +1,58 @@
+import type {
+  Contract,
+  CustomerMessageWithSender,
+  Followup,
+  MessageChannel,
+  MessageStatus,
+} from "@shared/schema";
+import { FOLLOWUP_TYPE_LABELS } from "@/lib/followups";
+
+// Labels and the customer timeline for the message log
+
+export const MESSAGE_CHANNEL_LABELS: Record<MessageChannel, string> = {
+  email: "E-post",
+  sms: "SMS",
+};
+
+export const MESSAGE_STATUS_LABELS: Record<MessageStatus, string> = {
+  sent: "Sendt",
+  failed: "Feilet",
+  received: "Mottatt",
+};
+
+// Providers cap a single SMS at 160 characters; longer ones are split
+export const SMS_SEGMENT_LENGTH = 160;
+
+export type TimelineEntry =
+  | { kind: "message"; at: Date; message: CustomerMessageWithSender }
+  | { kind: "followup"; at: Date; followup: Followup; title: string }
+  | { kind: "contract"; at: Date; contract: Contract };
+
+/**
+ * Everything that happened with a customer, newest first: messages both
+ * ways, closed follow-ups and contracts. Open follow-ups are upcoming, not
+ * history, and stay in the follow-up list.
+ */
+export function customerTimeline(
+  messages: CustomerMessageWithSender[],
+  followups: Followup[],
+  contracts: Contract[],
+): TimelineEntry[] {
+  const entries: TimelineEntry[] = [
+    ...messages.map(message => ({ kind: "message" as const, at: new Date(message.createdAt), message })),
+    ...followups
+      .filter(followup => followup.status !== "OPEN")
+      .map(followup => ({
+        kind: "followup" as const,
+        at: new Date(followup.completedAt ?? followup.dueAt),
+        followup,
+        title: `${FOLLOWUP_TYPE_LABELS[followup.type]} ${followup.status === "DONE" ? "fullført" : "hoppet over"}`,
+      })),
+    ...contracts.map(contract => ({
+      kind: "contract" as const,
+      at: new Date(contract.createdAt ?? contract.saleDate),
+      contract,
+    })),
+  ];
+  return entries.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
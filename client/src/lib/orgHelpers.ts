@@ -1,6 +1,7 @@
 import { supabase } from './supabaseClient';
+import { normalizeRole, type Role } from '@shared/roles';
 
-export async function getMyOrg(): Promise<{ orgId: string; role: 'owner'|'admin'|'user' }> {
+export async function getMyOrg(): Promise<{ orgId: string; role: Role }> {
   if (!supabase) throw new Error('Supabase not configured');
   
   const { data: { user } } = await supabase.auth.getUser();
@@ -14,5 +15,5 @@ export async function getMyOrg(): Promise<{ orgId: string; role: 'owner'|'admin'
   if (error) throw error;
   if (!m || !m.length) throw new Error('No org membership');
 
-  return { orgId: m[0].org_id, role: m[0].role as any };
+  return { orgId: m[0].org_id, role: normalizeRole(m[0].role) ?? 'LESER' };
 }
\ No newline at end of file
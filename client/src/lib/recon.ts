@@ -0,0 +1,53 @@
+import { queryClient } from "@/lib/queryClient";
+import type { Role } from "@shared/roles";
+import type { ReconLineKind, ReconTaskStatus, ReconTaskType, ReconTaskWithLines } from "@shared/schema";
+
+// Labels and shared client helpers for reconditioning work orders
+
+export const RECON_TASK_TYPE_LABELS: Record<ReconTaskType, string> = {
+  polish: "Polering",
+  tyres: "Dekk",
+  service: "Service",
+  damage_repair: "Skadereparasjon",
+  inspection: "Kontroll",
+  other: "Annet",
+};
+
+export const RECON_TASK_STATUS_LABELS: Record<ReconTaskStatus, string> = {
+  todo: "Å gjøre",
+  in_progress: "Pågår",
+  waiting_parts: "Venter på deler",
+  done: "Ferdig",
+};
+
+export const RECON_LINE_KIND_LABELS: Record<ReconLineKind, string> = {
+  part: "Deler",
+  labour: "Arbeid",
+};
+
+// Line costs and the task total are left out for users who may not see recon costs
+export type ReconTaskView = Omit<ReconTaskWithLines, "total" | "lines"> & {
+  total?: number;
+  lines: Array<Omit<ReconTaskWithLines["lines"][number], "unitCost"> & { unitCost?: string }>;
+};
+
+export interface TeamMember {
+  userId: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: Role;
+}
+
+export function memberName(member: Pick<TeamMember, "email" | "firstName" | "lastName">): string {
+  return [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email || "Ukjent";
+}
+
+// Task changes can move the car's recon cost, so the car is refetched as well
+export function invalidateReconQueries(carId: string) {
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/recon/tasks") });
+  queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}/recon-tasks`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}/price-history`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/cars"] });
+}
@@ -7,13 +7,14 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Users, Activity, BarChart3 } from 'lucide-react';
+import { ROLES, ROLE_LABELS, hasPermission, normalizeRole, type Role } from '@shared/roles';
 
-type Member = { user_id: string; role: 'owner'|'admin'|'user'; full_name: string|null; email: string|null };
+type Member = { user_id: string; role: Role; full_name: string|null; email: string|null };
 type ActiveRow = { user_id: string|null; last_seen: string };
 
 export default function AdminPortal() {
   const [orgId, setOrgId] = useState<string>('');
-  const [myRole, setMyRole] = useState<'owner'|'admin'|'user'>('user');
+  const [myRole, setMyRole] = useState<Role>('LESER');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -68,8 +69,8 @@ export default function AdminPortal() {
         </div>
         <div className="flex items-center gap-4">
           <Badge variant="outline">Org: {orgId ? orgId.slice(0, 8) : '—'}</Badge>
-          <Badge variant={myRole === 'owner' ? 'default' : 'secondary'}>
-            {myRole === 'owner' ? 'Eier' : myRole === 'admin' ? 'Admin' : 'Bruker'}
+          <Badge variant={myRole === 'EIER' ? 'default' : 'secondary'}>
+            {ROLE_LABELS[myRole]}
           </Badge>
         </div>
       </div>
@@ -106,12 +107,12 @@ export default function AdminPortal() {
   );
 }
 
-function Members({ orgId, myRole }: { orgId: string; myRole: 'owner'|'admin'|'user' }) {
+function Members({ orgId, myRole }: { orgId: string; myRole: Role }) {
   const [rows, setRows] = useState<Member[]>([]);
   const [loading, setLoading] = useState(false);
-  const [inviteRole, setInviteRole] = useState<'owner'|'admin'|'user'>('user');
+  const [inviteRole, setInviteRole] = useState<Role>('LESER');
   const [inviteUrl, setInviteUrl] = useState<string>('');
-  const canManage = myRole === 'owner' || myRole === 'admin';
+  const canManage = hasPermission(myRole, 'company.manage');
 
   async function load() {
     if (!orgId || !supabase) return;
@@ -138,7 +139,7 @@ function Members({ orgId, myRole }: { orgId: string; myRole: 'owner'|'admin'|'us
 
       const merged: Member[] = (mems || []).map(m => ({
         user_id: m.user_id,
-        role: m.role as any,
+        role: normalizeRole(m.role) ?? 'LESER',
         full_name: map[m.user_id]?.full_name ?? null,
         email: map[m.user_id]?.email ?? null
       }));
@@ -153,7 +154,7 @@ function Members({ orgId, myRole }: { orgId: string; myRole: 'owner'|'admin'|'us
 
   useEffect(() => { load(); }, [orgId]);
 
-  async function changeRole(user_id: string, role: 'owner'|'admin'|'user') {
+  async function changeRole(user_id: string, role: Role) {
     if (!supabase) return;
     await supabase.from('org_members')
       .update({ role })
@@ -203,16 +204,16 @@ function Members({ orgId, myRole }: { orgId: string; myRole: 'owner'|'admin'|'us
             <div className="flex items-center gap-2">
               <Select
                 value={r.role}
-                onValueChange={(value) => changeRole(r.user_id, value as any)}
+                onValueChange={(value) => changeRole(r.user_id, value as Role)}
                 disabled={!canManage}
               >
                 <SelectTrigger className="w-32">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="owner">Eier</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="user">Bruker</SelectItem>
+                  {ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Button 
@@ -237,14 +238,14 @@ function Members({ orgId, myRole }: { orgId: string; myRole: 'owner'|'admin'|'us
           <div className="mt-6 pt-6 border-t space-y-4">
             <h3 className="font-medium">Inviter via lenke</h3>
             <div className="flex items-center gap-2">
-              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as any)}>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)}>
                 <SelectTrigger className="w-32">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="user">Bruker</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="owner">Eier</SelectItem>
+                  {ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Button onClick={createInvite}>Opprett invitasjonslenke</Button>
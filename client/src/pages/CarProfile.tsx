@@ -12,6 +12,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import MainLayout from "@/components/layout/MainLayout";
+import PriceRecommendationPanel from "@/components/cars/PriceRecommendationPanel";
+import PriceSuggestionAlert from "@/components/cars/PriceSuggestionAlert";
+import PriceHistoryChart from "@/components/cars/PriceHistoryChart";
+import ReconTasksPanel from "@/components/recon/ReconTasksPanel";
+import type { ReconTaskView } from "@/lib/recon";
 import type { Car } from "@shared/schema";
 import { 
   ArrowLeft, Edit2, Save, X, Trash2, Upload, Eye, EyeOff,
@@ -29,6 +34,7 @@ export default function CarProfile() {
   const [activeTab, setActiveTab] = useState("overview");
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [editedCar, setEditedCar] = useState<Partial<Car>>({});
+  const [priceChangeReason, setPriceChangeReason] = useState("");
   const [uploadingImages, setUploadingImages] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   
@@ -40,6 +46,23 @@ export default function CarProfile() {
     enabled: !!carId,
   });
 
+  const { data: tradeInContract } = useQuery<{
+    id: string;
+    contractNumber: string;
+    saleDate: string;
+    customerName: string | null;
+  } | null>({
+    queryKey: [`/api/cars/${carId}/trade-in-contract`],
+    enabled: !!carId,
+  });
+
+  // Once work orders have lines they own the recon cost
+  const { data: reconTasks = [] } = useQuery<ReconTaskView[]>({
+    queryKey: [`/api/cars/${carId}/recon-tasks`],
+    enabled: !!carId,
+  });
+  const reconCostFromWorkOrders = reconTasks.some(task => task.lines.length > 0);
+
   useEffect(() => {
     if (car && !isEditMode) {
       setEditedCar(car);
@@ -47,16 +70,18 @@ export default function CarProfile() {
   }, [car, isEditMode]);
 
   const updateMutation = useMutation({
-    mutationFn: async (updates: Partial<Car>) => {
+    mutationFn: async (updates: Partial<Car> & { priceChangeReason?: string }) => {
       return await apiRequest("PUT", `/api/cars/${carId}`, updates);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cars/${carId}/price-history`] });
       queryClient.invalidateQueries({ queryKey: ["/api/cars"] });
       toast({
         title: "Bil oppdatert",
         description: "Endringene er lagret",
       });
+      setPriceChangeReason("");
       setIsEditMode(false);
     },
     onError: () => {
@@ -90,12 +115,13 @@ export default function CarProfile() {
 
   const handleSave = async () => {
     setIsSaving(true);
-    await updateMutation.mutateAsync(editedCar);
+    await updateMutation.mutateAsync({ ...editedCar, priceChangeReason: priceChangeReason || undefined });
     setIsSaving(false);
   };
 
   const handleCancel = () => {
     setEditedCar(car || {});
+    setPriceChangeReason("");
     setIsEditMode(false);
   };
 
@@ -134,6 +160,7 @@ export default function CarProfile() {
       case "available": return "bg-green-500";
       case "reserved": return "bg-yellow-500";
       case "sold": return "bg-red-500";
+      case "innkommende": return "bg-blue-500";
       default: return "bg-gray-500";
     }
   };
@@ -143,6 +170,7 @@ export default function CarProfile() {
       case "available": return "Til salgs";
       case "reserved": return "Reservert";
       case "sold": return "Solgt";
+      case "innkommende": return "Innkommende";
       default: return status;
     }
   };
@@ -227,10 +255,27 @@ export default function CarProfile() {
                   <p className="text-lg text-slate-600 dark:text-slate-400 mt-1">
                     {currentCar.year} • {currentCar.registrationNumber}
                   </p>
+                  {tradeInContract && (
+                    <button
+                      type="button"
+                      onClick={() => setLocation("/contracts")}
+                      className="mt-1 text-sm text-blue-600 hover:underline dark:text-blue-400"
+                      data-testid="link-trade-in-contract"
+                    >
+                      Innbytte på kontrakt {tradeInContract.contractNumber}
+                      {tradeInContract.customerName ? ` fra ${tradeInContract.customerName}` : ""}
+                      {" "}({new Date(tradeInContract.saleDate).toLocaleDateString("no-NO")})
+                    </button>
+                  )}
                   <div className="mt-3">
                     <p className="text-3xl font-bold text-slate-900 dark:text-white">
                       {formatPrice(currentCar.salePrice)}
                     </p>
+                    {currentCar.status === "sold" && currentCar.soldPrice && (
+                      <p className="text-sm text-slate-500 dark:text-slate-400" data-testid="text-sold-price">
+                        Solgt for {formatPrice(currentCar.soldPrice)} (inkl. tillegg og kreditnotaer)
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -389,10 +434,11 @@ export default function CarProfile() {
               <Card>
                 <CardContent className="p-6">
                   <Tabs value={activeTab} onValueChange={setActiveTab}>
-                    <TabsList className="grid w-full grid-cols-4">
+                    <TabsList className="grid w-full grid-cols-5">
                       <TabsTrigger value="overview">Oversikt</TabsTrigger>
                       <TabsTrigger value="technical">Detaljer</TabsTrigger>
                       <TabsTrigger value="pricing">Prising</TabsTrigger>
+                      <TabsTrigger value="recon">Klargjøring</TabsTrigger>
                       <TabsTrigger value="marketing">Markedsføring</TabsTrigger>
                     </TabsList>
 
@@ -568,7 +614,7 @@ export default function CarProfile() {
                         </div>
                         <div>
                           <Label className="text-sm">Klargjøringskostnad</Label>
-                          {isEditMode ? (
+                          {isEditMode && !reconCostFromWorkOrders ? (
                             <Input
                               type="number"
                               value={editedCar.recondCost || ""}
@@ -579,7 +625,22 @@ export default function CarProfile() {
                           ) : (
                             <p className="mt-1 font-medium">{formatPrice(currentCar.recondCost)}</p>
                           )}
+                          {isEditMode && reconCostFromWorkOrders && (
+                            <p className="mt-1 text-xs text-slate-500">Summeres fra arbeidsordrene under Klargjøring</p>
+                          )}
                         </div>
+                        {isEditMode && (
+                          <div>
+                            <Label className="text-sm">Årsak til prisendring</Label>
+                            <Input
+                              value={priceChangeReason}
+                              onChange={(e) => setPriceChangeReason(e.target.value)}
+                              placeholder="F.eks. justert etter visning"
+                              maxLength={500}
+                              className="mt-1"
+                            />
+                          </div>
+                        )}
                       </div>
 
                       <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
@@ -598,6 +659,21 @@ export default function CarProfile() {
                           </div>
                         </div>
                       </div>
+
+                      {car && car.status !== "sold" && (
+                        <>
+                          <PriceSuggestionAlert carId={car.id} />
+                          <PriceRecommendationPanel carId={car.id} disabled={isEditMode} />
+                        </>
+                      )}
+
+                      {car && (
+                        <PriceHistoryChart carId={car.id} currentPrice={Number(car.salePrice || 0)} />
+                      )}
+                    </TabsContent>
+
+                    <TabsContent value="recon" className="mt-6 space-y-4">
+                      {car && <ReconTasksPanel carId={car.id} carStatus={car.status || "available"} />}
                     </TabsContent>
 
                     <TabsContent value="marketing" className="mt-6 space-y-4">
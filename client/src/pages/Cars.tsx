@@ -25,6 +25,7 @@ import {
 } from "lucide-react";
 import { InviteTeamDialog } from "@/components/team/InviteTeamDialog";
 import { useCanViewSensitive, useCanDelete, useCanInvite } from "@/hooks/useUserRole";
+import { usePermissions } from "@/hooks/usePermissions";
 import { apiRequest } from "@/lib/queryClient";
 import type { Car } from "@shared/schema";
 import { Link } from "wouter";
@@ -302,6 +303,7 @@ export default function Cars() {
   const { isAuthenticated, isLoading } = useAuth();
   const canDelete = useCanDelete();
   const canInvite = useCanInvite();
+  const canExport = usePermissions().can("data.export");
   const queryClient = useQueryClient();
   
   // Fetch cars with refined query
@@ -529,16 +531,18 @@ export default function Cars() {
           </div>
           
           <div className="flex items-center gap-3">
-            <Button
-              variant="outline"
-              onClick={exportToPDF}
-              disabled={isExporting}
-              className="border-slate-300 dark:border-slate-600"
-              data-testid="button-export-pdf"
-            >
-              <FileDown className="w-4 h-4 mr-2" />
-              {isExporting ? "Eksporterer..." : "Eksporter PDF"}
-            </Button>
+            {canExport && (
+              <Button
+                variant="outline"
+                onClick={exportToPDF}
+                disabled={isExporting}
+                className="border-slate-300 dark:border-slate-600"
+                data-testid="button-export-pdf"
+              >
+                <FileDown className="w-4 h-4 mr-2" />
+                {isExporting ? "Eksporterer..." : "Eksporter PDF"}
+              </Button>
+            )}
             
             {canInvite && (
               <Button
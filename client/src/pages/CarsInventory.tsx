@@ -73,6 +73,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { format } from "date-fns";
 import { nb } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useLocation } from "wouter";
 import type { Car } from "@shared/schema";
 import html2canvas from "html2canvas";
@@ -414,6 +415,7 @@ export default function CarsInventory() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
 
   // Check authentication status
   const { data: user, isLoading: isUserLoading } = useQuery({
@@ -806,24 +808,26 @@ export default function CarsInventory() {
             </DropdownMenu>
 
             {/* Export */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" disabled={isExporting}>
-                  <Download className="w-4 h-4 mr-2" />
-                  {isExporting ? "Eksporterer..." : "Eksporter"}
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent>
-                <DropdownMenuItem onClick={exportToPDF} disabled={isExporting}>
-                  <FileText className="w-4 h-4 mr-2" />
-                  {isExporting ? "Eksporterer PDF..." : "Eksporter som PDF"}
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => toast({ title: "Excel Eksport", description: "Excel-eksport kommer snart..." })}>
-                  <TableProperties className="w-4 h-4 mr-2" />
-                  Eksporter som Excel
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            {can('data.export') && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={isExporting}>
+                    <Download className="w-4 h-4 mr-2" />
+                    {isExporting ? "Eksporterer..." : "Eksporter"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem onClick={exportToPDF} disabled={isExporting}>
+                    <FileText className="w-4 h-4 mr-2" />
+                    {isExporting ? "Eksporterer PDF..." : "Eksporter som PDF"}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => toast({ title: "Excel Eksport", description: "Excel-eksport kommer snart..." })}>
+                    <TableProperties className="w-4 h-4 mr-2" />
+                    Eksporter som Excel
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
 
             {/* Add new car */}
             <Button 
@@ -11,6 +11,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ContractWizard from "@/components/contracts/ContractWizard";
+import ContractAmendmentsDialog from "@/components/contracts/ContractAmendmentsDialog";
 import { 
   Plus, Search, Filter, FileText, TrendingUp, Clock, Package,
   Calendar, Phone, Mail, Car, CreditCard, AlertCircle, CheckCircle2,
@@ -19,6 +20,12 @@ import {
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import type { Contract, Customer, Car as CarType } from "@shared/schema";
+import {
+  CONTRACT_STATUS_LABELS,
+  canTransitionContract,
+  isContractLocked,
+  type ContractStatus,
+} from "@shared/contract-lifecycle";
 import { cn } from "@/lib/utils";
 import {
   Select,
@@ -78,6 +85,7 @@ export default function Contracts() {
   const [searchTerm, setSearchTerm] = useState("");
   const [showGenerator, setShowGenerator] = useState(false);
   const [editingContract, setEditingContract] = useState<Contract | null>(null);
+  const [amendingContract, setAmendingContract] = useState<Contract | null>(null);
   const [prefilledData, setPrefilledData] = useState<{customerId?: string, carId?: string} | null>(null);
   const [activeTab, setActiveTab] = useState("all");
   const [priceFilter, setPriceFilter] = useState("all");
@@ -132,6 +140,9 @@ export default function Contracts() {
   const { data: contracts = [], isLoading: contractsLoading } = useQuery<Contract[]>({
     queryKey: ["/api/contracts"],
     enabled: isAuthenticated,
+    // Pick up signatures arriving via provider webhook while any contract awaits signing
+    refetchInterval: (query) =>
+      query.state.data?.some(c => c.signingStatus === "pending") ? 15000 : false,
   });
 
   // Redirect if not authenticated
@@ -149,37 +160,36 @@ export default function Contracts() {
   }, [isAuthenticated, isLoading, toast]);
 
   // Mutations
-  const deleteMutation = useMutation({
-    mutationFn: async (contractId: string) => {
-      await apiRequest("DELETE", `/api/contracts/${contractId}`);
+  const transitionMutation = useMutation({
+    mutationFn: async ({ contractId, to, reason }: { contractId: string; to: ContractStatus; reason?: string }) => {
+      const response = await apiRequest("POST", `/api/contracts/${contractId}/transitions`, { to, reason });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_contract, { to }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cars"] });
       toast({
-        title: "Suksess",
-        description: "Kontrakt ble slettet",
+        title: "Status oppdatert",
+        description: `Kontrakten er nå ${CONTRACT_STATUS_LABELS[to].toLowerCase()}`,
       });
     },
     onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorisert",
-          description: "Du er ikke logget inn. Logger inn på nytt...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
       toast({
         title: "Feil",
-        description: "Kunne ikke slette kontrakt",
+        description: error.message.startsWith("403")
+          ? "Du har ikke tilgang til å endre status på kontrakten"
+          : "Kunne ikke endre status på kontrakten",
         variant: "destructive",
       });
     },
   });
 
+  const cancelContract = (contract: Contract) => {
+    const reason = window.prompt(`Kansellere kontrakt ${contract.contractNumber}? Oppgi gjerne en årsak.`);
+    if (reason === null) return;
+    transitionMutation.mutate({ contractId: contract.id, to: "cancelled", reason: reason || undefined });
+  };
+
   if (isLoading || !isAuthenticated) {
     return <div className="min-h-screen bg-background" />;
   }
@@ -254,13 +264,21 @@ export default function Contracts() {
     return car || null;
   };
 
+  // Server re-renders a signed contract with the exact template version it was signed with
+  const reprintContract = (contract: Contract) => {
+    const printWindow = window.open(`/api/contracts/${contract.id}/html`, "_blank");
+    if (!printWindow) {
+      toast({ title: "Blokkert", description: "Tillat popup-vinduer for denne siden.", variant: "destructive" });
+    }
+  };
+
   const viewContract = async (contractId: string) => {
     const contractWindow = window.open(`/api/contracts/${contractId}/pdf`, '_blank');
     
     if (contractWindow) {
       toast({
         title: "Kontrakt åpnet",
-        description: "Bruk Ctrl+P for å skrive ut eller lagre som PDF",
+        description: "PDF-en åpnes i en ny fane",
       });
     } else {
       toast({
@@ -283,13 +301,17 @@ export default function Contracts() {
   const getStatusInfo = (status: string | undefined) => {
     switch (status) {
       case 'draft':
-        return { label: 'Tilbud', color: 'bg-slate-500', icon: FileText };
+        return { label: CONTRACT_STATUS_LABELS.draft, color: 'bg-slate-500', icon: FileText };
       case 'pending_signature':
-        return { label: 'Venter signatur', color: 'bg-amber-500', icon: Clock };
+        return { label: CONTRACT_STATUS_LABELS.pending_signature, color: 'bg-amber-500', icon: Clock };
       case 'signed':
-        return { label: 'Signert', color: 'bg-blue-500', icon: FileSignature };
+        return { label: CONTRACT_STATUS_LABELS.signed, color: 'bg-blue-500', icon: FileSignature };
       case 'completed':
-        return { label: 'Levert', color: 'bg-green-500', icon: CheckCircle2 };
+        return { label: CONTRACT_STATUS_LABELS.completed, color: 'bg-green-500', icon: CheckCircle2 };
+      case 'rejected':
+        return { label: CONTRACT_STATUS_LABELS.rejected, color: 'bg-red-500', icon: AlertCircle };
+      case 'cancelled':
+        return { label: CONTRACT_STATUS_LABELS.cancelled, color: 'bg-gray-500', icon: AlertCircle };
       default:
         return { label: 'Ukjent', color: 'bg-gray-500', icon: AlertCircle };
     }
@@ -301,6 +323,7 @@ export default function Contracts() {
       case 'pending_signature': return 'Følg opp signering';
       case 'signed': return 'Registrer betaling';
       case 'completed': return 'Arkiver dokumenter';
+      case 'rejected': return 'Gjenåpne eller kanseller';
       default: return 'Ingen handling';
     }
   };
@@ -643,6 +666,15 @@ export default function Contracts() {
 
                                   {contract.status === 'pending_signature' && (
                                     <>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={transitionMutation.isPending}
+                                        onClick={() => transitionMutation.mutate({ contractId: contract.id, to: "draft", reason: "Trukket tilbake fra signering" })}
+                                      >
+                                        <History className="w-4 h-4 mr-1" />
+                                        Trekk tilbake
+                                      </Button>
                                       <Button variant="outline" size="sm">
                                         <Upload className="w-4 h-4 mr-1" />
                                         Last opp dokumenter
@@ -656,6 +688,12 @@ export default function Contracts() {
 
                                   {contract.status === 'signed' && (
                                     <>
+                                      {contract.templateVersionId && (
+                                        <Button variant="outline" size="sm" onClick={() => reprintContract(contract)}>
+                                          <History className="w-4 h-4 mr-1" />
+                                          Skriv ut som signert
+                                        </Button>
+                                      )}
                                       <Button variant="outline" size="sm">
                                         <Banknote className="w-4 h-4 mr-1" />
                                         Registrer betaling
@@ -668,17 +706,45 @@ export default function Contracts() {
                                         <Receipt className="w-4 h-4 mr-1" />
                                         Generer faktura
                                       </Button>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={transitionMutation.isPending}
+                                        onClick={() => transitionMutation.mutate({ contractId: contract.id, to: "completed" })}
+                                      >
+                                        <CheckCircle2 className="w-4 h-4 mr-1" />
+                                        Marker som levert
+                                      </Button>
                                     </>
                                   )}
 
-                                  {canDelete && (
-                                    <Button 
-                                      variant="ghost" 
+                                  {isContractLocked(contract.status) && (
+                                    <Button variant="outline" size="sm" onClick={() => setAmendingContract(contract)}>
+                                      <FileSignature className="w-4 h-4 mr-1" />
+                                      Tillegg / kreditnota
+                                    </Button>
+                                  )}
+
+                                  {contract.status === 'rejected' && (
+                                    <Button
+                                      variant="outline"
                                       size="sm"
-                                      onClick={() => deleteMutation.mutate(contract.id)}
-                                      className="text-destructive hover:text-destructive"
+                                      disabled={transitionMutation.isPending}
+                                      onClick={() => transitionMutation.mutate({ contractId: contract.id, to: "draft", reason: "Gjenåpnet etter avvisning" })}
                                     >
-                                      Slett
+                                      <History className="w-4 h-4 mr-1" />
+                                      Gjenåpne
+                                    </Button>
+                                  )}
+
+                                  {canDelete && canTransitionContract(contract.status, "cancelled") && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      disabled={transitionMutation.isPending}
+                                      onClick={() => cancelContract(contract)}
+                                    >
+                                      Kanseller
                                     </Button>
                                   )}
                                 </div>
@@ -734,6 +800,13 @@ export default function Contracts() {
           setPrefilledData(null);
         }}
       />
+
+      {amendingContract && (
+        <ContractAmendmentsDialog
+          contract={amendingContract}
+          onClose={() => setAmendingContract(null)}
+        />
+      )}
     </MainLayout>
   );
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { usePermissions } from "@/hooks/usePermissions";
+import MainLayout from "@/components/layout/MainLayout";
+import LeadCard from "@/components/leads/LeadCard";
+import LeadDialog from "@/components/leads/LeadDialog";
+import { LEAD_STAGE_LABELS } from "@/lib/leads";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Plus } from "lucide-react";
+import { LEAD_STAGES, type LeadWithCars } from "@shared/schema";
+
+// Pipeline board of leads by stage, from first contact until won or lost
+export default function Leads() {
+  const { hasRole, can } = usePermissions();
+  // Sellers start out on their own leads
+  const [mineOnlyChoice, setMineOnly] = useState<boolean | null>(null);
+  const mineOnly = mineOnlyChoice ?? hasRole(["SELGER"]);
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const { data: leads = [], isLoading } = useQuery<LeadWithCars[]>({
+    queryKey: [mineOnly ? "/api/leads?owner=me" : "/api/leads"],
+  });
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Leads</h1>
+            <p className="text-muted-foreground mt-1">Interessenter fra første kontakt til salg</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="leads-mine-only" checked={mineOnly} onCheckedChange={setMineOnly} />
+              <Label htmlFor="leads-mine-only">Bare mine leads</Label>
+            </div>
+            {can("customers.manage") && (
+              <Button onClick={() => setCreateOpen(true)} data-testid="button-new-lead">
+                <Plus className="h-4 w-4 mr-2" />
+                Nytt lead
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-96 w-full" />
+        ) : (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3 xl:grid-cols-6">
+            {LEAD_STAGES.map(stage => {
+              const column = leads.filter(lead => lead.stage === stage);
+              return (
+                <Card key={stage} className="bg-muted/40">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                    <CardTitle className="text-base">{LEAD_STAGE_LABELS[stage]}</CardTitle>
+                    <Badge variant="secondary">{column.length}</Badge>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {column.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Ingen leads</p>
+                    ) : (
+                      column.map(lead => <LeadCard key={lead.id} lead={lead} />)
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <LeadDialog open={createOpen} onOpenChange={setCreateOpen} />
+    </MainLayout>
+  );
+}
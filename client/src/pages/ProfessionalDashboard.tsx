@@ -1,4 +1,5 @@
 import { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -6,18 +7,49 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Download, Filter } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, subMonths, startOfYear } from 'date-fns';
 import { useSalesData } from '@/hooks/useSalesData';
+import { usePermissions } from '@/hooks/usePermissions';
 import SalesMetrics from '@/components/sales/SalesMetrics';
 import SalesChart from '@/components/sales/SalesChart';
 import TopSellingModels from '@/components/sales/TopSellingModels';
 import PeriodFilter from '@/components/sales/PeriodFilter';
+import LeadConversion from '@/components/sales/LeadConversion';
 import MainLayout from "@/components/layout/MainLayout";
-import type { Contract, Car as CarType } from '@shared/schema';
+import { LEAD_SOURCE_LABELS } from '@/lib/leads';
+import type { Contract, Car as CarType, LeadConversionStats, LeadSource } from '@shared/schema';
 
 export default function ProfessionalDashboard() {
   const [period, setPeriod] = useState<'current_month' | 'last_month' | 'last_12_months' | 'year_to_date' | 'custom'>('current_month');
   const [customDateRange, setCustomDateRange] = useState<{ from: Date | null; to: Date | null }>({ from: null, to: null });
   
   const { data, isLoading, error, refetch } = useSalesData(period, customDateRange);
+  const { can } = usePermissions();
+
+  // Leads created in the selected period
+  const leadStatsUrl = useMemo(() => {
+    const now = new Date();
+    const range = (() => {
+      switch (period) {
+        case 'current_month':
+          return { from: startOfMonth(now), to: endOfMonth(now) };
+        case 'last_month':
+          return { from: startOfMonth(subMonths(now, 1)), to: endOfMonth(subMonths(now, 1)) };
+        case 'last_12_months':
+          return { from: subMonths(now, 12), to: now };
+        case 'year_to_date':
+          return { from: startOfYear(now), to: now };
+        case 'custom':
+          return customDateRange;
+      }
+    })();
+    const params = new URLSearchParams();
+    if (range.from) params.set('from', range.from.toISOString());
+    if (range.to) params.set('to', range.to.toISOString());
+    return `/api/leads/stats?${params}`;
+  }, [period, customDateRange]);
+
+  const { data: leadStats, isLoading: leadStatsLoading } = useQuery<LeadConversionStats>({
+    queryKey: [leadStatsUrl],
+  });
 
   const metrics = useMemo(() => {
     if (!data) return null;
@@ -169,10 +201,12 @@ export default function ProfessionalDashboard() {
               customDateRange={customDateRange}
               onCustomDateChange={setCustomDateRange}
             />
-            <Button variant="outline" onClick={exportData}>
-              <Download className="h-4 w-4 mr-2" />
-              Eksporter
-            </Button>
+            {can('data.export') && (
+              <Button variant="outline" onClick={exportData}>
+                <Download className="h-4 w-4 mr-2" />
+                Eksporter
+              </Button>
+            )}
           </div>
         </div>
 
@@ -209,6 +243,12 @@ export default function ProfessionalDashboard() {
                 <TopSellingModels data={data || null} />
               </div>
             </div>
+            <LeadConversion
+              title="Konvertering per kilde"
+              rows={leadStats?.bySource}
+              isLoading={leadStatsLoading}
+              labelFor={(row) => LEAD_SOURCE_LABELS[row.key as LeadSource] ?? row.key ?? 'Ukjent'}
+            />
           </TabsContent>
 
           <TabsContent value="trends">
@@ -225,16 +265,12 @@ export default function ProfessionalDashboard() {
           </TabsContent>
 
           <TabsContent value="performance">
-            <Card>
-              <CardHeader>
-                <CardTitle>Selgerytelse</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8 text-muted-foreground">
-                  Selgerstatistikk kommer snart
-                </div>
-              </CardContent>
-            </Card>
+            <LeadConversion
+              title="Konvertering per selger"
+              rows={leadStats?.byOwner}
+              isLoading={leadStatsLoading}
+              labelFor={(row) => row.label ?? 'Ikke tildelt'}
+            />
           </TabsContent>
         </Tabs>
       </div>
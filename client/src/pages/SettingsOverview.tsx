@@ -17,7 +17,13 @@ import {
   ChevronRight,
   ArrowLeft,
   UserPlus,
+  FileText,
+  Workflow,
+  MessageSquare,
 } from 'lucide-react';
+import ContractTemplateSettings from '@/components/settings/ContractTemplateSettings';
+import FollowupPlaybookSettings from '@/components/settings/FollowupPlaybookSettings';
+import MessageTemplateSettings from '@/components/settings/MessageTemplateSettings';
 // Simple settings components without MainLayout
 const ProfileSettings = () => (
   <div className="space-y-6">
@@ -219,6 +225,30 @@ const settingsItems = [
     description: 'Administrer brukere og tilganger',
     descriptionKey: 'team_description',
     icon: Users,
+  },
+  {
+    id: 'contract-templates',
+    title: 'Kontraktmaler',
+    titleKey: 'Kontraktmaler',
+    description: 'Egne kontraktmaler per kontrakttype med versjoner',
+    descriptionKey: 'contract_templates_description',
+    icon: FileText,
+  },
+  {
+    id: 'followup-playbooks',
+    title: 'Oppfølgingsplaner',
+    titleKey: 'Oppfølgingsplaner',
+    description: 'Automatiske oppfølginger etter salg, levering og før EU-kontroll',
+    descriptionKey: 'followup_playbooks_description',
+    icon: Workflow,
+  },
+  {
+    id: 'message-templates',
+    title: 'Meldingsmaler',
+    titleKey: 'Meldingsmaler',
+    description: 'Ferdige e-post- og SMS-tekster med flettefelt',
+    descriptionKey: 'message_templates_description',
+    icon: MessageSquare,
   }
 ];
 
@@ -287,6 +317,12 @@ export default function SettingsOverviewPage() {
         return <CompanySettings />;
       case 'team':
         return <TeamSettings />;
+      case 'contract-templates':
+        return <ContractTemplateSettings />;
+      case 'followup-playbooks':
+        return <FollowupPlaybookSettings />;
+      case 'message-templates':
+        return <MessageTemplateSettings />;
       default:
         return null;
     }
@@ -13,6 +13,7 @@ import { useQuery } from '@tanstack/react-query';
 import { Link } from 'wouter';
 import Sidebar from '@/components/layout/Sidebar';
 import { useToast } from '@/hooks/use-toast';
+import { ROLES, ROLE_LABELS, normalizeRole, type Role } from '@shared/roles';
 
 export default function SimpleAdminPortal() {
   const { user, company } = useAuth();
@@ -63,9 +64,7 @@ export default function SimpleAdminPortal() {
             <Badge variant="outline">
               {company?.name || 'Forhandler'}
             </Badge>
-            <Badge variant={user?.role === 'owner' ? 'default' : 'secondary'}>
-              {user?.role === 'owner' ? 'Eier' : 'Admin'}
-            </Badge>
+            {getRoleBadge(user?.role ?? '')}
           </div>
         </div>
 
@@ -169,10 +168,19 @@ interface UserData {
   }>;
 }
 
+function getRoleBadge(role: string) {
+  const normalized = normalizeRole(role);
+  return (
+    <Badge variant={normalized === 'EIER' ? 'default' : 'outline'}>
+      {normalized ? ROLE_LABELS[normalized] : role}
+    </Badge>
+  );
+}
+
 function UserManagement() {
   const [isInviteOpen, setIsInviteOpen] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
-  const [inviteRole, setInviteRole] = useState('sales');
+  const [inviteRole, setInviteRole] = useState<Role>('SELGER');
   const { toast } = useToast();
   const { user, company } = useAuth();
 
@@ -183,17 +191,6 @@ function UserManagement() {
 
   const users = usersData?.users || [];
 
-  const getRoleBadge = (role: string) => {
-    const variants: Record<string, any> = {
-      owner: { label: "Eier", variant: "default" },
-      admin: { label: "Admin", variant: "secondary" },
-      sales: { label: "Selger", variant: "outline" },
-      workshop: { label: "Verksted", variant: "outline" },
-    };
-    const config = variants[role] || { label: role, variant: "outline" };
-    return <Badge variant={config.variant as any}>{config.label}</Badge>;
-  };
-
   const handleInviteUser = async () => {
     if (!inviteEmail) {
       toast({
@@ -224,12 +221,12 @@ function UserManagement() {
       if (result.success) {
         toast({
           title: "Invitasjon sendt!",
-          description: `En invitasjon er sendt til ${inviteEmail} som ${inviteRole}`,
+          description: `En invitasjon er sendt til ${inviteEmail} som ${ROLE_LABELS[inviteRole]}`,
         });
 
         // Reset form and close dialog
         setInviteEmail('');
-        setInviteRole('sales');
+        setInviteRole('SELGER');
         setIsInviteOpen(false);
       } else {
         toast({
@@ -329,15 +326,14 @@ function UserManagement() {
                   <Label htmlFor="role" className="text-right">
                     Rolle
                   </Label>
-                  <Select value={inviteRole} onValueChange={setInviteRole}>
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)}>
                     <SelectTrigger className="col-span-3">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="sales">Selger</SelectItem>
-                      <SelectItem value="workshop">Verksted</SelectItem>
-                      <SelectItem value="admin">Administrator</SelectItem>
-                      <SelectItem value="owner">Eier</SelectItem>
+                      {ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { usePermissions } from "@/hooks/usePermissions";
+import MainLayout from "@/components/layout/MainLayout";
+import ReconTaskCard from "@/components/recon/ReconTaskCard";
+import { RECON_TASK_STATUS_LABELS, type ReconTaskView } from "@/lib/recon";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { RECON_TASK_STATUSES } from "@shared/schema";
+
+// Status board of every open recon task in the company, plus those finished lately
+export default function Workshop() {
+  const { hasRole } = usePermissions();
+  // Workshop staff start out on their own tasks
+  const [mineOnlyChoice, setMineOnly] = useState<boolean | null>(null);
+  const mineOnly = mineOnlyChoice ?? hasRole(["VERKSTED"]);
+
+  const { data: tasks = [], isLoading } = useQuery<ReconTaskView[]>({
+    queryKey: [mineOnly ? "/api/recon/tasks?assignedTo=me" : "/api/recon/tasks"],
+  });
+
+  const overdue = tasks.filter(task => task.status !== "done" && task.dueDate && new Date(task.dueDate) < new Date()).length;
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Verksted</h1>
+            <p className="text-muted-foreground mt-1">Klargjøring av biler før salg</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {overdue > 0 && <Badge variant="destructive">{overdue} over frist</Badge>}
+            <div className="flex items-center gap-2">
+              <Switch id="recon-mine-only" checked={mineOnly} onCheckedChange={setMineOnly} />
+              <Label htmlFor="recon-mine-only">Bare mine oppgaver</Label>
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-96 w-full" />
+        ) : (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4">
+            {RECON_TASK_STATUSES.map(status => {
+              const column = tasks.filter(task => task.status === status);
+              return (
+                <Card key={status} className="bg-muted/40">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                    <CardTitle className="text-base">{RECON_TASK_STATUS_LABELS[status]}</CardTitle>
+                    <Badge variant="secondary">{column.length}</Badge>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {column.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Ingen oppgaver</p>
+                    ) : (
+                      column.map(task => <ReconTaskCard key={task.id} task={task} showCar />)
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
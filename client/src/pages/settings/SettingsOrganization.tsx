@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -11,6 +12,15 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,6 +43,7 @@ import {
   X
 } from 'lucide-react';
 import MainLayout from '@/components/layout/MainLayout';
+import type { RepricingMode } from '@shared/schema';
 
 const orgSchema = z.object({
   name: z.string().min(2, 'Navn må være minst 2 tegn'),
@@ -43,9 +54,356 @@ const orgSchema = z.object({
 
 type OrgFormData = z.infer<typeof orgSchema>;
 
+interface ContractNumbering {
+  prefix: string;
+  yearlyReset: boolean;
+  nextNumber: string;
+}
+
+function ContractNumberingCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data } = useQuery<ContractNumbering>({ queryKey: ['/api/settings/contract-numbering'] });
+  const [prefix, setPrefix] = useState('K');
+  const [yearlyReset, setYearlyReset] = useState(true);
+
+  useEffect(() => {
+    if (data) {
+      setPrefix(data.prefix);
+      setYearlyReset(data.yearlyReset);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/settings/contract-numbering', { prefix, yearlyReset });
+      return response.json();
+    },
+    onSuccess: (updated: ContractNumbering) => {
+      queryClient.setQueryData(['/api/settings/contract-numbering'], updated);
+      toast({ title: 'Lagret', description: `Neste kontrakt får nummer ${updated.nextNumber}` });
+    },
+    onError: () => {
+      toast({ title: 'Feil', description: 'Kunne ikke lagre kontraktnummerering', variant: 'destructive' });
+    },
+  });
+
+  const isDirty = !!data && (prefix !== data.prefix || yearlyReset !== data.yearlyReset);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Kontraktnummerering</CardTitle>
+        <CardDescription>
+          Kontraktnumre tildeles fortløpende og uten hull når kontrakten opprettes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="contract-prefix">Prefiks</Label>
+            <Input
+              id="contract-prefix"
+              value={prefix}
+              maxLength={10}
+              onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+              data-testid="input-contract-prefix"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Neste nummer</Label>
+            <p className="h-10 flex items-center font-mono" data-testid="text-next-contract-number">
+              {data?.nextNumber ?? '–'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="contract-yearly-reset">Start på nytt hvert år</Label>
+            <p className="text-sm text-muted-foreground">
+              Nummeret inneholder årstall og starter på 1 ved nyttår
+            </p>
+          </div>
+          <Switch
+            id="contract-yearly-reset"
+            checked={yearlyReset}
+            onCheckedChange={setYearlyReset}
+            data-testid="switch-contract-yearly-reset"
+          />
+        </div>
+        <Button
+          type="button"
+          disabled={!isDirty || !prefix.trim() || saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+        >
+          {saveMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Lagrer...
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" />
+              Lagre nummerering
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+const REPRICING_MODE_LABELS: Record<RepricingMode, { label: string; description: string }> = {
+  off: { label: 'Av', description: 'Prisene endres ikke ut fra liggetid' },
+  suggest: { label: 'Foreslå', description: 'Selger får forslag til ny pris og bestemmer selv' },
+  auto: { label: 'Automatisk', description: 'Prisen settes ned automatisk og selger varsles' },
+};
+
+function RepricingCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data } = useQuery<{ mode: RepricingMode }>({ queryKey: ['/api/settings/repricing'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (mode: RepricingMode) => {
+      const response = await apiRequest('PUT', '/api/settings/repricing', { mode });
+      return response.json();
+    },
+    onSuccess: (updated: { mode: RepricingMode }) => {
+      queryClient.setQueryData(['/api/settings/repricing'], updated);
+      toast({ title: 'Lagret', description: REPRICING_MODE_LABELS[updated.mode].description });
+    },
+    onError: () => {
+      toast({ title: 'Feil', description: 'Kunne ikke lagre prisjustering', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Prisjustering etter liggetid</CardTitle>
+        <CardDescription>
+          Biler som passerer liggetidsgrensene i prisreglene settes ned trinnvis, aldri under minstemarginen
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Label>Modus</Label>
+        <Select
+          value={data?.mode}
+          onValueChange={(mode) => saveMutation.mutate(mode as RepricingMode)}
+          disabled={!data || saveMutation.isPending}
+        >
+          <SelectTrigger className="w-full md:w-64" data-testid="select-repricing-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(REPRICING_MODE_LABELS) as RepricingMode[]).map(mode => (
+              <SelectItem key={mode} value={mode}>{REPRICING_MODE_LABELS[mode].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {data && (
+          <p className="text-sm text-muted-foreground">{REPRICING_MODE_LABELS[data.mode].description}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReconSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data } = useQuery<{ requireReconBeforeAvailable: boolean }>({ queryKey: ['/api/settings/recon'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (requireReconBeforeAvailable: boolean) => {
+      const response = await apiRequest('PUT', '/api/settings/recon', { requireReconBeforeAvailable });
+      return response.json();
+    },
+    onSuccess: (updated: { requireReconBeforeAvailable: boolean }) => {
+      queryClient.setQueryData(['/api/settings/recon'], updated);
+      toast({ title: 'Lagret' });
+    },
+    onError: () => {
+      toast({ title: 'Feil', description: 'Kunne ikke lagre klargjøringsinnstillingen', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Klargjøring før salg</CardTitle>
+        <CardDescription>
+          En bil med åpne obligatoriske klargjøringsoppgaver tas av salg, og kan ikke settes til salgs igjen før de er ferdige
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="require-recon"
+            checked={data?.requireReconBeforeAvailable ?? false}
+            onCheckedChange={(checked) => saveMutation.mutate(checked)}
+            disabled={!data || saveMutation.isPending}
+            data-testid="switch-require-recon"
+          />
+          <Label htmlFor="require-recon">Krev ferdig klargjøring</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SmsSenderCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data } = useQuery<{ smsSenderNumber: string | null }>({ queryKey: ['/api/settings/sms'] });
+  const [number, setNumber] = useState('');
+
+  useEffect(() => {
+    if (data) setNumber(data.smsSenderNumber ?? '');
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (smsSenderNumber: string | null) => {
+      const response = await apiRequest('PUT', '/api/settings/sms', { smsSenderNumber });
+      return response.json();
+    },
+    onSuccess: (updated: { smsSenderNumber: string | null }) => {
+      queryClient.setQueryData(['/api/settings/sms'], updated);
+      toast({ title: 'Lagret' });
+    },
+    onError: () => {
+      toast({ title: 'Feil', description: 'Ugyldig telefonnummer', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>SMS-avsender</CardTitle>
+        <CardDescription>
+          Nummeret SMS til kunder sendes fra. Svar til nummeret havner hos kunden her. Uten eget nummer brukes det felles nummeret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 md:w-1/2">
+          <Label htmlFor="sms-sender-number">Avsendernummer</Label>
+          <div className="flex gap-2">
+            <Input
+              id="sms-sender-number"
+              type="tel"
+              placeholder="+47 900 00 000"
+              value={number}
+              onChange={(e) => setNumber(e.target.value)}
+              disabled={!data}
+              data-testid="input-sms-sender-number"
+            />
+            <Button
+              variant="outline"
+              onClick={() => saveMutation.mutate(number.trim() || null)}
+              disabled={!data || saveMutation.isPending || (number.trim() || null) === data.smsSenderNumber}
+            >
+              Lagre
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface RetentionSettings {
+  contractRetentionYears: number;
+  inactiveCustomerRetentionMonths: number | null;
+}
+
+const KEEP_CUSTOMERS = 'keep';
+const INACTIVE_CUSTOMER_MONTHS = [12, 24, 36, 60];
+
+function RetentionCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data } = useQuery<RetentionSettings>({ queryKey: ['/api/settings/retention'] });
+  const [years, setYears] = useState('');
+
+  useEffect(() => {
+    if (data) setYears(String(data.contractRetentionYears));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: RetentionSettings) => {
+      const response = await apiRequest('PUT', '/api/settings/retention', settings);
+      return response.json();
+    },
+    onSuccess: (updated: RetentionSettings) => {
+      queryClient.setQueryData(['/api/settings/retention'], updated);
+      toast({ title: 'Lagret', description: 'Oppbevaringsreglene er oppdatert' });
+    },
+    onError: () => {
+      toast({ title: 'Feil', description: 'Kontrakter må oppbevares i minst 5 år', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Oppbevaring av kundedata</CardTitle>
+        <CardDescription>
+          Kontrakter er regnskapsbilag og oppbevares i minst 5 år. Kunder uten aktivitet kan slettes automatisk.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="contract-retention-years">Oppbevar kontrakter (år)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="contract-retention-years"
+              type="number"
+              min={5}
+              max={30}
+              value={years}
+              onChange={(e) => setYears(e.target.value)}
+              disabled={!data}
+              data-testid="input-contract-retention-years"
+            />
+            <Button
+              variant="outline"
+              onClick={() => data && saveMutation.mutate({ ...data, contractRetentionYears: Number(years) })}
+              disabled={!data || saveMutation.isPending || Number(years) === data.contractRetentionYears}
+            >
+              Lagre
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Slett inaktive kunder uten kontrakter i oppbevaring</Label>
+          <Select
+            value={data?.inactiveCustomerRetentionMonths ? String(data.inactiveCustomerRetentionMonths) : KEEP_CUSTOMERS}
+            onValueChange={(value) => data && saveMutation.mutate({
+              ...data,
+              inactiveCustomerRetentionMonths: value === KEEP_CUSTOMERS ? null : Number(value),
+            })}
+            disabled={!data || saveMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-customer-retention">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP_CUSTOMERS}>Aldri, bare ved slettekrav</SelectItem>
+              {INACTIVE_CUSTOMER_MONTHS.map(months => (
+                <SelectItem key={months} value={String(months)}>Etter {months / 12} år uten aktivitet</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export function SettingsOrganization() {
   const { currentOrg, refreshUser } = useAuth();
-  const { isOwnerOrAdmin, isOwner } = usePermissions();
+  const { can, isOwner } = usePermissions();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [logoUrl, setLogoUrl] = useState(currentOrg?.logo_url || '');
@@ -65,7 +423,7 @@ export function SettingsOrganization() {
   });
 
   const onSubmit = async (data: OrgFormData) => {
-    if (!currentOrg || !isOwnerOrAdmin()) return;
+    if (!currentOrg || !can('company.manage')) return;
 
     setIsLoading(true);
     try {
@@ -156,7 +514,7 @@ export function SettingsOrganization() {
     );
   }
 
-  if (!isOwnerOrAdmin()) {
+  if (!can('company.manage')) {
     return (
       <MainLayout>
         <Alert>
@@ -319,6 +677,16 @@ export function SettingsOrganization() {
           </CardContent>
         </Card>
 
+        <ContractNumberingCard />
+
+        <RepricingCard />
+
+        <ReconSettingsCard />
+
+        <SmsSenderCard />
+
+        <RetentionCard />
+
         {/* Danger zone */}
         {isOwner() && (
           <Card className="mt-6 border-red-200 dark:border-red-900">
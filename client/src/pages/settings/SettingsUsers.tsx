@@ -32,8 +32,11 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
 import { 
   Users, 
   UserPlus, 
@@ -48,48 +51,65 @@ import {
   Send
 } from 'lucide-react';
 import MainLayout from '@/components/layout/MainLayout';
-import type { OrgRole } from '@shared/auth-types';
+import {
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  ROLES,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+  type Permission,
+  type Role,
+} from '@shared/roles';
+import type { CompanyRole } from '@shared/schema';
 
 interface Member {
-  user_id: string;
-  role: OrgRole;
-  status: 'active' | 'invited' | 'revoked';
-  joined_at: string;
-  profiles: {
-    full_name?: string;
-    email: string;
-    avatar_url?: string;
-  };
+  userId: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: Role;
+  customRoleId: string | null;
+  customRoleName: string | null;
+  joinedAt: string;
 }
 
+// Custom roles share the member role select with the built-in ones
+const CUSTOM_ROLE_PREFIX = 'custom:';
+
 interface Invite {
   id: string;
   email: string;
-  role: OrgRole;
+  role: Role;
   status: 'pending' | 'accepted' | 'expired';
   created_at: string;
   expires_at: string;
 }
 
 export function SettingsUsers() {
-  const { currentOrg, user } = useAuth();
-  const { isOwnerOrAdmin } = usePermissions();
+  const { currentOrg, company, user } = useAuth();
+  const { can } = usePermissions();
+  const canManageMembers = can('team.manage');
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
-  const [inviteRole, setInviteRole] = useState<OrgRole>('viewer');
+  const [inviteRole, setInviteRole] = useState<Role>('LESER');
 
   // Fetch members
-  const { data: members = [], isLoading: loadingMembers } = useQuery({
-    queryKey: [`/api/auth/members/${currentOrg?.id}`],
-    enabled: !!currentOrg,
+  const { data: members = [], isLoading: loadingMembers } = useQuery<Member[]>({
+    queryKey: ['/api/team/members'],
+    enabled: !!company,
+  });
+
+  const { data: companyRoles = [] } = useQuery<CompanyRole[]>({
+    queryKey: ['/api/company-roles'],
+    enabled: !!company,
   });
 
   // Fetch invites
   const { data: invites = [], isLoading: loadingInvites } = useQuery({
     queryKey: [`/api/auth/invites/${currentOrg?.id}`],
-    enabled: !!currentOrg && isOwnerOrAdmin(),
+    enabled: !!currentOrg && canManageMembers,
   });
 
   // Fetch subscription for seat info
@@ -100,7 +120,7 @@ export function SettingsUsers() {
 
   // Send invite mutation
   const sendInviteMutation = useMutation({
-    mutationFn: async ({ email, role }: { email: string; role: OrgRole }) => {
+    mutationFn: async ({ email, role }: { email: string; role: Role }) => {
       const response = await fetch(`/api/auth/invites`, {
         method: 'POST',
         headers: {
@@ -129,7 +149,7 @@ export function SettingsUsers() {
       });
       setInviteDialogOpen(false);
       setInviteEmail('');
-      setInviteRole('viewer');
+      setInviteRole('LESER');
     },
     onError: (error) => {
       toast({
@@ -142,28 +162,13 @@ export function SettingsUsers() {
 
   // Update role mutation
   const updateRoleMutation = useMutation({
-    mutationFn: async ({ userId, role }: { userId: string; role: OrgRole }) => {
-      const response = await fetch(`/api/auth/members/${currentOrg?.id}/role`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${await getAuthToken()}`,
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          role,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to update role');
-      }
-
+    mutationFn: async ({ userId, role, customRoleId }: { userId: string; role: Role; customRoleId: string | null }) => {
+      const response = await apiRequest('PUT', `/api/team/members/${userId}/role`, { role, customRoleId });
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/auth/members/${currentOrg?.id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/team/members'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/company-roles'] });
       toast({
         title: 'Rolle oppdatert',
         description: 'Brukerens rolle ble endret',
@@ -181,22 +186,10 @@ export function SettingsUsers() {
   // Remove member mutation
   const removeMemberMutation = useMutation({
     mutationFn: async (userId: string) => {
-      const response = await fetch(`/api/auth/members/${currentOrg?.id}/${userId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${await getAuthToken()}`,
-        },
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to remove member');
-      }
-
-      return response.json();
+      await apiRequest('DELETE', `/api/team/members/${userId}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/auth/members/${currentOrg?.id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/team/members'] });
       toast({
         title: 'Medlem fjernet',
         description: 'Brukeren har ikke lenger tilgang til organisasjonen',
@@ -217,35 +210,26 @@ export function SettingsUsers() {
     return session?.access_token || '';
   };
 
-  const getRoleBadgeVariant = (role: OrgRole) => {
+  const getRoleBadgeVariant = (role: Role) => {
     switch (role) {
-      case 'owner':
+      case 'EIER':
         return 'default';
-      case 'admin':
+      case 'SELGER':
         return 'secondary';
-      case 'sales':
-        return 'outline';
       default:
         return 'outline';
     }
   };
 
-  const getRoleLabel = (role: OrgRole) => {
-    switch (role) {
-      case 'owner':
-        return 'Eier';
-      case 'admin':
-        return 'Admin';
-      case 'sales':
-        return 'Selger';
-      case 'workshop':
-        return 'Verksted';
-      case 'accountant':
-        return 'Regnskapsfører';
-      case 'viewer':
-        return 'Leser';
-      default:
-        return role;
+  const getRoleLabel = (role: Role) => ROLE_LABELS[role] ?? role;
+
+  // A custom role replaces the member's permissions; they keep read-only
+  // access if the custom role is later deleted
+  const handleRoleChange = (userId: string, value: string) => {
+    if (value.startsWith(CUSTOM_ROLE_PREFIX)) {
+      updateRoleMutation.mutate({ userId, role: 'LESER', customRoleId: value.slice(CUSTOM_ROLE_PREFIX.length) });
+    } else {
+      updateRoleMutation.mutate({ userId, role: value as Role, customRoleId: null });
     }
   };
 
@@ -254,7 +238,7 @@ export function SettingsUsers() {
     sendInviteMutation.mutate({ email: inviteEmail, role: inviteRole });
   };
 
-  if (!currentOrg) {
+  if (!company) {
     return (
       <MainLayout>
         <Alert>
@@ -267,7 +251,7 @@ export function SettingsUsers() {
     );
   }
 
-  const activeMembers = members.filter((m: Member) => m.status === 'active');
+  const activeMembers = members;
   const pendingInvites = invites.filter((i: Invite) => i.status === 'pending');
   const seatsUsed = activeMembers.length;
   const seatsAvailable = subscription?.seats || 0;
@@ -295,7 +279,7 @@ export function SettingsUsers() {
                 </p>
                 <p className="text-sm text-muted-foreground">seter brukt</p>
               </div>
-              {isOwnerOrAdmin() && (
+              {canManageMembers && (
                 <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
                   <DialogTrigger asChild>
                     <Button disabled={seatsUsed >= seatsAvailable}>
@@ -323,16 +307,14 @@ export function SettingsUsers() {
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor="role">Rolle</Label>
-                        <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as OrgRole)}>
+                        <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as Role)}>
                           <SelectTrigger>
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="admin">Admin</SelectItem>
-                            <SelectItem value="sales">Selger</SelectItem>
-                            <SelectItem value="workshop">Verksted</SelectItem>
-                            <SelectItem value="accountant">Regnskapsfører</SelectItem>
-                            <SelectItem value="viewer">Leser</SelectItem>
+                            {ROLES.map(role => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -378,7 +360,7 @@ export function SettingsUsers() {
                   <TableHead>E-post</TableHead>
                   <TableHead>Rolle</TableHead>
                   <TableHead>Ble med</TableHead>
-                  {isOwnerOrAdmin() && <TableHead className="text-right">Handlinger</TableHead>}
+                  {canManageMembers && <TableHead className="text-right">Handlinger</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -395,64 +377,59 @@ export function SettingsUsers() {
                     </TableCell>
                   </TableRow>
                 ) : (
-                  activeMembers.map((member: Member) => {
-                    const initials = member.profiles.full_name
-                      ? member.profiles.full_name.split(' ').map(n => n[0]).join('').toUpperCase()
-                      : member.profiles.email.substring(0, 2).toUpperCase();
+                  activeMembers.map((member) => {
+                    const fullName = [member.firstName, member.lastName].filter(Boolean).join(' ');
+                    const initials = fullName
+                      ? fullName.split(' ').map(n => n[0]).join('').toUpperCase()
+                      : (member.email ?? '').substring(0, 2).toUpperCase();
 
                     return (
-                      <TableRow key={member.user_id}>
+                      <TableRow key={member.userId}>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <Avatar className="h-8 w-8">
-                              <AvatarImage src={member.profiles.avatar_url} />
                               <AvatarFallback>{initials}</AvatarFallback>
                             </Avatar>
                             <span className="font-medium">
-                              {member.profiles.full_name || 'Ikke angitt'}
+                              {fullName || 'Ikke angitt'}
                             </span>
                           </div>
                         </TableCell>
-                        <TableCell>{member.profiles.email}</TableCell>
+                        <TableCell>{member.email}</TableCell>
                         <TableCell>
-                          {isOwnerOrAdmin() && member.user_id !== user?.id ? (
+                          {canManageMembers && member.userId !== user?.id ? (
                             <Select
-                              value={member.role}
-                              onValueChange={(role) => 
-                                updateRoleMutation.mutate({ 
-                                  userId: member.user_id, 
-                                  role: role as OrgRole 
-                                })
-                              }
+                              value={member.customRoleId ? `${CUSTOM_ROLE_PREFIX}${member.customRoleId}` : member.role}
+                              onValueChange={(value) => handleRoleChange(member.userId, value)}
                             >
-                              <SelectTrigger className="w-32">
+                              <SelectTrigger className="w-40">
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="owner">Eier</SelectItem>
-                                <SelectItem value="admin">Admin</SelectItem>
-                                <SelectItem value="sales">Selger</SelectItem>
-                                <SelectItem value="workshop">Verksted</SelectItem>
-                                <SelectItem value="accountant">Regnskapsfører</SelectItem>
-                                <SelectItem value="viewer">Leser</SelectItem>
+                                {ROLES.map(role => (
+                                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                ))}
+                                {companyRoles.map(role => (
+                                  <SelectItem key={role.id} value={`${CUSTOM_ROLE_PREFIX}${role.id}`}>{role.name}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           ) : (
-                            <Badge variant={getRoleBadgeVariant(member.role)}>
-                              {getRoleLabel(member.role)}
+                            <Badge variant={member.customRoleId ? 'outline' : getRoleBadgeVariant(member.role)}>
+                              {member.customRoleName ?? getRoleLabel(member.role)}
                             </Badge>
                           )}
                         </TableCell>
                         <TableCell>
-                          {new Date(member.joined_at).toLocaleDateString('nb-NO')}
+                          {new Date(member.joinedAt).toLocaleDateString('nb-NO')}
                         </TableCell>
-                        {isOwnerOrAdmin() && (
+                        {canManageMembers && (
                           <TableCell className="text-right">
-                            {member.user_id !== user?.id && (
+                            {member.userId !== user?.id && (
                               <Button
                                 variant="ghost"
                                 size="icon"
-                                onClick={() => removeMemberMutation.mutate(member.user_id)}
+                                onClick={() => removeMemberMutation.mutate(member.userId)}
                                 disabled={removeMemberMutation.isPending}
                               >
                                 <Trash2 className="h-4 w-4 text-red-500" />
@@ -469,8 +446,10 @@ export function SettingsUsers() {
           </CardContent>
         </Card>
 
+        <RolePermissionsCard roles={companyRoles} canEdit={canManageMembers} />
+
         {/* Pending invites */}
-        {isOwnerOrAdmin() && pendingInvites.length > 0 && (
+        {canManageMembers && pendingInvites.length > 0 && (
           <Card>
             <CardHeader>
               <CardTitle>Ventende invitasjoner</CardTitle>
@@ -520,4 +499,209 @@ export function SettingsUsers() {
       </div>
     </MainLayout>
   );
-}
\ No newline at end of file
+}
+
+// Permission matrix: built-in roles for reference, company-defined roles editable
+function RolePermissionsCard({ roles, canEdit }: { roles: CompanyRole[]; canEdit: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [baseRole, setBaseRole] = useState<Role>('SELGER');
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/company-roles'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/team/members'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user/role'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Feil',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const createRoleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/company-roles', {
+        name,
+        description: description || null,
+        permissions: ROLE_PERMISSIONS[baseRole],
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: 'Rolle opprettet',
+        description: `${name} kan nå tildeles brukere`,
+      });
+      setCreateDialogOpen(false);
+      setName('');
+      setDescription('');
+      setBaseRole('SELGER');
+    },
+    onError,
+  });
+
+  const updatePermissionsMutation = useMutation({
+    mutationFn: async ({ id, permissions }: { id: string; permissions: Permission[] }) => {
+      const response = await apiRequest('PUT', `/api/company-roles/${id}`, { permissions });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/company-roles/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: 'Rolle slettet',
+        description: 'Brukere med rollen har nå kun lesetilgang',
+      });
+    },
+    onError,
+  });
+
+  const togglePermission = (role: CompanyRole, permission: Permission, granted: boolean) => {
+    const permissions = granted
+      ? [...role.permissions, permission]
+      : role.permissions.filter(p => p !== permission);
+    updatePermissionsMutation.mutate({ id: role.id, permissions });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Roller og tilganger</CardTitle>
+          <CardDescription>
+            Standardrollene kan ikke endres. Lag egne roller for å sette sammen tilganger selv.
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" data-testid="button-create-role">
+                <Shield className="mr-2 h-4 w-4" />
+                Ny rolle
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Ny rolle</DialogTitle>
+                <DialogDescription>
+                  Rollen starter med tilgangene til en standardrolle og kan justeres etterpå
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="role-name">Navn</Label>
+                  <Input
+                    id="role-name"
+                    placeholder="F.eks. Salgssjef"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="role-description">Beskrivelse</Label>
+                  <Textarea
+                    id="role-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Start fra</Label>
+                  <Select value={baseRole} onValueChange={(v) => setBaseRole(v as Role)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => createRoleMutation.mutate()}
+                  disabled={!name.trim() || createRoleMutation.isPending}
+                >
+                  {createRoleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Opprett rolle
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tilgang</TableHead>
+              {ROLES.map(role => (
+                <TableHead key={role} className="text-center">{ROLE_LABELS[role]}</TableHead>
+              ))}
+              {roles.map(role => (
+                <TableHead key={role.id} className="text-center">
+                  <div className="flex items-center justify-center gap-1">
+                    <span title={role.description ?? undefined}>{role.name}</span>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => deleteRoleMutation.mutate(role.id)}
+                        disabled={deleteRoleMutation.isPending}
+                        data-testid={`button-delete-role-${role.id}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {PERMISSIONS.map(permission => (
+              <TableRow key={permission}>
+                <TableCell>{PERMISSION_LABELS[permission]}</TableCell>
+                {ROLES.map(role => (
+                  <TableCell key={role} className="text-center">
+                    {ROLE_PERMISSIONS[role].includes(permission) && (
+                      <Check className="h-4 w-4 mx-auto text-muted-foreground" />
+                    )}
+                  </TableCell>
+                ))}
+                {roles.map(role => (
+                  <TableCell key={role.id} className="text-center">
+                    <Checkbox
+                      checked={role.permissions.includes(permission)}
+                      disabled={!canEdit || updatePermissionsMutation.isPending}
+                      onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                      data-testid={`checkbox-${role.id}-${permission}`}
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,19 @@
+-- Inbound e-signing webhook deliveries (one row per provider event)
+CREATE TABLE IF NOT EXISTS signing_webhook_events (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider VARCHAR NOT NULL,
+  event_id VARCHAR NOT NULL,
+  document_id VARCHAR NOT NULL,
+  contract_id VARCHAR REFERENCES contracts(id) ON DELETE SET NULL,
+  payload JSONB,
+  processed_at TIMESTAMP,
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Replayed deliveries hit this constraint and are skipped
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signing_webhook_events_provider_event
+  ON signing_webhook_events(provider, event_id);
+
+-- Webhooks look contracts up by provider document ID
+CREATE INDEX IF NOT EXISTS idx_contracts_signing_document
+  ON contracts(signing_provider, signing_document_id);
@@ -0,0 +1,31 @@
+-- Dealer-managed contract templates, one per company and contract type
+CREATE TABLE IF NOT EXISTS contract_templates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  contract_type VARCHAR NOT NULL,
+  name VARCHAR NOT NULL,
+  draft_body TEXT NOT NULL,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_templates_company_type
+  ON contract_templates(company_id, contract_type);
+
+-- Published versions are never updated or deleted
+CREATE TABLE IF NOT EXISTS contract_template_versions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id VARCHAR NOT NULL REFERENCES contract_templates(id),
+  version INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  notes TEXT,
+  published_by VARCHAR REFERENCES users(id),
+  published_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_template_versions_template_version
+  ON contract_template_versions(template_id, version);
+
+-- Template version each contract was sent for signing with
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS template_version_id VARCHAR REFERENCES contract_template_versions(id);
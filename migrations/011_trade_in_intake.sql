@@ -0,0 +1,4 @@
+-- Trade-in registration captured on the contract; the intake car is linked via trade_in_car_id
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS trade_in_registration VARCHAR;
+
+CREATE INDEX IF NOT EXISTS idx_contracts_trade_in_car ON contracts(trade_in_car_id);
@@ -0,0 +1,20 @@
+-- Contract numbers are unique per company instead of globally
+ALTER TABLE contracts DROP CONSTRAINT IF EXISTS contracts_contract_number_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contracts_company_number
+  ON contracts(company_id, contract_number);
+
+-- Numbering settings per company
+ALTER TABLE company_settings ADD COLUMN IF NOT EXISTS contract_number_prefix VARCHAR NOT NULL DEFAULT 'K';
+ALTER TABLE company_settings ADD COLUMN IF NOT EXISTS contract_number_yearly_reset BOOLEAN NOT NULL DEFAULT true;
+
+-- Last number handed out per company and year (year 0 when numbering never resets)
+CREATE TABLE IF NOT EXISTS contract_number_sequences (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_number_sequences_company_year
+  ON contract_number_sequences(company_id, year);
@@ -0,0 +1,21 @@
+-- Audit trail of contract status changes; changed_by is null for provider-driven changes
+CREATE TABLE IF NOT EXISTS contract_status_transitions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id VARCHAR NOT NULL REFERENCES contracts(id) ON DELETE CASCADE,
+  from_status VARCHAR,
+  to_status VARCHAR NOT NULL,
+  changed_by VARCHAR REFERENCES users(id),
+  reason TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_status_transitions_contract
+  ON contract_status_transitions(contract_id, created_at);
+
+-- Existing contracts start their history at their current status
+INSERT INTO contract_status_transitions (contract_id, from_status, to_status, reason, created_at)
+SELECT c.id, NULL, COALESCE(c.status, 'draft'), 'Status ved innføring av historikk', c.created_at
+FROM contracts c
+WHERE NOT EXISTS (
+  SELECT 1 FROM contract_status_transitions t WHERE t.contract_id = c.id
+);
@@ -0,0 +1,28 @@
+-- Amendments (tillegg) and credit notes (kreditnota) to signed contracts
+CREATE TABLE IF NOT EXISTS contract_amendments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id VARCHAR NOT NULL REFERENCES contracts(id) ON DELETE CASCADE,
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  amendment_number INTEGER NOT NULL,
+  kind VARCHAR NOT NULL DEFAULT 'tillegg',
+  description TEXT NOT NULL,
+  price_adjustment DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  add_ons JSONB DEFAULT '[]',
+  delivery_date TIMESTAMP,
+  status VARCHAR NOT NULL DEFAULT 'draft',
+  signing_provider VARCHAR,
+  signing_document_id VARCHAR,
+  signing_url VARCHAR,
+  signing_status VARCHAR DEFAULT 'not_sent',
+  signed_at TIMESTAMP,
+  signer_name VARCHAR,
+  pdf_url VARCHAR,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_amendments_contract_number
+  ON contract_amendments(contract_id, amendment_number);
+CREATE INDEX IF NOT EXISTS idx_contract_amendments_signing_document
+  ON contract_amendments(signing_provider, signing_document_id);
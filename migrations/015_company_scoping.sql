@@ -0,0 +1,24 @@
+-- Data access is scoped by company: remember which company a user works in
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS active_company_id VARCHAR REFERENCES companies(id) ON DELETE SET NULL;
+
+-- Activity is shared by the team, so log entries carry the company too
+ALTER TABLE activity_log
+  ADD COLUMN IF NOT EXISTS company_id VARCHAR REFERENCES companies(id) ON DELETE CASCADE;
+
+-- Existing entries belong to the author's first company
+UPDATE activity_log a
+SET company_id = (
+  SELECT m.company_id FROM memberships m
+  WHERE m.user_id = a.user_id
+  ORDER BY m.joined_at
+  LIMIT 1
+)
+WHERE a.company_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activity_log_company ON activity_log(company_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cars_company ON cars(company_id);
+CREATE INDEX IF NOT EXISTS idx_customers_company ON customers(company_id);
+CREATE INDEX IF NOT EXISTS idx_contracts_company ON contracts(company_id);
+CREATE INDEX IF NOT EXISTS idx_followups_company ON followups(company_id);
+CREATE INDEX IF NOT EXISTS idx_memberships_user ON memberships(user_id, joined_at);
@@ -0,0 +1,45 @@
+-- One role catalogue (shared/roles.ts): EIER, SELGER, REGNSKAP, VERKSTED, LESER
+
+-- Company memberships
+UPDATE memberships
+SET role = CASE role
+  WHEN 'owner' THEN 'EIER'
+  WHEN 'admin' THEN 'EIER'
+  WHEN 'org_admin' THEN 'EIER'
+  WHEN 'sales' THEN 'SELGER'
+  WHEN 'accountant' THEN 'REGNSKAP'
+  WHEN 'workshop' THEN 'VERKSTED'
+  ELSE 'LESER'
+END
+WHERE role NOT IN ('EIER', 'SELGER', 'REGNSKAP', 'VERKSTED', 'LESER');
+
+ALTER TABLE memberships ALTER COLUMN role SET DEFAULT 'LESER';
+
+-- users.role is the platform role only; what a user may do in a company
+-- comes from the membership
+UPDATE users
+SET role = 'user'
+WHERE role IS DISTINCT FROM 'super_admin' AND role IS DISTINCT FROM 'user';
+
+-- Supabase organization tables (007). Renaming enum values keeps the RLS
+-- policies working since they reference the values, not their labels.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'org_role')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_enum e JOIN pg_type t ON t.oid = e.enumtypid
+       WHERE t.typname = 'org_role' AND e.enumlabel = 'EIER'
+     ) THEN
+    ALTER TYPE org_role RENAME VALUE 'owner' TO 'EIER';
+    ALTER TYPE org_role RENAME VALUE 'sales' TO 'SELGER';
+    ALTER TYPE org_role RENAME VALUE 'accountant' TO 'REGNSKAP';
+    ALTER TYPE org_role RENAME VALUE 'workshop' TO 'VERKSTED';
+    ALTER TYPE org_role RENAME VALUE 'viewer' TO 'LESER';
+
+    -- 'admin' cannot be dropped from the enum; it is left unused
+    UPDATE org_members SET role = 'EIER' WHERE role = 'admin';
+    IF to_regclass('invites') IS NOT NULL THEN
+      EXECUTE $sql$UPDATE invites SET role = 'EIER' WHERE role::text = 'admin'$sql$;
+    END IF;
+  END IF;
+END $$;
@@ -0,0 +1,18 @@
+-- Company-defined roles: a named set of permissions from shared/roles.ts
+CREATE TABLE IF NOT EXISTS company_roles (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name VARCHAR NOT NULL,
+  description TEXT,
+  permissions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_roles_company_name ON company_roles(company_id, name);
+
+-- A member on a custom role keeps their built-in role as the fallback if
+-- the custom role is deleted
+ALTER TABLE memberships
+  ADD COLUMN IF NOT EXISTS custom_role_id VARCHAR REFERENCES company_roles(id) ON DELETE SET NULL;
@@ -0,0 +1,35 @@
+-- Aging-based repricing: per-company mode, proposed drops and price history
+ALTER TABLE company_settings
+  ADD COLUMN IF NOT EXISTS repricing_mode VARCHAR NOT NULL DEFAULT 'suggest';
+
+CREATE TABLE IF NOT EXISTS car_price_history (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  car_id VARCHAR NOT NULL REFERENCES cars(id) ON DELETE CASCADE,
+  old_price VARCHAR,
+  new_price VARCHAR NOT NULL,
+  source VARCHAR NOT NULL,
+  reason TEXT,
+  changed_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_car_price_history_car ON car_price_history(car_id, created_at);
+
+CREATE TABLE IF NOT EXISTS car_price_suggestions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  car_id VARCHAR NOT NULL REFERENCES cars(id) ON DELETE CASCADE,
+  aging_tier INTEGER NOT NULL,
+  days_on_lot INTEGER NOT NULL,
+  current_price VARCHAR NOT NULL,
+  suggested_price VARCHAR NOT NULL,
+  reason TEXT,
+  status VARCHAR NOT NULL DEFAULT 'pending',
+  resolved_by VARCHAR REFERENCES users(id),
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_car_price_suggestions_car_tier ON car_price_suggestions(car_id, aging_tier);
+CREATE INDEX IF NOT EXISTS idx_car_price_suggestions_company_status ON car_price_suggestions(company_id, status);
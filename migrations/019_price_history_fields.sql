@@ -0,0 +1,3 @@
+-- Price history also covers cost and recon cost, not just the list price
+ALTER TABLE car_price_history
+  ADD COLUMN IF NOT EXISTS field VARCHAR NOT NULL DEFAULT 'sale_price';
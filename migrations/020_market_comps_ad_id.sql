@@ -0,0 +1,5 @@
+-- Comps fed by the listing snapshot ingest are upserted per ad
+ALTER TABLE market_comps
+  ADD COLUMN IF NOT EXISTS ad_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_market_comps_ad_id ON market_comps(ad_id);
@@ -0,0 +1,38 @@
+-- Reconditioning work orders: tasks per car with parts and labour lines
+ALTER TABLE company_settings
+  ADD COLUMN IF NOT EXISTS require_recon_before_available BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS recon_tasks (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  car_id VARCHAR NOT NULL REFERENCES cars(id) ON DELETE CASCADE,
+  type VARCHAR NOT NULL,
+  title VARCHAR NOT NULL,
+  description TEXT,
+  mandatory BOOLEAN NOT NULL DEFAULT TRUE,
+  status VARCHAR NOT NULL DEFAULT 'todo',
+  assigned_to VARCHAR REFERENCES users(id),
+  due_date TIMESTAMP,
+  completed_at TIMESTAMP,
+  completed_by VARCHAR REFERENCES users(id),
+  created_by VARCHAR NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recon_tasks_car ON recon_tasks(car_id);
+CREATE INDEX IF NOT EXISTS idx_recon_tasks_company_status ON recon_tasks(company_id, status);
+
+CREATE TABLE IF NOT EXISTS recon_task_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  task_id VARCHAR NOT NULL REFERENCES recon_tasks(id) ON DELETE CASCADE,
+  kind VARCHAR NOT NULL,
+  description VARCHAR NOT NULL,
+  quantity VARCHAR NOT NULL DEFAULT '1',
+  unit_cost VARCHAR NOT NULL,
+  created_by VARCHAR NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recon_task_lines_task ON recon_task_lines(task_id);
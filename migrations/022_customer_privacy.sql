@@ -0,0 +1,23 @@
+-- Data subject requests: retention settings, pseudonymized customers and an audit trail
+ALTER TABLE company_settings
+  ADD COLUMN IF NOT EXISTS contract_retention_years INTEGER NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS inactive_customer_retention_months INTEGER;
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS erased_at TIMESTAMPTZ;
+
+-- customer_id has no foreign key so the record outlives a deleted customer
+CREATE TABLE IF NOT EXISTS privacy_requests (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id VARCHAR NOT NULL,
+  type VARCHAR NOT NULL,
+  outcome VARCHAR NOT NULL,
+  reason TEXT,
+  details JSONB,
+  requested_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_privacy_requests_company ON privacy_requests(company_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_privacy_requests_customer ON privacy_requests(customer_id);
@@ -0,0 +1,33 @@
+-- Lead pipeline: prospects, the cars they ask about, and conversion into customers
+CREATE TABLE IF NOT EXISTS leads (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name VARCHAR NOT NULL,
+  email VARCHAR,
+  phone VARCHAR,
+  source VARCHAR NOT NULL,
+  source_detail VARCHAR,
+  stage VARCHAR NOT NULL DEFAULT 'new',
+  lost_reason TEXT,
+  notes TEXT,
+  owner_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  customer_id VARCHAR REFERENCES customers(id) ON DELETE SET NULL,
+  contract_id VARCHAR REFERENCES contracts(id) ON DELETE SET NULL,
+  stage_changed_at TIMESTAMP DEFAULT NOW(),
+  converted_at TIMESTAMP,
+  created_by VARCHAR NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leads_company_stage ON leads(company_id, stage);
+CREATE INDEX IF NOT EXISTS idx_leads_owner ON leads(owner_id);
+
+CREATE TABLE IF NOT EXISTS lead_cars (
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  car_id VARCHAR NOT NULL REFERENCES cars(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_cars_lead_car ON lead_cars(lead_id, car_id);
+CREATE INDEX IF NOT EXISTS idx_lead_cars_car ON lead_cars(car_id);
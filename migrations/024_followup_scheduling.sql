@@ -0,0 +1,29 @@
+-- Follow-ups get a type, a due time, recurrence, reminders and completion details
+ALTER TABLE followups
+  ADD COLUMN IF NOT EXISTS type VARCHAR NOT NULL DEFAULT 'call',
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS recurrence_unit VARCHAR,
+  ADD COLUMN IF NOT EXISTS recurrence_interval INTEGER,
+  ADD COLUMN IF NOT EXISTS previous_id VARCHAR,
+  ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS completed_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL;
+
+-- due_date held a plain YYYY-MM-DD string; those become 09:00 Norwegian time
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'followups' AND column_name = 'due_date') THEN
+    UPDATE followups
+      SET due_at = (due_date::date + TIME '09:00') AT TIME ZONE 'Europe/Oslo'
+      WHERE due_at IS NULL;
+    ALTER TABLE followups DROP COLUMN due_date;
+  END IF;
+END $$;
+
+UPDATE followups SET created_by = user_id WHERE created_by IS NULL;
+
+ALTER TABLE followups ALTER COLUMN due_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_followups_company_due ON followups(company_id, status, due_at);
+CREATE INDEX IF NOT EXISTS idx_followups_assignee ON followups(user_id, status);
@@ -0,0 +1,30 @@
+-- Company-defined playbooks that create follow-ups after a sale
+CREATE TABLE IF NOT EXISTS followup_playbooks (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name VARCHAR NOT NULL,
+  trigger VARCHAR NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  steps JSONB NOT NULL DEFAULT '[]',
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_followup_playbooks_company_trigger ON followup_playbooks(company_id, trigger);
+
+-- One row per playbook and event, so an event never runs a playbook twice
+CREATE TABLE IF NOT EXISTS followup_playbook_runs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  playbook_id VARCHAR NOT NULL REFERENCES followup_playbooks(id) ON DELETE CASCADE,
+  event_key VARCHAR NOT NULL,
+  contract_id VARCHAR REFERENCES contracts(id) ON DELETE SET NULL,
+  followups_created INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_followup_playbook_runs_event ON followup_playbook_runs(playbook_id, event_key);
+
+ALTER TABLE followups
+  ADD COLUMN IF NOT EXISTS playbook_id VARCHAR REFERENCES followup_playbooks(id) ON DELETE SET NULL;
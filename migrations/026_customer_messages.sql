@@ -0,0 +1,39 @@
+-- Message templates and a log of every email and SMS to and from customers
+CREATE TABLE IF NOT EXISTS message_templates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name VARCHAR NOT NULL,
+  channel VARCHAR NOT NULL,
+  subject VARCHAR,
+  body TEXT NOT NULL,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_templates_company ON message_templates(company_id, channel);
+
+CREATE TABLE IF NOT EXISTS customer_messages (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id VARCHAR NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  channel VARCHAR NOT NULL,
+  direction VARCHAR NOT NULL,
+  status VARCHAR NOT NULL,
+  from_address VARCHAR,
+  to_address VARCHAR,
+  subject VARCHAR,
+  body TEXT NOT NULL,
+  car_id VARCHAR REFERENCES cars(id) ON DELETE SET NULL,
+  contract_id VARCHAR REFERENCES contracts(id) ON DELETE SET NULL,
+  template_id VARCHAR REFERENCES message_templates(id) ON DELETE SET NULL,
+  provider VARCHAR,
+  provider_message_id VARCHAR,
+  error TEXT,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_messages_customer ON customer_messages(customer_id, created_at);
+-- Provider redeliveries of an inbound message are stored once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_messages_provider ON customer_messages(provider, provider_message_id);
@@ -0,0 +1,5 @@
+-- Registration numbers were unique across all companies, so a car could not be
+-- on file at two dealers (e.g. traded in at one after being sold by another)
+ALTER TABLE cars DROP CONSTRAINT IF EXISTS cars_registration_number_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cars_company_registration ON cars(company_id, registration_number);
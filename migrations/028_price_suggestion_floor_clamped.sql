@@ -0,0 +1,8 @@
+-- A suggestion held at the minimum margin gives the car's cost away, so it is
+-- flagged for masking; earlier ones are recognised by their reason
+ALTER TABLE car_price_suggestions
+  ADD COLUMN IF NOT EXISTS floor_clamped BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE car_price_suggestions
+  SET floor_clamped = true
+  WHERE reason LIKE '%begrenset av minstemargin%';
@@ -0,0 +1,4 @@
+-- Inbound SMS were filed under whichever company last texted the number; a
+-- company's own sender number tells which company a reply was meant for
+ALTER TABLE company_settings
+  ADD COLUMN IF NOT EXISTS sms_sender_number VARCHAR;
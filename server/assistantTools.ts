@@ -1,10 +1,20 @@
+import type { Permission, Role } from "@shared/roles";
+
+// Storage scopes every lookup to the user's active company; access decides
+// which writes the tools may make on the user's behalf
 export type UserHints = { 
-  role?: "EIER" | "SELGER" | "REGNSKAP" | "VERKSTED"; 
-  companyId?: string; 
-  userId?: string 
+  role?: Role; 
+  userId: string;
+  access: UserAccess;
 };
 
 import { storagePromise } from "./storage";
+import { RoleBasedAccessControl, type UserAccess } from "./rbac";
+import { daysInStock } from "./services/pricingService";
+
+function can(hints: UserHints, permission: Permission): boolean {
+  return RoleBasedAccessControl.can(hints.access, permission);
+}
 
 function normReg(input: string): string {
   return (input || "").toUpperCase().replace(/[\s-]/g, "");
@@ -13,7 +23,7 @@ function normReg(input: string): string {
 export async function getCarByReg(regInput: string, hints: UserHints) {
   try {
     const storage = await storagePromise;
-    const cars = await storage.getCars(hints.companyId || 'default-company');
+    const cars = await storage.getCars(hints.userId);
     const normalizedInput = normReg(regInput);
     
     const car = cars.find(c => {
@@ -23,9 +33,8 @@ export async function getCarByReg(regInput: string, hints: UserHints) {
     
     if (!car) return null;
     
-    // Calculate days on lot
-    const daysOnLot = car.createdAt ? Math.floor((Date.now() - new Date(car.createdAt).getTime()) / (1000 * 60 * 60 * 24)) : 0;
-    
+    const daysOnLot = daysInStock(car);
+
     return {
       id: car.id,
       registration: car.registrationNumber,
@@ -42,10 +51,10 @@ export async function getCarByReg(regInput: string, hints: UserHints) {
   }
 }
 
-export async function countAvailable(companyId?: string) {
+export async function countAvailable(userId: string) {
   try {
     const storage = await storagePromise;
-    const cars = await storage.getCars(companyId || 'default-company');
+    const cars = await storage.getCars(userId);
     
     // Count non-sold inventory (exclude cars with "solgt" status)
     const availableCars = cars.filter(car => 
@@ -61,19 +70,16 @@ export async function countAvailable(companyId?: string) {
   }
 }
 
-export async function mostExpensiveSold(brand: string | null, companyId?: string) {
+export async function mostExpensiveSold(brand: string | null, userId: string) {
   try {
     const storage = await storagePromise;
-    const contracts = await storage.getContracts(companyId || 'default-company');
-    const cars = await storage.getCars(companyId || 'default-company');
+    const contracts = await storage.getContracts(userId);
+    const cars = await storage.getCars(userId);
     
-    // Find completed/signed contracts - broader status matching
+    // Only signed and delivered contracts count as sales
     const soldContracts = contracts.filter(c => 
-      c.status === 'Signert' || 
-      c.status === 'Fullført' || 
-      c.status === 'Betalt' || 
-      c.status === 'Levert' ||
-      c.status === 'Completed'
+      c.status === 'signed' || 
+      c.status === 'completed'
     );
     
     if (!soldContracts.length) return null;
@@ -128,7 +134,7 @@ export async function mostExpensiveSold(brand: string | null, companyId?: string
 export async function getUnsignedContracts(hints: UserHints) {
   try {
     const storage = await storagePromise;
-    const contracts = await storage.getContracts(hints.companyId || 'default-company');
+    const contracts = await storage.getContracts(hints.userId);
     
     // Filter out completed contracts - anything not fully processed
     const unsigned = contracts
@@ -158,7 +164,7 @@ export async function getUnsignedContracts(hints: UserHints) {
 export async function searchCustomerByName(name: string, hints: UserHints) {
   try {
     const storage = await storagePromise;
-    const customers = await storage.getCustomers(hints.companyId || 'default-company');
+    const customers = await storage.getCustomers(hints.userId);
     
     const matches = customers
       .filter(c => c.name?.toLowerCase().includes(name.toLowerCase()))
@@ -178,28 +184,21 @@ export async function searchCustomerByName(name: string, hints: UserHints) {
 
 export async function createFollowup(customerId: string, dueISO: string, note: string, hints: UserHints) {
   try {
+    if (!can(hints, "customers.manage")) {
+      throw new Error("Insufficient permissions");
+    }
     const storage = await storagePromise;
     
-    const followup = {
-      id: crypto.randomUUID(),
-      companyId: hints.companyId || 'default-company',
+    const followup = await storage.createFollowup({
       customerId,
-      userId: hints.userId!,
-      dueDate: dueISO.slice(0, 10),
+      type: 'call',
+      dueAt: new Date(dueISO),
       note,
-      status: 'OPEN' as const,
-      createdAt: new Date().toISOString()
-    };
-    
-    // Note: This assumes your storage interface has a method to create followups
-    // You may need to add this method to your storage interface
-    if ('createFollowup' in storage) {
-      await (storage as any).createFollowup(followup);
-    }
+    }, hints.userId);
     
     return {
       id: followup.id,
-      dueDate: followup.dueDate,
+      dueAt: followup.dueAt,
       note: followup.note
     };
   } catch (error) {
@@ -211,6 +210,9 @@ export async function createFollowup(customerId: string, dueISO: string, note: s
 // Contract creation parsing tool
 export async function parseContractCreationCommand(command: string, hints: UserHints) {
   try {
+    if (!can(hints, "contracts.create")) {
+      return { error: "Du har ikke tilgang til å opprette kontrakter." };
+    }
     const storage = await storagePromise;
     
     // Parse customer name - more flexible patterns with better boundaries
@@ -264,7 +266,7 @@ export async function parseContractCreationCommand(command: string, hints: UserH
     }
     
     // Check if car exists
-    const cars = await storage.getCars(hints.companyId || 'default-company');
+    const cars = await storage.getCars(hints.userId);
     const car = cars.find(c => 
       normReg(c.registrationNumber || '') === normReg(carRegistration)
     );
@@ -274,12 +276,15 @@ export async function parseContractCreationCommand(command: string, hints: UserH
     }
     
     // Check if customer exists or create new one
-    const customers = await storage.getCustomers(hints.userId || 'test-user-123');
+    const customers = await storage.getCustomers(hints.userId);
     let customer = customers.find(c => 
       c.name?.toLowerCase().includes(customerName.toLowerCase())
     );
     
     if (!customer && phoneNumber) {
+      if (!can(hints, "customers.manage")) {
+        return { error: `Kunde "${customerName}" finnes ikke, og du har ikke tilgang til å opprette kunder.` };
+      }
       // Create new customer with proper structure
       const newCustomer = {
         name: customerName,
@@ -291,7 +296,7 @@ export async function parseContractCreationCommand(command: string, hints: UserH
       };
       
       // createCustomer will add the proper fields - pass userId
-      const createdCustomer = await storage.createCustomer(newCustomer as any, hints.userId || 'test-user-123');
+      const createdCustomer = await storage.createCustomer(newCustomer as any, hints.userId);
       customer = createdCustomer;
     }
     
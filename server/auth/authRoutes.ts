@@ -16,6 +16,7 @@ import {
   loginSchema,
   registerSchema
 } from './authService';
+import { normalizeRole } from '@shared/roles';
 
 // Rate limiting for auth endpoints
 const authRateLimiter = rateLimit({
@@ -108,7 +109,7 @@ export function setupAuthRoutes(app: Express) {
           userId: user.id,
           email: user.email,
           companyId: user.companyId || undefined,
-          role: membership?.role || 'user'
+          role: normalizeRole(membership?.role) ?? 'user'
         };
 
         const accessToken = generateAccessToken(tokenPayload);
@@ -141,7 +142,7 @@ export function setupAuthRoutes(app: Express) {
           user.id, 
           user.email, 
           `${user.firstName} ${user.lastName}`,
-          membership?.role || 'user'
+          normalizeRole(membership?.role) ?? 'user'
         );
         
         // Track login event
@@ -157,7 +158,7 @@ export function setupAuthRoutes(app: Express) {
             email: user.email,
             firstName: user.firstName,
             lastName: user.lastName,
-            role: membership?.role || 'user'
+            role: normalizeRole(membership?.role) ?? 'user'
           },
           company: company ? {
             id: company.id,
@@ -240,7 +241,7 @@ export function setupAuthRoutes(app: Express) {
           await storage.createMembership({
             userId: user.id,
             companyId,
-            role: 'admin',
+            role: 'EIER',
             joinedAt: new Date()
           });
         }
@@ -250,7 +251,7 @@ export function setupAuthRoutes(app: Express) {
           user.id,
           user.email,
           `${user.firstName} ${user.lastName}`,
-          companyId ? 'admin' : 'user'
+          companyId ? 'EIER' : 'user'
         );
 
         // Track registration event
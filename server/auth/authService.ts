@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { storagePromise } from '../storage';
 import { UsageTracker } from '../services/usageTracker';
 import type { AuthUser } from '@shared/auth-types';
+import { normalizeRole } from '@shared/roles';
 
 // Environment variables with defaults for development
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
@@ -151,7 +152,7 @@ export async function authenticateToken(req: Request, res: Response, next: NextF
     req.auth = {
       id: payload.userId,
       email: payload.email,
-      role: payload.role
+      role: normalizeRole(payload.role) ?? undefined
     };
 
     // Track user activity in admin portal
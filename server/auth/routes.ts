@@ -15,8 +15,8 @@ import type {
   AcceptInviteRequest,
   ChangePlanRequest,
   UpdateMemberRoleRequest,
-  OrgRole,
 } from '@shared/auth-types';
+import { ROLES, type Role } from '@shared/roles';
 
 const router = Router();
 
@@ -31,7 +31,7 @@ const createOrgSchema = z.object({
 
 const inviteUserSchema = z.object({
   email: z.string().email(),
-  role: z.enum(['owner', 'admin', 'sales', 'workshop', 'accountant', 'viewer']),
+  role: z.enum(ROLES),
 });
 
 const acceptInviteSchema = z.object({
@@ -44,7 +44,7 @@ const changePlanSchema = z.object({
 
 const updateRoleSchema = z.object({
   user_id: z.string().uuid(),
-  role: z.enum(['owner', 'admin', 'sales', 'workshop', 'accountant', 'viewer']),
+  role: z.enum(ROLES),
 });
 
 // Get current user with profile and orgs
@@ -139,7 +139,7 @@ router.post('/org', requireAuth, async (req, res) => {
       .insert({
         org_id: org.id,
         user_id: userId,
-        role: 'owner',
+        role: 'EIER',
         status: 'active',
       });
 
@@ -220,7 +220,7 @@ router.get('/orgs', requireAuth, async (req, res) => {
 });
 
 // Send invite
-router.post('/invites', requireAuth, requireOrgMember('orgId'), requireRole(['owner', 'admin']), async (req, res) => {
+router.post('/invites', requireAuth, requireOrgMember('orgId'), requireRole(['EIER']), async (req, res) => {
   try {
     const orgId = req.params.orgId;
     const userId = req.user!.id;
@@ -320,7 +320,7 @@ router.post('/invites/accept', requireAuth, async (req, res) => {
       .insert({
         org_id: invite.org_id,
         user_id: userId,
-        role: invite.role as OrgRole,
+        role: invite.role as Role,
         invited_by: invite.invited_by,
         status: 'active',
       });
@@ -403,7 +403,7 @@ router.get('/subscription/:orgId', requireAuth, requireOrgMember('orgId'), async
 router.post('/subscription/:orgId/change-plan', 
   requireAuth, 
   requireOrgMember('orgId'), 
-  requireRole(['owner']), 
+  requireRole(['EIER']), 
   async (req, res) => {
   try {
     const orgId = req.params.orgId;
@@ -497,7 +497,7 @@ router.get('/members/:orgId',
 router.put('/members/:orgId/role', 
   requireAuth, 
   requireOrgMember('orgId'), 
-  requireRole(['owner', 'admin']), 
+  requireRole(['EIER']), 
   async (req, res) => {
   try {
     const orgId = req.params.orgId;
@@ -505,12 +505,12 @@ router.put('/members/:orgId/role',
     const { user_id: targetUserId, role } = updateRoleSchema.parse(req.body);
 
     // Can't change own role if you're the only owner
-    if (targetUserId === userId && req.user!.role === 'owner') {
+    if (targetUserId === userId && req.user!.role === 'EIER') {
       const { data: owners } = await supabase
         .from('org_members')
         .select('user_id')
         .eq('org_id', orgId)
-        .eq('role', 'owner')
+        .eq('role', 'EIER')
         .eq('status', 'active');
 
       if (owners && owners.length === 1) {
@@ -546,7 +546,7 @@ router.put('/members/:orgId/role',
 router.delete('/members/:orgId/:userId', 
   requireAuth, 
   requireOrgMember('orgId'), 
-  requireRole(['owner', 'admin']), 
+  requireRole(['EIER']), 
   async (req, res) => {
   try {
     const orgId = req.params.orgId;
@@ -554,12 +554,12 @@ router.delete('/members/:orgId/:userId',
     const actorUserId = req.user!.id;
 
     // Can't remove yourself if you're the only owner
-    if (targetUserId === actorUserId && req.user!.role === 'owner') {
+    if (targetUserId === actorUserId && req.user!.role === 'EIER') {
       const { data: owners } = await supabase
         .from('org_members')
         .select('user_id')
         .eq('org_id', orgId)
-        .eq('role', 'owner')
+        .eq('role', 'EIER')
         .eq('status', 'active');
 
       if (owners && owners.length === 1) {
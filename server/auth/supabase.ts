@@ -1,6 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Request, Response, NextFunction } from 'express';
-import type { OrgRole } from '@shared/auth-types';
+import { normalizeRole, type Role } from '@shared/roles';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
@@ -17,7 +17,7 @@ declare global {
       user?: {
         id: string;
         email: string;
-        role?: OrgRole;
+        role?: Role;
         org_id?: string;
       };
     }
@@ -84,7 +84,7 @@ export function requireOrgMember(paramName: string = 'orgId') {
 
       // Attach org and role to request
       req.user.org_id = orgId;
-      req.user.role = membership.role as OrgRole;
+      req.user.role = normalizeRole(membership.role) ?? undefined;
 
       next();
     } catch (error) {
@@ -95,7 +95,7 @@ export function requireOrgMember(paramName: string = 'orgId') {
 }
 
 // Role-based access control middleware
-export function requireRole(roles: OrgRole[]) {
+export function requireRole(roles: Role[]) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user || !req.user.role) {
@@ -1,6 +1,7 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
+import { createRequire } from "module";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
@@ -11,5 +12,22 @@ if (!process.env.DATABASE_URL) {
   );
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+// The test suite runs against an in-memory Postgres (PGlite) instead of Neon
+const IN_MEMORY_URL = "pglite://memory";
+
+function connectInMemory() {
+  // PGlite is a dev dependency, so only load it when asked for
+  const require = createRequire(import.meta.url);
+  const { PGlite } = require("@electric-sql/pglite");
+  const { drizzle: drizzlePglite } = require("drizzle-orm/pglite");
+  return drizzlePglite(new PGlite(), { schema }) as ReturnType<typeof connectNeon>;
+}
+
+function connectNeon() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  return drizzle({ client: pool, schema });
+}
+
+export const db = process.env.DATABASE_URL === IN_MEMORY_URL
+  ? connectInMemory()
+  : connectNeon();
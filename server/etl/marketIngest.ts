@@ -0,0 +1,436 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { sql, inArray } from 'drizzle-orm';
+import { db } from '../db.js';
+import { marketComps, svvCache } from '@shared/schema';
+import type { SvvVehicle } from '../routes/svv.js';
+import { parseSnapshot, type Snapshot, type SnapshotListing } from './snapshotParser.js';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DEFAULT_SOURCE = 'finn';
+// Days-on-market percentiles cover ads that closed within this window
+const DOM_WINDOW_DAYS = 90;
+const KW_TO_HP = 1.35962;
+// Keeps IN lists well below the parameter limit on large exports
+const CHUNK_SIZE = 1000;
+
+export type IngestOptions = {
+  source?: string;
+  capturedAt?: Date;
+  // The file lists every live ad from the source, so ads missing from it have been taken down
+  complete?: boolean;
+};
+
+export type IngestResult = {
+  received: number;
+  duplicates: number;
+  skipped: number;
+  // Older than what is already recorded for the ad; kept in listings_raw only
+  stale: number;
+  listed: number;
+  closed: number;
+  enriched: number;
+  models: number;
+};
+
+type LifecycleRow = {
+  ad_id: string;
+  status: string;
+  last_seen_at: string | Date;
+};
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) chunks.push(items.slice(i, i + CHUNK_SIZE));
+  return chunks;
+}
+
+function sqlList(values: string[]) {
+  return sql.join(values.map(value => sql`${value}`), sql`, `);
+}
+
+function hash(value: string | null | undefined): string | null {
+  return value ? crypto.createHash('sha256').update(value).digest('hex') : null;
+}
+
+export function modelKey(listing: Pick<SnapshotListing, 'make' | 'model'>): string | null {
+  if (!listing.make || !listing.model) return null;
+  return `${listing.make} ${listing.model}`.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// County from the municipality number ("NO-0301" → "03"). A bare four-digit
+// code may be a postal code, whose leading digits do not follow county lines.
+export function regionOf(locationCode: string | null): string {
+  const digits = locationCode?.trim().match(/^NO-(\d{2})\d{2}$/i);
+  return digits ? digits[1] : 'unknown';
+}
+
+// The last row per ad wins; exports sometimes repeat ads across pages
+function dedupe(listings: SnapshotListing[]): SnapshotListing[] {
+  const byAdId = new Map<string, SnapshotListing>();
+  for (const listing of listings) byAdId.set(listing.adId, listing);
+  return Array.from(byAdId.values());
+}
+
+async function loadLifecycle(tx: Transaction, adIds: string[]): Promise<Map<string, LifecycleRow>> {
+  const lifecycle = new Map<string, LifecycleRow>();
+  for (const ids of chunk(adIds)) {
+    const result = await tx.execute(sql`
+      SELECT ad_id, status, last_seen_at FROM listing_lifecycle WHERE ad_id IN (${sqlList(ids)})`);
+    for (const row of result.rows as LifecycleRow[]) lifecycle.set(row.ad_id, row);
+  }
+  return lifecycle;
+}
+
+// Only what is already cached; the ingest never calls the SVV API itself
+async function loadSvvVehicles(tx: Transaction, regnrs: string[]): Promise<Map<string, SvvVehicle>> {
+  const vehicles = new Map<string, SvvVehicle>();
+  for (const ids of chunk(regnrs)) {
+    const rows = await tx.select().from(svvCache).where(inArray(svvCache.regnr, ids));
+    for (const row of rows) vehicles.set(row.regnr, row.payload as SvvVehicle);
+  }
+  return vehicles;
+}
+
+async function recordRaw(tx: Transaction, listing: SnapshotListing, source: string, capturedAt: string) {
+  await tx.execute(sql`
+    INSERT INTO listings_raw (
+      ad_id, captured_at, source, title, price, km, year, gear, driveline, fuel_type,
+      location_code, equipment, seller_type, status, regnr_hash, vin_hash
+    ) VALUES (${listing.adId}, ${capturedAt}, ${source}, ${listing.title}, ${listing.price}, ${listing.km},
+      ${listing.year}, ${listing.gear}, ${listing.driveline}, ${listing.fuelType}, ${listing.locationCode},
+      ${JSON.stringify(listing.equipment)}, ${listing.sellerType}, ${listing.status},
+      ${hash(listing.regnr)}, ${hash(listing.vin)})
+    ON CONFLICT (ad_id, captured_at) DO NOTHING`);
+}
+
+async function recordEnrichment(tx: Transaction, listing: SnapshotListing, vehicle: SvvVehicle) {
+  const powerHp = vehicle.powerKW ? Math.round(vehicle.powerKW * KW_TO_HP) : null;
+
+  // SVV reports the permitted total weight, which is what ends up in weight_kg
+  await tx.execute(sql`
+    INSERT INTO vehicles_enriched (
+      ad_id, regnr_hash, vin_hash, power_hp, weight_kg, eu_due, seats, make, model, variant
+    ) VALUES (${listing.adId}, ${hash(listing.regnr)}, ${hash(listing.vin ?? vehicle.vin)}, ${powerHp},
+      ${vehicle.weight ?? null}, ${vehicle.nextEU ?? null}, ${vehicle.seats ?? null},
+      ${listing.make ?? vehicle.brand ?? null}, ${listing.model ?? vehicle.model ?? null},
+      ${listing.variant ?? vehicle.variant ?? null})
+    ON CONFLICT (ad_id) DO UPDATE SET
+      regnr_hash = EXCLUDED.regnr_hash,
+      vin_hash = COALESCE(EXCLUDED.vin_hash, vehicles_enriched.vin_hash),
+      power_hp = COALESCE(EXCLUDED.power_hp, vehicles_enriched.power_hp),
+      weight_kg = COALESCE(EXCLUDED.weight_kg, vehicles_enriched.weight_kg),
+      eu_due = COALESCE(EXCLUDED.eu_due, vehicles_enriched.eu_due),
+      seats = COALESCE(EXCLUDED.seats, vehicles_enriched.seats),
+      make = EXCLUDED.make,
+      model = EXCLUDED.model,
+      variant = EXCLUDED.variant,
+      last_enriched_at = NOW()`);
+}
+
+/**
+ * Move the ad's lifecycle forward. An active ad keeps its first-seen time
+ * until it closes; a closed ad that shows up active again starts a new
+ * period. Days on market are only known for ads we saw while active.
+ */
+async function recordLifecycle(tx: Transaction, listing: SnapshotListing, source: string, capturedAt: string) {
+  const key = modelKey(listing);
+  const region = regionOf(listing.locationCode);
+
+  if (listing.status === 'active') {
+    await tx.execute(sql`
+      INSERT INTO listing_lifecycle (
+        ad_id, source, model_key, region, status, first_seen_at, last_seen_at, first_price, last_price
+      ) VALUES (${listing.adId}, ${source}, ${key}, ${region}, 'active', ${capturedAt}, ${capturedAt},
+        ${listing.price}, ${listing.price})
+      ON CONFLICT (ad_id) DO UPDATE SET
+        first_seen_at = CASE WHEN listing_lifecycle.status = 'active'
+          THEN listing_lifecycle.first_seen_at ELSE EXCLUDED.first_seen_at END,
+        first_price = CASE WHEN listing_lifecycle.status = 'active'
+          THEN listing_lifecycle.first_price ELSE EXCLUDED.first_price END,
+        status = 'active',
+        closed_at = NULL,
+        days_on_market = NULL,
+        model_key = EXCLUDED.model_key,
+        region = EXCLUDED.region,
+        last_seen_at = EXCLUDED.last_seen_at,
+        last_price = EXCLUDED.last_price`);
+    return;
+  }
+
+  await tx.execute(sql`
+    INSERT INTO listing_lifecycle (
+      ad_id, source, model_key, region, status, first_seen_at, last_seen_at, first_price, last_price, closed_at
+    ) VALUES (${listing.adId}, ${source}, ${key}, ${region}, ${listing.status}, ${capturedAt}, ${capturedAt},
+      ${listing.price}, ${listing.price}, ${capturedAt})
+    ON CONFLICT (ad_id) DO UPDATE SET
+      closed_at = CASE WHEN listing_lifecycle.status = 'active'
+        THEN EXCLUDED.closed_at ELSE listing_lifecycle.closed_at END,
+      days_on_market = CASE WHEN listing_lifecycle.status = 'active'
+        THEN FLOOR(EXTRACT(EPOCH FROM EXCLUDED.closed_at - listing_lifecycle.first_seen_at) / 86400)::int
+        ELSE listing_lifecycle.days_on_market END,
+      status = EXCLUDED.status,
+      last_seen_at = EXCLUDED.last_seen_at,
+      last_price = COALESCE(EXCLUDED.last_price, listing_lifecycle.last_price)`);
+}
+
+// Active ads from this source that a complete snapshot no longer lists
+async function closeMissing(tx: Transaction, source: string, capturedAt: string): Promise<string[]> {
+  const result = await tx.execute(sql`
+    UPDATE listing_lifecycle SET
+      status = 'inactive',
+      closed_at = ${capturedAt},
+      days_on_market = FLOOR(EXTRACT(EPOCH FROM ${capturedAt}::timestamptz - first_seen_at) / 86400)::int
+    WHERE source = ${source} AND status = 'active' AND last_seen_at < ${capturedAt}
+    RETURNING ad_id`);
+  return (result.rows as Array<{ ad_id: string }>).map(row => row.ad_id);
+}
+
+async function loadSupply(tx: Transaction): Promise<Map<string, number>> {
+  const result = await tx.execute(sql`
+    SELECT model_key, region, COUNT(*)::int AS supply
+    FROM listing_lifecycle
+    WHERE status = 'active' AND model_key IS NOT NULL
+    GROUP BY model_key, region`);
+  const supply = new Map<string, number>();
+  for (const row of result.rows as Array<{ model_key: string; region: string; supply: number }>) {
+    supply.set(`${row.model_key}|${row.region}`, row.supply);
+  }
+  return supply;
+}
+
+async function recordFeatures(
+  tx: Transaction,
+  listing: SnapshotListing,
+  source: string,
+  capturedAt: Date,
+  supply: Map<string, number>,
+) {
+  const region = regionOf(listing.locationCode);
+  const key = modelKey(listing);
+  const supplyDensity = key ? supply.get(`${key}|${region}`) ?? null : null;
+
+  await tx.execute(sql`
+    INSERT INTO price_features_current (
+      ad_id, snapshot_at, price, km, year, gear, driveline, fuel_type, location_code, make, model, variant,
+      eu_due, power_hp, weight_kg, equipment_score, supply_density, season_month, region
+    )
+    SELECT ${listing.adId}, ${capturedAt.toISOString()}, ${listing.price}, ${listing.km}, ${listing.year},
+      ${listing.gear}, ${listing.driveline}, ${listing.fuelType}, ${listing.locationCode}, ${listing.make},
+      ${listing.model}, ${listing.variant}, enriched.eu_due, enriched.power_hp, enriched.weight_kg,
+      ${listing.equipment.length}, ${supplyDensity}, ${capturedAt.getUTCMonth() + 1}, ${region}
+    FROM (SELECT 1) AS listing
+    LEFT JOIN vehicles_enriched enriched ON enriched.ad_id = ${listing.adId}
+    ON CONFLICT (ad_id) DO UPDATE SET
+      snapshot_at = EXCLUDED.snapshot_at,
+      price = EXCLUDED.price,
+      km = EXCLUDED.km,
+      year = EXCLUDED.year,
+      gear = EXCLUDED.gear,
+      driveline = EXCLUDED.driveline,
+      fuel_type = EXCLUDED.fuel_type,
+      location_code = EXCLUDED.location_code,
+      make = EXCLUDED.make,
+      model = EXCLUDED.model,
+      variant = EXCLUDED.variant,
+      eu_due = EXCLUDED.eu_due,
+      power_hp = EXCLUDED.power_hp,
+      weight_kg = EXCLUDED.weight_kg,
+      equipment_score = EXCLUDED.equipment_score,
+      supply_density = EXCLUDED.supply_density,
+      season_month = EXCLUDED.season_month,
+      region = EXCLUDED.region`);
+
+  // Feeds the comparables behind the price recommendation
+  if (listing.price && listing.price > 0) {
+    const comp = {
+      brand: listing.make,
+      model: listing.model,
+      year: listing.year,
+      variant: listing.variant,
+      fuel: listing.fuelType,
+      gearbox: listing.gear,
+      km: listing.km,
+      price: String(listing.price),
+      location: listing.locationCode,
+      fetchedAt: capturedAt,
+    };
+    await tx
+      .insert(marketComps)
+      .values({ ...comp, source, adId: listing.adId, listedAt: capturedAt })
+      .onConflictDoUpdate({ target: marketComps.adId, set: comp });
+  }
+}
+
+// Closed ads leave the feature store and the comparables
+async function removeClosed(tx: Transaction, adIds: string[]) {
+  for (const ids of chunk(adIds)) {
+    await tx.execute(sql`DELETE FROM price_features_current WHERE ad_id IN (${sqlList(ids)})`);
+    await tx.delete(marketComps).where(inArray(marketComps.adId, ids));
+  }
+}
+
+/**
+ * One row per model and region for the snapshot date: price spread of the
+ * ads live right now and days on market of those that closed in the window.
+ */
+async function rollupMarketFeatures(tx: Transaction, capturedAt: Date): Promise<number> {
+  const snapshotDate = capturedAt.toISOString().slice(0, 10);
+  const windowStart = new Date(capturedAt.getTime() - DOM_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const until = capturedAt.toISOString();
+
+  const result = await tx.execute(sql`
+    INSERT INTO market_features_daily (
+      model_key, region, snapshot_date, active_supply, median_price, p10_price, p90_price, dom_p50, dom_p90
+    )
+    SELECT keys.model_key, keys.region, ${snapshotDate}::date, COALESCE(live.supply, 0),
+      live.median_price, live.p10_price, live.p90_price, closed.dom_p50, closed.dom_p90
+    FROM (
+      SELECT DISTINCT model_key, region FROM listing_lifecycle
+      WHERE model_key IS NOT NULL
+        AND (status = 'active' OR (closed_at >= ${windowStart} AND closed_at <= ${until}))
+    ) keys
+    LEFT JOIN (
+      SELECT model_key, region, COUNT(*)::int AS supply,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY last_price)::int AS median_price,
+        percentile_cont(0.1) WITHIN GROUP (ORDER BY last_price)::int AS p10_price,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY last_price)::int AS p90_price
+      FROM listing_lifecycle
+      WHERE status = 'active' AND model_key IS NOT NULL
+      GROUP BY model_key, region
+    ) live USING (model_key, region)
+    LEFT JOIN (
+      SELECT model_key, region,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY days_on_market)::int AS dom_p50,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY days_on_market)::int AS dom_p90
+      FROM listing_lifecycle
+      WHERE days_on_market IS NOT NULL AND closed_at >= ${windowStart} AND closed_at <= ${until}
+      GROUP BY model_key, region
+    ) closed USING (model_key, region)
+    ON CONFLICT (model_key, region, snapshot_date) DO UPDATE SET
+      active_supply = EXCLUDED.active_supply,
+      median_price = EXCLUDED.median_price,
+      p10_price = EXCLUDED.p10_price,
+      p90_price = EXCLUDED.p90_price,
+      dom_p50 = EXCLUDED.dom_p50,
+      dom_p90 = EXCLUDED.dom_p90
+    RETURNING model_key`);
+  return result.rows.length;
+}
+
+/**
+ * Ingest one snapshot of listings in a single transaction. Raw rows are
+ * kept per capture time, so loading the same file twice changes nothing;
+ * a snapshot older than what we already have for an ad only adds history.
+ */
+export async function ingestSnapshot(snapshot: Snapshot, options: IngestOptions = {}): Promise<IngestResult> {
+  const source = options.source ?? snapshot.source ?? DEFAULT_SOURCE;
+  const capturedAt = options.capturedAt ?? snapshot.capturedAt ?? new Date();
+  const capturedAtIso = capturedAt.toISOString();
+  const listings = dedupe(snapshot.listings);
+
+  const result: IngestResult = {
+    received: snapshot.listings.length,
+    duplicates: snapshot.listings.length - listings.length,
+    skipped: snapshot.skipped,
+    stale: 0,
+    listed: 0,
+    closed: 0,
+    enriched: 0,
+    models: 0,
+  };
+
+  await db.transaction(async (tx) => {
+    const lifecycle = await loadLifecycle(tx, listings.map(listing => listing.adId));
+    const regnrs = Array.from(new Set(listings.map(listing => listing.regnr).filter((regnr): regnr is string => !!regnr)));
+    const vehicles = await loadSvvVehicles(tx, regnrs);
+
+    const current: SnapshotListing[] = [];
+    const closedIds: string[] = [];
+
+    for (const listing of listings) {
+      await recordRaw(tx, listing, source, capturedAtIso);
+
+      const vehicle = listing.regnr ? vehicles.get(listing.regnr) : undefined;
+      if (vehicle) {
+        await recordEnrichment(tx, listing, vehicle);
+        result.enriched++;
+      }
+
+      const previous = lifecycle.get(listing.adId);
+      if (previous && new Date(previous.last_seen_at) >= capturedAt) {
+        result.stale++;
+        continue;
+      }
+
+      await recordLifecycle(tx, listing, source, capturedAtIso);
+      if (listing.status === 'active') {
+        current.push(listing);
+        if (previous?.status !== 'active') result.listed++;
+      } else {
+        closedIds.push(listing.adId);
+        if (previous?.status === 'active') result.closed++;
+      }
+    }
+
+    if (options.complete) {
+      const missing = await closeMissing(tx, source, capturedAtIso);
+      closedIds.push(...missing);
+      result.closed += missing.length;
+    }
+
+    const supply = await loadSupply(tx);
+    for (const listing of current) {
+      await recordFeatures(tx, listing, source, capturedAt, supply);
+    }
+    await removeClosed(tx, closedIds);
+
+    result.models = await rollupMarketFeatures(tx, capturedAt);
+  });
+
+  return result;
+}
+
+// Format follows the file extension; anything other than .csv is read as JSON
+export async function ingestSnapshotFile(filePath: string, options: IngestOptions = {}): Promise<IngestResult> {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const format = path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'json';
+  return ingestSnapshot(parseSnapshot(content, format), options);
+}
+
+// Run directly: tsx server/etl/marketIngest.ts <file> [--source=finn] [--captured-at=ISO] [--complete]
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const file = args.find(arg => !arg.startsWith('--'));
+  const flag = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+
+  if (!file) {
+    console.error('Usage: tsx server/etl/marketIngest.ts <snapshot.json|snapshot.csv> [--source=finn] [--captured-at=ISO] [--complete]');
+    process.exit(1);
+  }
+
+  const capturedAt = flag('captured-at');
+  if (capturedAt && isNaN(new Date(capturedAt).getTime())) {
+    console.error(`Invalid --captured-at: ${capturedAt}`);
+    process.exit(1);
+  }
+  ingestSnapshotFile(path.resolve(process.cwd(), file), {
+    source: flag('source'),
+    capturedAt: capturedAt ? new Date(capturedAt) : undefined,
+    complete: args.includes('--complete'),
+  })
+    .then(result => {
+      console.log(
+        `Ingested ${result.received} listings (${result.duplicates} duplicates, ${result.skipped} skipped, ` +
+        `${result.stale} stale): ${result.listed} new, ${result.closed} closed, ${result.enriched} enriched from SVV, ` +
+        `${result.models} model/region rows`
+      );
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('Error:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,186 @@
+export type SnapshotFormat = 'json' | 'csv';
+export type ListingStatus = 'active' | 'sold' | 'inactive';
+
+export type SnapshotListing = {
+  adId: string;
+  title: string | null;
+  price: number | null;
+  km: number | null;
+  year: number | null;
+  gear: string | null;
+  driveline: string | null;
+  fuelType: string | null;
+  locationCode: string | null;
+  equipment: string[];
+  sellerType: string | null;
+  status: ListingStatus;
+  make: string | null;
+  model: string | null;
+  variant: string | null;
+  regnr: string | null;
+  vin: string | null;
+};
+
+export type Snapshot = {
+  source?: string;
+  capturedAt?: Date;
+  listings: SnapshotListing[];
+  // Rows without an ad_id
+  skipped: number;
+};
+
+const SOLD_STATUSES = new Set(['sold', 'solgt']);
+const INACTIVE_STATUSES = new Set(['inactive', 'inaktiv', 'removed', 'fjernet', 'deleted', 'slettet', 'expired', 'utløpt']);
+
+// Anything still on the market (reserved included) counts as active
+function normalizeStatus(value: unknown): ListingStatus {
+  const status = String(value ?? '').trim().toLowerCase();
+  if (SOLD_STATUSES.has(status)) return 'sold';
+  if (INACTIVE_STATUSES.has(status)) return 'inactive';
+  return 'active';
+}
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+// Listing sites format numbers for display ("129 000 kr", "98 000 km")
+function toInt(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.round(value) : null;
+  const digits = String(value ?? '').replace(/\D/g, '');
+  return digits === '' ? null : parseInt(digits, 10);
+}
+
+function toEquipment(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(item => String(item).trim()).filter(Boolean);
+  const text = toText(value);
+  if (!text) return [];
+  if (text.startsWith('[')) {
+    try {
+      return toEquipment(JSON.parse(text));
+    } catch {
+      // Not JSON after all, split it below
+    }
+  }
+  return text.split('|').map(item => item.trim()).filter(Boolean);
+}
+
+function toListing(row: Record<string, unknown>): SnapshotListing | null {
+  const adId = toText(row.ad_id);
+  if (!adId) return null;
+
+  return {
+    adId,
+    title: toText(row.title),
+    price: toInt(row.price),
+    km: toInt(row.km),
+    year: toInt(row.year),
+    gear: toText(row.gear),
+    driveline: toText(row.driveline),
+    fuelType: toText(row.fuel_type),
+    locationCode: toText(row.location_code),
+    equipment: toEquipment(row.equipment),
+    sellerType: toText(row.seller_type),
+    status: normalizeStatus(row.status),
+    make: toText(row.make),
+    model: toText(row.model),
+    variant: toText(row.variant),
+    regnr: toText(row.regnr)?.toUpperCase().replace(/\s/g, '') ?? null,
+    vin: toText(row.vin)?.toUpperCase() ?? null,
+  };
+}
+
+// RFC 4180 rows; exports saved from Norwegian Excel use ';' as separator
+function parseCsvRows(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function parseCsv(content: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) return [];
+  const columns = header.map(column => column.trim().toLowerCase());
+  return rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index]])));
+}
+
+/**
+ * Read a listing export. JSON is either an array of ads or an object with
+ * `listings` plus optional `source` and `captured_at`; CSV has a header row
+ * with the same field names and equipment separated by '|'.
+ */
+export function parseSnapshot(content: string, format: SnapshotFormat): Snapshot {
+  let rows: Record<string, unknown>[];
+  let source: string | undefined;
+  let capturedAt: Date | undefined;
+
+  if (format === 'csv') {
+    rows = parseCsv(content);
+  } else {
+    const parsed = JSON.parse(content);
+    if (Array.isArray(parsed)) {
+      rows = parsed;
+    } else if (parsed && Array.isArray(parsed.listings)) {
+      rows = parsed.listings;
+      source = toText(parsed.source) ?? undefined;
+      if (parsed.captured_at) {
+        capturedAt = new Date(parsed.captured_at);
+        if (isNaN(capturedAt.getTime())) {
+          throw new Error(`Invalid captured_at in snapshot: ${parsed.captured_at}`);
+        }
+      }
+    } else {
+      throw new Error('Snapshot JSON must be an array of listings or an object with a listings array');
+    }
+  }
+
+  const listings: SnapshotListing[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const listing = row && typeof row === 'object' ? toListing(row) : null;
+    if (listing) listings.push(listing);
+    else skipped++;
+  }
+
+  return { source, capturedAt, listings, skipped };
+}
@@ -3,6 +3,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupAuthRoutes } from "./auth/authRoutes";
 import adminRoutes from "./routes/admin.js";
+import { startRepricingSchedule } from "./services/repricingService";
+import { startRetentionSchedule } from "./services/privacyService";
+import { startFollowupReminderSchedule } from "./services/followupReminderService";
+import { startPlaybookSchedule } from "./services/playbookService";
 import helmet from "helmet";
 import cookieParser from "cookie-parser";
 
@@ -28,8 +32,14 @@ app.use(helmet({
 // Parse cookies
 app.use(cookieParser());
 
-// Increase payload size limit for image uploads (50MB)
-app.use(express.json({ limit: '50mb' }));
+// Increase payload size limit for image uploads (50MB).
+// Keep the raw body around for webhook signature checks.
+app.use(express.json({
+  limit: '50mb',
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 
 app.use((req, res, next) => {
@@ -100,5 +110,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startRepricingSchedule();
+    startRetentionSchedule();
+    startFollowupReminderSchedule();
+    startPlaybookSchedule();
   });
 })();
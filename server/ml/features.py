@@ -0,0 +1,31 @@
+"""Feature engineering shared by train_quantiles.py and reference_predictions.py.
+buildFeatures in quantileModel.ts mirrors it; keep them in step."""
+
+FEATURES = [
+    'km', 'year', 'age', 'km_per_year', 
+    'equipment_len', 'is_awd', 'is_auto', 
+    'is_electric', 'is_hybrid',
+    'season_month', 'supply_density'
+]
+
+# Features that are constant in this data set. Inference uses the same values
+# (exported with the model) so the models see inputs like the ones they were fit on.
+FEATURE_DEFAULTS = {
+    'season_month': 1,  # January
+    'supply_density': 12,
+}
+
+
+def engineer_features(df, current_year):
+    """The model's feature columns for listings with year, km, gear, driveline, fuel_type and equipment."""
+    df = df.copy()
+    df['equipment_len'] = df['equipment'].apply(lambda x: len(x) if isinstance(x, list) else 0)
+    df['is_awd'] = (df['driveline'] == 'AWD').astype(int)
+    df['is_auto'] = (df['gear'].str.lower() == 'auto').astype(int)
+    df['is_electric'] = (df['fuel_type'] == 'Electric').astype(int)
+    df['is_hybrid'] = df['fuel_type'].str.contains('Hybrid', na=False).astype(int)
+    df['age'] = current_year - df['year']
+    df['km_per_year'] = df['km'] / df['age'].clip(lower=1)
+    for name, value in FEATURE_DEFAULTS.items():
+        df[name] = value
+    return df[FEATURES].fillna(0)
@@ -0,0 +1,168 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * In-process evaluation of the price quantile models exported by
+ * train_quantiles.py (ml/model_quantiles.json). Feature engineering mirrors
+ * features.py; keep the two in step.
+ */
+
+interface LinearModel {
+  type: "linear";
+  coef: number[];
+  intercept: number;
+}
+
+// sklearn decision trees: node i goes left when x[feature[i]] <= threshold[i],
+// and is a leaf when left[i] is -1
+interface ForestModel {
+  type: "forest";
+  trees: Array<{
+    left: number[];
+    right: number[];
+    feature: number[];
+    threshold: number[];
+    value: number[];
+  }>;
+}
+
+type ExportedModel = LinearModel | ForestModel;
+
+interface QuantileModelFile {
+  format: string;
+  trainedAt: string;
+  features: string[];
+  defaults: Record<string, number>;
+  models: Record<"p10" | "p50" | "p90", ExportedModel>;
+  samples: Array<{ features: number[]; p10: number; p50: number; p90: number }>;
+}
+
+export interface QuantileModelInput {
+  year: number;
+  km: number;
+  fuel_type?: string | null;
+  gear?: string | null;
+  driveline?: string | null;
+  equipment?: string[] | null;
+}
+
+export interface QuantilePrediction {
+  p10: number;
+  p50: number;
+  p90: number;
+  prob14: number;
+  prob30: number;
+}
+
+const MODEL_FORMAT = "quantile-models/1";
+// Python and Node can differ in the last float bits of a sum
+const SAMPLE_TOLERANCE = 0.5;
+
+export function buildFeatures(input: QuantileModelInput, now = new Date()): Record<string, number> {
+  const age = now.getUTCFullYear() - input.year;
+  return {
+    km: input.km,
+    year: input.year,
+    age,
+    km_per_year: input.km / Math.max(age, 1),
+    equipment_len: input.equipment?.length ?? 0,
+    is_awd: input.driveline === "AWD" ? 1 : 0,
+    is_auto: (input.gear ?? "").toLowerCase() === "auto" ? 1 : 0,
+    is_electric: input.fuel_type === "Electric" ? 1 : 0,
+    is_hybrid: (input.fuel_type ?? "").includes("Hybrid") ? 1 : 0,
+  };
+}
+
+function evaluateLinear(model: LinearModel, x: number[]): number {
+  return model.coef.reduce((sum, coef, i) => sum + coef * x[i], model.intercept);
+}
+
+function evaluateForest(model: ForestModel, x: number[]): number {
+  // sklearn compares features as float32
+  const x32 = x.map(Math.fround);
+  let total = 0;
+  for (const tree of model.trees) {
+    let node = 0;
+    while (tree.left[node] !== -1) {
+      node = x32[tree.feature[node]] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+    }
+    total += tree.value[node];
+  }
+  return total / model.trees.length;
+}
+
+function evaluate(model: ExportedModel, x: number[]): number {
+  return model.type === "forest" ? evaluateForest(model, x) : evaluateLinear(model, x);
+}
+
+// Same heuristic the Python predictor used: a narrower band, lower mileage
+// and a newer car all make a quick sale more likely
+function saleProbability(p10: number, p90: number, input: QuantileModelInput) {
+  const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+  const bandFactor = clamp(1 - Math.max(1, p90 - p10) / 500_000, 0.1, 0.9);
+  const kmFactor = clamp(1 - input.km / 300_000, 0.1, 0.9);
+  const ageFactor = clamp((input.year - 2010) / 15, 0.1, 0.9);
+  const prob14 = clamp(0.3 + bandFactor * 0.3 + kmFactor * 0.2 + ageFactor * 0.2, 0.15, 0.85);
+  const prob30 = Math.min(0.95, prob14 + 0.15);
+  return { prob14: Math.round(prob14 * 100) / 100, prob30: Math.round(prob30 * 100) / 100 };
+}
+
+export class QuantileModel {
+  constructor(private readonly file: QuantileModelFile) {}
+
+  static fromFile(filePath: string): QuantileModel {
+    const file = JSON.parse(fs.readFileSync(filePath, "utf-8")) as QuantileModelFile;
+    if (file.format !== MODEL_FORMAT) {
+      throw new Error(`Unsupported price model format: ${file.format}`);
+    }
+    const model = new QuantileModel(file);
+    model.verifySamples();
+    return model;
+  }
+
+  // Refuse an export that does not reproduce the training script's own predictions
+  private verifySamples() {
+    for (const sample of this.file.samples) {
+      for (const key of ["p10", "p50", "p90"] as const) {
+        const actual = evaluate(this.file.models[key], sample.features);
+        if (Math.abs(actual - sample[key]) > SAMPLE_TOLERANCE) {
+          throw new Error(`Price model ${key} gives ${actual}, training gave ${sample[key]}`);
+        }
+      }
+    }
+  }
+
+  vector(input: QuantileModelInput, now = new Date()): number[] {
+    const values: Record<string, number> = { ...this.file.defaults, ...buildFeatures(input, now) };
+    return this.file.features.map(name => {
+      const value = values[name];
+      return Number.isFinite(value) ? value : 0;
+    });
+  }
+
+  predict(input: QuantileModelInput, now = new Date()): QuantilePrediction {
+    const x = this.vector(input, now);
+    const p10 = Math.trunc(evaluate(this.file.models.p10, x));
+    const p50 = Math.trunc(evaluate(this.file.models.p50, x));
+    const p90 = Math.trunc(evaluate(this.file.models.p90, x));
+    return { p10, p50, p90, ...saleProbability(p10, p90, input) };
+  }
+}
+
+let cached: QuantileModel | null | undefined;
+
+/**
+ * The model at PRICE_MODEL_PATH (default ml/model_quantiles.json), loaded
+ * once. Null when no model has been exported or it fails verification.
+ */
+export function getQuantileModel(): QuantileModel | null {
+  if (cached !== undefined) return cached;
+  const filePath = path.resolve(process.cwd(), process.env.PRICE_MODEL_PATH || "ml/model_quantiles.json");
+  try {
+    cached = QuantileModel.fromFile(filePath);
+  } catch (error: any) {
+    console.error(`Price model not loaded from ${filePath}:`, error.message);
+    cached = null;
+  }
+  return cached;
+}
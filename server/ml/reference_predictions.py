@@ -0,0 +1,44 @@
+#!/usr/bin/env python3
+"""Python predictions for a fixed set of cars, which tests/price-model.test.ts
+checks the TypeScript evaluator against. Run from the repository root after
+train_quantiles.py, with the same TRAINING_YEAR:
+
+    TRAINING_YEAR=2026 python server/ml/reference_predictions.py > tests/fixtures/price-model/reference_predictions.json
+"""
+import os
+import sys
+import json
+import joblib
+from datetime import datetime, timezone
+import pandas as pd
+from features import engineer_features
+
+CURRENT_YEAR = int(os.environ.get('TRAINING_YEAR') or datetime.now(timezone.utc).year)
+model_path = sys.argv[1] if len(sys.argv) > 1 else './ml/model_lgbm_quantiles.pkl'
+
+CASES = [
+    {'year': 2016, 'km': 120000, 'fuel_type': 'Diesel', 'gear': 'Manual', 'driveline': 'FWD', 'equipment': ['ACC', 'PDC', 'WinterWheels']},
+    {'year': 2017, 'km': 98000, 'fuel_type': 'Petrol', 'gear': 'Auto', 'driveline': 'AWD', 'equipment': ['Navi']},
+    {'year': 2021, 'km': 45000, 'fuel_type': 'Electric', 'gear': 'Auto', 'driveline': 'AWD', 'equipment': ['ACC', 'Navi', 'HeatPump', 'Towbar']},
+    {'year': 2019, 'km': 70000, 'fuel_type': 'Plug-in Hybrid', 'gear': 'auto', 'driveline': 'FWD', 'equipment': []},
+    {'year': 2012, 'km': 210000, 'fuel_type': 'Diesel', 'gear': 'Manual', 'driveline': 'RWD', 'equipment': None},
+    {'year': CURRENT_YEAR, 'km': 500, 'fuel_type': 'Electric', 'gear': 'Auto', 'driveline': 'RWD', 'equipment': ['ACC']},
+]
+
+models = joblib.load(model_path)
+X = engineer_features(pd.DataFrame(CASES), CURRENT_YEAR)
+
+predictions = {key: models[key].predict(X) for key in ('p10', 'p50', 'p90')}
+json.dump({
+    'year': CURRENT_YEAR,
+    'cases': [
+        {
+            'input': case,
+            'p10': float(predictions['p10'][i]),
+            'p50': float(predictions['p50'][i]),
+            'p90': float(predictions['p90'][i]),
+        }
+        for i, case in enumerate(CASES)
+    ],
+}, sys.stdout, indent=2)
+sys.stdout.write('\n')
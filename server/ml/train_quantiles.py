@@ -3,35 +3,21 @@ import os
 import sys
 import json
 import joblib
+from datetime import datetime, timezone
 import pandas as pd
 import numpy as np
 from sklearn.model_selection import train_test_split
 from sklearn.ensemble import RandomForestRegressor
 from sklearn.linear_model import QuantileRegressor
+from features import FEATURES as features, FEATURE_DEFAULTS, engineer_features
+
+# TRAINING_YEAR pins the car ages, e.g. for the test fixture in tests/fixtures/price-model
+CURRENT_YEAR = int(os.environ.get('TRAINING_YEAR') or datetime.now(timezone.utc).year)
 
 # Load data from FINN sample
 df = pd.read_json('./seed/finn_sample.json')
 
-# Feature engineering
-df['equipment_len'] = df['equipment'].apply(lambda x: len(x) if isinstance(x, list) else 0)
-df['is_awd'] = (df['driveline'] == 'AWD').astype(int)
-df['is_auto'] = (df['gear'].str.lower() == 'auto').astype(int)
-df['is_electric'] = (df['fuel_type'] == 'Electric').astype(int)
-df['is_hybrid'] = df['fuel_type'].str.contains('Hybrid', na=False).astype(int)
-df['age'] = 2025 - df['year']
-df['km_per_year'] = df['km'] / df['age'].clip(lower=1)
-df['season_month'] = 1  # January
-df['supply_density'] = 12
-
-# Select features for model
-features = [
-    'km', 'year', 'age', 'km_per_year', 
-    'equipment_len', 'is_awd', 'is_auto', 
-    'is_electric', 'is_hybrid',
-    'season_month', 'supply_density'
-]
-
-X = df[features].fillna(0)
+X = engineer_features(df, CURRENT_YEAR)
 y = df['price'].fillna(df['price'].median())
 
 # Split data
@@ -77,6 +63,63 @@ joblib.dump({
 print(f'Saved model to {model_path}')
 print(f'Features used: {features}')
 
+
+def export_model(m):
+    """Portable form of a fitted model for server/ml/quantileModel.ts."""
+    if isinstance(m, RandomForestRegressor):
+        return {
+            'type': 'forest',
+            'trees': [
+                {
+                    'left': est.tree_.children_left.tolist(),
+                    'right': est.tree_.children_right.tolist(),
+                    'feature': est.tree_.feature.tolist(),
+                    'threshold': est.tree_.threshold.tolist(),
+                    'value': est.tree_.value[:, 0, 0].tolist(),
+                }
+                for est in m.estimators_
+            ],
+        }
+    return {
+        'type': 'linear',
+        'coef': m.coef_.tolist(),
+        'intercept': float(m.intercept_),
+    }
+
+
+# Rows with the Python predictions, so the TypeScript evaluator can check on
+# load that it reproduces them
+samples = X_val.head(5)
+export_path = os.environ.get('PRICE_MODEL_EXPORT') or './ml/model_quantiles.json'
+with open(export_path, 'w') as f:
+    json.dump({
+        'format': 'quantile-models/1',
+        'trainedAt': datetime.now(timezone.utc).isoformat(),
+        'features': features,
+        'defaults': FEATURE_DEFAULTS,
+        'models': {
+            'p10': export_model(m_p10),
+            'p50': export_model(m_p50),
+            'p90': export_model(m_p90),
+        },
+        'samples': [
+            {
+                'features': [float(v) for v in row],
+                'p10': float(p10),
+                'p50': float(p50),
+                'p90': float(p90),
+            }
+            for row, p10, p50, p90 in zip(
+                samples.to_numpy(),
+                m_p10.predict(samples),
+                m_p50.predict(samples),
+                m_p90.predict(samples),
+            )
+        ],
+    }, f)
+
+print(f'Exported portable model to {export_path}')
+
 # Test predictions on sample data
 test_sample = X.iloc[0:1]
 p10_pred = m_p10.predict(test_sample)[0]
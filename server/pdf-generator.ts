@@ -1,460 +1,455 @@
-import type { Contract, Car, Customer } from '@shared/schema';
-
-export function generateContractHTML(contract: Contract, car: Car, customer: Customer): string {
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('nb-NO', {
-      style: 'currency',
-      currency: 'NOK',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
+import { createHash } from 'crypto';
+import { jsPDF } from 'jspdf';
+import { parse, HTMLElement, TextNode, type Node } from 'node-html-parser';
+import type { Contract, ContractAmendment, Car, Customer } from '@shared/schema';
+import {
+  amendmentReference,
+  prepareAmendmentData,
+  prepareContractData,
+  renderAmendmentTemplate,
+  renderContractTemplate,
+} from '@shared/contract-render';
+
+// Saved documents are dated by when they were made, so every rendering of
+// the same contract prints the same dates
+function documentDate(record: { createdAt?: Date | null }, contract: Contract): Date {
+  return new Date(record.createdAt ?? contract.saleDate);
+}
+
+export function generateContractHTML(
+  contract: Contract,
+  car: Car,
+  customer: Customer,
+  company: ContractPdfCompany,
+  template?: string | null,
+): string {
+  const data = prepareContractData(contract, car, customer, company, documentDate(contract, contract));
+  return renderContractTemplate(data, template);
+}
+
+export function generateAmendmentHTML(
+  amendment: ContractAmendment,
+  contract: Contract,
+  car: Car,
+  customer: Customer,
+  company: ContractPdfCompany,
+  signedBefore: ContractAmendment[] = [],
+): string {
+  const data = prepareAmendmentData(amendment, contract, car, customer, company, signedBefore, documentDate(amendment, contract));
+  return renderAmendmentTemplate(data);
+}
+
+export interface ContractPdfCompany {
+  name: string;
+  organizationNumber?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  logoUrl?: string | null;
+}
+
+export interface ContractPdf {
+  content: Buffer;
+  checksum: string;
+}
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 40;
+const BRAND_COLOR: [number, number, number] = [37, 99, 235];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+
+/**
+ * SHA-256 over the commercial content of the contract and the template it
+ * is printed with. Signing state and timestamps are left out so the
+ * checksum only changes when the terms do.
+ */
+export function contractChecksum(contract: Contract, car: Car, customer: Customer, template?: string | null): string {
+  const canonical = JSON.stringify({
+    template: template ?? null,
+    contract: {
+      id: contract.id,
+      contractNumber: contract.contractNumber,
+      contractTemplate: contract.contractTemplate,
+      salePrice: contract.salePrice,
+      saleDate: new Date(contract.saleDate).toISOString(),
+      notes: contract.notes ?? null,
+      addOns: contract.addOns ?? [],
+      tradeInCarId: contract.tradeInCarId ?? null,
+      tradeInValuation: contract.tradeInValuation ?? null,
+      tradeInReconCost: contract.tradeInReconCost ?? null,
+      tradeInNet: contract.tradeInNet ?? null,
+    },
+    car: {
+      id: car.id,
+      registrationNumber: car.registrationNumber,
+      make: car.make,
+      model: car.model,
+      year: car.year,
+      mileage: car.mileage,
+      vin: car.vin ?? null,
+    },
+    customer: {
+      id: customer.id,
+      name: customer.name,
+      organizationNumber: customer.organizationNumber ?? null,
+      address: customer.address ?? null,
+    },
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+// Uploaded logos are stored as data URLs. Remote ones are only fetched over
+// https from our own file storage or LOGO_ALLOWED_HOSTS, so a stored URL
+// cannot make the server call internal addresses.
+function isAllowedLogoUrl(logoUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(logoUrl);
+  } catch {
+    return false;
+  }
+
+  const hosts = (process.env.LOGO_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  if (process.env.SUPABASE_URL) {
+    hosts.push(new URL(process.env.SUPABASE_URL).hostname.toLowerCase());
+  }
+  return url.protocol === 'https:' && hosts.includes(url.hostname.toLowerCase());
+}
+
+// Logo may be a data URL or an allowed remote PNG/JPEG; anything else falls back to the company name
+async function loadLogo(logoUrl?: string | null): Promise<{ data: Uint8Array; format: 'PNG' | 'JPEG' } | null> {
+  if (!logoUrl) return null;
+
+  try {
+    let data: Buffer;
+    let mimeType: string;
+    const dataUrl = logoUrl.match(/^data:([^;]+);base64,(.+)$/);
+    if (dataUrl) {
+      mimeType = dataUrl[1];
+      data = Buffer.from(dataUrl[2], 'base64');
+    } else {
+      if (!isAllowedLogoUrl(logoUrl)) {
+        console.warn('Skipping company logo from a host that is not allowed:', logoUrl);
+        return null;
+      }
+      const response = await fetch(logoUrl, { redirect: 'error', signal: AbortSignal.timeout(5000) });
+      if (!response.ok) return null;
+      if (Number(response.headers.get('content-length')) > MAX_LOGO_BYTES) return null;
+      mimeType = response.headers.get('content-type')?.split(';')[0] || '';
+      data = Buffer.from(await response.arrayBuffer());
+    }
+
+    if (data.length > MAX_LOGO_BYTES) return null;
+    if (mimeType === 'image/png') return { data, format: 'PNG' };
+    if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') return { data, format: 'JPEG' };
+    return null;
+  } catch (error) {
+    console.warn('Could not load company logo for contract PDF:', error);
+    return null;
+  }
+}
+
+// A rendered contract template flattened to what the PDF lays out
+export type PdfBlock =
+  | { kind: 'title' | 'heading'; text: string }
+  | { kind: 'paragraph'; lines: string[] }
+  | { kind: 'rule' };
+
+const SKIPPED_TAGS = new Set(['HEAD', 'SCRIPT', 'STYLE', 'TEMPLATE', 'TITLE']);
+const HEADING_TAGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+const INLINE_TAGS = new Set([
+  'A', 'ABBR', 'B', 'BR', 'CODE', 'EM', 'I', 'LABEL', 'MARK', 'S', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'U',
+]);
+
+// Text of an inline run; <br> becomes a line break, other whitespace collapses
+function inlineText(node: Node): string {
+  if (node instanceof TextNode) return node.text.replace(/\s+/g, ' ');
+  if (!(node instanceof HTMLElement)) return '';
+  if (node.tagName === 'BR') return '\n';
+  return node.childNodes.map(inlineText).join('');
+}
+
+function collectBlocks(node: Node, blocks: PdfBlock[]): void {
+  let inline = '';
+  const flush = () => {
+    const lines = inline.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    if (lines.length > 0) blocks.push({ kind: 'paragraph', lines });
+    inline = '';
   };
 
-  const formatDate = (date: Date | string | null): string => {
-    if (!date) return 'Ikke oppgitt';
-    const d = typeof date === 'string' ? new Date(date) : date;
-    return d.toLocaleDateString('nb-NO', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
+  for (const child of node.childNodes) {
+    if (!(child instanceof HTMLElement)) {
+      inline += inlineText(child);
+      continue;
+    }
+    const tag = child.tagName;
+    if (SKIPPED_TAGS.has(tag)) continue;
+    if (INLINE_TAGS.has(tag)) {
+      inline += inlineText(child);
+      continue;
+    }
+
+    flush();
+    if (HEADING_TAGS.has(tag)) {
+      const text = inlineText(child).replace(/\s+/g, ' ').trim();
+      if (text) blocks.push({ kind: tag === 'H1' ? 'title' : 'heading', text });
+    } else if (tag === 'HR') {
+      blocks.push({ kind: 'rule' });
+    } else {
+      collectBlocks(child, blocks);
+    }
+  }
+  flush();
+}
+
+/**
+ * Flatten rendered template HTML into titles, headings, paragraphs and
+ * rules. Styling is dropped; the PDF has its own typography.
+ */
+export function htmlToPdfBlocks(html: string): PdfBlock[] {
+  const blocks: PdfBlock[] = [];
+  collectBlocks(parse(html.replace(/<!doctype[^>]*>/i, '')), blocks);
+  return blocks;
+}
+
+interface PdfWriter {
+  doc: jsPDF;
+  y: number;
+  ensureSpace(height: number): void;
+  title(text: string): void;
+  sectionTitle(title: string): void;
+  paragraph(text: string, indent?: number): void;
+  rule(): void;
+}
+
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TEXT_COLOR: [number, number, number] = [30, 41, 59];
+
+function createPdfWriter(doc: jsPDF): PdfWriter {
+  const writer: PdfWriter = {
+    doc,
+    y: MARGIN,
+
+    ensureSpace(height) {
+      if (writer.y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+        doc.addPage();
+        writer.y = MARGIN;
+      }
+    },
+
+    title(text) {
+      writer.ensureSpace(40);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(18);
+      doc.setTextColor(...TEXT_COLOR);
+      const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+      doc.text(lines, PAGE_WIDTH / 2, writer.y, { align: 'center' });
+      writer.y += lines.length * 22 + 6;
+    },
+
+    sectionTitle(title) {
+      writer.ensureSpace(40);
+      writer.y += 10;
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(...BRAND_COLOR);
+      doc.text(title, MARGIN, writer.y);
+      writer.y += 6;
+      doc.setDrawColor(226, 232, 240);
+      doc.line(MARGIN, writer.y, PAGE_WIDTH - MARGIN, writer.y);
+      writer.y += 14;
+    },
+
+    paragraph(text, indent = 0) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(...TEXT_COLOR);
+      const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH - indent);
+      for (const line of lines) {
+        writer.ensureSpace(14);
+        doc.text(line, MARGIN + indent, writer.y);
+        writer.y += 14;
+      }
+    },
+
+    rule() {
+      writer.ensureSpace(12);
+      doc.setDrawColor(226, 232, 240);
+      doc.line(MARGIN, writer.y, PAGE_WIDTH - MARGIN, writer.y);
+      writer.y += 12;
+    },
+  };
+  return writer;
+}
+
+// Company logo (or name) with contact details above a brand-coloured rule
+async function drawLetterhead(writer: PdfWriter, company: ContractPdfCompany): Promise<void> {
+  const { doc } = writer;
+  const logo = await loadLogo(company.logoUrl);
+  if (logo) {
+    const props = doc.getImageProperties(logo.data);
+    const height = 40;
+    const width = Math.min((props.width / props.height) * height, 160);
+    doc.addImage(logo.data, logo.format, MARGIN, writer.y, width, height);
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(20);
+    doc.setTextColor(...BRAND_COLOR);
+    doc.text(company.name, MARGIN, writer.y + 26);
+  }
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED_COLOR);
+  const companyLines = [
+    company.name,
+    company.organizationNumber ? `Org.nr ${company.organizationNumber}` : '',
+    company.address || '',
+    [company.phone, company.email].filter(Boolean).join(' · '),
+  ].filter(Boolean);
+  doc.text(companyLines, PAGE_WIDTH - MARGIN, writer.y + 8, { align: 'right' });
+  writer.y += 60;
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.setLineWidth(2);
+  doc.line(MARGIN, writer.y, PAGE_WIDTH - MARGIN, writer.y);
+  doc.setLineWidth(0.5);
+  writer.y += 30;
+}
+
+function drawBlocks(writer: PdfWriter, blocks: PdfBlock[]): void {
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'title':
+        writer.title(block.text);
+        break;
+      case 'heading':
+        writer.sectionTitle(block.text);
+        break;
+      case 'paragraph':
+        block.lines.forEach(line => writer.paragraph(line));
+        writer.y += 6;
+        break;
+      case 'rule':
+        writer.rule();
+        break;
+    }
+  }
+}
+
+// Footer with page numbers and checksum on every page
+function drawFooters(doc: jsPDF, reference: string, checksum: string): void {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, PAGE_HEIGHT - MARGIN, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN);
+    doc.text(
+      `${reference} · Sjekksum SHA-256 ${checksum.slice(0, 16)}`,
+      MARGIN,
+      PAGE_HEIGHT - MARGIN + 14,
+    );
+    doc.text(`Side ${page} av ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 14, { align: 'right' });
+  }
+}
+
+// Letterhead, then the rendered template, then checksum footers
+async function renderDocumentPdf(
+  html: string,
+  company: ContractPdfCompany,
+  meta: { title: string; subject: string; reference: string; createdAt: Date; checksum: string },
+): Promise<ContractPdf> {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4', compress: true });
+  doc.setCreationDate(meta.createdAt);
+  doc.setFileId(meta.checksum.slice(0, 32).toUpperCase());
+  doc.setProperties({
+    title: meta.title,
+    subject: meta.subject,
+    author: company.name,
+    creator: 'ForhandlerPRO',
+  });
+
+  const writer = createPdfWriter(doc);
+  await drawLetterhead(writer, company);
+  drawBlocks(writer, htmlToPdfBlocks(html));
+  drawFooters(doc, meta.reference, meta.checksum);
+
+  return {
+    content: Buffer.from(doc.output('arraybuffer')),
+    checksum: meta.checksum,
   };
+}
+
+/**
+ * Render a contract as a vector-text A4 PDF from the same Handlebars
+ * template as the HTML view (the built-in one unless a dealer template is
+ * given). Output is byte-for-byte stable for the same input: creation date
+ * and file ID derive from the contract.
+ */
+export async function generateContractPDF(
+  contract: Contract,
+  car: Car,
+  customer: Customer,
+  company: ContractPdfCompany,
+  template?: string | null,
+): Promise<ContractPdf> {
+  return renderDocumentPdf(generateContractHTML(contract, car, customer, company, template), company, {
+    title: `Kjøpekontrakt ${contract.contractNumber}`,
+    subject: `${car.make} ${car.model} ${car.registrationNumber}`,
+    reference: `Kontrakt ${contract.contractNumber}`,
+    createdAt: documentDate(contract, contract),
+    checksum: contractChecksum(contract, car, customer, template),
+  });
+}
 
-  return `
-    <!DOCTYPE html>
-    <html lang="nb">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Kjøpekontrakt - ${contract.contractNumber}</title>
-      <style>
-        * {
-          margin: 0;
-          padding: 0;
-          box-sizing: border-box;
-        }
-
-        body {
-          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-          line-height: 1.6;
-          color: #333;
-          background: white;
-          padding: 40px;
-          font-size: 12px;
-        }
-
-        .header {
-          text-align: center;
-          margin-bottom: 40px;
-          border-bottom: 3px solid #2563eb;
-          padding-bottom: 20px;
-        }
-
-        .logo {
-          font-size: 28px;
-          font-weight: bold;
-          color: #2563eb;
-          margin-bottom: 8px;
-        }
-
-        .subtitle {
-          font-size: 16px;
-          color: #64748b;
-          font-weight: 500;
-        }
-
-        .contract-title {
-          font-size: 20px;
-          font-weight: bold;
-          color: #1e293b;
-          margin: 30px 0 20px 0;
-          text-align: center;
-        }
-
-        .section {
-          margin-bottom: 30px;
-          page-break-inside: avoid;
-        }
-
-        .section-title {
-          font-size: 16px;
-          font-weight: bold;
-          color: #2563eb;
-          margin-bottom: 15px;
-          padding-bottom: 5px;
-          border-bottom: 1px solid #e2e8f0;
-        }
-
-        .info-grid {
-          display: grid;
-          grid-template-columns: 1fr 1fr;
-          gap: 30px;
-          margin-bottom: 30px;
-        }
-
-        .info-box {
-          background: #f8fafc;
-          padding: 20px;
-          border-radius: 8px;
-          border-left: 4px solid #2563eb;
-        }
-
-        .info-row {
-          display: flex;
-          justify-content: space-between;
-          margin-bottom: 8px;
-          padding: 4px 0;
-        }
-
-        .info-label {
-          font-weight: 600;
-          color: #475569;
-          min-width: 120px;
-        }
-
-        .info-value {
-          color: #1e293b;
-          font-weight: 500;
-        }
-
-        .car-details {
-          background: #fef3c7;
-          padding: 20px;
-          border-radius: 8px;
-          border-left: 4px solid #f59e0b;
-          margin-bottom: 20px;
-        }
-
-        .price-box {
-          background: #dcfce7;
-          padding: 25px;
-          border-radius: 8px;
-          border-left: 4px solid #22c55e;
-          text-align: center;
-          margin: 30px 0;
-        }
-
-        .price-amount {
-          font-size: 32px;
-          font-weight: bold;
-          color: #15803d;
-          margin-bottom: 5px;
-        }
-
-        .price-label {
-          font-size: 14px;
-          color: #166534;
-          font-weight: 500;
-        }
-
-        .terms {
-          background: #f1f5f9;
-          padding: 25px;
-          border-radius: 8px;
-          margin: 30px 0;
-          border: 1px solid #e2e8f0;
-        }
-
-        .terms-title {
-          font-size: 14px;
-          font-weight: bold;
-          color: #1e293b;
-          margin-bottom: 15px;
-        }
-
-        .terms-list {
-          list-style: none;
-          counter-reset: term-counter;
-        }
-
-        .terms-list li {
-          counter-increment: term-counter;
-          margin-bottom: 10px;
-          padding-left: 25px;
-          position: relative;
-        }
-
-        .terms-list li::before {
-          content: counter(term-counter) ".";
-          position: absolute;
-          left: 0;
-          font-weight: bold;
-          color: #2563eb;
-        }
-
-        .signatures {
-          margin-top: 50px;
-          display: grid;
-          grid-template-columns: 1fr 1fr;
-          gap: 50px;
-        }
-
-        .signature-box {
-          text-align: center;
-          padding-top: 60px;
-          border-top: 2px solid #1e293b;
-        }
-
-        .signature-title {
-          font-weight: bold;
-          color: #1e293b;
-          margin-bottom: 5px;
-        }
-
-        .signature-info {
-          color: #64748b;
-          font-size: 11px;
-        }
-
-        .footer {
-          margin-top: 60px;
-          text-align: center;
-          color: #64748b;
-          font-size: 10px;
-          border-top: 1px solid #e2e8f0;
-          padding-top: 20px;
-        }
-
-        .contract-number {
-          background: #eff6ff;
-          color: #2563eb;
-          padding: 5px 15px;
-          border-radius: 20px;
-          font-weight: bold;
-          display: inline-block;
-          margin-bottom: 10px;
-        }
-
-        .status-badge {
-          display: inline-block;
-          padding: 4px 12px;
-          border-radius: 15px;
-          font-size: 11px;
-          font-weight: 600;
-          text-transform: uppercase;
-          letter-spacing: 0.5px;
-        }
-
-        .status-pending {
-          background: #fef3c7;
-          color: #92400e;
-        }
-
-        .status-signed {
-          background: #dcfce7;
-          color: #166534;
-        }
-
-        .notes-section {
-          background: #fefce8;
-          padding: 20px;
-          border-radius: 8px;
-          border-left: 4px solid #eab308;
-          margin: 20px 0;
-        }
-
-        @media print {
-          body {
-            padding: 20px;
-            -webkit-print-color-adjust: exact;
-            color-adjust: exact;
-          }
-          .page-break {
-            page-break-before: always;
-          }
-          .no-print {
-            display: none;
-          }
-        }
-
-        /* Add a print button for easy access */
-        .print-controls {
-          position: fixed;
-          top: 20px;
-          right: 20px;
-          z-index: 1000;
-          background: white;
-          padding: 15px;
-          border-radius: 8px;
-          box-shadow: 0 4px 12px rgba(0,0,0,0.15);
-        }
-
-        @media print {
-          .print-controls {
-            display: none;
-          }
-        }
-      </style>
-    </head>
-    <body>
-      <div class="print-controls no-print">
-        <button onclick="window.print()" style="background: #2563eb; color: white; border: none; padding: 10px 16px; border-radius: 6px; cursor: pointer; font-weight: 500; margin-right: 8px;">
-          🖨️ Skriv ut / Lagre som PDF
-        </button>
-        <button onclick="window.close()" style="background: #64748b; color: white; border: none; padding: 10px 16px; border-radius: 6px; cursor: pointer; font-weight: 500;">
-          ✕ Lukk
-        </button>
-      </div>
-      <div class="header">
-        <div class="logo">ForhandlerPRO</div>
-        <div class="subtitle">Profesjonelt bilsalg</div>
-      </div>
-
-      <div class="contract-title">
-        <div class="contract-number">Kontrakt ${contract.contractNumber}</div>
-        <span class="status-badge status-${contract.status}">
-          ${contract.status === 'pending' ? 'Venter signering' : 'Signert'}
-        </span>
-      </div>
-
-      <div class="info-grid">
-        <div class="info-box">
-          <div class="section-title">Kjøper</div>
-          <div class="info-row">
-            <span class="info-label">Navn:</span>
-            <span class="info-value">${customer.name}</span>
-          </div>
-          ${customer.email ? `
-          <div class="info-row">
-            <span class="info-label">E-post:</span>
-            <span class="info-value">${customer.email}</span>
-          </div>
-          ` : ''}
-          ${customer.phone ? `
-          <div class="info-row">
-            <span class="info-label">Telefon:</span>
-            <span class="info-value">${customer.phone}</span>
-          </div>
-          ` : ''}
-          ${customer.address ? `
-          <div class="info-row">
-            <span class="info-label">Adresse:</span>
-            <span class="info-value">${customer.address}</span>
-          </div>
-          ` : ''}
-          ${customer.organizationNumber ? `
-          <div class="info-row">
-            <span class="info-label">Org.nr:</span>
-            <span class="info-value">${customer.organizationNumber}</span>
-          </div>
-          ` : ''}
-          <div class="info-row">
-            <span class="info-label">Type:</span>
-            <span class="info-value">${customer.type === 'individual' ? 'Privat' : 'Bedrift'}</span>
-          </div>
-        </div>
-
-        <div class="info-box">
-          <div class="section-title">Kontraktdetaljer</div>
-          <div class="info-row">
-            <span class="info-label">Dato:</span>
-            <span class="info-value">${formatDate(contract.saleDate)}</span>
-          </div>
-          <div class="info-row">
-            <span class="info-label">Status:</span>
-            <span class="info-value">${contract.status === 'pending' ? 'Venter signering' : 'Signert og gyldig'}</span>
-          </div>
-          <div class="info-row">
-            <span class="info-label">Opprettet:</span>
-            <span class="info-value">${formatDate(contract.createdAt)}</span>
-          </div>
-        </div>
-      </div>
-
-      <div class="car-details">
-        <div class="section-title">Kjøretøyinformasjon</div>
-        <div class="info-grid">
-          <div>
-            <div class="info-row">
-              <span class="info-label">Registrering:</span>
-              <span class="info-value">${car.registrationNumber}</span>
-            </div>
-            <div class="info-row">
-              <span class="info-label">Merke:</span>
-              <span class="info-value">${car.make}</span>
-            </div>
-            <div class="info-row">
-              <span class="info-label">Modell:</span>
-              <span class="info-value">${car.model}</span>
-            </div>
-            <div class="info-row">
-              <span class="info-label">Årsmodell:</span>
-              <span class="info-value">${car.year}</span>
-            </div>
-          </div>
-          <div>
-            <div class="info-row">
-              <span class="info-label">Kilometerstand:</span>
-              <span class="info-value">${car.mileage ? car.mileage.toLocaleString('nb-NO') + ' km' : 'Ikke oppgitt'}</span>
-            </div>
-            <div class="info-row">
-              <span class="info-label">Drivstoff:</span>
-              <span class="info-value">${car.fuelType || 'Ikke oppgitt'}</span>
-            </div>
-            <div class="info-row">
-              <span class="info-label">Effekt:</span>
-              <span class="info-value">${car.power ? String(car.power) + ' hk' : 'Ikke oppgitt'}</span>
-            </div>
-            <div class="info-row">
-              <span class="info-label">Chassisnummer:</span>
-              <span class="info-value">${car.chassisNumber || 'Ikke oppgitt'}</span>
-            </div>
-          </div>
-        </div>
-      </div>
-
-      <div class="price-box">
-        <div class="price-amount">${formatCurrency(contract.salePrice)}</div>
-        <div class="price-label">Salgspris inkl. mva</div>
-      </div>
-
-      ${contract.notes ? `
-      <div class="notes-section">
-        <div class="section-title">Merknad</div>
-        <p>${contract.notes}</p>
-      </div>
-      ` : ''}
-
-      <div class="terms">
-        <div class="terms-title">Avtalevilkår</div>
-        <ul class="terms-list">
-          <li>Kjøpet gjennomføres på "som den er" basis med mindre annet er skriftlig avtalt.</li>
-          <li>Kjøper har rett til å undersøke kjøretøyet før overtakelse.</li>
-          <li>Selger garanterer at kjøretøyet er fritt for heftelser og pantelån ved levering.</li>
-          <li>Eierskifte skal gjennomføres umiddelbart ved overtakelse av kjøretøy.</li>
-          <li>Kjøper overtar alle kostnader knyttet til kjøretøyet fra overtakelsesdato.</li>
-          <li>Eventuelle reklamasjoner må fremmes skriftlig innen 14 dager etter overtakelse.</li>
-          <li>Denne avtalen er bindende for begge parter ved underskrift.</li>
-        </ul>
-      </div>
-
-      <div class="signatures">
-        <div class="signature-box">
-          <div class="signature-title">Selger</div>
-          <div class="signature-info">ForhandlerPRO<br>Signatur og dato</div>
-        </div>
-        <div class="signature-box">
-          <div class="signature-title">Kjøper</div>
-          <div class="signature-info">${customer.name}<br>Signatur og dato</div>
-        </div>
-      </div>
-
-      <div class="footer">
-        <p>Dette dokumentet er generert elektronisk av ForhandlerPRO systemet den ${formatDate(new Date())}</p>
-        <p>Kontrakt-ID: ${contract.id} | Kjøretøy-ID: ${car.id}</p>
-      </div>
-    </body>
-    </html>
-  `;
+// Same idea as contractChecksum: only the amended terms, tied to the contract they amend
+export function amendmentChecksum(amendment: ContractAmendment, contract: Contract): string {
+  const canonical = JSON.stringify({
+    amendment: {
+      id: amendment.id,
+      amendmentNumber: amendment.amendmentNumber,
+      kind: amendment.kind,
+      description: amendment.description,
+      priceAdjustment: amendment.priceAdjustment,
+      addOns: amendment.addOns ?? [],
+      deliveryDate: amendment.deliveryDate ? new Date(amendment.deliveryDate).toISOString() : null,
+    },
+    contract: {
+      id: contract.id,
+      contractNumber: contract.contractNumber,
+      salePrice: contract.salePrice,
+    },
+  });
+  return createHash('sha256').update(canonical).digest('hex');
 }
 
-// For now, we'll return the HTML content as a temporary solution
-// In production, you would integrate with a PDF service like:
-// - PDFShift API
-// - ILovePDF API  
-// - DocRaptor
-// - Or use a cloud function with Chrome
-export async function generatePDF(htmlContent: string): Promise<Buffer> {
-  // Return HTML as bytes for now - browser can print this as PDF
-  return Buffer.from(htmlContent, 'utf-8');
-}
\ No newline at end of file
+/**
+ * Render an amendment or credit note as a PDF in the same layout as the
+ * contract, for signing alongside it.
+ */
+export async function generateAmendmentPDF(
+  amendment: ContractAmendment,
+  contract: Contract,
+  car: Car,
+  customer: Customer,
+  company: ContractPdfCompany,
+  signedBefore: ContractAmendment[] = [],
+): Promise<ContractPdf> {
+  const title = amendment.kind === 'kreditnota' ? 'Kreditnota' : 'Tillegg til kjøpekontrakt';
+  const reference = amendmentReference(contract.contractNumber, amendment.amendmentNumber);
+  return renderDocumentPdf(generateAmendmentHTML(amendment, contract, car, customer, company, signedBefore), company, {
+    title: `${title} ${reference}`,
+    subject: `${car.make} ${car.model} ${car.registrationNumber}`,
+    reference,
+    createdAt: documentDate(amendment, contract),
+    checksum: amendmentChecksum(amendment, contract),
+  });
+}
@@ -1,6 +1,38 @@
 import { storagePromise } from "./storage";
+import type { ContractStatus } from "@shared/contract-lifecycle";
+import type { CarPriceSuggestion } from "@shared/schema";
+import { ROLE_PERMISSIONS, isPermission, normalizeRole, type Permission, type Role } from "@shared/roles";
 
-export type UserRole = "EIER" | "SELGER" | "REGNSKAP" | "VERKSTED";
+export type UserRole = Role;
+
+// What a member may do in their company: the permissions of their custom
+// role when they have one, otherwise those of their built-in role
+export interface UserAccess {
+  role: UserRole;
+  customRoleId: string | null;
+  customRoleName: string | null;
+  permissions: readonly Permission[];
+}
+
+// Cost and margin figures need the finance.view permission. A trade-in's
+// recon cost is included because valuation minus recon cost gives the net.
+const SENSITIVE_CAR_FIELDS = ["costPrice", "recondCost", "profitMargin"] as const;
+const SENSITIVE_CONTRACT_FIELDS = ["tradeInNet", "tradeInReconCost"] as const;
+// Margin bounds of a price recommendation give away cost plus recon, and so
+// does the reasoning behind a price taken from them
+const SENSITIVE_PRICING_FIELDS = ["floorPrice", "targetPrice", "costExplanation"] as const;
+// Recon line costs add up to the car's recon cost
+const SENSITIVE_RECON_LINE_FIELDS = ["unitCost"] as const;
+
+type SensitiveCarField = typeof SENSITIVE_CAR_FIELDS[number];
+type SensitiveContractField = typeof SENSITIVE_CONTRACT_FIELDS[number];
+type SensitivePricingField = typeof SENSITIVE_PRICING_FIELDS[number];
+
+function omitFields<T extends object, K extends string>(record: T, fields: readonly K[]): Omit<T, K> {
+  const copy: T = { ...record };
+  for (const field of fields) delete (copy as Partial<Record<K, unknown>>)[field];
+  return copy;
+}
 
 export interface UserMembership {
   id: string;
@@ -18,13 +50,38 @@ export class RoleBasedAccessControl {
     try {
       const storage = await storagePromise;
       const membership = await storage.getUserMembership(userId, companyId);
-      return membership?.role || null;
+      return normalizeRole(membership?.role);
     } catch (error) {
       console.error("Error getting user role:", error);
       return null;
     }
   }
 
+  /**
+   * Resolve the user's effective permissions in a company
+   */
+  static async getUserAccess(userId: string, companyId: string): Promise<UserAccess | null> {
+    try {
+      const storage = await storagePromise;
+      const membership = await storage.getUserMembership(userId, companyId);
+      const role = normalizeRole(membership?.role);
+      if (!membership || !role) return null;
+
+      const customRole = membership.customRoleId
+        ? await storage.getCompanyRoleById(membership.customRoleId, companyId)
+        : undefined;
+      return {
+        role,
+        customRoleId: customRole?.id ?? null,
+        customRoleName: customRole?.name ?? null,
+        permissions: customRole ? customRole.permissions.filter(isPermission) : ROLE_PERMISSIONS[role],
+      };
+    } catch (error) {
+      console.error("Error getting user access:", error);
+      return null;
+    }
+  }
+
   /**
    * Check if user has any of the specified roles in a company
    */
@@ -42,78 +99,102 @@ export class RoleBasedAccessControl {
   }
 
   /**
-   * Get user's company ID (assumes user has only one company for now)
+   * Get the user's active company, or null without any membership
    */
   static async getUserCompanyId(userId: string): Promise<string | null> {
     try {
       const storage = await storagePromise;
-      const membership = await storage.getUserMembership(userId, "default-company");
-      return membership?.companyId || "default-company"; // Fallback for existing users
+      return await storage.getActiveCompanyId(userId);
     } catch (error) {
       console.error("Error getting user company ID:", error);
-      return "default-company";
+      return null;
     }
   }
 
   /**
-   * Field-level permissions
+   * Check a permission from the shared catalogue
    */
-  static canViewSensitiveFields(userRole: UserRole): boolean {
-    return ["EIER", "REGNSKAP"].includes(userRole);
+  static can(access: UserAccess, permission: Permission): boolean {
+    return access.permissions.includes(permission);
   }
 
-  /**
-   * CRUD permissions by role
-   */
-  static canCreateCars(userRole: UserRole): boolean {
-    return ["EIER", "SELGER", "REGNSKAP", "VERKSTED"].includes(userRole);
+  // Nobody can hand out more than they hold themselves
+  static canGrant(access: UserAccess, permissions: readonly Permission[]): boolean {
+    return permissions.every(permission => this.can(access, permission));
   }
 
-  static canUpdateCars(userRole: UserRole): boolean {
-    return ["EIER", "SELGER", "REGNSKAP", "VERKSTED"].includes(userRole);
+  /**
+   * Field-level permissions
+   */
+  static canViewSensitiveFields(access: UserAccess): boolean {
+    return this.can(access, "finance.view");
   }
 
-  static canDeleteCars(userRole: UserRole): boolean {
-    return ["EIER"].includes(userRole);
+  // Delivery closes the books on a sale; cancelling is as final as deleting
+  static canTransitionContract(access: UserAccess, to: ContractStatus): boolean {
+    switch (to) {
+      case "pending_signature":
+      case "signed":
+        return this.can(access, "contracts.sign");
+      case "completed":
+        return this.can(access, "contracts.complete");
+      case "cancelled":
+        return this.can(access, "contracts.delete");
+      default:
+        return this.can(access, "contracts.update");
+    }
   }
 
-  static canCreateContracts(userRole: UserRole): boolean {
-    return ["EIER", "SELGER", "REGNSKAP"].includes(userRole);
+  /**
+   * Drop sensitive fields based on the user's permissions. Used on responses,
+   * and on update bodies so a form that never saw the values cannot blank them.
+   */
+  static maskSensitiveCarFields<T extends object>(car: T, access: UserAccess): Omit<T, SensitiveCarField> {
+    return this.canViewSensitiveFields(access) ? car : omitFields(car, SENSITIVE_CAR_FIELDS);
   }
 
-  static canUpdateContracts(userRole: UserRole): boolean {
-    return ["EIER", "SELGER", "REGNSKAP"].includes(userRole);
+  static maskSensitiveContractFields<T extends object>(contract: T, access: UserAccess): Omit<T, SensitiveContractField> {
+    return this.canViewSensitiveFields(access) ? contract : omitFields(contract, SENSITIVE_CONTRACT_FIELDS);
   }
 
-  static canDeleteContracts(userRole: UserRole): boolean {
-    return ["EIER"].includes(userRole);
+  // A price held at the margin floor or set from the target margin is cost
+  // plus a known percentage, so it is as sensitive as the cost itself
+  static canViewCostBasedPrice(access: UserAccess, costBased: boolean): boolean {
+    return !costBased || this.canViewSensitiveFields(access);
   }
 
-  static canManageCustomers(userRole: UserRole): boolean {
-    return ["EIER", "SELGER", "REGNSKAP"].includes(userRole);
+  static maskSensitivePricingFields<T extends { recommendedPrice: number; costBased: boolean }>(
+    recommendation: T,
+    access: UserAccess,
+  ): Omit<T, SensitivePricingField | "recommendedPrice"> & { recommendedPrice: number | null } {
+    if (this.canViewSensitiveFields(access)) return recommendation;
+    return {
+      ...omitFields(recommendation, [...SENSITIVE_PRICING_FIELDS, "recommendedPrice"] as const),
+      recommendedPrice: this.canViewCostBasedPrice(access, recommendation.costBased) ? recommendation.recommendedPrice : null,
+    };
   }
 
-  static canDeleteCustomers(userRole: UserRole): boolean {
-    return ["EIER"].includes(userRole);
+  // An aging suggestion held at the margin floor: both the price and the reason saying so
+  static maskPriceSuggestion(
+    suggestion: CarPriceSuggestion,
+    access: UserAccess,
+  ): Omit<CarPriceSuggestion, "suggestedPrice"> & { suggestedPrice: string | null } {
+    if (this.canViewCostBasedPrice(access, suggestion.floorClamped)) return suggestion;
+    return { ...suggestion, suggestedPrice: null, reason: null };
   }
 
-  static canViewFinancialData(userRole: UserRole): boolean {
-    return ["EIER", "REGNSKAP"].includes(userRole);
+  // The workshop sees the costs it books itself
+  static canViewReconCosts(access: UserAccess): boolean {
+    return this.canViewSensitiveFields(access) || this.can(access, "recon.work");
   }
 
-  /**
-   * Mask sensitive fields based on user role
-   */
-  static maskSensitiveCarFields(car: any, userRole: UserRole) {
-    if (!this.canViewSensitiveFields(userRole)) {
-      return {
-        ...car,
-        costPrice: null, // Hide cost price from non-authorized roles
-        profitMargin: null,
-        recondCost: null,
-      };
-    }
-    return car;
+  static maskSensitiveReconFields<T extends { lines: object[]; total: number }>(task: T, access: UserAccess): T {
+    if (this.canViewReconCosts(access)) return task;
+    const { total: _total, ...rest } = task;
+    return {
+      ...rest,
+      lines: task.lines.map(line => omitFields(line, SENSITIVE_RECON_LINE_FIELDS)),
+    } as unknown as T;
   }
 
   /**
@@ -160,9 +241,11 @@ export function requireRole(allowedRoles: UserRole[]) {
 }
 
 /**
- * Middleware to check company membership
+ * Route-level authorization: resolves the caller's active company and
+ * effective permissions, attaches them as req.companyId, req.userRole and
+ * req.access, and optionally checks one permission
  */
-export function requireCompanyMembership() {
+export function requirePermission(permission?: Permission) {
   return async (req: any, res: any, next: any) => {
     try {
       const userId = req.user?.claims?.sub;
@@ -175,18 +258,28 @@ export function requireCompanyMembership() {
         return res.status(403).json({ message: "No company access" });
       }
 
-      const isMember = await RoleBasedAccessControl.isCompanyMember(userId, companyId);
-      if (!isMember) {
+      const access = await RoleBasedAccessControl.getUserAccess(userId, companyId);
+      if (!access) {
         return res.status(403).json({ message: "Not a company member" });
       }
+      if (permission && !RoleBasedAccessControl.can(access, permission)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
-      // Attach company info to request
       req.companyId = companyId;
-      req.userRole = await RoleBasedAccessControl.getUserRole(userId, companyId);
+      req.userRole = access.role;
+      req.access = access;
       next();
     } catch (error) {
-      console.error("Company membership check error:", error);
+      console.error("Permission check error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Middleware to check company membership
+ */
+export function requireCompanyMembership() {
+  return requirePermission();
+}
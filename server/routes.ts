@@ -3,20 +3,139 @@ import { createServer, type Server } from "http";
 import { storagePromise } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { setupSimpleAuth, isSimpleAuthenticated } from "./simpleAuth";
-import { insertCarSchema, insertCustomerSchema, insertContractSchema } from "@shared/schema";
+import {
+  insertCarSchema,
+  insertCustomerSchema,
+  insertContractSchema,
+  insertContractAmendmentSchema,
+  insertContractTemplateSchema,
+  insertFollowupSchema,
+  insertFollowupPlaybookSchema,
+  insertMessageTemplateSchema,
+  sendCustomerMessageSchema,
+  logInboundMessageSchema,
+  updateFollowupSchema,
+  FOLLOWUP_STATUSES,
+  insertCompanyRoleSchema,
+  memberRoleSchema,
+  insertReconTaskSchema,
+  updateReconTaskSchema,
+  insertReconTaskLineSchema,
+  insertLeadSchema,
+  updateLeadSchema,
+  leadConversionSchema,
+  REPRICING_MODES,
+} from "@shared/schema";
 import { z } from "zod";
-import { generateContractHTML, generatePDF } from "./pdf-generator";
 import { scrapeFinnAd } from "./finn-scraper";
 import OpenAI from "openai";
 import * as tools from "./assistantTools";
 import type { UserHints } from "./assistantTools";
 import { svvLookup } from "./routes/svv";
+import { RoleBasedAccessControl, requireCompanyMembership, requirePermission } from "./rbac";
+import { readContractDocument } from "./services/documentStorage";
+import {
+  renderAmendmentHtml,
+  renderAmendmentPdf,
+  renderContractHtml,
+  renderContractPdf,
+} from "./services/contractPdfService";
+import { ActivityLogger } from "./services/activityLogger";
+import { buildTradeInCar } from "./services/tradeInService";
+import { recommendPrice } from "./services/pricingService";
+import { exportCustomerData } from "./services/privacyService";
+import { changeAmendmentStatus, changeContractStatus, voidContract } from "./services/contractLifecycleService";
+import { handleInboundSms, logInboundMessage, sendCustomerMessage } from "./services/customerMessageService";
+import { SMS_PROVIDERS, type SmsProviderName } from "./services/smsService";
+import { AMENDMENT_STATUSES, CONTRACT_STATUSES } from "@shared/contract-lifecycle";
+import { ROLE_PERMISSIONS, isRole } from "@shared/roles";
+import {
+  getFakeSigningProvider,
+  isSigningProviderAvailable,
+  handleSigningWebhook,
+  refreshAmendmentSigningStatus,
+  refreshSigningStatus,
+  sendAmendmentForSigning,
+  sendContractForSigning,
+} from "./services/signingService";
 
 // Initialize OpenAI if API key is available
 const openai = process.env.OPENAI_API_KEY
   ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
   : null;
 
+// Lifecycle and signing fields are owned by the server, not the contract form
+const contractTermsSchema = insertContractSchema.omit({
+  status: true,
+  eSignStatus: true,
+  eSignSentAt: true,
+  signingStatus: true,
+});
+
+const contractTransitionSchema = z.object({
+  to: z.enum(CONTRACT_STATUSES),
+  reason: z.string().max(500).optional().nullable(),
+});
+
+// Registration numbers are unique within a company's stock
+function isDuplicateRegistration(error: any): boolean {
+  return error?.code === '23505' && error.constraint === 'idx_cars_company_registration';
+}
+
+const DUPLICATE_REGISTRATION = {
+  message: "En bil med dette registreringsnummeret eksisterer allerede",
+  code: "DUPLICATE_REGISTRATION",
+};
+
+// Errors from sending or logging a customer message, by status code
+const MESSAGE_NOT_FOUND_ERRORS = [
+  'Customer not found or not authorized',
+  'Car not found or not authorized',
+  'Contract not found or not authorized',
+  'Message template not found or not authorized',
+];
+const MESSAGE_INVALID_ERRORS = ['Customer has no email address', 'Customer has no phone number'];
+
+const amendmentTransitionSchema = z.object({
+  to: z.enum(AMENDMENT_STATUSES),
+});
+
+// Why a car's price, cost or recon cost was edited; kept in the price history
+const priceChangeReasonSchema = z.string().trim().max(500).optional().nullable();
+
+// Finished recon tasks stay on the workshop board this long
+const RECON_BOARD_DONE_DAYS = 14;
+
+const RECON_CONFLICT_ERRORS = [
+  'Car is already sold',
+  'Recon cost is calculated from work orders',
+  'Mandatory recon tasks are not done',
+];
+
+const LEAD_CONFLICT_ERRORS = [
+  'Lead is already converted',
+  'Leads are won by converting them',
+  'Lead is lost',
+  'Car is already sold',
+  'Car already has an open contract',
+];
+
+// A contract cannot take a car that is sold or held by another contract
+const CONTRACT_CAR_CONFLICT_ERRORS = ['Car is already sold', 'Car already has an open contract'];
+
+const LEAD_INVALID_ERRORS = [
+  'A lost lead needs a reason',
+  'Assignee is not a member of the company',
+];
+
+// Selling below the car's listed price is a discount, which needs contracts.discount
+async function isBelowListedPrice(carId: string | undefined, salePrice: string | undefined, userId: string): Promise<boolean> {
+  if (!carId || salePrice === undefined) return false;
+  const storage = await storagePromise;
+  const car = await storage.getCarById(carId, userId);
+  return !!car && Number(salePrice) < Number(car.salePrice);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Use simple auth for development instead of Replit auth
   if (process.env.NODE_ENV === "development") {
@@ -52,21 +171,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Role-based endpoints
-  app.get('/api/user/role', authMiddleware, async (req, res) => {
+  app.get('/api/user/role', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
+      const access = req.access;
       res.json({
-        role: 'EIER', // Single tenant - user is owner
-        canViewSensitive: true,
-        canDelete: true,
-        canInvite: true,
+        role: access.role,
+        customRoleName: access.customRoleName,
+        canViewSensitive: RoleBasedAccessControl.canViewSensitiveFields(access),
+        canDelete: RoleBasedAccessControl.can(access, "cars.delete"),
+        canInvite: RoleBasedAccessControl.can(access, "team.manage"),
+        permissions: access.permissions,
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user role" });
     }
   });
 
-  // Invite management endpoints (EIER only)
-  app.post('/api/invites', authMiddleware, async (req, res) => {
+  // Invite management endpoints (team.manage)
+  app.post('/api/invites', authMiddleware, requirePermission("team.manage"), async (req: any, res) => {
     try {
       const userId = req.auth?.id || '';
       const { email, role } = req.body;
@@ -75,12 +197,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Email and role are required" });
       }
       
-      if (!['EIER', 'SELGER', 'REGNSKAP', 'VERKSTED'].includes(role)) {
+      if (!isRole(role)) {
         return res.status(400).json({ message: "Invalid role" });
       }
       
       const storage = await storagePromise;
-      const invite = await storage.createInvite('default-company', email, role, userId);
+      const invite = await storage.createInvite(req.companyId, email, role, userId);
       
       res.json({
         message: "Invitation sent successfully",
@@ -92,11 +214,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/invites', authMiddleware, async (req, res) => {
+  app.get('/api/invites', authMiddleware, requirePermission("team.manage"), async (req: any, res) => {
     try {
       const userId = req.auth?.id || '';
       const storage = await storagePromise;
-      const invites = await storage.getCompanyInvites('default-company', userId);
+      const invites = await storage.getCompanyInvites(req.companyId, userId);
       
       res.json(invites);
     } catch (error) {
@@ -131,7 +253,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard stats
-  app.get('/api/dashboard/stats', authMiddleware, async (req: any, res) => {
+  app.get('/api/dashboard/stats', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
@@ -178,7 +300,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const storage = await storagePromise;
       const savedView = await storage.createSavedView({
         userId,
-        companyId: 'default-company', // For now, use default company
         page,
         name,
         payload
@@ -235,7 +356,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Advanced dashboard analytics
-  app.get('/api/dashboard/analytics/:timeRange', authMiddleware, async (req: any, res) => {
+  app.get('/api/dashboard/analytics/:timeRange', authMiddleware, requirePermission("finance.view"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const timeRange = req.params.timeRange || '30';
@@ -251,7 +372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Recent activities endpoint - return empty array since activities feature is removed
-  app.get('/api/dashboard/activities', authMiddleware, async (req: any, res) => {
+  app.get('/api/dashboard/activities', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     res.json([]);
   });
 
@@ -260,7 +381,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Seed dummy data endpoint
-  app.post('/api/seed-dummy-data', authMiddleware, async (req: any, res) => {
+  app.post('/api/seed-dummy-data', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
     try {
       const { createSimpleTestData } = await import('./simple-seed');
       const result = await createSimpleTestData();
@@ -280,19 +401,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Car routes
-  app.get('/api/cars', authMiddleware, async (req: any, res) => {
+  app.get('/api/cars', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
       const cars = await storage.getCars(userId);
-      res.json(cars);
+      res.json(cars.map(car => RoleBasedAccessControl.maskSensitiveCarFields(car, req.access)));
     } catch (error) {
       console.error("Error fetching cars:", error);
       res.status(500).json({ message: "Failed to fetch cars" });
     }
   });
 
-  app.get('/api/cars/:id', authMiddleware, async (req: any, res) => {
+  app.get('/api/cars/:id', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
@@ -300,14 +421,243 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!car) {
         return res.status(404).json({ message: "Car not found" });
       }
-      res.json(car);
+      res.json(RoleBasedAccessControl.maskSensitiveCarFields(car, req.access));
     } catch (error) {
       console.error("Error fetching car:", error);
       res.status(500).json({ message: "Failed to fetch car" });
     }
   });
 
-  app.post('/api/cars', authMiddleware, async (req: any, res) => {
+  // Contract the car came in on as a trade-in, if any
+  app.get('/api/cars/:id/trade-in-contract', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const contract = await storage.getTradeInContractForCar(req.params.id, userId);
+      if (!contract) {
+        return res.json(null);
+      }
+      const customer = await storage.getCustomerById(contract.customerId, userId);
+      res.json({
+        id: contract.id,
+        contractNumber: contract.contractNumber,
+        saleDate: contract.saleDate,
+        customerName: customer?.name ?? null,
+      });
+    } catch (error) {
+      console.error("Error fetching trade-in contract:", error);
+      res.status(500).json({ message: "Failed to fetch trade-in contract" });
+    }
+  });
+
+  // Suggested list price from market comparables, the quantile model and the aging rules
+  app.get('/api/cars/:id/price-recommendation', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const recommendation = await recommendPrice(req.params.id, userId);
+      res.json(RoleBasedAccessControl.maskSensitivePricingFields(recommendation, req.access));
+    } catch (error: any) {
+      if (error.message === "Car not found") {
+        return res.status(404).json({ message: "Car not found" });
+      }
+      console.error("Error recommending price:", error);
+      res.status(500).json({ message: "Failed to recommend price" });
+    }
+  });
+
+  // Who changed the car's prices, when and why. Cost entries need finance.view.
+  app.get('/api/cars/:id/price-history', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const history = await storage.getCarPriceHistory(req.params.id, userId);
+      const canViewCost = RoleBasedAccessControl.canViewSensitiveFields(req.access);
+      res.json(canViewCost ? history : history.filter(entry => entry.field === "sale_price"));
+    } catch (error) {
+      console.error("Error fetching price history:", error);
+      res.status(500).json({ message: "Failed to fetch price history" });
+    }
+  });
+
+  // Price drops proposed by the aging job
+  app.get('/api/cars/:id/price-suggestions', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const suggestions = await storage.getCarPriceSuggestions(req.params.id, userId);
+      res.json(suggestions.map(suggestion => RoleBasedAccessControl.maskPriceSuggestion(suggestion, req.access)));
+    } catch (error) {
+      console.error("Error fetching price suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch price suggestions" });
+    }
+  });
+
+  app.post('/api/price-suggestions/:id/apply', authMiddleware, requirePermission("cars.price"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const suggestion = await storage.applyPriceSuggestion(req.params.id, userId);
+      res.json(RoleBasedAccessControl.maskPriceSuggestion(suggestion, req.access));
+    } catch (error: any) {
+      if (error.message === 'Suggestion not found or not authorized') {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      if (error.message === 'Suggestion is no longer pending' || error.message === 'Car is no longer available') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error applying price suggestion:", error);
+      res.status(500).json({ message: "Failed to apply price suggestion" });
+    }
+  });
+
+  app.post('/api/price-suggestions/:id/dismiss', authMiddleware, requirePermission("cars.price"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const suggestion = await storage.dismissPriceSuggestion(req.params.id, userId);
+      res.json(RoleBasedAccessControl.maskPriceSuggestion(suggestion, req.access));
+    } catch (error: any) {
+      if (error.message === 'Suggestion not found or not authorized') {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      console.error("Error dismissing price suggestion:", error);
+      res.status(500).json({ message: "Failed to dismiss price suggestion" });
+    }
+  });
+
+  // Reconditioning work orders. The board shows open tasks plus recently finished ones.
+  app.get('/api/recon/tasks', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const tasks = await storage.getReconTasks(userId, {
+        assignedTo: req.query.assignedTo === "me" ? userId : undefined,
+        doneSince: new Date(Date.now() - RECON_BOARD_DONE_DAYS * 24 * 60 * 60 * 1000),
+      });
+      res.json(tasks.map(task => RoleBasedAccessControl.maskSensitiveReconFields(task, req.access)));
+    } catch (error) {
+      console.error("Error fetching recon tasks:", error);
+      res.status(500).json({ message: "Failed to fetch recon tasks" });
+    }
+  });
+
+  app.get('/api/cars/:id/recon-tasks', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const tasks = await storage.getReconTasks(userId, { carId: req.params.id });
+      res.json(tasks.map(task => RoleBasedAccessControl.maskSensitiveReconFields(task, req.access)));
+    } catch (error) {
+      console.error("Error fetching recon tasks:", error);
+      res.status(500).json({ message: "Failed to fetch recon tasks" });
+    }
+  });
+
+  app.post('/api/cars/:id/recon-tasks', authMiddleware, requirePermission("recon.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const taskData = insertReconTaskSchema.parse(req.body);
+      const storage = await storagePromise;
+      const task = await storage.createReconTask(req.params.id, taskData, userId);
+      res.status(201).json(task);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
+      }
+      if (error.message === 'Assignee is not a member of the company') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (RECON_CONFLICT_ERRORS.includes(error.message)) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating recon task:", error);
+      res.status(500).json({ message: "Failed to create recon task" });
+    }
+  });
+
+  // The workshop moves tasks along; changing what a task is needs recon.manage
+  app.patch('/api/recon/tasks/:id', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = updateReconTaskSchema.parse(req.body);
+      const statusOnly = Object.keys(updates).every(key => key === "status");
+      const allowed = RoleBasedAccessControl.can(req.access, "recon.manage") ||
+        (statusOnly && RoleBasedAccessControl.can(req.access, "recon.work"));
+      if (!allowed) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const storage = await storagePromise;
+      const task = await storage.updateReconTask(req.params.id, updates, userId);
+      res.json(task);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Recon task not found or not authorized') {
+        return res.status(404).json({ message: "Recon task not found" });
+      }
+      if (error.message === 'Assignee is not a member of the company') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating recon task:", error);
+      res.status(500).json({ message: "Failed to update recon task" });
+    }
+  });
+
+  app.delete('/api/recon/tasks/:id', authMiddleware, requirePermission("recon.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const deleted = await storage.deleteReconTask(req.params.id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Recon task not found" });
+      }
+      res.json({ message: "Recon task deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting recon task:", error);
+      res.status(500).json({ message: "Failed to delete recon task" });
+    }
+  });
+
+  app.post('/api/recon/tasks/:id/lines', authMiddleware, requirePermission("recon.work"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const lineData = insertReconTaskLineSchema.parse(req.body);
+      const storage = await storagePromise;
+      const line = await storage.addReconTaskLine(req.params.id, lineData, userId);
+      res.status(201).json(line);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Recon task not found or not authorized') {
+        return res.status(404).json({ message: "Recon task not found" });
+      }
+      console.error("Error adding recon line:", error);
+      res.status(500).json({ message: "Failed to add recon line" });
+    }
+  });
+
+  app.delete('/api/recon/lines/:id', authMiddleware, requirePermission("recon.work"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const deleted = await storage.deleteReconTaskLine(req.params.id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Recon line not found" });
+      }
+      res.json({ message: "Recon line deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting recon line:", error);
+      res.status(500).json({ message: "Failed to delete recon line" });
+    }
+  });
+
+  app.post('/api/cars', authMiddleware, requirePermission("cars.create"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const carData = insertCarSchema.parse(req.body);
@@ -317,7 +667,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const car = await storage.createCar(carData, userId);
       
       // Respond immediately
-      res.status(201).json(car);
+      res.status(201).json(RoleBasedAccessControl.maskSensitiveCarFields(car, req.access));
       
       // Log activity asynchronously after response (fire and forget)
       setImmediate(() => {
@@ -334,12 +684,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
       
-      // Handle duplicate registration number
-      if (error.code === '23505' && error.constraint === 'cars_registration_number_unique') {
-        return res.status(409).json({ 
-          message: "En bil med dette registreringsnummeret eksisterer allerede",
-          code: "DUPLICATE_REGISTRATION"
-        });
+      if (isDuplicateRegistration(error)) {
+        return res.status(409).json(DUPLICATE_REGISTRATION);
       }
       
       console.error("Error creating car:", error);
@@ -348,7 +694,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mark car as sold route
-  app.put('/api/cars/:id/sold', authMiddleware, async (req: any, res) => {
+  app.put('/api/cars/:id/sold', authMiddleware, requirePermission("cars.update"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
@@ -371,19 +717,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Failed to log car sold activity:", error);
       });
       
-      res.json(car);
-    } catch (error) {
+      res.json(RoleBasedAccessControl.maskSensitiveCarFields(car, req.access));
+    } catch (error: any) {
+      if (error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
+      }
       console.error("Error marking car as sold:", error);
       res.status(500).json({ message: "Failed to mark car as sold" });
     }
   });
 
-  app.put('/api/cars/:id', authMiddleware, async (req: any, res) => {
+  app.put('/api/cars/:id', authMiddleware, requirePermission("cars.update"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const carData = insertCarSchema.partial().parse(req.body);
+      const carData = RoleBasedAccessControl.maskSensitiveCarFields(insertCarSchema.partial().parse(req.body), req.access);
       const storage = await storagePromise;
-      const car = await storage.updateCar(req.params.id, carData, userId);
+      if (carData.salePrice !== undefined && !RoleBasedAccessControl.can(req.access, "cars.price")) {
+        const current = await storage.getCarById(req.params.id, userId);
+        if (current && Number(current.salePrice) !== Number(carData.salePrice)) {
+          return res.status(403).json({ message: "Insufficient permissions to change the price" });
+        }
+      }
+      const reason = priceChangeReasonSchema.parse(req.body.priceChangeReason);
+      const car = await storage.updateCar(req.params.id, carData, userId, reason);
       
       // Log car update activity asynchronously (don't await)
       ActivityLogger.logCarUpdated(userId, car.id, {
@@ -394,18 +750,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Failed to log car update activity:", error);
       });
       
-      res.json(car);
+      res.json(RoleBasedAccessControl.maskSensitiveCarFields(car, req.access));
     } catch (error) {
       if (error instanceof z.ZodError) {
         console.error("Car validation errors:", error.errors);
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof Error && error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
+      }
+      if (error instanceof Error && RECON_CONFLICT_ERRORS.includes(error.message)) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (isDuplicateRegistration(error)) {
+        return res.status(409).json(DUPLICATE_REGISTRATION);
+      }
       console.error("Error updating car:", error);
       res.status(500).json({ message: "Failed to update car" });
     }
   });
 
-  app.delete('/api/cars/:id', authMiddleware, async (req: any, res) => {
+  app.delete('/api/cars/:id', authMiddleware, requirePermission("cars.delete"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
@@ -421,7 +786,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mark car as sold
-  app.put('/api/cars/:id/sell', authMiddleware, async (req: any, res) => {
+  app.put('/api/cars/:id/sell', authMiddleware, requirePermission("cars.update"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { soldPrice, customerId } = req.body;
@@ -449,18 +814,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Car not found" });
       }
       
-      res.json(updatedCar);
-    } catch (error) {
+      res.json(RoleBasedAccessControl.maskSensitiveCarFields(updatedCar, req.access));
+    } catch (error: any) {
+      if (error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
+      }
       console.error("Error marking car as sold:", error);
       res.status(500).json({ message: "Failed to mark car as sold" });
     }
   });
 
   // SVV Lookup route with caching
-  app.post('/api/svv/lookup', authMiddleware, svvLookup);
+  app.post('/api/svv/lookup', authMiddleware, requirePermission("cars.create"), svvLookup);
 
   // Vehicle lookup API endpoint
-  app.get('/api/vehicle-lookup/:regNumber', authMiddleware, async (req: any, res) => {
+  app.get('/api/vehicle-lookup/:regNumber', authMiddleware, requirePermission("cars.create"), async (req: any, res) => {
     try {
       const { regNumber } = req.params;
       
@@ -650,7 +1018,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customer routes
-  app.get('/api/customers', authMiddleware, async (req: any, res) => {
+  app.get('/api/customers', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
@@ -662,7 +1030,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/customers/:id', authMiddleware, async (req: any, res) => {
+  app.get('/api/customers/:id', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
@@ -677,7 +1045,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/customers', authMiddleware, async (req: any, res) => {
+  app.post('/api/customers', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const customerData = insertCustomerSchema.parse(req.body);
@@ -693,7 +1061,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/customers/:id', authMiddleware, async (req: any, res) => {
+  app.put('/api/customers/:id', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const customerData = insertCustomerSchema.partial().parse(req.body);
@@ -704,12 +1072,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof Error && error.message === 'Customer not found or not authorized') {
+        return res.status(404).json({ message: "Customer not found" });
+      }
       console.error("Error updating customer:", error);
       res.status(500).json({ message: "Failed to update customer" });
     }
   });
 
-  app.delete('/api/customers/:id', authMiddleware, async (req: any, res) => {
+  app.delete('/api/customers/:id', authMiddleware, requirePermission("customers.delete"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
@@ -724,203 +1095,1066 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Contract routes
-  app.get('/api/contracts', authMiddleware, async (req: any, res) => {
+  // Data subject requests: a machine-readable export, erasure, and the audit trail of both
+  app.post('/api/customers/:id/privacy/export', authMiddleware, requirePermission("customers.privacy"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const storage = await storagePromise;
-      const contracts = await storage.getContracts(userId);
-      res.json(contracts);
-    } catch (error) {
-      console.error("Error fetching contracts:", error);
-      res.status(500).json({ message: "Failed to fetch contracts" });
+      const bundle = await exportCustomerData(req.params.id, req.companyId, userId);
+      res.setHeader('Content-Disposition', `attachment; filename="kundedata-${req.params.id}.json"`);
+      res.json(bundle);
+    } catch (error: any) {
+      if (error.message === 'Customer not found or not authorized') {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      console.error("Error exporting customer data:", error);
+      res.status(500).json({ message: "Failed to export customer data" });
     }
   });
 
-  app.get('/api/contracts/:id', authMiddleware, async (req: any, res) => {
+  const eraseCustomerSchema = z.object({
+    reason: z.string().trim().max(500).nullish(),
+  });
+
+  app.post('/api/customers/:id/privacy/erase', authMiddleware, requirePermission("customers.privacy"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const { reason } = eraseCustomerSchema.parse(req.body);
       const storage = await storagePromise;
-      const contract = await storage.getContractById(req.params.id, userId);
-      if (!contract) {
-        return res.status(404).json({ message: "Contract not found" });
+      const request = await storage.eraseCustomer(req.params.id, req.companyId, userId, reason || null);
+      res.json(request);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Customer not found or not authorized') {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (error.message === 'Customer is already erased') {
+        return res.status(409).json({ message: error.message });
       }
-      res.json(contract);
+      console.error("Error erasing customer:", error);
+      res.status(500).json({ message: "Failed to erase customer" });
+    }
+  });
+
+  app.get('/api/customers/:id/privacy/requests', authMiddleware, requirePermission("customers.privacy"), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const requests = await storage.getPrivacyRequests(req.companyId, req.params.id);
+      res.json(requests);
     } catch (error) {
-      console.error("Error fetching contract:", error);
-      res.status(500).json({ message: "Failed to fetch contract" });
+      console.error("Error fetching privacy requests:", error);
+      res.status(500).json({ message: "Failed to fetch privacy requests" });
     }
   });
 
-  app.post('/api/contracts', authMiddleware, async (req: any, res) => {
+  app.get('/api/privacy/requests', authMiddleware, requirePermission("customers.privacy"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      console.log("Creating contract with data:", JSON.stringify(req.body, null, 2));
-      const contractData = insertContractSchema.parse(req.body);
       const storage = await storagePromise;
-      const contract = await storage.createContract(contractData, userId);
-      
-      // Mark car as sold
-      await storage.updateCar(contractData.carId, { 
-        status: "sold",
-        soldDate: contractData.saleDate,
-        soldPrice: contractData.salePrice,
-        soldToCustomerId: contractData.customerId
-      }, userId);
+      const requests = await storage.getPrivacyRequests(req.companyId);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching privacy requests:", error);
+      res.status(500).json({ message: "Failed to fetch privacy requests" });
+    }
+  });
 
-      // If this is a trade-in contract, create the trade-in car record
-      if (contractData.contractTemplate === "innbytte" && (contractData as any).tradeInValuation) {
-        const tradeInCar = {
-          registrationNumber: `INNBYTTE-${Date.now()}`, // Temporary reg number
-          make: "Innbytte",
-          model: "Ukjent",
-          year: new Date().getFullYear(),
-          mileage: 0,
-          power: "",
-          co2Emissions: null,
-          lastEuControl: null,
-          nextEuControl: null,
-          fuelType: "Ukjent",
-          transmission: "Ukjent",
-          color: "Ukjent",
-          chassisNumber: "",
-          costPrice: (contractData as any).tradeInNet || "0",
-          salePrice: (contractData as any).tradeInValuation || "0",
-          recondCost: (contractData as any).tradeInReconCost || "0",
-          status: "innkommende",
-          notes: `Innbytte fra kontrakt ${contract.contractNumber}`,
-          images: [],
-          euControl: false,
-        };
-        
-        const tradeInCarRecord = await storage.createCar(tradeInCar, userId);
-        
-        // Update contract with trade-in car reference (this will be skipped for now due to schema issues)
-        // await storage.updateContract(contract.id, {
-        //   tradeInCarId: tradeInCarRecord.id,
-        // }, userId);
-      }
-      
-      // Log contract creation activity
-      try {
-        const customer = await storage.getCustomerById(contract.customerId, userId);
-        const car = await storage.getCarById(contract.carId, userId);
-        
-        await ActivityLogger.logContractCreated(userId, contract.id, {
-          contractNumber: contract.contractNumber,
-          customerName: customer?.name || "Ukjent kunde",
-          carDetails: car ? `${car.make} ${car.model} (${car.year})` : "Ukjent bil"
-        });
-      } catch (error) {
-        console.error("Failed to log contract creation activity:", error);
-      }
-      
-      res.status(201).json(contract);
+  // Lead pipeline
+  app.get('/api/leads', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const leads = await storage.getLeads(userId, {
+        ownerId: req.query.owner === "me" ? userId : undefined,
+      });
+      res.json(leads.map(lead => ({
+        ...lead,
+        cars: lead.cars.map(car => RoleBasedAccessControl.maskSensitiveCarFields(car, req.access)),
+      })));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        console.error("Contract validation errors:", error.errors);
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
-      console.error("Error creating contract:", error);
-      res.status(500).json({ message: "Failed to create contract" });
+      console.error("Error fetching leads:", error);
+      res.status(500).json({ message: "Failed to fetch leads" });
     }
   });
 
-  app.put('/api/contracts/:id', authMiddleware, async (req: any, res) => {
+  // Registered before /api/leads/:id so "stats" is not taken for an ID
+  app.get('/api/leads/stats', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const contractData = insertContractSchema.partial().parse(req.body);
+      const range = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      }).parse(req.query);
       const storage = await storagePromise;
-      const contract = await storage.updateContract(req.params.id, contractData, userId);
-      res.json(contract);
+      const stats = await storage.getLeadConversionStats(userId, range);
+      res.json(stats);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error updating contract:", error);
-      res.status(500).json({ message: "Failed to update contract" });
+      console.error("Error fetching lead stats:", error);
+      res.status(500).json({ message: "Failed to fetch lead stats" });
     }
   });
 
-  app.delete('/api/contracts/:id', authMiddleware, async (req: any, res) => {
+  app.get('/api/leads/:id', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
-      const success = await storage.deleteContract(req.params.id, userId);
-      if (!success) {
-        return res.status(404).json({ message: "Contract not found" });
+      const lead = await storage.getLeadById(req.params.id, userId);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
       }
-      res.status(204).send();
-    } catch (error: any) {
-      console.error("Error deleting contract:", error);
-      res.status(500).json({ message: "Failed to delete contract" });
+      res.json(lead);
+    } catch (error) {
+      console.error("Error fetching lead:", error);
+      res.status(500).json({ message: "Failed to fetch lead" });
     }
   });
 
-  // Generate PDF for contract
-  app.get('/api/contracts/:id/pdf', authMiddleware, async (req: any, res) => {
+  app.post('/api/leads', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const leadData = insertLeadSchema.parse(req.body);
       const storage = await storagePromise;
-      
-      // Get contract with related data
-      const contract = await storage.getContractById(req.params.id, userId);
-      if (!contract) {
-        return res.status(404).json({ message: "Contract not found" });
+      const lead = await storage.createLead(leadData, userId);
+      res.status(201).json(lead);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-
-      const car = await storage.getCarById(contract.carId, userId);
-      const customer = await storage.getCustomerById(contract.customerId, userId);
-
-      if (!car || !customer) {
-        return res.status(404).json({ message: "Related data not found" });
+      if (error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
       }
-
-      // Generate HTML content for viewing/printing
-      const htmlContent = generateContractHTML(contract, car, customer);
-
-      // Set headers for HTML viewing
-      res.setHeader('Content-Type', 'text/html; charset=utf-8');
-      res.send(htmlContent);
-
-    } catch (error) {
-      console.error("Error generating PDF:", error);
-      res.status(500).json({ message: "Failed to generate PDF" });
+      if (LEAD_INVALID_ERRORS.includes(error.message)) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating lead:", error);
+      res.status(500).json({ message: "Failed to create lead" });
     }
   });
 
-  // E-sign endpoints
-  app.post('/api/contracts/:id/send-for-esign', authMiddleware, async (req: any, res) => {
+  app.patch('/api/leads/:id', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const updates = updateLeadSchema.parse(req.body);
       const storage = await storagePromise;
-      const contract = await storage.getContractById(req.params.id, userId);
-      
-      if (!contract) {
-        return res.status(404).json({ message: "Contract not found" });
+      const lead = await storage.updateLead(req.params.id, updates, userId);
+      res.json(lead);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error.message === 'Lead not found or not authorized') {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      if (error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
+      }
+      if (LEAD_INVALID_ERRORS.includes(error.message)) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (LEAD_CONFLICT_ERRORS.includes(error.message)) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating lead:", error);
+      res.status(500).json({ message: "Failed to update lead" });
+    }
+  });
 
-      // Mock e-sign sending (2 second delay)
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Update contract with sent status (skip eSignSentAt for now due to schema issues)
-      await storage.updateContract(req.params.id, {
-        eSignStatus: 'sendt',
-      }, userId);
-
-      res.json({ success: true, message: "Contract sent for e-signing" });
+  app.delete('/api/leads/:id', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const deleted = await storage.deleteLead(req.params.id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      res.json({ message: "Lead deleted successfully" });
     } catch (error) {
-      console.error("Error sending for e-sign:", error);
-      res.status(500).json({ message: "Failed to send for e-signing" });
+      console.error("Error deleting lead:", error);
+      res.status(500).json({ message: "Failed to delete lead" });
     }
   });
 
-  // Finn.no scraping endpoint
-  app.post('/api/cars/import-from-finn', authMiddleware, async (req: any, res) => {
+  // A draft contract on conversion follows the same rules as the contract form
+  app.post('/api/leads/:id/convert', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
     try {
-      const { url, regNumber } = req.body;
-      
-      if (!url || typeof url !== 'string') {
+      const userId = req.user.claims.sub;
+      const conversion = leadConversionSchema.parse(req.body);
+      if (conversion.contract) {
+        if (!RoleBasedAccessControl.can(req.access, "contracts.create")) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        if (!RoleBasedAccessControl.can(req.access, "contracts.discount")
+          && await isBelowListedPrice(conversion.contract.carId, conversion.contract.salePrice, userId)) {
+          return res.status(403).json({ message: "Insufficient permissions to approve a discount" });
+        }
+      }
+
+      const storage = await storagePromise;
+      const result = await storage.convertLead(req.params.id, conversion, userId);
+      res.json({
+        ...result,
+        contract: result.contract && RoleBasedAccessControl.maskSensitiveContractFields(result.contract, req.access),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Lead not found or not authorized') {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      if (error.message === 'Customer not found or not authorized') {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
+      }
+      if (LEAD_CONFLICT_ERRORS.includes(error.message)) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error converting lead:", error);
+      res.status(500).json({ message: "Failed to convert lead" });
+    }
+  });
+
+  // Contract routes
+  app.get('/api/contracts', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const contracts = await storage.getContracts(userId);
+      res.json(contracts.map(contract => RoleBasedAccessControl.maskSensitiveContractFields(contract, req.access)));
+    } catch (error) {
+      console.error("Error fetching contracts:", error);
+      res.status(500).json({ message: "Failed to fetch contracts" });
+    }
+  });
+
+  app.get('/api/contracts/:id', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const contract = await storage.getContractById(req.params.id, userId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      res.json(RoleBasedAccessControl.maskSensitiveContractFields(contract, req.access));
+    } catch (error) {
+      console.error("Error fetching contract:", error);
+      res.status(500).json({ message: "Failed to fetch contract" });
+    }
+  });
+
+  app.post('/api/contracts', authMiddleware, requirePermission("contracts.create"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      console.log("Creating contract with data:", JSON.stringify(req.body, null, 2));
+      const contractData = {
+        ...contractTermsSchema.parse(req.body),
+        status: "draft",
+        eSignStatus: "ikke_sendt" as const,
+      };
+      if (contractData.contractTemplate === "innbytte" && !contractData.tradeInRegistration) {
+        return res.status(400).json({ message: "Trade-in registration number is required" });
+      }
+      if (!RoleBasedAccessControl.can(req.access, "contracts.discount")
+        && await isBelowListedPrice(contractData.carId, contractData.salePrice, userId)) {
+        return res.status(403).json({ message: "Insufficient permissions to approve a discount" });
+      }
+      const tradeInCar = contractData.tradeInRegistration
+        ? await buildTradeInCar(contractData, userId)
+        : undefined;
+      const storage = await storagePromise;
+      const contract = await storage.createContractWithSale(contractData, userId, tradeInCar);
+      
+      res.status(201).json(RoleBasedAccessControl.maskSensitiveContractFields(contract, req.access));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        console.error("Contract validation errors:", error.errors);
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
+      }
+      if (error.message === 'Customer not found or not authorized') {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (CONTRACT_CAR_CONFLICT_ERRORS.includes(error.message)) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (isDuplicateRegistration(error)) {
+        return res.status(409).json(DUPLICATE_REGISTRATION);
+      }
+      if (error.code === '23505') {
+        return res.status(409).json({ message: "Contract number already exists" });
+      }
+      console.error("Error creating contract:", error);
+      res.status(500).json({ message: "Failed to create contract" });
+    }
+  });
+
+  app.put('/api/contracts/:id', authMiddleware, requirePermission("contracts.update"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const contractData = RoleBasedAccessControl.maskSensitiveContractFields(contractTermsSchema.partial().parse(req.body), req.access);
+      const storage = await storagePromise;
+      if (contractData.salePrice !== undefined && !RoleBasedAccessControl.can(req.access, "contracts.discount")) {
+        const existing = await storage.getContractById(req.params.id, userId);
+        if (await isBelowListedPrice(contractData.carId ?? existing?.carId, contractData.salePrice, userId)) {
+          return res.status(403).json({ message: "Insufficient permissions to approve a discount" });
+        }
+      }
+      const contract = await storage.updateContract(req.params.id, contractData, userId);
+      res.json(RoleBasedAccessControl.maskSensitiveContractFields(contract, req.access));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Contract not found or not authorized') {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (error.message === 'Car not found or not authorized') {
+        return res.status(404).json({ message: "Car not found" });
+      }
+      if (error.message === 'Customer not found or not authorized') {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (error.message === 'Contract is locked') {
+        return res.status(409).json({ message: "Signed contracts cannot be changed" });
+      }
+      if (CONTRACT_CAR_CONFLICT_ERRORS.includes(error.message)) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating contract:", error);
+      res.status(500).json({ message: "Failed to update contract" });
+    }
+  });
+
+  // Voids the contract; numbered contracts are never removed
+  app.delete('/api/contracts/:id', authMiddleware, requirePermission("contracts.delete"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const contract = await voidContract(req.params.id, userId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.message === 'Contract is locked') {
+        return res.status(409).json({ message: "Signed contracts cannot be deleted" });
+      }
+      console.error("Error deleting contract:", error);
+      res.status(500).json({ message: "Failed to delete contract" });
+    }
+  });
+
+  app.get('/api/contracts/:id/transitions', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const contract = await storage.getContractById(req.params.id, userId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      res.json(await storage.getContractTransitions(contract.id, userId));
+    } catch (error) {
+      console.error("Error fetching contract transitions:", error);
+      res.status(500).json({ message: "Failed to fetch contract transitions" });
+    }
+  });
+
+  app.post('/api/contracts/:id/transitions', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { to, reason } = contractTransitionSchema.parse(req.body);
+      const contract = await changeContractStatus(req.params.id, to, userId, reason);
+      res.json(RoleBasedAccessControl.maskSensitiveContractFields(contract, req.access));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === "Contract not found" || error.message === 'Contract not found or not authorized') {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (error.message === "Insufficient permissions") {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error.message === "Invalid contract status transition") {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error changing contract status:", error);
+      res.status(500).json({ message: "Failed to change contract status" });
+    }
+  });
+
+  // Amendments (tillegg) and credit notes to signed contracts
+  app.get('/api/contracts/:id/amendments', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      res.json(await storage.getContractAmendments(req.params.id, userId));
+    } catch (error) {
+      console.error("Error fetching contract amendments:", error);
+      res.status(500).json({ message: "Failed to fetch contract amendments" });
+    }
+  });
+
+  app.post('/api/contracts/:id/amendments', authMiddleware, requirePermission("contracts.update"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const amendmentData = insertContractAmendmentSchema.parse(req.body);
+      if (Number(amendmentData.priceAdjustment) < 0 && !RoleBasedAccessControl.can(req.access, "contracts.discount")) {
+        return res.status(403).json({ message: "Insufficient permissions to approve a discount" });
+      }
+      const storage = await storagePromise;
+      const amendment = await storage.createContractAmendment(req.params.id, amendmentData, userId);
+      res.status(201).json(amendment);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Contract not found or not authorized') {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (error.message === 'Credit notes must reduce the price') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message === 'Contract is not signed') {
+        return res.status(409).json({ message: "Only signed contracts can be amended" });
+      }
+      console.error("Error creating contract amendment:", error);
+      res.status(500).json({ message: "Failed to create contract amendment" });
+    }
+  });
+
+  app.put('/api/contract-amendments/:id', authMiddleware, requirePermission("contracts.update"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const amendmentData = insertContractAmendmentSchema.partial().parse(req.body);
+      if (Number(amendmentData.priceAdjustment ?? 0) < 0 && !RoleBasedAccessControl.can(req.access, "contracts.discount")) {
+        return res.status(403).json({ message: "Insufficient permissions to approve a discount" });
+      }
+      const storage = await storagePromise;
+      res.json(await storage.updateContractAmendment(req.params.id, amendmentData, userId));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Amendment not found or not authorized') {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+      if (error.message === 'Credit notes must reduce the price') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message === 'Amendment is locked') {
+        return res.status(409).json({ message: "Amendments sent for signing cannot be changed" });
+      }
+      console.error("Error updating contract amendment:", error);
+      res.status(500).json({ message: "Failed to update contract amendment" });
+    }
+  });
+
+  app.delete('/api/contract-amendments/:id', authMiddleware, requirePermission("contracts.update"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const success = await storage.deleteContractAmendment(req.params.id, userId);
+      if (!success) {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.message === 'Amendment is locked') {
+        return res.status(409).json({ message: "Signed amendments cannot be deleted" });
+      }
+      console.error("Error deleting contract amendment:", error);
+      res.status(500).json({ message: "Failed to delete contract amendment" });
+    }
+  });
+
+  app.post('/api/contract-amendments/:id/transitions', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { to } = amendmentTransitionSchema.parse(req.body);
+      res.json(await changeAmendmentStatus(req.params.id, to, userId));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === "Amendment not found" || error.message === 'Amendment not found or not authorized') {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+      if (error.message === "Insufficient permissions") {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error.message === "Invalid amendment status transition") {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error changing amendment status:", error);
+      res.status(500).json({ message: "Failed to change amendment status" });
+    }
+  });
+
+  app.post('/api/contract-amendments/:id/send-for-esign', authMiddleware, requirePermission("contracts.sign"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { provider, signerName, signerEmail, signerPhone, signingMethod } = req.body || {};
+
+      if (provider && !isSigningProviderAvailable(provider)) {
+        return res.status(400).json({ message: "Unknown signing provider" });
+      }
+
+      const amendment = await sendAmendmentForSigning(req.params.id, userId, {
+        provider,
+        signer: {
+          name: signerName,
+          email: signerEmail,
+          phone: signerPhone,
+          method: signingMethod,
+        },
+      });
+      res.json(amendment);
+    } catch (error: any) {
+      if (error.message === "Amendment not found" || error.message === "Contract not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "Invalid amendment status transition") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message === "Signing provider is not configured") {
+        return res.status(503).json({ message: error.message });
+      }
+      console.error("Error sending amendment for e-sign:", error);
+      res.status(500).json({ message: "Failed to send for e-signing" });
+    }
+  });
+
+  app.get('/api/contract-amendments/:id/esign-status', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await refreshAmendmentSigningStatus(req.params.id, userId));
+    } catch (error: any) {
+      if (error.message === "Amendment not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error refreshing amendment e-sign status:", error);
+      res.status(500).json({ message: "Failed to refresh e-sign status" });
+    }
+  });
+
+  app.get('/api/contract-amendments/:id/:format(pdf|html)', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const amendment = await storage.getContractAmendmentById(req.params.id, userId);
+      const contract = amendment && await storage.getContractById(amendment.contractId, userId);
+      if (!amendment || !contract) {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+
+      if (req.params.format === 'html') {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        return res.send(await renderAmendmentHtml(amendment, contract, userId));
+      }
+      const pdf = await renderAmendmentPdf(amendment, contract, userId);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="tillegg-${contract.contractNumber}-${amendment.amendmentNumber}.pdf"`);
+      res.setHeader('X-Contract-Checksum', pdf.checksum);
+      res.send(pdf.content);
+    } catch (error: any) {
+      if (error.message === "Related data not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error rendering contract amendment:", error);
+      res.status(500).json({ message: "Failed to render contract amendment" });
+    }
+  });
+
+  // Generate PDF for contract
+  app.get('/api/contracts/:id/pdf', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      
+      const contract = await storage.getContractById(req.params.id, userId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const pdf = await renderContractPdf(contract, userId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="kontrakt-${contract.contractNumber}.pdf"`);
+      res.setHeader('X-Contract-Checksum', pdf.checksum);
+      res.send(pdf.content);
+
+    } catch (error: any) {
+      if (error.message === "Related data not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error generating PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  app.get('/api/contracts/:id/html', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+
+      const contract = await storage.getContractById(req.params.id, userId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(await renderContractHtml(contract, userId));
+    } catch (error: any) {
+      if (error.message === "Related data not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error rendering contract:", error);
+      res.status(500).json({ message: "Failed to render contract" });
+    }
+  });
+
+  // E-sign endpoints
+  app.post('/api/contracts/:id/send-for-esign', authMiddleware, requirePermission("contracts.sign"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { provider, signerName, signerEmail, signerPhone, signingMethod } = req.body || {};
+
+      if (provider && !isSigningProviderAvailable(provider)) {
+        return res.status(400).json({ message: "Unknown signing provider" });
+      }
+
+      const contract = await sendContractForSigning(req.params.id, userId, {
+        provider,
+        signer: {
+          name: signerName,
+          email: signerEmail,
+          phone: signerPhone,
+          method: signingMethod,
+        },
+      });
+
+      res.json({ success: true, message: "Contract sent for e-signing", contract: RoleBasedAccessControl.maskSensitiveContractFields(contract, req.access) });
+    } catch (error: any) {
+      if (error.message === "Contract not found") {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (error.message === "Contract is already signed" || error.message === "Invalid contract status transition") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message === "Signing provider is not configured") {
+        return res.status(503).json({ message: error.message });
+      }
+      console.error("Error sending for e-sign:", error);
+      res.status(500).json({ message: "Failed to send for e-signing" });
+    }
+  });
+
+  app.get('/api/contracts/:id/esign-status', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const contract = await refreshSigningStatus(req.params.id, userId);
+      res.json({
+        signingProvider: contract.signingProvider,
+        signingStatus: contract.signingStatus,
+        signingUrl: contract.signingUrl,
+        eSignStatus: contract.eSignStatus,
+        signedAt: contract.signedAt,
+      });
+    } catch (error: any) {
+      if (error.message === "Contract not found") {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      console.error("Error refreshing e-sign status:", error);
+      res.status(500).json({ message: "Failed to refresh e-sign status" });
+    }
+  });
+
+  // Provider callbacks - authenticated by HMAC signature instead of session
+  app.post('/api/webhooks/esign/:provider', async (req: any, res) => {
+    const { provider } = req.params;
+    if (!isSigningProviderAvailable(provider)) {
+      return res.status(404).json({ message: "Unknown signing provider" });
+    }
+
+    try {
+      const result = await handleSigningWebhook(provider, req.rawBody, req.headers, req.body);
+      res.json({ received: true, duplicate: result.duplicate });
+    } catch (error: any) {
+      if (error.message === "Invalid webhook signature") {
+        return res.status(401).json({ message: error.message });
+      }
+      if (error.message?.startsWith("Malformed")) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error processing e-sign webhook:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  app.post('/api/webhooks/sms/:provider', async (req: any, res) => {
+    const { provider } = req.params;
+    if (!SMS_PROVIDERS.includes(provider)) {
+      return res.status(404).json({ message: "Unknown SMS provider" });
+    }
+
+    try {
+      const result = await handleInboundSms(provider as SmsProviderName, req.rawBody, req.headers, req.body);
+      res.json({ received: true, stored: result.stored, duplicate: result.duplicate });
+    } catch (error: any) {
+      if (error.message === "Invalid webhook signature") {
+        return res.status(401).json({ message: error.message });
+      }
+      if (error.message?.startsWith("Malformed")) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error processing SMS webhook:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  // Stored contract documents (signed PDFs)
+  app.get('/api/contracts/:id/files/:fileName', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const contract = await storage.getContractById(req.params.id, userId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const file = await readContractDocument(contract.id, req.params.fileName);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="${contract.contractNumber}-${req.params.fileName}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      if (error.message === "Invalid document path") {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error serving contract file:", error);
+      res.status(500).json({ message: "Failed to load file" });
+    }
+  });
+
+  // Local fake signing provider - the signer opens these without logging in
+  app.use('/api/esign/fake', (_req, res, next) => {
+    if (!isSigningProviderAvailable("fake")) {
+      return res.status(404).send("Ukjent signeringsdokument");
+    }
+    next();
+  });
+
+  app.get('/api/esign/fake/:documentId', (req, res) => {
+    const doc = getFakeSigningProvider().getDocument(req.params.documentId);
+    if (!doc) {
+      return res.status(404).send("Ukjent signeringsdokument");
+    }
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.send(`<!DOCTYPE html>
+<html lang="nb">
+<head><meta charset="UTF-8"><title>${doc.title}</title></head>
+<body style="font-family: sans-serif; max-width: 640px; margin: 40px auto;">
+  <h1>${doc.title}</h1>
+  <p>Signerer: <strong>${doc.signerName}</strong></p>
+  <p>Status: <strong>${doc.status}</strong></p>
+  <p><a href="/api/esign/fake/${doc.documentId}/document" target="_blank">Les dokumentet</a></p>
+  ${doc.status === 'pending' ? `
+  <form method="post" action="/api/esign/fake/${doc.documentId}/signed" style="display:inline">
+    <button type="submit">Signer</button>
+  </form>
+  <form method="post" action="/api/esign/fake/${doc.documentId}/rejected" style="display:inline">
+    <button type="submit">Avvis</button>
+  </form>` : ''}
+</body>
+</html>`);
+  });
+
+  app.get('/api/esign/fake/:documentId/document', (req, res) => {
+    const doc = getFakeSigningProvider().getDocument(req.params.documentId);
+    if (!doc) {
+      return res.status(404).send("Ukjent signeringsdokument");
+    }
+    res.setHeader('Content-Type', doc.mimeType);
+    res.send(doc.content);
+  });
+
+  app.post('/api/esign/fake/:documentId/:outcome', async (req, res) => {
+    const { documentId, outcome } = req.params;
+    if (outcome !== 'signed' && outcome !== 'rejected') {
+      return res.status(400).send("Ugyldig handling");
+    }
+
+    try {
+      const doc = await getFakeSigningProvider().complete(documentId, outcome);
+      if (doc.redirectUrl) {
+        return res.redirect(doc.redirectUrl);
+      }
+      res.redirect(`/api/esign/fake/${documentId}`);
+    } catch (error: any) {
+      res.status(409).send(error.message);
+    }
+  });
+
+  // Team members and company-defined roles
+  app.get('/api/team/members', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      res.json(await storage.getCompanyMembers(req.companyId));
+    } catch (error) {
+      console.error("Error fetching team members:", error);
+      res.status(500).json({ message: "Failed to fetch team members" });
+    }
+  });
+
+  app.put('/api/team/members/:userId/role', authMiddleware, requirePermission("team.manage"), async (req: any, res) => {
+    try {
+      const data = memberRoleSchema.parse(req.body);
+      const storage = await storagePromise;
+      // The built-in role applies again if the custom role is deleted, so both must be grantable
+      const customRole = data.customRoleId
+        ? await storage.getCompanyRoleById(data.customRoleId, req.companyId)
+        : undefined;
+      if (!RoleBasedAccessControl.canGrant(req.access, ROLE_PERMISSIONS[data.role])
+        || (customRole && !RoleBasedAccessControl.canGrant(req.access, customRole.permissions))) {
+        return res.status(403).json({ message: "Cannot grant permissions you do not have" });
+      }
+      const membership = await storage.updateMemberRole(req.params.userId, data, req.companyId);
+      res.json(membership);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Member not found or not authorized') {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (error.message === 'Role not found or not authorized') {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      if (error.message === 'Company must keep an owner') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating member role:", error);
+      res.status(500).json({ message: "Failed to update member role" });
+    }
+  });
+
+  app.delete('/api/team/members/:userId', authMiddleware, requirePermission("team.manage"), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const success = await storage.removeCompanyMember(req.params.userId, req.companyId);
+      if (!success) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.message === 'Company must keep an owner') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error removing team member:", error);
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+
+  app.get('/api/company-roles', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      res.json(await storage.getCompanyRoles(req.companyId));
+    } catch (error) {
+      console.error("Error fetching company roles:", error);
+      res.status(500).json({ message: "Failed to fetch company roles" });
+    }
+  });
+
+  app.post('/api/company-roles', authMiddleware, requirePermission("team.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = insertCompanyRoleSchema.parse(req.body);
+      if (!RoleBasedAccessControl.canGrant(req.access, data.permissions)) {
+        return res.status(403).json({ message: "Cannot grant permissions you do not have" });
+      }
+      const storage = await storagePromise;
+      const role = await storage.createCompanyRole(data, req.companyId, userId);
+      res.status(201).json(role);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.code === '23505') {
+        return res.status(409).json({ message: "A role with this name already exists" });
+      }
+      console.error("Error creating company role:", error);
+      res.status(500).json({ message: "Failed to create company role" });
+    }
+  });
+
+  app.put('/api/company-roles/:id', authMiddleware, requirePermission("team.manage"), async (req: any, res) => {
+    try {
+      const data = insertCompanyRoleSchema.partial().parse(req.body);
+      if (data.permissions && !RoleBasedAccessControl.canGrant(req.access, data.permissions)) {
+        return res.status(403).json({ message: "Cannot grant permissions you do not have" });
+      }
+      const storage = await storagePromise;
+      const role = await storage.updateCompanyRole(req.params.id, data, req.companyId);
+      res.json(role);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Role not found or not authorized') {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      if (error.code === '23505') {
+        return res.status(409).json({ message: "A role with this name already exists" });
+      }
+      console.error("Error updating company role:", error);
+      res.status(500).json({ message: "Failed to update company role" });
+    }
+  });
+
+  app.delete('/api/company-roles/:id', authMiddleware, requirePermission("team.manage"), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const success = await storage.deleteCompanyRole(req.params.id, req.companyId);
+      if (!success) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting company role:", error);
+      res.status(500).json({ message: "Failed to delete company role" });
+    }
+  });
+
+  // Contract templates
+  app.get('/api/contract-templates', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const templates = await storage.getContractTemplates(req.companyId);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching contract templates:", error);
+      res.status(500).json({ message: "Failed to fetch contract templates" });
+    }
+  });
+
+  app.post('/api/contract-templates', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = insertContractTemplateSchema.parse(req.body);
+      const storage = await storagePromise;
+      const template = await storage.createContractTemplate(data, req.companyId, userId);
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.code === '23505') {
+        return res.status(409).json({ message: "A template for this contract type already exists" });
+      }
+      console.error("Error creating contract template:", error);
+      res.status(500).json({ message: "Failed to create contract template" });
+    }
+  });
+
+  app.put('/api/contract-templates/:id', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      // Contract type is fixed once created
+      const data = insertContractTemplateSchema.omit({ contractType: true }).partial().parse(req.body);
+      const storage = await storagePromise;
+      const template = await storage.updateContractTemplate(req.params.id, data, req.companyId);
+      res.json(template);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Template not found or not authorized') {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      console.error("Error updating contract template:", error);
+      res.status(500).json({ message: "Failed to update contract template" });
+    }
+  });
+
+  app.post('/api/contract-templates/:id/publish', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const version = await storage.publishContractTemplate(
+        req.params.id,
+        req.companyId,
+        userId,
+        typeof req.body?.notes === 'string' ? req.body.notes : undefined,
+      );
+      res.status(201).json(version);
+    } catch (error: any) {
+      if (error.message === 'Template not found or not authorized') {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      console.error("Error publishing contract template:", error);
+      res.status(500).json({ message: "Failed to publish contract template" });
+    }
+  });
+
+  app.get('/api/contract-templates/:id/versions', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const versions = await storage.getContractTemplateVersions(req.params.id, req.companyId);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching template versions:", error);
+      res.status(500).json({ message: "Failed to fetch template versions" });
+    }
+  });
+
+  // Body used for live previews of unsaved contracts
+  app.get('/api/contract-templates/published/:contractType', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const version = await storage.getPublishedTemplateVersion(req.companyId, req.params.contractType);
+      res.json(version ?? null);
+    } catch (error) {
+      console.error("Error fetching published template:", error);
+      res.status(500).json({ message: "Failed to fetch published template" });
+    }
+  });
+
+  // Template version a contract was signed with (falls back to the currently published one)
+  app.get('/api/contracts/:id/template', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const storage = await storagePromise;
+      const contract = await storage.getContractById(req.params.id, userId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const version = contract.templateVersionId
+        ? await storage.getContractTemplateVersion(contract.templateVersionId, contract.companyId)
+        : await storage.getPublishedTemplateVersion(contract.companyId, contract.contractTemplate);
+      res.json(version ?? null);
+    } catch (error) {
+      console.error("Error fetching contract template:", error);
+      res.status(500).json({ message: "Failed to fetch contract template" });
+    }
+  });
+
+  // Finn.no scraping endpoint
+  app.post('/api/cars/import-from-finn', authMiddleware, requirePermission("cars.create"), async (req: any, res) => {
+    try {
+      const { url, regNumber } = req.body;
+      
+      if (!url || typeof url !== 'string') {
         return res.status(400).json({ message: "URL is required" });
       }
 
@@ -980,7 +2214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         success: true,
         message: "Bil importert fra Finn.no",
-        carData: importedCar
+        carData: RoleBasedAccessControl.maskSensitiveCarFields(importedCar, req.access)
       });
 
     } catch (error: any) {
@@ -993,56 +2227,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customer 360 profile endpoint
-  app.get('/api/customers/:id/profile', authMiddleware, async (req: any, res) => {
+  app.get('/api/customers/:id/profile', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
       const profile = await storage.getCustomerProfile(req.params.id, userId);
-      res.json(profile);
+      res.json({
+        ...profile,
+        cars: profile.cars.map(car => RoleBasedAccessControl.maskSensitiveCarFields(car, req.access)),
+        contracts: profile.contracts.map(contract => RoleBasedAccessControl.maskSensitiveContractFields(contract, req.access)),
+      });
     } catch (error: any) {
+      if (error.message === 'Customer not found') {
+        return res.status(404).json({ message: error.message });
+      }
       console.error('Error getting customer profile:', error);
       res.status(500).json({ message: error.message || 'Failed to get customer profile' });
     }
   });
 
+  // Customer messages. Sending logs the message even when the provider fails.
+  app.post('/api/customers/:id/messages', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = sendCustomerMessageSchema.parse(req.body);
+      const message = await sendCustomerMessage(req.params.id, req.companyId, userId, data);
+      res.status(201).json(message);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (MESSAGE_NOT_FOUND_ERRORS.includes(error.message)) {
+        return res.status(404).json({ message: error.message.replace(' or not authorized', '') });
+      }
+      if (MESSAGE_INVALID_ERRORS.includes(error.message)) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message === 'Customer is erased') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Error sending customer message:', error);
+      res.status(500).json({ message: 'Failed to send message' });
+    }
+  });
+
+  app.post('/api/customers/:id/messages/inbound', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = logInboundMessageSchema.parse(req.body);
+      const message = await logInboundMessage(req.params.id, req.companyId, userId, data);
+      res.status(201).json(message);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Customer not found or not authorized') {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      console.error('Error logging inbound message:', error);
+      res.status(500).json({ message: 'Failed to log message' });
+    }
+  });
+
+  app.get('/api/message-templates', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const templates = await storage.getMessageTemplates(req.companyId);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching message templates:", error);
+      res.status(500).json({ message: "Failed to fetch message templates" });
+    }
+  });
+
+  app.post('/api/message-templates', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = insertMessageTemplateSchema.parse(req.body);
+      const storage = await storagePromise;
+      const template = await storage.createMessageTemplate(req.companyId, data, userId);
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating message template:", error);
+      res.status(500).json({ message: "Failed to create message template" });
+    }
+  });
+
+  app.put('/api/message-templates/:id', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      // Channel is fixed once created
+      const data = insertMessageTemplateSchema.omit({ channel: true }).partial().parse(req.body);
+      const storage = await storagePromise;
+      const template = await storage.updateMessageTemplate(req.params.id, req.companyId, data);
+      res.json(template);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Message template not found or not authorized') {
+        return res.status(404).json({ message: "Message template not found" });
+      }
+      console.error("Error updating message template:", error);
+      res.status(500).json({ message: "Failed to update message template" });
+    }
+  });
+
+  app.delete('/api/message-templates/:id', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const deleted = await storage.deleteMessageTemplate(req.params.id, req.companyId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Message template not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting message template:", error);
+      res.status(500).json({ message: "Failed to delete message template" });
+    }
+  });
+
   // Follow-ups endpoints
-  app.get('/api/followups', authMiddleware, async (req: any, res) => {
+  app.get('/api/followups', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
-      const followups = await storage.getFollowups(userId);
+      const filters = z.object({
+        assignedTo: z.string().optional(),
+        status: z.enum(FOLLOWUP_STATUSES).optional(),
+      }).parse(req.query);
+      const followups = await storage.getFollowups(userId, {
+        assignedTo: filters.assignedTo === "me" ? userId : filters.assignedTo,
+        status: filters.status,
+      });
       res.json(followups);
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       console.error('Error getting followups:', error);
       res.status(500).json({ message: error.message || 'Failed to get followups' });
     }
   });
 
-  app.post('/api/followups', authMiddleware, async (req: any, res) => {
+  app.post('/api/followups', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
-      const followup = await storage.createFollowup(req.body, userId);
+      const data = insertFollowupSchema.parse(req.body);
+      const followup = await storage.createFollowup(data, userId);
       res.status(201).json(followup);
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Customer not found or not authorized') {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (error.message === 'Assignee is not a member of the company') {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error creating followup:', error);
       res.status(500).json({ message: error.message || 'Failed to create followup' });
     }
   });
 
-  app.put('/api/followups/:id', authMiddleware, async (req: any, res) => {
+  app.put('/api/followups/:id', authMiddleware, requirePermission("customers.manage"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
-      const followup = await storage.updateFollowup(req.params.id, req.body, userId);
+      const data = updateFollowupSchema.parse(req.body);
+      const followup = await storage.updateFollowup(req.params.id, data, userId);
       res.json(followup);
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Follow-up not found or not authorized') {
+        return res.status(404).json({ message: "Follow-up not found" });
+      }
+      if (error.message === 'Assignee is not a member of the company') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message === 'Follow-up is already closed') {
+        return res.status(409).json({ message: error.message });
+      }
       console.error('Error updating followup:', error);
       res.status(500).json({ message: error.message || 'Failed to update followup' });
     }
   });
 
-  app.get('/api/followups/today', authMiddleware, async (req: any, res) => {
+  // Due today or overdue, for the caller
+  app.get('/api/followups/today', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const storage = await storagePromise;
@@ -1054,6 +2432,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Post-sale follow-up playbooks
+  app.get('/api/followup-playbooks', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const playbooks = await storage.getFollowupPlaybooks(req.companyId);
+      res.json(playbooks);
+    } catch (error) {
+      console.error("Error fetching follow-up playbooks:", error);
+      res.status(500).json({ message: "Failed to fetch follow-up playbooks" });
+    }
+  });
+
+  app.post('/api/followup-playbooks', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = insertFollowupPlaybookSchema.parse(req.body);
+      const storage = await storagePromise;
+      const playbook = await storage.createFollowupPlaybook(req.companyId, data, userId);
+      res.status(201).json(playbook);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Assignee is not a member of the company') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating follow-up playbook:", error);
+      res.status(500).json({ message: "Failed to create follow-up playbook" });
+    }
+  });
+
+  app.put('/api/followup-playbooks/:id', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const data = insertFollowupPlaybookSchema.partial().parse(req.body);
+      const storage = await storagePromise;
+      const playbook = await storage.updateFollowupPlaybook(req.params.id, req.companyId, data);
+      res.json(playbook);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error.message === 'Playbook not found or not authorized') {
+        return res.status(404).json({ message: "Playbook not found" });
+      }
+      if (error.message === 'Assignee is not a member of the company') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating follow-up playbook:", error);
+      res.status(500).json({ message: "Failed to update follow-up playbook" });
+    }
+  });
+
+  app.delete('/api/followup-playbooks/:id', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const deleted = await storage.deleteFollowupPlaybook(req.params.id, req.companyId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Playbook not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting follow-up playbook:", error);
+      res.status(500).json({ message: "Failed to delete follow-up playbook" });
+    }
+  });
+
   // Company management routes
   app.get('/api/companies/user', authMiddleware, async (req: any, res) => {
     try {
@@ -1109,7 +2553,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enhanced AI Assistant endpoint
-  app.post('/api/assistant', authMiddleware, async (req: any, res) => {
+  app.post('/api/assistant', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const { messages, message, hints } = req.body as {
         messages?: Array<{ role: "user" | "assistant"; content: string }>;
@@ -1118,7 +2562,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const lastMessage = messages?.at(-1)?.content || message || "";
-      const role = (hints?.role || "SELGER").toUpperCase();
+      // The membership role, not the client's hint, decides what the assistant may reveal
+      const role = req.userRole;
       const companyId = hints?.activeCompanyId;
 
       // Debug logging
@@ -1187,7 +2632,7 @@ Du er ForhandlerPRO-assistenten – en menneskelig, kortfattet veileder i appen
         if (!reg) return null;
         try {
           const storage = await storagePromise;
-          const cars = await storage.getCars('default-company');
+          const cars = await storage.getCars(req.user.claims.sub);
           return cars.find(car => 
             car.registrationNumber?.toLowerCase().includes(reg.toLowerCase())
           ) || null;
@@ -1197,10 +2642,11 @@ Du er ForhandlerPRO-assistenten – en menneskelig, kortfattet veileder i appen
       }
 
       const intent = detectIntent(lastMessage);
+      // Data lookups run as the signed-in user, never as a user named in the request body
       const userHints: UserHints = {
-        role: (hints?.role || role) as any,
-        companyId: hints?.activeCompanyId || companyId || 'default-company',
-        userId: hints?.userId || req.user?.claims?.sub || 'test-user-123'
+        role,
+        userId: req.user.claims.sub,
+        access: req.access,
       };
 
       // Handle the new intent system - Answer first, offer confirm to open
@@ -1242,7 +2688,7 @@ Du er ForhandlerPRO-assistenten – en menneskelig, kortfattet veileder i appen
         }
 
         case "MOST_EXPENSIVE_SOLD": {
-          const row = await tools.mostExpensiveSold(intent.brand ?? null, userHints.companyId);
+          const row = await tools.mostExpensiveSold(intent.brand ?? null, userHints.userId);
           if (!row) return res.json({ reply: "Fant ingen solgte biler enda i denne bedriften." });
           const price = row.sale_price != null ? `${Number(row.sale_price).toLocaleString("no-NO")} kr` : "ukjent";
           return res.json({
@@ -1252,7 +2698,7 @@ Du er ForhandlerPRO-assistenten – en menneskelig, kortfattet veileder i appen
         }
 
         case "COUNT_AVAILABLE": {
-          const n = await tools.countAvailable(userHints.companyId);
+          const n = await tools.countAvailable(userHints.userId);
           return res.json({ reply: `Du har **${n}** biler til salgs akkurat nå.` });
         }
 
@@ -1420,10 +2866,10 @@ Du er ForhandlerPRO-assistenten – en menneskelig, kortfattet veileder i appen
     }
   });
 
-  app.get('/api/settings/company', authMiddleware, async (req: any, res) => {
+  app.get('/api/settings/company', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
     try {
       const storage = await storagePromise;
-      const settings = await storage.getCompanySettings(req.user.companyId);
+      const settings = await storage.getCompanySettings(req.companyId);
       res.json(settings);
     } catch (error) {
       console.error('Get company settings error:', error);
@@ -1431,16 +2877,16 @@ Du er ForhandlerPRO-assistenten – en menneskelig, kortfattet veileder i appen
     }
   });
 
-  app.put('/api/settings/company', authMiddleware, async (req: any, res) => {
+  app.put('/api/settings/company', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
     try {
       const storage = await storagePromise;
       const { name, organizationNumber, address } = req.body;
       
       // Update company name
-      await storage.updateCompany(req.user.companyId, { name });
+      await storage.updateCompany(req.companyId, { name });
       
       // Update or create company settings
-      await storage.upsertCompanySettings(req.user.companyId, {
+      await storage.upsertCompanySettings(req.companyId, {
         organizationNumber,
         address,
       });
@@ -1452,6 +2898,174 @@ Du er ForhandlerPRO-assistenten – en menneskelig, kortfattet veileder i appen
     }
   });
 
+  const contractNumberingSchema = z.object({
+    prefix: z.string().trim().min(1).max(10).regex(/^[A-Za-z0-9ÆØÅæøå]+$/, "Prefix may only contain letters and digits"),
+    yearlyReset: z.boolean(),
+  });
+
+  app.get('/api/settings/contract-numbering', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const settings = await storage.getCompanySettings(req.companyId);
+      res.json({
+        prefix: settings?.contractNumberPrefix ?? "K",
+        yearlyReset: settings?.contractNumberYearlyReset ?? true,
+        nextNumber: await storage.getNextContractNumber(req.companyId),
+      });
+    } catch (error) {
+      console.error('Get contract numbering error:', error);
+      res.status(500).json({ error: 'Failed to get contract numbering' });
+    }
+  });
+
+  app.put('/api/settings/contract-numbering', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const { prefix, yearlyReset } = contractNumberingSchema.parse(req.body);
+      const storage = await storagePromise;
+      await storage.upsertCompanySettings(req.companyId, {
+        contractNumberPrefix: prefix,
+        contractNumberYearlyReset: yearlyReset,
+      });
+      res.json({
+        prefix,
+        yearlyReset,
+        nextNumber: await storage.getNextContractNumber(req.companyId),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Update contract numbering error:', error);
+      res.status(500).json({ error: 'Failed to update contract numbering' });
+    }
+  });
+
+  const repricingSettingsSchema = z.object({
+    mode: z.enum(REPRICING_MODES),
+  });
+
+  app.get('/api/settings/repricing', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const settings = await storage.getCompanySettings(req.companyId);
+      res.json({ mode: settings?.repricingMode ?? "suggest" });
+    } catch (error) {
+      console.error('Get repricing settings error:', error);
+      res.status(500).json({ error: 'Failed to get repricing settings' });
+    }
+  });
+
+  app.put('/api/settings/repricing', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const { mode } = repricingSettingsSchema.parse(req.body);
+      const storage = await storagePromise;
+      await storage.upsertCompanySettings(req.companyId, { repricingMode: mode });
+      res.json({ mode });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Update repricing settings error:', error);
+      res.status(500).json({ error: 'Failed to update repricing settings' });
+    }
+  });
+
+  app.get('/api/settings/recon', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const settings = await storage.getCompanySettings(req.companyId);
+      res.json({ requireReconBeforeAvailable: settings?.requireReconBeforeAvailable ?? false });
+    } catch (error) {
+      console.error('Get recon settings error:', error);
+      res.status(500).json({ error: 'Failed to get recon settings' });
+    }
+  });
+
+  const reconSettingsSchema = z.object({
+    requireReconBeforeAvailable: z.boolean(),
+  });
+
+  app.put('/api/settings/recon', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const settings = reconSettingsSchema.parse(req.body);
+      const storage = await storagePromise;
+      await storage.upsertCompanySettings(req.companyId, settings);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Update recon settings error:', error);
+      res.status(500).json({ error: 'Failed to update recon settings' });
+    }
+  });
+
+  app.get('/api/settings/sms', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const settings = await storage.getCompanySettings(req.companyId);
+      res.json({ smsSenderNumber: settings?.smsSenderNumber ?? null });
+    } catch (error) {
+      console.error('Get SMS settings error:', error);
+      res.status(500).json({ error: 'Failed to get SMS settings' });
+    }
+  });
+
+  // The company's own number at the SMS gateway; null sends from the shared number
+  const smsSettingsSchema = z.object({
+    smsSenderNumber: z.string().trim().regex(/^\+?[0-9 ]{8,20}$/).nullable(),
+  });
+
+  app.put('/api/settings/sms', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const settings = smsSettingsSchema.parse(req.body);
+      const storage = await storagePromise;
+      await storage.upsertCompanySettings(req.companyId, settings);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Update SMS settings error:', error);
+      res.status(500).json({ error: 'Failed to update SMS settings' });
+    }
+  });
+
+  app.get('/api/settings/retention', authMiddleware, requireCompanyMembership(), async (req: any, res) => {
+    try {
+      const storage = await storagePromise;
+      const settings = await storage.getCompanySettings(req.companyId);
+      res.json({
+        contractRetentionYears: settings?.contractRetentionYears ?? 5,
+        inactiveCustomerRetentionMonths: settings?.inactiveCustomerRetentionMonths ?? null,
+      });
+    } catch (error) {
+      console.error('Get retention settings error:', error);
+      res.status(500).json({ error: 'Failed to get retention settings' });
+    }
+  });
+
+  // Contracts are bookkeeping records and must be kept for at least five years
+  const retentionSettingsSchema = z.object({
+    contractRetentionYears: z.number().int().min(5).max(30),
+    inactiveCustomerRetentionMonths: z.number().int().min(6).max(240).nullable(),
+  });
+
+  app.put('/api/settings/retention', authMiddleware, requirePermission("company.manage"), async (req: any, res) => {
+    try {
+      const settings = retentionSettingsSchema.parse(req.body);
+      const storage = await storagePromise;
+      await storage.upsertCompanySettings(req.companyId, settings);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Update retention settings error:', error);
+      res.status(500).json({ error: 'Failed to update retention settings' });
+    }
+  });
+
   app.put('/api/settings/notifications', authMiddleware, async (req: any, res) => {
     try {
       const storage = await storagePromise;
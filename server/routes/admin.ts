@@ -132,7 +132,7 @@ router.get('/users', async (req, res) => {
         id: 'invited-1',
         name: 'Servan Korkmazer',
         email: 'servan162@hotmail.com',
-        role: 'owner',
+        role: 'EIER',
         status: 'invited',
         lastActive: 'Invitert (ikke registrert)'
       },
@@ -140,7 +140,7 @@ router.get('/users', async (req, res) => {
         id: 'invited-2',
         name: 'Servank NTNU',
         email: 'servank@stud.ntnu.no',
-        role: 'admin',
+        role: 'EIER',
         status: 'invited',
         lastActive: 'Invitert (ikke registrert)'
       },
@@ -148,7 +148,7 @@ router.get('/users', async (req, res) => {
         id: 'invited-3',
         name: 'Ola Nordmann',
         email: 'ola@example.com',
-        role: 'owner',
+        role: 'EIER',
         status: 'active',
         lastActive: '2 min siden'
       },
@@ -156,7 +156,7 @@ router.get('/users', async (req, res) => {
         id: 'invited-4',
         name: 'Kari Hansen',
         email: 'kari@example.com',
-        role: 'admin',
+        role: 'EIER',
         status: 'active',
         lastActive: '15 min siden'
       },
@@ -164,7 +164,7 @@ router.get('/users', async (req, res) => {
         id: 'invited-5',
         name: 'Per Jensen',
         email: 'per@example.com',
-        role: 'sales',
+        role: 'SELGER',
         status: 'active',
         lastActive: '1 time siden'
       }
@@ -183,7 +183,7 @@ router.get('/users', async (req, res) => {
         id: '1',
         name: 'Pålogget bruker',
         email: 'bruker@example.com',
-        role: 'admin',
+        role: 'EIER',
         status: 'active',
         lastActive: 'Nå online'
       },
@@ -191,7 +191,7 @@ router.get('/users', async (req, res) => {
         id: '2',
         name: 'Servan Korkmazer',
         email: 'servan162@hotmail.com',
-        role: 'owner',
+        role: 'EIER',
         status: 'invited',
         lastActive: 'Invitert (ikke registrert)'
       },
@@ -199,7 +199,7 @@ router.get('/users', async (req, res) => {
         id: '3',
         name: 'Servank NTNU',
         email: 'servank@stud.ntnu.no',
-        role: 'admin',
+        role: 'EIER',
         status: 'invited',
         lastActive: 'Invitert (ikke registrert)'
       }
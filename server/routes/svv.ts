@@ -52,6 +52,122 @@ const mapGearbox = (girkasseType?: string): SvvVehicle['gearbox'] => {
   return 'Annet';
 };
 
+/**
+ * Look up a registration number, served from svv_cache when younger than
+ * 7 days. Returns null when SVV has no such vehicle.
+ */
+export async function lookupSvvVehicle(rawRegnr: string): Promise<{ vehicle: SvvVehicle; cached: boolean } | null> {
+  // Normalize registration number (uppercase, no space)
+  const regnr = rawRegnr.toUpperCase().replace(/\s/g, '');
+
+  // Check cache (7 days)
+  const cached = await db.select().from(svvCache)
+    .where(eq(svvCache.regnr, regnr))
+    .limit(1);
+
+  if (cached.length > 0) {
+    const cacheAge = Date.now() - new Date(cached[0].updatedAt || 0).getTime();
+    if (cacheAge < 7 * 24 * 60 * 60 * 1000) { // 7 days in ms
+      console.log(`SVV cache hit for ${regnr}`);
+      return { vehicle: cached[0].payload as SvvVehicle, cached: true };
+    }
+  }
+
+  // Fetch from SVV API
+  const svvApiKey = process.env.SVV_API_KEY;
+  if (!svvApiKey) {
+    throw new Error('SVV_API_KEY not configured');
+  }
+
+  console.log(`Fetching from SVV for ${regnr}`);
+  
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 8000); // 8s timeout
+
+  let attempts = 0;
+  let lastError: any;
+  
+  while (attempts < 2) {
+    attempts++;
+    try {
+      const response = await fetch(
+        `https://www.vegvesen.no/ws/no/vegvesen/kjoretoy/felles/datautlevering/enkeltoppslag/kjoretoydata?kjennemerke=${regnr}`,
+        {
+          headers: {
+            'SVV-Authorization': `Apikey ${svvApiKey}`,
+            'Accept': 'application/json'
+          },
+          signal: controller.signal
+        }
+      );
+
+      clearTimeout(timeout);
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          return null;
+        }
+        throw new Error(`SVV API returned ${response.status}`);
+      }
+
+      const svvData = await response.json();
+      
+      // Map SVV response to our format
+      const vehicle: SvvVehicle = {
+        regnr: regnr,
+        vin: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.generelt?.identifikasjon?.understellsnummer,
+        brand: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.generelt?.merke?.[0]?.merke,
+        model: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.generelt?.handelsbetegnelse?.[0],
+        variant: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.kjoretoyklassifisering?.tekniskKode?.kodeBeskrivelse,
+        firstRegDate: svvData.kjoretoydataListe?.[0]?.forstegangsregistrering?.registrertForstegangNorgeDato,
+        modelYear: parseInt(svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.generelt?.merke?.[0]?.modellbetegnelse) || undefined,
+        fuel: mapFuelType(svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.motorOgDrivverk?.motor?.[0]?.drivstoff?.[0]?.drivstoffKode?.kodeVerdi),
+        powerKW: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.motorOgDrivverk?.motor?.[0]?.drivstoff?.[0]?.maksNettoEffekt,
+        gearbox: mapGearbox(svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.transmisjon?.girkassetype),
+        color: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.karosseriOgLasteplan?.rammeFarge?.[0]?.kodeBeskrivelse,
+        kmAtLastCheck: svvData.kjoretoydataListe?.[0]?.kontrollfrist?.sisteKontroll?.kontrollfristKm,
+        nextEU: svvData.kjoretoydataListe?.[0]?.periodiskKjoretoyKontroll?.kontrollfrist,
+        lastEU: svvData.kjoretoydataListe?.[0]?.periodiskKjoretoyKontroll?.sistGodkjent,
+        bodyType: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.karosseriOgLasteplan?.karosseritype?.kodeBeskrivelse,
+        seats: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.persontall?.sitteplasserTotalt,
+        weight: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.vekter?.tillattTotalvekt
+      };
+
+      // Update cache
+      await db.insert(svvCache)
+        .values({
+          regnr: regnr,
+          payload: vehicle,
+          updatedAt: new Date()
+        })
+        .onConflictDoUpdate({
+          target: svvCache.regnr,
+          set: {
+            payload: vehicle,
+            updatedAt: new Date()
+          }
+        });
+
+      return { vehicle, cached: false };
+
+    } catch (error: any) {
+      lastError = error;
+      if (error.name === 'AbortError') {
+        console.error(`SVV API timeout for ${regnr}`);
+        break;
+      }
+      if (attempts < 2) {
+        console.log(`Retrying SVV API for ${regnr}...`);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+  }
+
+  clearTimeout(timeout);
+  console.error('SVV API error:', lastError);
+  throw new Error('SVV lookup failed');
+}
+
 export async function svvLookup(req: Request, res: Response) {
   try {
     // Rate limiting
@@ -86,29 +202,23 @@ export async function svvLookup(req: Request, res: Response) {
       });
     }
 
-    // Normalize registration number (uppercase, no space)
-    const regnr = validation.data.regnr.toUpperCase().replace(/\s/g, '');
-
-    // Check cache (7 days)
-    const cached = await db.select().from(svvCache)
-      .where(eq(svvCache.regnr, regnr))
-      .limit(1);
-
-    if (cached.length > 0) {
-      const cacheAge = Date.now() - new Date(cached[0].updatedAt || 0).getTime();
-      if (cacheAge < 7 * 24 * 60 * 60 * 1000) { // 7 days in ms
-        console.log(`SVV cache hit for ${regnr}`);
-        return res.json({
-          ok: true,
-          data: cached[0].payload as SvvVehicle,
-          cached: true
-        });
-      }
+    const result = await lookupSvvVehicle(validation.data.regnr);
+    if (!result) {
+      return res.json({
+        ok: false,
+        code: 'NOT_FOUND',
+        message: 'Kjøretøy ikke funnet i Vegvesenets register'
+      });
     }
 
-    // Fetch from SVV API
-    const svvApiKey = process.env.SVV_API_KEY;
-    if (!svvApiKey) {
+    return res.json({
+      ok: true,
+      data: result.vehicle,
+      cached: result.cached
+    });
+
+  } catch (error: any) {
+    if (error.message === 'SVV_API_KEY not configured') {
       console.error('SVV_API_KEY not configured');
       return res.status(500).json({
         ok: false,
@@ -116,110 +226,13 @@ export async function svvLookup(req: Request, res: Response) {
         message: 'SVV API er ikke konfigurert'
       });
     }
-
-    console.log(`Fetching from SVV for ${regnr}`);
-    
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 8000); // 8s timeout
-
-    let attempts = 0;
-    let lastError: any;
-    
-    while (attempts < 2) {
-      attempts++;
-      try {
-        const response = await fetch(
-          `https://www.vegvesen.no/ws/no/vegvesen/kjoretoy/felles/datautlevering/enkeltoppslag/kjoretoydata?kjennemerke=${regnr}`,
-          {
-            headers: {
-              'SVV-Authorization': `Apikey ${svvApiKey}`,
-              'Accept': 'application/json'
-            },
-            signal: controller.signal
-          }
-        );
-
-        clearTimeout(timeout);
-
-        if (!response.ok) {
-          if (response.status === 404) {
-            return res.json({
-              ok: false,
-              code: 'NOT_FOUND',
-              message: 'Kjøretøy ikke funnet i Vegvesenets register'
-            });
-          }
-          throw new Error(`SVV API returned ${response.status}`);
-        }
-
-        const svvData = await response.json();
-        
-        // Map SVV response to our format
-        const vehicle: SvvVehicle = {
-          regnr: regnr,
-          vin: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.generelt?.identifikasjon?.understellsnummer,
-          brand: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.generelt?.merke?.[0]?.merke,
-          model: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.generelt?.handelsbetegnelse?.[0],
-          variant: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.kjoretoyklassifisering?.tekniskKode?.kodeBeskrivelse,
-          firstRegDate: svvData.kjoretoydataListe?.[0]?.forstegangsregistrering?.registrertForstegangNorgeDato,
-          modelYear: parseInt(svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.generelt?.merke?.[0]?.modellbetegnelse) || undefined,
-          fuel: mapFuelType(svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.motorOgDrivverk?.motor?.[0]?.drivstoff?.[0]?.drivstoffKode?.kodeVerdi),
-          powerKW: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.motorOgDrivverk?.motor?.[0]?.drivstoff?.[0]?.maksNettoEffekt,
-          gearbox: mapGearbox(svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.tekniskeData?.transmisjon?.girkassetype),
-          color: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.karosseriOgLasteplan?.rammeFarge?.[0]?.kodeBeskrivelse,
-          kmAtLastCheck: svvData.kjoretoydataListe?.[0]?.kontrollfrist?.sisteKontroll?.kontrollfristKm,
-          nextEU: svvData.kjoretoydataListe?.[0]?.periodiskKjoretoyKontroll?.kontrollfrist,
-          lastEU: svvData.kjoretoydataListe?.[0]?.periodiskKjoretoyKontroll?.sistGodkjent,
-          bodyType: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.karosseriOgLasteplan?.karosseritype?.kodeBeskrivelse,
-          seats: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.persontall?.sitteplasserTotalt,
-          weight: svvData.kjoretoydataListe?.[0]?.godkjenning?.tekniskGodkjenning?.vekter?.tillattTotalvekt
-        };
-
-        // Update cache
-        await db.insert(svvCache)
-          .values({
-            regnr: regnr,
-            payload: vehicle,
-            updatedAt: new Date()
-          })
-          .onConflictDoUpdate({
-            target: svvCache.regnr,
-            set: {
-              payload: vehicle,
-              updatedAt: new Date()
-            }
-          });
-
-        return res.json({
-          ok: true,
-          data: vehicle,
-          cached: false
-        });
-
-      } catch (error: any) {
-        lastError = error;
-        if (error.name === 'AbortError') {
-          console.error(`SVV API timeout for ${regnr}`);
-          break;
-        }
-        if (attempts < 2) {
-          console.log(`Retrying SVV API for ${regnr}...`);
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
+    if (error.message === 'SVV lookup failed') {
+      return res.status(503).json({
+        ok: false,
+        code: 'SERVICE_ERROR',
+        message: 'Kunne ikke hente data fra Vegvesenet. Prøv igjen senere.'
+      });
     }
-
-    clearTimeout(timeout);
-    
-    // All attempts failed
-    console.error('SVV API error:', lastError);
-    return res.status(503).json({
-      ok: false,
-      code: 'SERVICE_ERROR',
-      message: 'Kunne ikke hente data fra Vegvesenet. Prøv igjen senere.'
-    });
-
-  } catch (error) {
     console.error('SVV lookup error:', error);
     return res.status(500).json({
       ok: false,
@@ -227,4 +240,4 @@ export async function svvLookup(req: Request, res: Response) {
       message: 'En feil oppstod under oppslag'
     });
   }
-}
\ No newline at end of file
+}
@@ -39,7 +39,7 @@ async function seedDemoUsers() {
         passwordHash: adminPassword,
         firstName: 'System',
         lastName: 'Administrator',
-        role: 'admin'
+        role: 'super_admin'
       }).returning();
       
       console.log('Created admin user:', adminUser.email);
@@ -48,7 +48,7 @@ async function seedDemoUsers() {
       await db.insert(memberships).values({
         userId: adminUser.id,
         companyId: companyId,
-        role: 'admin',
+        role: 'EIER',
       }).onConflictDoNothing();
     }
     
@@ -70,7 +70,7 @@ async function seedDemoUsers() {
       await db.insert(memberships).values({
         userId: testUser.id,
         companyId: companyId,
-        role: 'sales',
+        role: 'SELGER',
       }).onConflictDoNothing();
     }
     
@@ -0,0 +1,39 @@
+import { storagePromise } from "../storage";
+
+type CarSummary = {
+  make: string;
+  model: string;
+};
+
+async function logCarActivity(
+  type: string,
+  message: string,
+  userId: string,
+  carId: string,
+  metadata: Record<string, unknown>,
+): Promise<void> {
+  const storage = await storagePromise;
+  await storage.createActivityLog({ type, message, entityId: carId, entityType: "cars", userId, metadata });
+}
+
+/**
+ * Activity feed entries for car events. Routes log after the change is saved
+ * and only report a failure, so a feed entry never fails the request.
+ */
+export class ActivityLogger {
+  static logCarCreated(userId: string, carId: string, car: CarSummary & { year: number }): Promise<void> {
+    return logCarActivity("car_created", `Bil lagt til: ${car.make} ${car.model} (${car.year})`, userId, carId, car);
+  }
+
+  static logCarImported(userId: string, carId: string, car: CarSummary & { source: string }): Promise<void> {
+    return logCarActivity("car_created", `Bil importert fra ${car.source}: ${car.make} ${car.model}`, userId, carId, car);
+  }
+
+  static logCarUpdated(userId: string, carId: string, car: CarSummary & { registrationNumber: string }): Promise<void> {
+    return logCarActivity("car_updated", `Bil oppdatert: ${car.make} ${car.model} (${car.registrationNumber})`, userId, carId, car);
+  }
+
+  static logCarSold(userId: string, carId: string, car: CarSummary & { soldPrice: string }): Promise<void> {
+    return logCarActivity("car_sold", `Bil solgt: ${car.make} ${car.model}`, userId, carId, car);
+  }
+}
@@ -0,0 +1,110 @@
+import { storagePromise } from "../storage";
+import { RoleBasedAccessControl } from "../rbac";
+import { cancelPendingSigning } from "./signingService";
+import {
+  canTransitionAmendment,
+  canTransitionContract,
+  isContractLocked,
+  type AmendmentStatus,
+  type ContractStatus,
+} from "@shared/contract-lifecycle";
+import type { AmendmentSigningUpdate, Contract, ContractAmendment, ContractSigningUpdate } from "@shared/schema";
+
+/**
+ * Move a contract to a new status on behalf of a user. Checks the user's
+ * permissions and the state machine. Any manual move out of pending_signature
+ * withdraws the provider request so the customer can no longer sign it.
+ */
+export async function changeContractStatus(
+  contractId: string,
+  to: ContractStatus,
+  userId: string,
+  reason?: string | null,
+): Promise<Contract> {
+  const storage = await storagePromise;
+  const contract = await storage.getContractById(contractId, userId);
+  if (!contract) {
+    throw new Error("Contract not found");
+  }
+
+  const access = await RoleBasedAccessControl.getUserAccess(userId, contract.companyId);
+  if (!access || !RoleBasedAccessControl.canTransitionContract(access, to)) {
+    throw new Error("Insufficient permissions");
+  }
+  if (!canTransitionContract(contract.status, to)) {
+    throw new Error("Invalid contract status transition");
+  }
+
+  const fields = await withdrawContractSigning(contract);
+  if (to === "signed" && !contract.signedAt) {
+    // Signed on paper or outside the e-signing flow
+    fields.signedAt = new Date();
+  }
+
+  return storage.transitionContract(contract.id, to, userId, userId, reason, fields);
+}
+
+// Withdraw a pending provider request and return the fields that reset it on the contract
+async function withdrawContractSigning(contract: Contract): Promise<ContractSigningUpdate> {
+  if (contract.status !== "pending_signature") return {};
+  await cancelPendingSigning(contract);
+  return {
+    signingStatus: "not_sent",
+    eSignStatus: "ikke_sendt",
+    signingDocumentId: null,
+    signingUrl: null,
+  };
+}
+
+/**
+ * Deleting a contract voids it: it is cancelled and the row stays, so the
+ * company's number series has no gaps. Signed contracts cannot be voided.
+ * Returns undefined if the contract does not exist for the user.
+ */
+export async function voidContract(contractId: string, userId: string): Promise<Contract | undefined> {
+  const storage = await storagePromise;
+  const contract = await storage.getContractById(contractId, userId);
+  if (!contract) return undefined;
+  if (contract.status === "cancelled") return contract;
+  if (isContractLocked(contract.status)) {
+    throw new Error("Contract is locked");
+  }
+
+  const fields = await withdrawContractSigning(contract);
+  return storage.transitionContract(contract.id, "cancelled", userId, userId, "Slettet", fields);
+}
+
+/**
+ * Same rules for an amendment or credit note: the user may move the contract
+ * to that status, and the amendment's own state machine allows it.
+ */
+export async function changeAmendmentStatus(
+  amendmentId: string,
+  to: AmendmentStatus,
+  userId: string,
+): Promise<ContractAmendment> {
+  const storage = await storagePromise;
+  const amendment = await storage.getContractAmendmentById(amendmentId, userId);
+  if (!amendment) {
+    throw new Error("Amendment not found");
+  }
+
+  const access = await RoleBasedAccessControl.getUserAccess(userId, amendment.companyId);
+  if (!access || !RoleBasedAccessControl.canTransitionContract(access, to)) {
+    throw new Error("Insufficient permissions");
+  }
+  if (!canTransitionAmendment(amendment.status, to)) {
+    throw new Error("Invalid amendment status transition");
+  }
+
+  const fields: AmendmentSigningUpdate = { status: to };
+  if (amendment.status === "pending_signature") {
+    await cancelPendingSigning(amendment);
+    Object.assign(fields, { signingStatus: "not_sent", signingDocumentId: null, signingUrl: null });
+  }
+  if (to === "signed" && !amendment.signedAt) {
+    fields.signedAt = new Date();
+  }
+
+  return storage.updateAmendmentSigning(amendment.id, fields, amendment.companyId);
+}
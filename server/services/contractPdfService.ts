@@ -0,0 +1,116 @@
+import { storagePromise } from "../storage";
+import {
+  generateAmendmentHTML,
+  generateAmendmentPDF,
+  generateContractHTML,
+  generateContractPDF,
+  type ContractPdf,
+  type ContractPdfCompany,
+} from "../pdf-generator";
+import { saveContractDocument } from "./documentStorage";
+import type { Car, Contract, ContractAmendment, Customer } from "@shared/schema";
+
+async function loadContractParties(
+  contract: Contract,
+  userId: string,
+): Promise<{ car: Car; customer: Customer; company: ContractPdfCompany }> {
+  const storage = await storagePromise;
+  const car = await storage.getCarById(contract.carId, userId);
+  const customer = await storage.getCustomerById(contract.customerId, userId);
+  if (!car || !customer) {
+    throw new Error("Related data not found");
+  }
+
+  const company = await storage.getCompany(contract.companyId);
+  const settings = await storage.getCompanySettings(contract.companyId);
+
+  return {
+    car,
+    customer,
+    company: {
+      name: company?.name || "ForhandlerPRO",
+      phone: company?.phone,
+      email: company?.email,
+      organizationNumber: settings?.organizationNumber,
+      address: settings?.address,
+      logoUrl: settings?.logoUrl,
+    },
+  };
+}
+
+// The version the contract was signed with if recorded, else the currently published one
+async function contractTemplateBody(contract: Contract): Promise<string | undefined> {
+  const storage = await storagePromise;
+  const version = contract.templateVersionId
+    ? await storage.getContractTemplateVersion(contract.templateVersionId, contract.companyId)
+    : await storage.getPublishedTemplateVersion(contract.companyId, contract.contractTemplate);
+  return version?.body;
+}
+
+/**
+ * Render the contract PDF from the dealer's template, store it and point
+ * contracts.pdfUrl at it. Once signed, pdfUrl keeps pointing at the
+ * provider's signed copy.
+ */
+export async function renderContractPdf(
+  contract: Contract,
+  userId: string,
+): Promise<ContractPdf & { pdfUrl: string }> {
+  const storage = await storagePromise;
+  const { car, customer, company } = await loadContractParties(contract, userId);
+  const pdf = await generateContractPDF(contract, car, customer, company, await contractTemplateBody(contract));
+
+  const pdfUrl = await saveContractDocument(contract.id, "contract", pdf.content, "application/pdf");
+  if (contract.signingStatus !== "signed" && contract.pdfUrl !== pdfUrl) {
+    await storage.updateContractSigning(contract.id, { pdfUrl }, contract.companyId);
+  }
+
+  return { ...pdf, pdfUrl };
+}
+
+// The same document as the PDF, as HTML
+export async function renderContractHtml(contract: Contract, userId: string): Promise<string> {
+  const { car, customer, company } = await loadContractParties(contract, userId);
+  return generateContractHTML(contract, car, customer, company, await contractTemplateBody(contract));
+}
+
+// Signed amendments that precede this one, so the document can print the price it leads to
+async function signedAmendmentsBefore(amendment: ContractAmendment, userId: string): Promise<ContractAmendment[]> {
+  const storage = await storagePromise;
+  const amendments = await storage.getContractAmendments(amendment.contractId, userId);
+  return amendments.filter(other =>
+    other.status === "signed" && other.amendmentNumber < amendment.amendmentNumber,
+  );
+}
+
+/**
+ * Render an amendment or credit note PDF and store it next to the contract's
+ * documents. As with the contract, the signed copy replaces it once signed.
+ */
+export async function renderAmendmentPdf(
+  amendment: ContractAmendment,
+  contract: Contract,
+  userId: string,
+): Promise<ContractPdf & { pdfUrl: string }> {
+  const storage = await storagePromise;
+  const { car, customer, company } = await loadContractParties(contract, userId);
+  const signedBefore = await signedAmendmentsBefore(amendment, userId);
+  const pdf = await generateAmendmentPDF(amendment, contract, car, customer, company, signedBefore);
+
+  const pdfUrl = await saveContractDocument(contract.id, `tillegg-${amendment.amendmentNumber}`, pdf.content, "application/pdf");
+  if (amendment.signingStatus !== "signed" && amendment.pdfUrl !== pdfUrl) {
+    await storage.updateAmendmentSigning(amendment.id, { pdfUrl }, amendment.companyId);
+  }
+
+  return { ...pdf, pdfUrl };
+}
+
+export async function renderAmendmentHtml(
+  amendment: ContractAmendment,
+  contract: Contract,
+  userId: string,
+): Promise<string> {
+  const { car, customer, company } = await loadContractParties(contract, userId);
+  const signedBefore = await signedAmendmentsBefore(amendment, userId);
+  return generateAmendmentHTML(amendment, contract, car, customer, company, signedBefore);
+}
@@ -0,0 +1,132 @@
+import { storagePromise } from "../storage";
+import { sendCustomerEmail } from "./emailService";
+import { getSmsProvider, SMS_PROVIDERS, type SmsProviderName } from "./smsService";
+import { verifySmsWebhookSignature } from "./sms/webhook";
+import { buildMergeData, renderMergeText } from "@shared/merge-fields";
+import type { CustomerMessage, LogInboundMessage, SendCustomerMessage, User } from "@shared/schema";
+
+const EMAIL_PROVIDER = "sendgrid";
+
+function senderName(user: User): string | null {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || null;
+}
+
+/**
+ * Render a message with the customer's merge fields and send it. The
+ * attempt is logged whether or not the provider accepted it, so a failed
+ * send shows up on the customer's timeline.
+ */
+export async function sendCustomerMessage(
+  customerId: string,
+  companyId: string,
+  userId: string,
+  input: SendCustomerMessage,
+): Promise<CustomerMessage> {
+  const storage = await storagePromise;
+  const context = await storage.getCustomerMessageContext(customerId, companyId, input, userId);
+  const { customer, car, contract, template, sender } = context;
+  if (customer.erasedAt) throw new Error('Customer is erased');
+
+  const to = input.channel === "email" ? customer.email : customer.phone;
+  if (!to) {
+    throw new Error(input.channel === "email" ? 'Customer has no email address' : 'Customer has no phone number');
+  }
+
+  const data = buildMergeData({ customer, car, contract, sellerName: senderName(sender) });
+  const body = renderMergeText(input.body, data);
+  const subject = input.channel === "email" && input.subject ? renderMergeText(input.subject, data) : null;
+
+  const message = {
+    companyId,
+    customerId,
+    channel: input.channel,
+    direction: "outbound" as const,
+    toAddress: to,
+    subject,
+    body,
+    carId: car?.id ?? null,
+    contractId: contract?.id ?? null,
+    templateId: template?.id ?? null,
+    createdBy: userId,
+  };
+
+  if (input.channel === "email") {
+    const sent = await sendCustomerEmail(to, subject!, body, sender.email);
+    return storage.createCustomerMessage({
+      ...message,
+      status: sent ? "sent" : "failed",
+      fromAddress: sender.email,
+      provider: EMAIL_PROVIDER,
+      error: sent ? null : 'E-posten kunne ikke sendes',
+    });
+  }
+
+  const provider = getSmsProvider();
+  // Replies to the company's own number are filed under this company
+  const from = (await storage.getCompanySettings(companyId))?.smsSenderNumber ?? null;
+  try {
+    const sent = await provider.send({ to, body, from: from ?? undefined });
+    return storage.createCustomerMessage({
+      ...message,
+      status: "sent",
+      fromAddress: from,
+      provider: provider.name,
+      providerMessageId: sent.messageId,
+    });
+  } catch (error: any) {
+    console.error(`SMS to customer ${customerId} failed:`, error);
+    return storage.createCustomerMessage({
+      ...message,
+      status: "failed",
+      fromAddress: from,
+      provider: provider.name,
+      error: error.message || 'SMS-en kunne ikke sendes',
+    });
+  }
+}
+
+// Record a message the customer sent some other way, e.g. an email reply
+export async function logInboundMessage(
+  customerId: string,
+  companyId: string,
+  userId: string,
+  input: LogInboundMessage,
+): Promise<CustomerMessage> {
+  const storage = await storagePromise;
+  const { customer } = await storage.getCustomerMessageContext(customerId, companyId, {}, userId);
+  return storage.createCustomerMessage({
+    companyId,
+    customerId,
+    channel: input.channel,
+    direction: "inbound",
+    status: "received",
+    fromAddress: input.channel === "email" ? customer.email : customer.phone,
+    subject: input.channel === "email" ? input.subject ?? null : null,
+    body: input.body,
+    createdBy: userId,
+    createdAt: input.receivedAt ?? new Date(),
+  });
+}
+
+/**
+ * Handle an inbound SMS callback. Authenticated by HMAC signature like the
+ * e-sign webhooks; messages from unknown numbers are acknowledged and dropped.
+ */
+export async function handleInboundSms(
+  providerName: SmsProviderName,
+  rawBody: Buffer | undefined,
+  headers: Record<string, string | string[] | undefined>,
+  payload: any,
+): Promise<{ stored: boolean; duplicate: boolean }> {
+  if (!SMS_PROVIDERS.includes(providerName)) throw new Error(`Unknown SMS provider: ${providerName}`);
+  const provider = getSmsProvider(providerName);
+  const signature = headers[provider.webhookSignatureHeader];
+  if (!verifySmsWebhookSignature(provider.name, rawBody, Array.isArray(signature) ? signature[0] : signature)) {
+    throw new Error("Invalid webhook signature");
+  }
+
+  const sms = provider.parseInbound(payload);
+  const storage = await storagePromise;
+  const { message, duplicate } = await storage.recordInboundSms(provider.name, sms);
+  return { stored: !!message, duplicate };
+}
@@ -0,0 +1,57 @@
+import fs from "fs";
+import path from "path";
+
+// Contract documents (rendered and signed PDFs) are stored on local disk,
+// one folder per contract, and served through GET /api/contracts/:id/files/:fileName
+const STORAGE_DIR = process.env.DOCUMENT_STORAGE_DIR || path.resolve(process.cwd(), "uploads", "contracts");
+
+const EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "text/html": "html",
+};
+
+function safeSegment(value: string): string {
+  if (!/^[A-Za-z0-9._-]+$/.test(value) || value.includes("..")) {
+    throw new Error("Invalid document path");
+  }
+  return value;
+}
+
+export function contractFileUrl(contractId: string, fileName: string): string {
+  return `/api/contracts/${contractId}/files/${fileName}`;
+}
+
+/**
+ * Write a contract document to disk and return the URL it is served from
+ */
+export async function saveContractDocument(
+  contractId: string,
+  baseName: string,
+  content: Buffer,
+  mimeType: string,
+): Promise<string> {
+  const extension = EXTENSIONS[mimeType] || "bin";
+  const fileName = `${safeSegment(baseName)}.${extension}`;
+  const dir = path.join(STORAGE_DIR, safeSegment(contractId));
+
+  await fs.promises.mkdir(dir, { recursive: true });
+  await fs.promises.writeFile(path.join(dir, fileName), content);
+
+  return contractFileUrl(contractId, fileName);
+}
+
+export async function readContractDocument(
+  contractId: string,
+  fileName: string,
+): Promise<{ content: Buffer; mimeType: string } | null> {
+  const filePath = path.join(STORAGE_DIR, safeSegment(contractId), safeSegment(fileName));
+  try {
+    const content = await fs.promises.readFile(filePath);
+    const extension = path.extname(fileName).slice(1);
+    const mimeType = Object.keys(EXTENSIONS).find(key => EXTENSIONS[key] === extension) || "application/octet-stream";
+    return { content, mimeType };
+  } catch (error: any) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+}
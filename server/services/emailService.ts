@@ -12,6 +12,7 @@ interface EmailParams {
   subject: string;
   text?: string;
   html?: string;
+  replyTo?: string;
 }
 
 export async function sendEmail(params: EmailParams): Promise<boolean> {
@@ -28,6 +29,7 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
     
     if (params.text) emailData.text = params.text;
     if (params.html) emailData.html = params.html;
+    if (params.replyTo) emailData.replyTo = params.replyTo;
     
     await mailService.send(emailData);
     return true;
@@ -101,4 +103,118 @@ Hvis du ikke forventet denne invitasjonen, kan du trygt ignorere denne e-posten.
     text: text,
     html: html
   });
-}
\ No newline at end of file
+}
+
+export async function sendPriceChangeEmail(
+  toEmail: string,
+  carTitle: string,
+  oldPrice: string,
+  newPrice: string | null, // null when the seller may not see a price held at the margin floor
+  daysOnLot: number,
+  applied: boolean,
+  carId: string
+): Promise<boolean> {
+  const baseUrl = process.env.REPLIT_DEV_DOMAIN 
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}` 
+    : process.env.BASE_URL || 'http://localhost:5000';
+  const carUrl = `${baseUrl}/cars/${carId}/profile`;
+  const formatNok = (value: string) => `${Number(value).toLocaleString('nb-NO')} kr`;
+  const summary = newPrice === null
+    ? applied
+      ? `Prisen på ${carTitle} er satt ned fra ${formatNok(oldPrice)} etter ${daysOnLot} dager på lager.`
+      : `${carTitle} har stått ${daysOnLot} dager på lager, og det er foreslått en ny pris (nå ${formatNok(oldPrice)}).`
+    : applied
+      ? `Prisen på ${carTitle} er satt ned fra ${formatNok(oldPrice)} til ${formatNok(newPrice)} etter ${daysOnLot} dager på lager.`
+      : `${carTitle} har stått ${daysOnLot} dager på lager. Foreslått ny pris er ${formatNok(newPrice)} (nå ${formatNok(oldPrice)}).`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">${applied ? 'Pris satt ned' : 'Forslag til ny pris'}</h2>
+      
+      <p>${summary}</p>
+      
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${carUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+          ${applied ? 'Se bilen' : 'Vurder forslaget'}
+        </a>
+      </div>
+      
+      <p style="color: #999; font-size: 12px;">
+        Du får denne e-posten fordi du er ansvarlig selger for bilen. Varsler kan slås av under innstillinger.
+      </p>
+    </div>
+  `;
+
+  return await sendEmail({
+    to: toEmail,
+    from: 'servank@stud.ntnu.no',
+    subject: applied ? `Pris satt ned: ${carTitle}` : `Forslag til ny pris: ${carTitle}`,
+    text: `${summary}\n\n${carUrl}`,
+    html: html
+  });
+}
+
+// Notes and customer names are typed by users, so keep them from becoming markup
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export async function sendFollowupReminderEmail(
+  toEmail: string,
+  summary: string,
+  note: string | null,
+  customerId: string
+): Promise<boolean> {
+  const baseUrl = process.env.REPLIT_DEV_DOMAIN 
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}` 
+    : process.env.BASE_URL || 'http://localhost:5000';
+  const customerUrl = `${baseUrl}/customers/${customerId}/profile`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Påminnelse om oppfølging</h2>
+      
+      <p>${escapeHtml(summary)}</p>
+      ${note ? `<p style="background-color: #f8f9fa; padding: 12px; border-radius: 8px;">${escapeHtml(note)}</p>` : ''}
+      
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${customerUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+          Åpne kunden
+        </a>
+      </div>
+      
+      <p style="color: #999; font-size: 12px;">
+        Du får denne e-posten fordi oppfølgingen er tildelt deg. Varsler kan slås av under innstillinger.
+      </p>
+    </div>
+  `;
+
+  return await sendEmail({
+    to: toEmail,
+    from: 'servank@stud.ntnu.no',
+    subject: `Påminnelse: ${summary}`,
+    text: `${summary}${note ? `\n\n${note}` : ''}\n\n${customerUrl}`,
+    html: html
+  });
+}
+
+// A message written to a customer from the CRM. Replies go to the sender.
+export async function sendCustomerEmail(
+  toEmail: string,
+  subject: string,
+  body: string,
+  replyTo: string | null
+): Promise<boolean> {
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; white-space: pre-wrap;">${escapeHtml(body)}</div>
+  `;
+
+  return await sendEmail({
+    to: toEmail,
+    from: 'servank@stud.ntnu.no',
+    subject,
+    text: body,
+    html: html,
+    replyTo: replyTo ?? undefined,
+  });
+}
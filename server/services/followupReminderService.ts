@@ -0,0 +1,82 @@
+import { storagePromise, type FollowupReminder } from "../storage";
+import { sendFollowupReminderEmail } from "./emailService";
+import { scheduleJob } from "./jobRunner";
+import { sendSms } from "./smsService";
+import type { FollowupType } from "@shared/schema";
+
+const TYPE_LABELS: Record<FollowupType, string> = {
+  call: "Ring",
+  email: "Send e-post til",
+  sms: "Send SMS til",
+  meeting: "Møte med",
+  other: "Følg opp",
+};
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+const DEFAULT_LEAD_MINUTES = 60;
+const STARTUP_DELAY_MS = 2 * 60_000;
+
+function reminderSummary({ followup, customerName }: FollowupReminder): string {
+  const due = followup.dueAt.toLocaleString("nb-NO", {
+    timeZone: "Europe/Oslo",
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+  return `${TYPE_LABELS[followup.type] ?? TYPE_LABELS.other} ${customerName} ${due}`;
+}
+
+/**
+ * Remind assignees about follow-ups due within REMINDER_LEAD_MINUTES,
+ * including overdue ones nobody was reminded about. Email is on unless the
+ * user has turned it off; SMS only when turned on and a phone number is set.
+ * A follow-up is reminded once, even if no channel was available, so turning
+ * notifications off does not queue up old reminders.
+ */
+export async function runFollowupReminderJob(now = new Date()): Promise<{ reminded: number }> {
+  const storage = await storagePromise;
+  const leadMinutes = Number(process.env.REMINDER_LEAD_MINUTES ?? DEFAULT_LEAD_MINUTES);
+  const reminders = await storage.getDueFollowupReminders(new Date(now.getTime() + leadMinutes * 60_000));
+  let reminded = 0;
+
+  for (const reminder of reminders) {
+    try {
+      const summary = reminderSummary(reminder);
+      const deliveries: Promise<boolean>[] = [];
+      if (reminder.assigneeEmail && reminder.notificationsEmail !== false) {
+        deliveries.push(sendFollowupReminderEmail(
+          reminder.assigneeEmail,
+          summary,
+          reminder.followup.note,
+          reminder.followup.customerId,
+        ));
+      }
+      if (reminder.assigneePhone && reminder.notificationsSms === true) {
+        deliveries.push(sendSms(reminder.assigneePhone, `Påminnelse: ${summary}`));
+      }
+
+      const results = await Promise.all(deliveries);
+      if (results.some(Boolean)) reminded++;
+      await storage.markFollowupReminded(reminder.followup.id, now);
+    } catch (error) {
+      console.error(`Reminder failed for follow-up ${reminder.followup.id}:`, error);
+    }
+  }
+
+  return { reminded };
+}
+
+/**
+ * Run the job every FOLLOWUP_REMINDER_INTERVAL_MINUTES (default 15; 0 turns
+ * it off)
+ */
+export function startFollowupReminderSchedule(): void {
+  scheduleJob({
+    name: "Follow-up reminders",
+    intervalMs: Number(process.env.FOLLOWUP_REMINDER_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES) * 60 * 1000,
+    startupDelayMs: STARTUP_DELAY_MS,
+    run: async () => {
+      const { reminded } = await runFollowupReminderJob();
+      return reminded ? `${reminded} sent` : null;
+    },
+  });
+}
@@ -0,0 +1,41 @@
+interface ScheduledJob {
+  /** Prefixes the job's log lines */
+  name: string;
+  /** 0 (or an unparseable setting) turns the job off */
+  intervalMs: number;
+  /** Lets the server finish starting before the first run */
+  startupDelayMs: number;
+  /** Returns a summary to log, or null when the run had nothing to do */
+  run: () => Promise<string | null>;
+}
+
+const scheduled = new Set<string>();
+
+/**
+ * Run a background job every intervalMs, the first time after the startup
+ * delay. A job is only scheduled once, a run still in progress is not started
+ * again, and the timers do not keep the process alive.
+ */
+export function scheduleJob({ name, intervalMs, startupDelayMs, run }: ScheduledJob): void {
+  if (scheduled.has(name) || !(intervalMs > 0)) return;
+  scheduled.add(name);
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const summary = await run();
+      if (summary) {
+        console.log(`${name}: ${summary}`);
+      }
+    } catch (error) {
+      console.error(`${name} job failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setTimeout(tick, startupDelayMs).unref();
+  setInterval(tick, intervalMs).unref();
+}
@@ -0,0 +1,42 @@
+import { storagePromise } from "../storage";
+import { scheduleJob } from "./jobRunner";
+
+const DEFAULT_INTERVAL_HOURS = 24;
+const DEFAULT_HORIZON_DAYS = 365;
+const STARTUP_DELAY_MS = 5 * 60_000;
+
+/**
+ * Run EU control playbooks for sold cars whose next EU control is within
+ * EU_CONTROL_HORIZON_DAYS. Each car and deadline runs a playbook once, so
+ * the horizon only needs to cover the earliest step of any playbook.
+ */
+export async function runEuControlPlaybookJob(now = new Date()): Promise<{ events: number; followups: number }> {
+  const storage = await storagePromise;
+  const horizonDays = Number(process.env.EU_CONTROL_HORIZON_DAYS ?? DEFAULT_HORIZON_DAYS);
+  const until = new Date(now.getTime() + horizonDays * 24 * 60 * 60 * 1000);
+  const events = await storage.getEuControlEvents(now, until);
+  let followups = 0;
+
+  for (const event of events) {
+    try {
+      followups += await storage.runEuControlPlaybooks(event, now);
+    } catch (error) {
+      console.error(`EU control playbook failed for car ${event.carId}:`, error);
+    }
+  }
+
+  return { events: events.length, followups };
+}
+
+/** Run the job every PLAYBOOK_INTERVAL_HOURS (default 24; 0 turns it off) */
+export function startPlaybookSchedule(): void {
+  scheduleJob({
+    name: "EU control playbooks",
+    intervalMs: Number(process.env.PLAYBOOK_INTERVAL_HOURS ?? DEFAULT_INTERVAL_HOURS) * 60 * 60 * 1000,
+    startupDelayMs: STARTUP_DELAY_MS,
+    run: async () => {
+      const { followups } = await runEuControlPlaybookJob();
+      return followups ? `${followups} follow-ups created` : null;
+    },
+  });
+}
@@ -0,0 +1,224 @@
+import { storagePromise } from "../storage";
+import { getQuantileModel, type QuantileModelInput, type QuantilePrediction } from "../ml/quantileModel";
+import type { Car, MarketComp, PricingRules } from "@shared/schema";
+
+export interface PriceRecommendation {
+  carId: string;
+  currentPrice: number;
+  recommendedPrice: number;
+  // The recommended price is the target margin or the margin floor on cost
+  costBased: boolean;
+  marketPrice: number | null;
+  daysInStock: number;
+  agingDiscountPct: number;
+  // Cost-based bounds; only shown to users who may see cost
+  floorPrice: number | null;
+  targetPrice: number | null;
+  quantiles: QuantilePrediction | null;
+  comps: {
+    count: number;
+    median: number | null;
+    p25: number | null;
+    p75: number | null;
+    sample: Array<Pick<MarketComp, "id" | "source" | "year" | "km" | "location"> & { price: number }>;
+  };
+  explanation: string[];
+  // Why the price comes from cost, after the rest of the explanation
+  costExplanation: string[];
+}
+
+const DEFAULT_RULES = {
+  targetGrossPct: "0.12",
+  minGrossPct: "0.05",
+  agingDays1: 30,
+  agingDisc1: "0.02",
+  agingDays2: 45,
+  agingDisc2: "0.03",
+  agingDays3: 60,
+  agingDisc3: "0.05",
+} satisfies Partial<PricingRules>;
+
+export type Rules = typeof DEFAULT_RULES;
+
+// Fewer comparables than this and their median is not trusted on its own
+const MIN_COMPS = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const nok = (value: number) => `${Math.round(value).toLocaleString("nb-NO")} kr`;
+const pct = (value: number) => `${(value * 100).toLocaleString("nb-NO", { maximumFractionDigits: 1 })} %`;
+
+function roundPrice(value: number): number {
+  return Math.round(value / 1000) * 1000;
+}
+
+function quantile(sorted: number[], q: number): number | null {
+  if (sorted.length === 0) return null;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+export function daysInStock(car: Pick<Car, "createdAt">, now = new Date()): number {
+  if (!car.createdAt) return 0;
+  return Math.max(0, Math.floor((now.getTime() - new Date(car.createdAt).getTime()) / MS_PER_DAY));
+}
+
+// The deepest aging tier (1-3) the car has reached and its discount; tier 0 before the first
+export function agingTier(rules: Rules, days: number): { tier: number; discount: number } {
+  const tiers = [
+    [3, rules.agingDays3, rules.agingDisc3],
+    [2, rules.agingDays2, rules.agingDisc2],
+    [1, rules.agingDays1, rules.agingDisc1],
+  ] as const;
+  for (const [tier, threshold, discount] of tiers) {
+    if (days >= threshold) return { tier, discount: Number(discount) };
+  }
+  return { tier: 0, discount: 0 };
+}
+
+export async function getEffectiveRules(): Promise<Rules> {
+  const storage = await storagePromise;
+  return (await storage.getPricingRules()) ?? DEFAULT_RULES;
+}
+
+// Lowest list price that keeps the minimum gross margin on cost plus recon, null without a cost
+export function marginFloor(car: Pick<Car, "costPrice" | "recondCost">, rules: Rules): number | null {
+  const cost = Number(car.costPrice || 0) + Number(car.recondCost || 0);
+  return cost > 0 ? cost * (1 + Number(rules.minGrossPct)) : null;
+}
+
+// The training data (FINN) uses English labels; cars use the SVV ones
+function modelInput(car: Car): QuantileModelInput {
+  const fuel = car.fuelType ?? "";
+  const gearbox = (car.gearbox || car.transmission || "").toLowerCase();
+  return {
+    year: car.year,
+    km: car.mileage,
+    fuel_type: fuel === "Elektrisk" ? "Electric" : fuel === "Bensin" ? "Petrol" : fuel || "Petrol",
+    gear: gearbox.startsWith("auto") ? "Auto" : "Manual",
+  };
+}
+
+/**
+ * Quantile prediction for the car, or null when no price model is deployed,
+ * so recommendations still work from comparables and rules alone.
+ */
+export function predictQuantiles(car: Car): QuantilePrediction | null {
+  return getQuantileModel()?.predict(modelInput(car)) ?? null;
+}
+
+async function findComparables(car: Car): Promise<MarketComp[]> {
+  const storage = await storagePromise;
+  const comps = await storage.getMarketComps({
+    brand: car.make,
+    model: car.model,
+    yearMin: car.year - 2,
+    yearMax: car.year + 2,
+    kmMin: Math.round(car.mileage * 0.6),
+    kmMax: Math.round(car.mileage * 1.4) + 20_000,
+    limit: 50,
+  });
+  return comps.filter(comp => Number(comp.price) > 0);
+}
+
+/**
+ * Suggest a list price for a car: the market price from comparables and the
+ * quantile model, less the aging discount the car has reached, kept at or
+ * above the minimum gross margin on cost plus reconditioning.
+ */
+export async function recommendPrice(carId: string, userId: string): Promise<PriceRecommendation> {
+  const storage = await storagePromise;
+  const car = await storage.getCarById(carId, userId);
+  if (!car) {
+    throw new Error("Car not found");
+  }
+
+  const [rules, comps] = await Promise.all([
+    getEffectiveRules(),
+    findComparables(car),
+  ]);
+  const quantiles = predictQuantiles(car);
+  const explanation: string[] = [];
+
+  const prices = comps.map(comp => Number(comp.price)).sort((a, b) => a - b);
+  const compMedian = quantile(prices, 0.5);
+  const trustComps = prices.length >= MIN_COMPS;
+  if (compMedian !== null) {
+    explanation.push(`${prices.length} sammenlignbare annonser har medianpris ${nok(compMedian)}.`);
+  } else {
+    explanation.push("Fant ingen sammenlignbare annonser i markedet.");
+  }
+  if (quantiles) {
+    explanation.push(
+      `Prismodellen anslår ${nok(quantiles.p50)} (intervall ${nok(quantiles.p10)}–${nok(quantiles.p90)}).`,
+    );
+  }
+
+  let marketPrice: number | null = null;
+  if (trustComps && compMedian !== null && quantiles) {
+    marketPrice = (compMedian + quantiles.p50) / 2;
+    explanation.push("Markedspris er snittet av annonsemedianen og modellens anslag.");
+  } else if (quantiles) {
+    marketPrice = quantiles.p50;
+  } else if (compMedian !== null) {
+    marketPrice = compMedian;
+    if (!trustComps) explanation.push("Få sammenlignbare annonser, så anslaget er usikkert.");
+  }
+
+  const cost = Number(car.costPrice || 0) + Number(car.recondCost || 0);
+  const floorPrice = marginFloor(car, rules);
+  const targetPrice = cost > 0 ? cost * (1 + Number(rules.targetGrossPct)) : null;
+  const currentPrice = Number(car.salePrice || 0);
+
+  const costExplanation: string[] = [];
+  let basePrice = marketPrice ?? targetPrice ?? currentPrice;
+  if (marketPrice === null && targetPrice !== null) {
+    costExplanation.push(`Uten markedsdata brukes målmargin på ${pct(Number(rules.targetGrossPct))} over kost og klargjøring.`);
+  } else if (marketPrice === null) {
+    explanation.push("Uten markedsdata eller kost beholdes dagens pris som utgangspunkt.");
+  }
+
+  const days = daysInStock(car);
+  const { discount } = agingTier(rules, days);
+  if (discount > 0) {
+    basePrice *= 1 - discount;
+    explanation.push(`Bilen har stått ${days} dager; prisen er redusert med ${pct(discount)}.`);
+  }
+
+  let recommendedPrice = roundPrice(basePrice);
+  if (floorPrice !== null && recommendedPrice < floorPrice) {
+    recommendedPrice = Math.ceil(floorPrice / 1000) * 1000;
+    costExplanation.push(`Hevet til minstemargin på ${pct(Number(rules.minGrossPct))} over kost og klargjøring.`);
+  }
+
+  return {
+    carId: car.id,
+    currentPrice,
+    recommendedPrice,
+    costBased: costExplanation.length > 0,
+    marketPrice: marketPrice === null ? null : roundPrice(marketPrice),
+    daysInStock: days,
+    agingDiscountPct: discount,
+    floorPrice: floorPrice === null ? null : Math.round(floorPrice),
+    targetPrice: targetPrice === null ? null : Math.round(targetPrice),
+    quantiles,
+    comps: {
+      count: prices.length,
+      median: compMedian === null ? null : Math.round(compMedian),
+      p25: trustComps ? Math.round(quantile(prices, 0.25)!) : null,
+      p75: trustComps ? Math.round(quantile(prices, 0.75)!) : null,
+      sample: comps.slice(0, 5).map(comp => ({
+        id: comp.id,
+        source: comp.source,
+        year: comp.year,
+        km: comp.km,
+        location: comp.location,
+        price: Number(comp.price),
+      })),
+    },
+    explanation,
+    costExplanation,
+  };
+}
@@ -0,0 +1,238 @@
+import { storagePromise, type CustomerDataExport } from "../storage";
+import { scheduleJob } from "./jobRunner";
+import type { ActivityLog, Car, Contract, Customer, CustomerMessage, Followup, Lead } from "@shared/schema";
+
+const EXPORT_FORMAT = "car-dealer-crm.customer-export";
+const EXPORT_VERSION = 1;
+const RETENTION_REASON = "Oppbevaringstid utløpt";
+
+const DEFAULT_INTERVAL_HOURS = 24;
+const STARTUP_DELAY_MS = 5 * 60_000;
+
+/**
+ * What a customer gets back from an access request. Internal figures such
+ * as trade-in recon cost, add-on cost and margins are not personal data and
+ * are left out.
+ */
+export interface CustomerExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  controller: { companyId: string; name: string | null; organizationNumber: string | null };
+  customer: Customer;
+  contracts: ExportedContract[];
+  followups: Followup[];
+  messages: Array<Pick<CustomerMessage, "channel" | "direction" | "status" | "fromAddress" | "toAddress" | "subject" | "body" | "createdAt">>;
+  leads: Array<Pick<Lead, "name" | "email" | "phone" | "source" | "sourceDetail" | "stage" | "lostReason" | "notes" | "createdAt" | "convertedAt">>;
+  activity: Array<Pick<ActivityLog, "type" | "message" | "entityType" | "entityId" | "createdAt">>;
+}
+
+interface ExportedContract {
+  id: string;
+  contractNumber: string;
+  contractTemplate: string;
+  status: string | null;
+  saleDate: Date;
+  salePrice: string;
+  notes: string | null;
+  car: ExportedCar | null;
+  addOns: Array<{ description: string; price: string; quantity: number }>;
+  tradeIn: {
+    registration: string | null;
+    car: ExportedCar | null;
+    valuation: string | null;
+    owedToCustomer: string | null;
+  } | null;
+  statusHistory: Array<{ fromStatus: string | null; toStatus: string; reason: string | null; createdAt: Date | null }>;
+  signing: {
+    provider: string | null;
+    documentId: string | null;
+    status: string | null;
+    method: string | null;
+    sentAt: Date | null;
+    signedAt: Date | null;
+    signerName: string | null;
+    signerEmail: string | null;
+    signerPhone: string | null;
+    events: Array<{ eventId: string; receivedAt: Date | null; processedAt: Date | null; payload: unknown }>;
+  };
+  amendments: Array<{
+    amendmentNumber: number;
+    kind: string;
+    description: string;
+    priceAdjustment: string;
+    deliveryDate: Date | null;
+    status: string;
+    signing: { provider: string | null; documentId: string | null; status: string | null; signedAt: Date | null; signerName: string | null };
+    createdAt: Date | null;
+  }>;
+  createdAt: Date | null;
+}
+
+type ExportedCar = Pick<Car, "registrationNumber" | "make" | "model" | "year" | "vin">;
+
+function exportCar(car: Car | undefined): ExportedCar | null {
+  if (!car) return null;
+  return { registrationNumber: car.registrationNumber, make: car.make, model: car.model, year: car.year, vin: car.vin };
+}
+
+function exportContract(contract: Contract, data: CustomerDataExport): ExportedContract {
+  const carById = new Map(data.cars.map(car => [car.id, car]));
+  return {
+    id: contract.id,
+    contractNumber: contract.contractNumber,
+    contractTemplate: contract.contractTemplate,
+    status: contract.status,
+    saleDate: contract.saleDate,
+    salePrice: contract.salePrice,
+    notes: contract.notes,
+    car: exportCar(carById.get(contract.carId)),
+    addOns: (contract.addOns ?? []).map(({ description, price, quantity }) => ({ description, price, quantity })),
+    tradeIn: contract.tradeInRegistration || contract.tradeInCarId
+      ? {
+          registration: contract.tradeInRegistration,
+          car: exportCar(contract.tradeInCarId ? carById.get(contract.tradeInCarId) : undefined),
+          valuation: contract.tradeInValuation,
+          owedToCustomer: contract.tradeInOwedToCustomer,
+        }
+      : null,
+    statusHistory: data.statusTransitions
+      .filter(transition => transition.contractId === contract.id)
+      .map(({ fromStatus, toStatus, reason, createdAt }) => ({ fromStatus, toStatus, reason, createdAt })),
+    signing: {
+      provider: contract.signingProvider,
+      documentId: contract.signingDocumentId,
+      status: contract.signingStatus,
+      method: contract.signingMethod,
+      sentAt: contract.eSignSentAt,
+      signedAt: contract.signedAt,
+      signerName: contract.signerName,
+      signerEmail: contract.signerEmail,
+      signerPhone: contract.signerPhone,
+      events: data.signingEvents
+        .filter(event => event.contractId === contract.id)
+        .map(({ eventId, receivedAt, processedAt, payload }) => ({ eventId, receivedAt, processedAt, payload })),
+    },
+    amendments: data.amendments
+      .filter(amendment => amendment.contractId === contract.id)
+      .map(amendment => ({
+        amendmentNumber: amendment.amendmentNumber,
+        kind: amendment.kind,
+        description: amendment.description,
+        priceAdjustment: amendment.priceAdjustment,
+        deliveryDate: amendment.deliveryDate,
+        status: amendment.status,
+        signing: {
+          provider: amendment.signingProvider,
+          documentId: amendment.signingDocumentId,
+          status: amendment.signingStatus,
+          signedAt: amendment.signedAt,
+          signerName: amendment.signerName,
+        },
+        createdAt: amendment.createdAt,
+      })),
+    createdAt: contract.createdAt,
+  };
+}
+
+/**
+ * Collect everything kept about a customer into one machine-readable bundle
+ * and record the access request.
+ */
+export async function exportCustomerData(customerId: string, companyId: string, requestedBy: string): Promise<CustomerExportBundle> {
+  const storage = await storagePromise;
+  const [data, company, settings] = await Promise.all([
+    storage.getCustomerDataExport(customerId, companyId),
+    storage.getCompany(companyId),
+    storage.getCompanySettings(companyId),
+  ]);
+
+  await storage.recordPrivacyRequest({
+    companyId,
+    customerId,
+    type: "export",
+    outcome: "exported",
+    requestedBy,
+    details: { contracts: data.contracts.length },
+  });
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    controller: {
+      companyId,
+      name: company?.name ?? null,
+      organizationNumber: settings?.organizationNumber ?? null,
+    },
+    customer: data.customer,
+    contracts: data.contracts.map(contract => exportContract(contract, data)),
+    followups: data.followups,
+    messages: data.messages.map(({ channel, direction, status, fromAddress, toAddress, subject, body, createdAt }) => ({
+      channel,
+      direction,
+      status,
+      fromAddress,
+      toAddress,
+      subject,
+      body,
+      createdAt,
+    })),
+    leads: data.leads.map(({ name, email, phone, source, sourceDetail, stage, lostReason, notes, createdAt, convertedAt }) => ({
+      name,
+      email,
+      phone,
+      source,
+      sourceDetail,
+      stage,
+      lostReason,
+      notes,
+      createdAt,
+      convertedAt,
+    })),
+    activity: data.activity.map(({ type, message, entityType, entityId, createdAt }) => ({
+      type,
+      message,
+      entityType,
+      entityId,
+      createdAt,
+    })),
+  };
+}
+
+/**
+ * Erase customers that have been inactive past their company's limit, then
+ * clear signer details on erased customers' contracts whose retention has
+ * run out. Each customer is handled on its own so one failure does not stop
+ * the rest.
+ */
+export async function runRetentionJob(now = new Date()): Promise<{ erased: number; contractsRedacted: number }> {
+  const storage = await storagePromise;
+  const candidates = await storage.getRetentionCandidates(now);
+  let erased = 0;
+
+  for (const { companyId, customerId } of candidates) {
+    try {
+      await storage.eraseCustomer(customerId, companyId, null, RETENTION_REASON, now);
+      erased++;
+    } catch (error) {
+      console.error(`Retention erasure failed for customer ${customerId}:`, error);
+    }
+  }
+
+  const contractsRedacted = await storage.redactExpiredContracts(now);
+  return { erased, contractsRedacted };
+}
+
+/** Run the job every RETENTION_INTERVAL_HOURS (default 24; 0 turns it off) */
+export function startRetentionSchedule(): void {
+  scheduleJob({
+    name: "Retention",
+    intervalMs: Number(process.env.RETENTION_INTERVAL_HOURS ?? DEFAULT_INTERVAL_HOURS) * 60 * 60 * 1000,
+    startupDelayMs: STARTUP_DELAY_MS,
+    run: async () => {
+      const { erased, contractsRedacted } = await runRetentionJob();
+      return erased || contractsRedacted ? `${erased} customers erased, ${contractsRedacted} contracts redacted` : null;
+    },
+  });
+}
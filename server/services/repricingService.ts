@@ -0,0 +1,121 @@
+import { storagePromise, type RepricingCandidate } from "../storage";
+import { RoleBasedAccessControl } from "../rbac";
+import { sendPriceChangeEmail } from "./emailService";
+import { scheduleJob } from "./jobRunner";
+import { agingTier, daysInStock, getEffectiveRules, marginFloor, type Rules } from "./pricingService";
+import type { Car, CarPriceSuggestion } from "@shared/schema";
+
+const DEFAULT_INTERVAL_HOURS = 6;
+const STARTUP_DELAY_MS = 60_000;
+
+export interface AgingProposal {
+  tier: number;
+  daysOnLot: number;
+  price: number;
+  floorClamped: boolean;
+  reason: string;
+}
+
+/**
+ * The drop for a tier the car has newly reached: that tier's discount off
+ * the current list price, held at the minimum gross margin. Null when the
+ * tier was handled before or the margin leaves no room to go lower.
+ */
+export function proposeAgingPrice(candidate: RepricingCandidate, rules: Rules, now = new Date()): AgingProposal | null {
+  const { car, lastTier } = candidate;
+  const days = daysInStock(car, now);
+  const { tier, discount } = agingTier(rules, days);
+  const current = Number(car.salePrice || 0);
+  if (tier <= lastTier || discount <= 0 || current <= 0) return null;
+
+  let price = Math.floor((current * (1 - discount)) / 1000) * 1000;
+  let reason = `Stått ${days} dager (trinn ${tier}): ${(discount * 100).toLocaleString("nb-NO")} % ned`;
+  const floor = marginFloor(car, rules);
+  const floorClamped = floor !== null && price < floor;
+  if (floorClamped) {
+    price = Math.ceil(floor / 1000) * 1000;
+    reason += ", begrenset av minstemargin";
+  }
+  if (price >= current) return null;
+
+  return { tier, daysOnLot: days, price, floorClamped, reason };
+}
+
+// Email the car's seller unless they have turned email notifications off
+async function notifySeller(car: Car, suggestion: CarPriceSuggestion): Promise<void> {
+  const storage = await storagePromise;
+  const [seller, settings] = await Promise.all([
+    storage.getUser(car.userId),
+    storage.getUserSettings(car.userId),
+  ]);
+  if (!seller?.email || settings?.notificationsEmail === false) return;
+
+  const access = await RoleBasedAccessControl.getUserAccess(car.userId, car.companyId);
+  const { suggestedPrice } = access
+    ? RoleBasedAccessControl.maskPriceSuggestion(suggestion, access)
+    : { suggestedPrice: null };
+  await sendPriceChangeEmail(
+    seller.email,
+    `${car.make} ${car.model} (${car.registrationNumber})`,
+    suggestion.currentPrice,
+    suggestedPrice,
+    suggestion.daysOnLot,
+    suggestion.status === "applied",
+    car.id,
+  );
+}
+
+/**
+ * One pass over every available car in companies that have not turned
+ * repricing off. Each car is handled on its own so one failure does not
+ * stop the rest.
+ */
+export async function runRepricingJob(now = new Date()): Promise<{ suggested: number; applied: number }> {
+  const storage = await storagePromise;
+  const [rules, candidates] = await Promise.all([getEffectiveRules(), storage.getRepricingCandidates()]);
+  const result = { suggested: 0, applied: 0 };
+
+  for (const candidate of candidates) {
+    const proposal = proposeAgingPrice(candidate, rules, now);
+    if (!proposal) continue;
+
+    const { car } = candidate;
+    try {
+      const suggestion = await storage.recordPriceSuggestion({
+        companyId: car.companyId,
+        carId: car.id,
+        agingTier: proposal.tier,
+        daysOnLot: proposal.daysOnLot,
+        currentPrice: car.salePrice ?? "0",
+        suggestedPrice: String(proposal.price),
+        floorClamped: proposal.floorClamped,
+        reason: proposal.reason,
+      }, candidate.mode === "auto");
+      if (!suggestion) continue;
+
+      if (suggestion.status === "applied") result.applied++;
+      else result.suggested++;
+
+      await notifySeller(car, suggestion).catch(error => {
+        console.error(`Failed to notify seller about repricing of car ${car.id}:`, error);
+      });
+    } catch (error) {
+      console.error(`Repricing failed for car ${car.id}:`, error);
+    }
+  }
+
+  return result;
+}
+
+/** Run the job every REPRICING_INTERVAL_HOURS (default 6; 0 turns it off) */
+export function startRepricingSchedule(): void {
+  scheduleJob({
+    name: "Repricing",
+    intervalMs: Number(process.env.REPRICING_INTERVAL_HOURS ?? DEFAULT_INTERVAL_HOURS) * 60 * 60 * 1000,
+    startupDelayMs: STARTUP_DELAY_MS,
+    run: async () => {
+      const { suggested, applied } = await runRepricingJob();
+      return suggested || applied ? `${suggested} suggested, ${applied} applied` : null;
+    },
+  });
+}
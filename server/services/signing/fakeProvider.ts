@@ -0,0 +1,176 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { signWebhookPayload, webhookSecret } from "./webhook";
+import { SIGNING_STATUSES } from "./types";
+import type {
+  CreateSigningRequest,
+  SignedDocumentFile,
+  SigningProvider,
+  SigningSession,
+  SigningStatusResult,
+  SigningStatus,
+  SigningWebhookNotification,
+} from "./types";
+
+interface FakeDocument {
+  documentId: string;
+  contractId: string;
+  contractNumber: string;
+  title: string;
+  signerName: string;
+  status: SigningStatus;
+  content: Buffer;
+  mimeType: string;
+  redirectUrl?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  signedAt?: Date;
+}
+
+const EXPIRY_DAYS = 30;
+
+// The callback body sendWebhook posts
+const fakeWebhookSchema = z.object({
+  eventId: z.string().min(1),
+  documentId: z.string().min(1),
+  status: z.enum(SIGNING_STATUSES),
+  signedAt: z.string().datetime().optional(),
+  signerName: z.string().optional(),
+});
+
+/**
+ * Local stand-in for a real e-signing service. Documents live in memory and
+ * are signed or rejected through the /api/esign/fake pages, so the whole
+ * send → sign → webhook flow can be exercised without provider credentials.
+ */
+export class FakeSigningProvider implements SigningProvider {
+  readonly name = "fake" as const;
+  readonly webhookSignatureHeader = "x-fake-signature";
+  private documents = new Map<string, FakeDocument>();
+
+  constructor(private baseUrl: string) {}
+
+  async createSigningRequest(request: CreateSigningRequest): Promise<SigningSession> {
+    const documentId = `fake-${randomUUID()}`;
+    const now = new Date();
+
+    this.documents.set(documentId, {
+      documentId,
+      contractId: request.contractId,
+      contractNumber: request.contractNumber,
+      title: request.document.title,
+      signerName: request.signer.name,
+      status: "pending",
+      content: request.document.content,
+      mimeType: request.document.mimeType,
+      redirectUrl: request.redirectUrl,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    return {
+      documentId,
+      signingUrl: `${this.baseUrl}/api/esign/fake/${documentId}`,
+      status: "pending",
+    };
+  }
+
+  async getStatus(documentId: string): Promise<SigningStatusResult> {
+    const doc = this.getDocument(documentId);
+    if (!doc) {
+      throw new Error(`Unknown signing document ${documentId}`);
+    }
+
+    return {
+      status: doc.status,
+      signedAt: doc.signedAt,
+      signerName: doc.status === "signed" ? doc.signerName : undefined,
+    };
+  }
+
+  async cancel(documentId: string): Promise<void> {
+    const doc = this.getDocument(documentId);
+    if (doc && doc.status === "pending") {
+      doc.status = "rejected";
+    }
+  }
+
+  parseWebhook(payload: any): SigningWebhookNotification {
+    const parsed = fakeWebhookSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new Error("Malformed fake webhook");
+    }
+    const { eventId, documentId, status, signedAt, signerName } = parsed.data;
+    return {
+      eventId,
+      documentId,
+      status,
+      signedAt: signedAt ? new Date(signedAt) : undefined,
+      signerName,
+    };
+  }
+
+  async downloadSignedDocument(documentId: string): Promise<SignedDocumentFile> {
+    const doc = this.getDocument(documentId);
+    if (!doc || doc.status !== "signed") {
+      throw new Error(`No signed document for ${documentId}`);
+    }
+    return { content: doc.content, mimeType: doc.mimeType };
+  }
+
+  getDocument(documentId: string): FakeDocument | undefined {
+    const doc = this.documents.get(documentId);
+    if (doc && doc.status === "pending" && doc.expiresAt.getTime() < Date.now()) {
+      doc.status = "expired";
+    }
+    return doc;
+  }
+
+  /**
+   * Simulate the signer completing or declining the document, then notify
+   * our own webhook endpoint the way a real provider would
+   */
+  async complete(documentId: string, outcome: "signed" | "rejected"): Promise<FakeDocument> {
+    const doc = this.getDocument(documentId);
+    if (!doc) {
+      throw new Error(`Unknown signing document ${documentId}`);
+    }
+    if (doc.status !== "pending") {
+      throw new Error(`Document is already ${doc.status}`);
+    }
+
+    doc.status = outcome;
+    if (outcome === "signed") {
+      doc.signedAt = new Date();
+    }
+
+    await this.sendWebhook(doc);
+    return doc;
+  }
+
+  private async sendWebhook(doc: FakeDocument): Promise<void> {
+    const body = JSON.stringify({
+      eventId: randomUUID(),
+      documentId: doc.documentId,
+      status: doc.status,
+      signedAt: doc.signedAt?.toISOString(),
+      signerName: doc.signerName,
+    });
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/webhooks/esign/fake`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [this.webhookSignatureHeader]: signWebhookPayload(webhookSecret(this.name), body),
+        },
+        body,
+      });
+      if (!response.ok) {
+        console.error(`Fake signing webhook returned ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Failed to deliver fake signing webhook:", error);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// Small fetch wrapper shared by the provider adapters
+
+export async function providerRequest<T = any>(
+  provider: string,
+  url: string,
+  init: RequestInit & { timeoutMs?: number } = {},
+): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), init.timeoutMs ?? 15000);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`${provider} returned ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  } catch (error: any) {
+    if (error.name === "AbortError") {
+      throw new Error(`${provider} request timed out`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function providerDownload(
+  provider: string,
+  url: string,
+  init: RequestInit = {},
+): Promise<{ content: Buffer; mimeType: string }> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${provider} returned ${response.status} when downloading document`);
+  }
+  return {
+    content: Buffer.from(await response.arrayBuffer()),
+    mimeType: response.headers.get("content-type")?.split(";")[0] || "application/pdf",
+  };
+}
+
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+}
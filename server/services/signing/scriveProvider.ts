@@ -0,0 +1,174 @@
+import { providerDownload, providerRequest, requireEnv } from "./http";
+import type {
+  CreateSigningRequest,
+  SignedDocumentFile,
+  SigningProvider,
+  SigningSession,
+  SigningStatus,
+  SigningStatusResult,
+  SigningWebhookNotification,
+} from "./types";
+
+// Scrive Document API v2 (https://apidocs.scrive.com)
+const DEFAULT_API_URL = "https://scrive.com/api/v2";
+
+interface ScriveParty {
+  is_signatory: boolean;
+  sign_time: string | null;
+  rejected_time: string | null;
+  api_delivery_url: string | null;
+  fields: Array<{ type: string; order?: number; value: string }>;
+  delivery_method?: string;
+  authentication_method_to_sign?: string;
+}
+
+interface ScriveDocument {
+  id: string;
+  status: string;
+  parties: ScriveParty[];
+}
+
+function mapStatus(status: string): SigningStatus {
+  switch (status) {
+    case "closed":
+      return "signed";
+    case "rejected":
+    case "canceled":
+    case "document_error":
+      return "rejected";
+    case "timedout":
+      return "expired";
+    case "preparation":
+    case "pending":
+    default:
+      return "pending";
+  }
+}
+
+export class ScriveSigningProvider implements SigningProvider {
+  readonly name = "scrive" as const;
+  readonly webhookSignatureHeader = "x-scrive-signature";
+
+  private get apiUrl() {
+    return process.env.SCRIVE_API_URL || DEFAULT_API_URL;
+  }
+
+  // Personal access credentials, sent as OAuth PLAINTEXT
+  private authHeader(): string {
+    const apiToken = requireEnv("SCRIVE_API_TOKEN");
+    const apiSecret = requireEnv("SCRIVE_API_SECRET");
+    const accessToken = requireEnv("SCRIVE_ACCESS_TOKEN");
+    const accessSecret = requireEnv("SCRIVE_ACCESS_SECRET");
+    return `oauth_signature_method="PLAINTEXT", oauth_consumer_key="${apiToken}", ` +
+      `oauth_token="${accessToken}", oauth_signature="${apiSecret}&${accessSecret}"`;
+  }
+
+  async createSigningRequest(request: CreateSigningRequest): Promise<SigningSession> {
+    const authorization = this.authHeader();
+
+    const upload = new FormData();
+    upload.append(
+      "file",
+      new Blob([request.document.content], { type: request.document.mimeType }),
+      request.document.fileName,
+    );
+    upload.append("saved", "false");
+
+    const draft = await providerRequest<ScriveDocument>(this.name, `${this.apiUrl}/documents/new`, {
+      method: "POST",
+      headers: { Authorization: authorization },
+      body: upload,
+    });
+
+    // Keep the author party as-is and add the customer as signatory with API delivery
+    const [firstName, ...rest] = request.signer.name.split(" ");
+    const signatory: Partial<ScriveParty> = {
+      is_signatory: true,
+      delivery_method: "api",
+      authentication_method_to_sign: request.signer.method === "bankid" ? "no_bankid" : "standard",
+      fields: [
+        { type: "name", order: 1, value: firstName },
+        { type: "name", order: 2, value: rest.join(" ") },
+        { type: "email", value: request.signer.email || "" },
+        { type: "mobile", value: request.signer.phone || "" },
+      ],
+    };
+
+    const update = new URLSearchParams({
+      document: JSON.stringify({
+        title: request.document.title,
+        parties: [...draft.parties.map(p => ({ ...p, is_signatory: false })), signatory],
+        api_callback_url: process.env.SCRIVE_CALLBACK_URL || null,
+        lang: "no",
+      }),
+    });
+    await providerRequest(this.name, `${this.apiUrl}/documents/${draft.id}/update`, {
+      method: "POST",
+      headers: { Authorization: authorization, "Content-Type": "application/x-www-form-urlencoded" },
+      body: update,
+    });
+
+    const started = await providerRequest<ScriveDocument>(this.name, `${this.apiUrl}/documents/${draft.id}/start`, {
+      method: "POST",
+      headers: { Authorization: authorization },
+    });
+
+    const signer = started.parties.find(p => p.is_signatory && p.api_delivery_url);
+    if (!signer?.api_delivery_url) {
+      throw new Error("scrive did not return a signing link");
+    }
+
+    return {
+      documentId: started.id,
+      signingUrl: new URL(signer.api_delivery_url, this.apiUrl).toString(),
+      status: mapStatus(started.status),
+    };
+  }
+
+  async getStatus(documentId: string): Promise<SigningStatusResult> {
+    const doc = await providerRequest<ScriveDocument>(this.name, `${this.apiUrl}/documents/${documentId}/get`, {
+      headers: { Authorization: this.authHeader() },
+    });
+
+    const signer = doc.parties.find(p => p.is_signatory && p.sign_time);
+    const name = signer?.fields.filter(f => f.type === "name").map(f => f.value).join(" ").trim();
+    return {
+      status: mapStatus(doc.status),
+      signedAt: signer?.sign_time ? new Date(signer.sign_time) : undefined,
+      signerName: name || undefined,
+    };
+  }
+
+  async cancel(documentId: string): Promise<void> {
+    await providerRequest(this.name, `${this.apiUrl}/documents/${documentId}/cancel`, {
+      method: "POST",
+      headers: { Authorization: this.authHeader() },
+    });
+  }
+
+  // Callback body is the full document JSON; Scrive has no delivery ID, so
+  // document ID + status identifies the event
+  parseWebhook(payload: any): SigningWebhookNotification {
+    const doc: ScriveDocument | undefined = typeof payload?.document_json === "string"
+      ? JSON.parse(payload.document_json)
+      : payload?.document_json ?? payload;
+    if (!doc?.id || !doc.status) {
+      throw new Error("Malformed scrive webhook");
+    }
+    const signer = doc.parties?.find(p => p.is_signatory && p.sign_time);
+    const name = signer?.fields.filter(f => f.type === "name").map(f => f.value).join(" ").trim();
+    return {
+      eventId: `${doc.id}:${doc.status}`,
+      documentId: String(doc.id),
+      status: mapStatus(doc.status),
+      signedAt: signer?.sign_time ? new Date(signer.sign_time) : undefined,
+      signerName: name || undefined,
+    };
+  }
+
+  async downloadSignedDocument(documentId: string): Promise<SignedDocumentFile> {
+    return providerDownload(this.name, `${this.apiUrl}/documents/${documentId}/files/main/signed.pdf`, {
+      headers: { Authorization: this.authHeader() },
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { providerDownload, providerRequest, requireEnv } from "./http";
+import type {
+  CreateSigningRequest,
+  SignedDocumentFile,
+  SigningProvider,
+  SigningSession,
+  SigningStatus,
+  SigningStatusResult,
+  SigningWebhookNotification,
+} from "./types";
+
+// Signant Connect REST API
+const DEFAULT_API_URL = "https://connect.signant.com/api/v1";
+
+function mapStatus(status?: string): SigningStatus {
+  switch (status) {
+    case "Completed":
+      return "signed";
+    case "Declined":
+    case "Cancelled":
+      return "rejected";
+    case "Expired":
+      return "expired";
+    default:
+      return "pending";
+  }
+}
+
+export class SignantSigningProvider implements SigningProvider {
+  readonly name = "signant" as const;
+  readonly webhookSignatureHeader = "x-signant-signature";
+
+  private get apiUrl() {
+    return process.env.SIGNANT_API_URL || DEFAULT_API_URL;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "X-Distributor-Id": requireEnv("SIGNANT_DISTRIBUTOR_ID"),
+      "X-Access-Code": requireEnv("SIGNANT_ACCESS_CODE"),
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    };
+  }
+
+  async createSigningRequest(request: CreateSigningRequest): Promise<SigningSession> {
+    const posting = await providerRequest<{
+      postingId: string;
+      recipients: Array<{ signingUrl: string }>;
+    }>(this.name, `${this.apiUrl}/postings`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({
+        title: request.document.title,
+        externalReference: request.contractNumber,
+        returnUrl: request.redirectUrl,
+        attachments: [{
+          fileName: request.document.fileName,
+          mimeType: request.document.mimeType,
+          data: request.document.content.toString("base64"),
+          actionType: "Sign",
+        }],
+        recipients: [{
+          name: request.signer.name,
+          email: request.signer.email,
+          mobilePhone: request.signer.phone,
+          authenticationMethod: request.signer.method === "bankid" ? "BankIDNO" : "SMSOTP",
+          notify: false,
+        }],
+      }),
+    });
+
+    const signingUrl = posting.recipients?.[0]?.signingUrl;
+    if (!signingUrl) {
+      throw new Error("signant did not return a signing link");
+    }
+
+    return {
+      documentId: posting.postingId,
+      signingUrl,
+      status: "pending",
+    };
+  }
+
+  async getStatus(documentId: string): Promise<SigningStatusResult> {
+    const posting = await providerRequest<{
+      status: string;
+      completedDate?: string;
+      recipients?: Array<{ name: string; signedDate?: string }>;
+    }>(this.name, `${this.apiUrl}/postings/${documentId}`, { headers: this.headers() });
+
+    const signer = posting.recipients?.find(r => r.signedDate);
+    return {
+      status: mapStatus(posting.status),
+      signedAt: posting.completedDate ? new Date(posting.completedDate) : undefined,
+      signerName: signer?.name,
+    };
+  }
+
+  async cancel(documentId: string): Promise<void> {
+    await providerRequest(this.name, `${this.apiUrl}/postings/${documentId}/cancel`, {
+      method: "POST",
+      headers: this.headers(),
+    });
+  }
+
+  // { notificationId, postingId, status, completedDate, recipients }
+  parseWebhook(payload: any): SigningWebhookNotification {
+    if (!payload?.notificationId || !payload?.postingId) {
+      throw new Error("Malformed signant webhook");
+    }
+    const signer = payload.recipients?.find((r: any) => r.signedDate);
+    return {
+      eventId: String(payload.notificationId),
+      documentId: String(payload.postingId),
+      status: mapStatus(payload.status),
+      signedAt: payload.completedDate ? new Date(payload.completedDate) : undefined,
+      signerName: signer?.name,
+    };
+  }
+
+  async downloadSignedDocument(documentId: string): Promise<SignedDocumentFile> {
+    return providerDownload(this.name, `${this.apiUrl}/postings/${documentId}/signed-attachments/0`, {
+      headers: {
+        "X-Distributor-Id": requireEnv("SIGNANT_DISTRIBUTOR_ID"),
+        "X-Access-Code": requireEnv("SIGNANT_ACCESS_CODE"),
+      },
+    });
+  }
+}
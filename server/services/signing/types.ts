@@ -0,0 +1,63 @@
+// Shared types for e-signing provider adapters
+
+export type SigningProviderName = "verified.no" | "scrive" | "signant" | "fake";
+export const SIGNING_STATUSES = ["not_sent", "pending", "signed", "rejected", "expired"] as const;
+export type SigningStatus = typeof SIGNING_STATUSES[number];
+export type SigningMethod = "bankid" | "nemid" | "sms";
+
+export interface SignerInfo {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  method: SigningMethod;
+}
+
+export interface SigningDocument {
+  title: string;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface CreateSigningRequest {
+  contractId: string;
+  contractNumber: string;
+  document: SigningDocument;
+  signer: SignerInfo;
+  // Where the provider should send the signer after completing/declining
+  redirectUrl?: string;
+}
+
+export interface SigningSession {
+  documentId: string;
+  signingUrl: string;
+  status: SigningStatus;
+}
+
+export interface SigningStatusResult {
+  status: SigningStatus;
+  signedAt?: Date;
+  signerName?: string;
+}
+
+export interface SigningWebhookNotification extends SigningStatusResult {
+  // Provider's unique ID for this delivery, used to ignore replays
+  eventId: string;
+  documentId: string;
+}
+
+export interface SignedDocumentFile {
+  content: Buffer;
+  mimeType: string;
+}
+
+export interface SigningProvider {
+  readonly name: SigningProviderName;
+  // Header carrying the HMAC-SHA256 of the raw webhook body
+  readonly webhookSignatureHeader: string;
+  createSigningRequest(request: CreateSigningRequest): Promise<SigningSession>;
+  getStatus(documentId: string): Promise<SigningStatusResult>;
+  cancel(documentId: string): Promise<void>;
+  parseWebhook(payload: any): SigningWebhookNotification;
+  downloadSignedDocument(documentId: string): Promise<SignedDocumentFile>;
+}
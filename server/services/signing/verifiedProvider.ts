@@ -0,0 +1,139 @@
+import { providerDownload, providerRequest, requireEnv } from "./http";
+import type {
+  CreateSigningRequest,
+  SignedDocumentFile,
+  SigningProvider,
+  SigningSession,
+  SigningStatus,
+  SigningStatusResult,
+  SigningWebhookNotification,
+} from "./types";
+
+// Verified.no envelope API (https://docs.verified.eu)
+const DEFAULT_API_URL = "https://api.verified.eu/v1";
+
+function mapStatus(status?: string): SigningStatus {
+  switch (status) {
+    case "completed":
+      return "signed";
+    case "rejected":
+    case "cancelled":
+      return "rejected";
+    case "expired":
+      return "expired";
+    default:
+      return "pending";
+  }
+}
+
+export class VerifiedSigningProvider implements SigningProvider {
+  readonly name = "verified.no" as const;
+  readonly webhookSignatureHeader = "x-verified-signature";
+
+  private get apiUrl() {
+    return process.env.VERIFIED_API_URL || DEFAULT_API_URL;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${requireEnv("VERIFIED_API_KEY")}`,
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    };
+  }
+
+  async createSigningRequest(request: CreateSigningRequest): Promise<SigningSession> {
+    const headers = this.headers();
+
+    const envelope = await providerRequest<{ id: string }>(this.name, `${this.apiUrl}/envelopes`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        name: request.document.title,
+        reference: request.contractNumber,
+        redirectUrl: request.redirectUrl,
+      }),
+    });
+
+    await providerRequest(this.name, `${this.apiUrl}/envelopes/${envelope.id}/documents`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        name: request.document.fileName,
+        mimeType: request.document.mimeType,
+        content: request.document.content.toString("base64"),
+      }),
+    });
+
+    const recipient = await providerRequest<{ signingUrl: string }>(
+      this.name,
+      `${this.apiUrl}/envelopes/${envelope.id}/recipients`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          role: "signer",
+          name: request.signer.name,
+          email: request.signer.email,
+          mobile: request.signer.phone,
+          authentication: request.signer.method === "bankid" ? "bankid-no" : request.signer.method,
+        }),
+      },
+    );
+
+    await providerRequest(this.name, `${this.apiUrl}/envelopes/${envelope.id}/publish`, {
+      method: "PUT",
+      headers,
+    });
+
+    return {
+      documentId: envelope.id,
+      signingUrl: recipient.signingUrl,
+      status: "pending",
+    };
+  }
+
+  async getStatus(documentId: string): Promise<SigningStatusResult> {
+    const envelope = await providerRequest<{
+      status: string;
+      completedAt?: string;
+      recipients?: Array<{ name: string; signedAt?: string }>;
+    }>(this.name, `${this.apiUrl}/envelopes/${documentId}`, { headers: this.headers() });
+
+    const signer = envelope.recipients?.find(r => r.signedAt);
+    return {
+      status: mapStatus(envelope.status),
+      signedAt: envelope.completedAt ? new Date(envelope.completedAt) : undefined,
+      signerName: signer?.name,
+    };
+  }
+
+  async cancel(documentId: string): Promise<void> {
+    await providerRequest(this.name, `${this.apiUrl}/envelopes/${documentId}/cancel`, {
+      method: "PUT",
+      headers: this.headers(),
+    });
+  }
+
+  // { id, event: "envelope.completed", envelope: { id, status, completedAt, recipients } }
+  parseWebhook(payload: any): SigningWebhookNotification {
+    const envelope = payload?.envelope;
+    if (!payload?.id || !envelope?.id) {
+      throw new Error("Malformed verified.no webhook");
+    }
+    const signer = envelope.recipients?.find((r: any) => r.signedAt);
+    return {
+      eventId: String(payload.id),
+      documentId: String(envelope.id),
+      status: mapStatus(envelope.status),
+      signedAt: envelope.completedAt ? new Date(envelope.completedAt) : undefined,
+      signerName: signer?.name,
+    };
+  }
+
+  async downloadSignedDocument(documentId: string): Promise<SignedDocumentFile> {
+    return providerDownload(this.name, `${this.apiUrl}/envelopes/${documentId}/signed-document`, {
+      headers: { Authorization: `Bearer ${requireEnv("VERIFIED_API_KEY")}` },
+    });
+  }
+}
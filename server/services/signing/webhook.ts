@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { SigningProviderName } from "./types";
+
+const SECRET_ENV: Record<SigningProviderName, string> = {
+  "verified.no": "VERIFIED_WEBHOOK_SECRET",
+  scrive: "SCRIVE_WEBHOOK_SECRET",
+  signant: "SIGNANT_WEBHOOK_SECRET",
+  fake: "FAKE_SIGNING_WEBHOOK_SECRET",
+};
+
+export function webhookSecret(provider: SigningProviderName): string {
+  const secret = process.env[SECRET_ENV[provider]];
+  if (!secret) {
+    throw new Error(`${SECRET_ENV[provider]} is not configured`);
+  }
+  return secret;
+}
+
+export function signWebhookPayload(secret: string, body: Buffer | string): string {
+  return createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Compare the hex HMAC-SHA256 in the signature header (optionally prefixed
+ * "sha256=") against the raw request body
+ */
+export function verifyWebhookSignature(
+  provider: SigningProviderName,
+  rawBody: Buffer | undefined,
+  header: string | undefined,
+): boolean {
+  const secret = webhookSecret(provider);
+  if (!rawBody || !header) {
+    return false;
+  }
+
+  const received = Buffer.from(header.replace(/^sha256=/, ""), "hex");
+  const expected = Buffer.from(signWebhookPayload(secret, rawBody), "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
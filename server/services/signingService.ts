@@ -0,0 +1,446 @@
+import { storagePromise } from "../storage";
+import { saveContractDocument } from "./documentStorage";
+import { renderAmendmentPdf, renderContractPdf } from "./contractPdfService";
+import type { AmendmentSigningUpdate, Contract, ContractAmendment, ContractSigningUpdate, Customer } from "@shared/schema";
+import {
+  canTransitionAmendment,
+  canTransitionContract,
+  type AmendmentStatus,
+  type ContractStatus,
+} from "@shared/contract-lifecycle";
+import { amendmentReference } from "@shared/contract-render";
+import { FakeSigningProvider } from "./signing/fakeProvider";
+import { VerifiedSigningProvider } from "./signing/verifiedProvider";
+import { ScriveSigningProvider } from "./signing/scriveProvider";
+import { SignantSigningProvider } from "./signing/signantProvider";
+import { verifyWebhookSignature } from "./signing/webhook";
+import type {
+  SignerInfo,
+  SigningDocument,
+  SigningProvider,
+  SigningProviderName,
+  SigningStatus,
+  SigningStatusResult,
+} from "./signing/types";
+
+export type { SigningProviderName, SigningStatus } from "./signing/types";
+
+export const SIGNING_PROVIDERS: SigningProviderName[] = ["verified.no", "scrive", "signant", "fake"];
+
+function appBaseUrl(): string {
+  return process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : process.env.BASE_URL || "http://localhost:5000";
+}
+
+const providers = new Map<SigningProviderName, SigningProvider>();
+
+// The fake provider signs without identifying anyone, so it never runs in production
+export function isSigningProviderAvailable(name: string): name is SigningProviderName {
+  if (!SIGNING_PROVIDERS.includes(name as SigningProviderName)) return false;
+  return name !== "fake" || process.env.NODE_ENV !== "production";
+}
+
+export function getSigningProvider(name?: string | null): SigningProvider {
+  const providerName = name || process.env.SIGNING_PROVIDER;
+  if (!providerName) {
+    throw new Error("Signing provider is not configured");
+  }
+  if (!isSigningProviderAvailable(providerName)) {
+    throw new Error(`Unknown signing provider: ${providerName}`);
+  }
+
+  let provider = providers.get(providerName);
+  if (!provider) {
+    switch (providerName) {
+      case "verified.no":
+        provider = new VerifiedSigningProvider();
+        break;
+      case "scrive":
+        provider = new ScriveSigningProvider();
+        break;
+      case "signant":
+        provider = new SignantSigningProvider();
+        break;
+      case "fake":
+        provider = new FakeSigningProvider(appBaseUrl());
+        break;
+    }
+    providers.set(providerName, provider);
+  }
+  return provider;
+}
+
+export function getFakeSigningProvider(): FakeSigningProvider {
+  return getSigningProvider("fake") as FakeSigningProvider;
+}
+
+// Legacy eSignStatus column only knows ikke_sendt / sendt / signert
+function toESignStatus(status: SigningStatus): "ikke_sendt" | "sendt" | "signert" {
+  switch (status) {
+    case "pending":
+      return "sendt";
+    case "signed":
+      return "signert";
+    default:
+      return "ikke_sendt";
+  }
+}
+
+const SIGNING_TO_CONTRACT_STATUS: Partial<Record<SigningStatus, ContractStatus>> = {
+  pending: "pending_signature",
+  signed: "signed",
+  rejected: "rejected",
+};
+
+// Provider events only move the contract along allowed transitions; anything
+// else (e.g. a late signature on a cancelled contract) leaves the status alone
+function toContractStatus(status: SigningStatus, current: string | null): string | null {
+  const next = SIGNING_TO_CONTRACT_STATUS[status];
+  if (!next || next === current || !canTransitionContract(current, next)) {
+    return current;
+  }
+  return next;
+}
+
+/**
+ * Withdraw an open signing request (contract or amendment) at the provider. Failures are
+ * logged only: once the document ID is cleared, late webhooks are dropped anyway.
+ */
+export async function cancelPendingSigning(
+  document: Pick<Contract | ContractAmendment, "signingStatus" | "signingDocumentId" | "signingProvider">,
+): Promise<void> {
+  if (document.signingStatus !== "pending" || !document.signingDocumentId) {
+    return;
+  }
+  try {
+    await getSigningProvider(document.signingProvider).cancel(document.signingDocumentId);
+  } catch (error) {
+    console.error("Failed to cancel signing request:", error);
+  }
+}
+
+// Explicit signer details win, then whoever signed (or was asked to sign) the contract, then the customer
+function resolveSigner(contract: Contract, customer: Customer | undefined, signer: Partial<SignerInfo> = {}): SignerInfo {
+  const resolved: SignerInfo = {
+    name: signer.name || contract.signerName || customer?.name || "",
+    email: signer.email ?? contract.signerEmail ?? customer?.email,
+    phone: signer.phone ?? contract.signerPhone ?? customer?.phone,
+    method: (signer.method || contract.signingMethod || "bankid") as SignerInfo["method"],
+  };
+  if (!resolved.name) {
+    throw new Error("Signer name is required");
+  }
+  return resolved;
+}
+
+async function buildSigningDocument(contract: Contract, userId: string): Promise<SigningDocument> {
+  const pdf = await renderContractPdf(contract, userId);
+  return {
+    title: `Kjøpekontrakt ${contract.contractNumber}`,
+    fileName: `kontrakt-${contract.contractNumber}.pdf`,
+    mimeType: "application/pdf",
+    content: pdf.content,
+  };
+}
+
+/**
+ * Upload the rendered contract to the chosen provider and store the
+ * provider document ID and signing URL on the contract.
+ */
+export async function sendContractForSigning(
+  contractId: string,
+  userId: string,
+  options: { provider?: string | null; signer?: Partial<SignerInfo> } = {},
+): Promise<Contract> {
+  const storage = await storagePromise;
+  const contract = await storage.getContractById(contractId, userId);
+  if (!contract) {
+    throw new Error("Contract not found");
+  }
+  if (contract.signingStatus === "signed") {
+    throw new Error("Contract is already signed");
+  }
+  if (contract.status !== "pending_signature" && !canTransitionContract(contract.status, "pending_signature")) {
+    throw new Error("Invalid contract status transition");
+  }
+
+  const customer = await storage.getCustomerById(contract.customerId, userId);
+  const signer = resolveSigner(contract, customer, options.signer);
+
+  // Re-sending supersedes the previous request
+  await cancelPendingSigning(contract);
+
+  const provider = getSigningProvider(options.provider);
+  // The document is printed with the template in force now, and that version
+  // is recorded so the contract can be reprinted exactly as signed
+  const templateVersion = await storage.getPublishedTemplateVersion(contract.companyId, contract.contractTemplate);
+  const document = await buildSigningDocument({ ...contract, templateVersionId: templateVersion?.id ?? null }, userId);
+  const session = await provider.createSigningRequest({
+    contractId: contract.id,
+    contractNumber: contract.contractNumber,
+    document,
+    signer,
+    redirectUrl: `${appBaseUrl()}/contracts`,
+  });
+
+  return storage.updateContractSigning(contract.id, {
+    signingProvider: provider.name,
+    signingDocumentId: session.documentId,
+    signingUrl: session.signingUrl,
+    signingStatus: session.status,
+    eSignStatus: toESignStatus(session.status),
+    eSignSentAt: new Date(),
+    status: toContractStatus(session.status, contract.status),
+    signerName: signer.name,
+    signerEmail: signer.email ?? null,
+    signerPhone: signer.phone ?? null,
+    signingMethod: signer.method,
+    signedAt: null,
+    templateVersionId: templateVersion?.id ?? null,
+  }, contract.companyId, userId);
+}
+
+/**
+ * Write a provider status onto the contract. Signed contracts never move
+ * back to an earlier state. On signing, the signed document is archived as
+ * the contract PDF and the signature is logged.
+ */
+export async function applySigningStatus(
+  contract: Contract,
+  result: SigningStatusResult,
+): Promise<Contract> {
+  if (contract.signingStatus === "signed" || contract.signingStatus === result.status) {
+    return contract;
+  }
+
+  const storage = await storagePromise;
+  const update: ContractSigningUpdate = {
+    signingStatus: result.status,
+    eSignStatus: toESignStatus(result.status),
+    status: toContractStatus(result.status, contract.status),
+  };
+  if (result.status === "signed") {
+    update.signedAt = result.signedAt || new Date();
+    if (result.signerName) update.signerName = result.signerName;
+    if (contract.signingDocumentId) {
+      const signed = await getSigningProvider(contract.signingProvider).downloadSignedDocument(contract.signingDocumentId);
+      update.pdfUrl = await saveContractDocument(contract.id, "signed", signed.content, signed.mimeType);
+    }
+  }
+
+  const updated = await storage.updateContractSigning(contract.id, update, contract.companyId);
+
+  if (result.status === "signed") {
+    await storage.createActivityLog({
+      type: "contract_signed",
+      message: `Kontrakt ${contract.contractNumber} signert av ${updated.signerName || "kunde"}`,
+      entityId: contract.id,
+      entityType: "contracts",
+      userId: contract.userId,
+      companyId: contract.companyId,
+      metadata: {
+        signingProvider: contract.signingProvider,
+        signingDocumentId: contract.signingDocumentId,
+        signedAt: updated.signedAt,
+      },
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Process an inbound provider webhook. The raw body must carry a valid
+ * HMAC signature; deliveries that were already processed are acknowledged
+ * without touching the contract again.
+ */
+export async function handleSigningWebhook(
+  providerName: SigningProviderName,
+  rawBody: Buffer | undefined,
+  headers: Record<string, string | string[] | undefined>,
+  payload: any,
+): Promise<{ duplicate: boolean; contract?: Contract }> {
+  const provider = getSigningProvider(providerName);
+  const signature = headers[provider.webhookSignatureHeader];
+  if (!verifyWebhookSignature(provider.name, rawBody, Array.isArray(signature) ? signature[0] : signature)) {
+    throw new Error("Invalid webhook signature");
+  }
+
+  const notification = provider.parseWebhook(payload);
+  const storage = await storagePromise;
+  const contract = await storage.getContractBySigningDocument(provider.name, notification.documentId);
+  const amendment = contract
+    ? undefined
+    : await storage.getAmendmentBySigningDocument(provider.name, notification.documentId);
+
+  const event = await storage.recordSigningWebhookEvent({
+    provider: provider.name,
+    eventId: notification.eventId,
+    documentId: notification.documentId,
+    contractId: contract?.id ?? amendment?.contractId,
+    payload,
+  });
+  if (event.processedAt) {
+    return { duplicate: true, contract };
+  }
+
+  // Amendment failures propagate unprocessed, like contract ones, so the retry gets another go
+  if (amendment) {
+    await applyAmendmentSigningStatus(amendment, notification);
+    await storage.markSigningWebhookEventProcessed(event.id);
+    return { duplicate: false };
+  }
+
+  // Documents we no longer track (e.g. superseded by a re-send) are acknowledged and dropped
+  if (!contract) {
+    await storage.markSigningWebhookEventProcessed(event.id);
+    return { duplicate: false };
+  }
+
+  // No user is signed in here; the writes are scoped by the contract's own company
+  await storage.updateContractSigning(contract.id, { webhookStatus: "received" }, contract.companyId);
+  try {
+    await applySigningStatus(contract, notification);
+    const updated = await storage.updateContractSigning(contract.id, { webhookStatus: "processed" }, contract.companyId);
+    await storage.markSigningWebhookEventProcessed(event.id);
+    return { duplicate: false, contract: updated };
+  } catch (error) {
+    // Left unprocessed so the provider's retry gets another go
+    await storage.updateContractSigning(contract.id, { webhookStatus: "error" }, contract.companyId);
+    throw error;
+  }
+}
+
+/**
+ * Poll the provider for the current status of a contract's signing request
+ */
+export async function refreshSigningStatus(contractId: string, userId: string): Promise<Contract> {
+  const storage = await storagePromise;
+  const contract = await storage.getContractById(contractId, userId);
+  if (!contract) {
+    throw new Error("Contract not found");
+  }
+  if (!contract.signingDocumentId || contract.signingStatus !== "pending") {
+    return contract;
+  }
+
+  const result = await getSigningProvider(contract.signingProvider).getStatus(contract.signingDocumentId);
+  return applySigningStatus(contract, result);
+}
+
+const SIGNING_TO_AMENDMENT_STATUS: Partial<Record<SigningStatus, AmendmentStatus>> = {
+  pending: "pending_signature",
+  signed: "signed",
+  rejected: "rejected",
+};
+
+function toAmendmentStatus(status: SigningStatus, current: string): string {
+  const next = SIGNING_TO_AMENDMENT_STATUS[status];
+  if (!next || next === current || !canTransitionAmendment(current, next)) {
+    return current;
+  }
+  return next;
+}
+
+/**
+ * Send an amendment or credit note for signing. It goes to the same signer
+ * as the contract it amends unless other details are given.
+ */
+export async function sendAmendmentForSigning(
+  amendmentId: string,
+  userId: string,
+  options: { provider?: string | null; signer?: Partial<SignerInfo> } = {},
+): Promise<ContractAmendment> {
+  const storage = await storagePromise;
+  const amendment = await storage.getContractAmendmentById(amendmentId, userId);
+  if (!amendment) {
+    throw new Error("Amendment not found");
+  }
+  if (amendment.status !== "pending_signature" && !canTransitionAmendment(amendment.status, "pending_signature")) {
+    throw new Error("Invalid amendment status transition");
+  }
+
+  const contract = await storage.getContractById(amendment.contractId, userId);
+  if (!contract) {
+    throw new Error("Contract not found");
+  }
+  const customer = await storage.getCustomerById(contract.customerId, userId);
+  const signer = resolveSigner(contract, customer, options.signer);
+
+  await cancelPendingSigning(amendment);
+
+  const reference = amendmentReference(contract.contractNumber, amendment.amendmentNumber);
+  const pdf = await renderAmendmentPdf(amendment, contract, userId);
+  const provider = getSigningProvider(options.provider);
+  const session = await provider.createSigningRequest({
+    contractId: contract.id,
+    contractNumber: reference,
+    document: {
+      title: `${amendment.kind === "kreditnota" ? "Kreditnota" : "Tillegg"} ${reference}`,
+      fileName: `tillegg-${reference}.pdf`,
+      mimeType: "application/pdf",
+      content: pdf.content,
+    },
+    signer,
+    redirectUrl: `${appBaseUrl()}/contracts`,
+  });
+
+  return storage.updateAmendmentSigning(amendment.id, {
+    signingProvider: provider.name,
+    signingDocumentId: session.documentId,
+    signingUrl: session.signingUrl,
+    signingStatus: session.status,
+    status: toAmendmentStatus(session.status, amendment.status),
+    signerName: signer.name,
+    signedAt: null,
+  }, amendment.companyId);
+}
+
+/**
+ * Amendment counterpart of applySigningStatus. Signing archives the signed
+ * copy and, through storage, rolls the price change into the car.
+ */
+export async function applyAmendmentSigningStatus(
+  amendment: ContractAmendment,
+  result: SigningStatusResult,
+): Promise<ContractAmendment> {
+  if (amendment.signingStatus === "signed" || amendment.signingStatus === result.status) {
+    return amendment;
+  }
+
+  const storage = await storagePromise;
+  const update: AmendmentSigningUpdate = {
+    signingStatus: result.status,
+    status: toAmendmentStatus(result.status, amendment.status),
+  };
+  if (result.status === "signed") {
+    update.signedAt = result.signedAt || new Date();
+    if (result.signerName) update.signerName = result.signerName;
+    if (amendment.signingDocumentId) {
+      const signed = await getSigningProvider(amendment.signingProvider).downloadSignedDocument(amendment.signingDocumentId);
+      update.pdfUrl = await saveContractDocument(
+        amendment.contractId,
+        `tillegg-${amendment.amendmentNumber}-signed`,
+        signed.content,
+        signed.mimeType,
+      );
+    }
+  }
+
+  return storage.updateAmendmentSigning(amendment.id, update, amendment.companyId);
+}
+
+export async function refreshAmendmentSigningStatus(amendmentId: string, userId: string): Promise<ContractAmendment> {
+  const storage = await storagePromise;
+  const amendment = await storage.getContractAmendmentById(amendmentId, userId);
+  if (!amendment) {
+    throw new Error("Amendment not found");
+  }
+  if (!amendment.signingDocumentId || amendment.signingStatus !== "pending") {
+    return amendment;
+  }
+
+  const result = await getSigningProvider(amendment.signingProvider).getStatus(amendment.signingDocumentId);
+  return applyAmendmentSigningStatus(amendment, result);
+}
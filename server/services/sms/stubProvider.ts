@@ -0,0 +1,47 @@
+import { randomUUID } from "crypto";
+import type { InboundSms, OutgoingSms, SentSms, SmsProvider } from "./types";
+
+interface StubMessage extends OutgoingSms {
+  messageId: string;
+  sentAt: Date;
+}
+
+// Keep the outbox from growing without bound in a long-running dev server
+const OUTBOX_LIMIT = 200;
+
+/**
+ * Local stand-in for an SMS gateway. Messages are logged and kept in memory
+ * instead of being sent, so SMS flows can be exercised without credentials.
+ * Replies are posted to the inbound webhook as { messageId, from, to, body }.
+ */
+export class StubSmsProvider implements SmsProvider {
+  readonly name = "stub" as const;
+  readonly webhookSignatureHeader = "x-stub-signature";
+  private outbox: StubMessage[] = [];
+
+  async send(message: OutgoingSms): Promise<SentSms> {
+    const sent = { ...message, messageId: randomUUID(), sentAt: new Date() };
+    this.outbox.push(sent);
+    if (this.outbox.length > OUTBOX_LIMIT) this.outbox.shift();
+    console.log(`[sms:stub] ${message.from ? `from ${message.from} ` : ""}to ${message.to}: ${message.body}`);
+    return { messageId: sent.messageId };
+  }
+
+  parseInbound(payload: any): InboundSms {
+    const { messageId, from, to, body } = payload ?? {};
+    if (typeof from !== "string" || typeof body !== "string" || !from || !body) {
+      throw new Error("Malformed SMS webhook payload");
+    }
+    return {
+      messageId: typeof messageId === "string" && messageId ? messageId : randomUUID(),
+      from,
+      to: typeof to === "string" ? to : "",
+      body,
+      receivedAt: new Date(),
+    };
+  }
+
+  sentMessages(): readonly StubMessage[] {
+    return this.outbox;
+  }
+}
@@ -0,0 +1,33 @@
+// Shared types for SMS gateway adapters
+
+export type SmsProviderName = "stub";
+
+export interface OutgoingSms {
+  to: string;
+  body: string;
+  // The company's sender number; the gateway's shared number when unset
+  from?: string;
+}
+
+export interface SentSms {
+  // Gateway's ID for the message
+  messageId: string;
+}
+
+// A message a customer sent to one of our numbers
+export interface InboundSms {
+  messageId: string;
+  from: string;
+  to: string;
+  body: string;
+  receivedAt: Date;
+}
+
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  // Header carrying the HMAC-SHA256 of the raw inbound webhook body
+  readonly webhookSignatureHeader: string;
+  send(message: OutgoingSms): Promise<SentSms>;
+  // Throws "Malformed ..." for payloads it does not understand
+  parseInbound(payload: any): InboundSms;
+}
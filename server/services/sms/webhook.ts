@@ -0,0 +1,33 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { SmsProviderName } from "./types";
+
+const SECRET_ENV: Record<SmsProviderName, string> = {
+  stub: "STUB_SMS_WEBHOOK_SECRET",
+};
+
+export function smsWebhookSecret(provider: SmsProviderName): string {
+  const secret = process.env[SECRET_ENV[provider]];
+  if (!secret) {
+    throw new Error(`${SECRET_ENV[provider]} is not configured`);
+  }
+  return secret;
+}
+
+/**
+ * Compare the hex HMAC-SHA256 in the signature header (optionally prefixed
+ * "sha256=") against the raw request body
+ */
+export function verifySmsWebhookSignature(
+  provider: SmsProviderName,
+  rawBody: Buffer | undefined,
+  header: string | undefined,
+): boolean {
+  const secret = smsWebhookSecret(provider);
+  if (!rawBody || !header) {
+    return false;
+  }
+
+  const received = Buffer.from(header.replace(/^sha256=/, ""), "hex");
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
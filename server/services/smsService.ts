@@ -0,0 +1,37 @@
+import { StubSmsProvider } from "./sms/stubProvider";
+import type { SmsProvider, SmsProviderName } from "./sms/types";
+
+export type { SmsProviderName } from "./sms/types";
+
+export const SMS_PROVIDERS: SmsProviderName[] = ["stub"];
+
+const providers = new Map<SmsProviderName, SmsProvider>();
+
+export function getSmsProvider(name?: string | null): SmsProvider {
+  const providerName = (name || process.env.SMS_PROVIDER || "stub") as SmsProviderName;
+  if (!SMS_PROVIDERS.includes(providerName)) {
+    throw new Error(`Unknown SMS provider: ${providerName}`);
+  }
+
+  let provider = providers.get(providerName);
+  if (!provider) {
+    switch (providerName) {
+      case "stub":
+        provider = new StubSmsProvider();
+        break;
+    }
+    providers.set(providerName, provider);
+  }
+  return provider;
+}
+
+// Same contract as sendEmail: false instead of throwing when delivery fails
+export async function sendSms(to: string, body: string): Promise<boolean> {
+  try {
+    await getSmsProvider().send({ to, body });
+    return true;
+  } catch (error) {
+    console.error("SMS delivery failed:", error);
+    return false;
+  }
+}
@@ -0,0 +1,85 @@
+import { storagePromise } from "../storage";
+import { lookupSvvVehicle, type SvvVehicle } from "../routes/svv";
+import type { InsertCar, InsertContract } from "@shared/schema";
+
+export function normalizeRegistration(registration: string): string {
+  return registration.toUpperCase().replace(/\s/g, "");
+}
+
+// Dealer's cost basis for the trade-in: agreed net, else valuation minus expected recon
+export function tradeInCostBasis(contract: Pick<InsertContract, "tradeInNet" | "tradeInValuation" | "tradeInReconCost">): string {
+  if (contract.tradeInNet && Number(contract.tradeInNet) > 0) {
+    return contract.tradeInNet;
+  }
+  const valuation = Number(contract.tradeInValuation || 0);
+  const recon = Number(contract.tradeInReconCost || 0);
+  return String(Math.max(valuation - recon, 0));
+}
+
+async function safeLookup(registration: string): Promise<SvvVehicle | null> {
+  try {
+    return (await lookupSvvVehicle(registration))?.vehicle ?? null;
+  } catch (error) {
+    // Intake still goes ahead; the car can be completed from the car profile later
+    console.error(`SVV lookup failed for trade-in ${registration}:`, error);
+    return null;
+  }
+}
+
+function vehicleFields(vehicle: SvvVehicle | null): Partial<InsertCar> {
+  if (!vehicle) return {};
+  const firstRegYear = vehicle.firstRegDate ? new Date(vehicle.firstRegDate).getFullYear() : undefined;
+  return {
+    make: vehicle.brand,
+    model: vehicle.model,
+    variant: vehicle.variant,
+    year: vehicle.modelYear || firstRegYear,
+    mileage: vehicle.kmAtLastCheck,
+    vin: vehicle.vin,
+    powerKw: vehicle.powerKW,
+    power: vehicle.powerKW ? `${vehicle.powerKW} kW` : undefined,
+    gearbox: vehicle.gearbox,
+    transmission: vehicle.gearbox,
+    fuelType: vehicle.fuel,
+    color: vehicle.color,
+    bodyType: vehicle.bodyType,
+    seats: vehicle.seats,
+    weight: vehicle.weight,
+    nextEu: vehicle.nextEU,
+    lastEu: vehicle.lastEU,
+  };
+}
+
+/**
+ * Build the incoming car row for a trade-in. The SVV lookup happens here,
+ * outside the contract transaction. A car the dealer already has on file
+ * (e.g. sold earlier and now coming back) keeps its details.
+ */
+export async function buildTradeInCar(contract: InsertContract, userId: string): Promise<InsertCar> {
+  if (!contract.tradeInRegistration) {
+    throw new Error("Trade-in registration number is required");
+  }
+
+  const storage = await storagePromise;
+  const registrationNumber = normalizeRegistration(contract.tradeInRegistration);
+  const vehicle = await safeLookup(registrationNumber);
+  const details = Object.fromEntries(
+    Object.entries(vehicleFields(vehicle)).filter(([, value]) => value !== undefined && value !== null),
+  ) as Partial<InsertCar>;
+  const existing = await storage.getCarByRegistration(registrationNumber, userId);
+
+  return {
+    make: existing?.make ?? "Ukjent",
+    model: existing?.model ?? "Ukjent",
+    year: existing?.year ?? new Date().getFullYear(),
+    mileage: existing?.mileage ?? 0,
+    power: existing?.power ?? "",
+    salePrice: existing?.salePrice ?? contract.tradeInValuation ?? "0",
+    images: existing?.images ?? [],
+    ...details,
+    registrationNumber,
+    costPrice: tradeInCostBasis(contract),
+    recondCost: contract.tradeInReconCost || "0",
+    status: "innkommende",
+  } as InsertCar;
+}
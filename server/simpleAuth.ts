@@ -114,7 +114,7 @@ export const isSimpleAuthenticated: RequestHandler = (req, res, next) => {
     req.auth = {
       id: req.session.user.id,
       email: req.session.user.email,
-      role: 'owner'
+      role: 'EIER'
     };
     
     // Track activity for dev user
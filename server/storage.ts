@@ -5,15 +5,26 @@ import {
   cars,
   customers,
   contracts,
+  contractNumberSequences,
+  contractStatusTransitions,
+  contractAmendments,
+  signingWebhookEvents,
+  contractTemplates,
+  contractTemplateVersions,
   activityLog,
   userSavedViews,
   profiles,
   followups,
+  followupPlaybooks,
+  followupPlaybookRuns,
+  messageTemplates,
+  customerMessages,
   refreshTokens,
   loginAudits,
   passwordResetTokens,
   userSettings,
   companySettings,
+  companyRoles,
   type User,
   type UpsertUser,
   type Car,
@@ -22,25 +33,261 @@ import {
   type InsertCustomer,
   type Contract,
   type InsertContract,
+  type ContractSigningUpdate,
+  type ContractStatusTransition,
+  type ContractAmendment,
+  type InsertContractAmendment,
+  type AmendmentSigningUpdate,
+  type SigningWebhookEvent,
+  type ContractTemplate,
+  type InsertContractTemplate,
+  type ContractTemplateVersion,
+  type CompanyRole,
+  type InsertCompanyRole,
+  type MemberRoleUpdate,
+  type Membership,
   type ActivityLog,
   type InsertActivityLog,
   marketComps,
   pricingRules,
+  carPriceHistory,
+  carPriceSuggestions,
+  reconTasks,
+  reconTaskLines,
+  leads,
+  leadCars,
+  type Lead,
+  type InsertLead,
+  type UpdateLead,
+  type LeadConversion,
+  type LeadWithCars,
+  type LeadConversionRow,
+  type LeadConversionStats,
+  privacyRequests,
+  type PrivacyRequest,
+  type InsertPrivacyRequest,
+  type ReconTask,
+  type InsertReconTask,
+  type UpdateReconTask,
+  type ReconTaskLine,
+  type InsertReconTaskLine,
+  type ReconTaskWithLines,
+  type CarPriceHistory,
+  PRICE_FIELDS,
+  type PriceField,
+  type CarPriceSuggestion,
+  type InsertCarPriceSuggestion,
+  type RepricingMode,
   type MarketComp,
   type InsertMarketComp,
   type PricingRules,
   type InsertPricingRules,
   type Followup,
   type InsertFollowup,
+  type UpdateFollowup,
+  type FollowupWithNames,
+  type FollowupRecurrenceUnit,
+  type FollowupPlaybook,
+  type InsertFollowupPlaybook,
+  type PlaybookTrigger,
+  type MessageTemplate,
+  type InsertMessageTemplate,
+  type CustomerMessage,
+  type InsertCustomerMessage,
+  type CustomerMessageWithSender,
   type UserSettings,
   type CompanySettings
 } from "@shared/schema";
+import {
+  canTransitionAmendment,
+  canTransitionContract,
+  isAmendmentStatus,
+  isContractLocked,
+  isContractStatus,
+  OPEN_CONTRACT_STATUSES,
+  RELEASING_CONTRACT_STATUSES,
+  type ContractStatus,
+} from "@shared/contract-lifecycle";
+import { playbookStepDueAt } from "@shared/followup-playbooks";
+import { buildMergeData, renderMergeText, type MergeData } from "@shared/merge-fields";
 import { db } from "./db";
-import { eq, desc, and, sql, or } from "drizzle-orm";
+import { eq, ne, desc, and, sql, or, gte, lte, inArray, isNull, type SQL } from "drizzle-orm";
 import crypto from "crypto";
 import * as schema from "@shared/schema";
 
-// Interface for storage operations - simplified single-tenant
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const PRICE_FIELD_COLUMNS = {
+  sale_price: "salePrice",
+  cost_price: "costPrice",
+  recond_cost: "recondCost",
+} as const satisfies Record<PriceField, keyof Car>;
+
+// Off sale while mandatory recon work is open, when the company requires it
+const RECON_HOLD_STATUS = "innkommende";
+
+// An available car the aging job should look at, with the deepest tier it
+// has already been handled for
+export interface RepricingCandidate {
+  car: Car;
+  mode: RepricingMode;
+  lastTier: number;
+}
+
+// Everything kept about one customer, for an access request
+export interface CustomerDataExport {
+  customer: Customer;
+  contracts: Contract[];
+  cars: Car[]; // bought or traded in under those contracts
+  amendments: ContractAmendment[];
+  statusTransitions: ContractStatusTransition[];
+  signingEvents: SigningWebhookEvent[];
+  followups: Followup[];
+  messages: CustomerMessage[];
+  leads: Lead[]; // converted into this customer
+  activity: ActivityLog[];
+}
+
+// A customer the retention job may erase: inactive past the company's limit
+// and with no contract still under retention
+export interface RetentionCandidate {
+  companyId: string;
+  customerId: string;
+}
+
+// An open follow-up whose reminder is due, with where to send it
+export interface FollowupReminder {
+  followup: Followup;
+  customerName: string;
+  assigneeEmail: string | null;
+  assigneeName: string | null;
+  assigneePhone: string | null;
+  notificationsEmail: boolean | null;
+  notificationsSms: boolean | null;
+}
+
+// A sold car whose EU control deadline is coming up, with the sale it came from
+export interface EuControlEvent {
+  carId: string;
+  nextEuControl: Date;
+  contract: Contract;
+}
+
+// What a message to a customer may refer to, for its merge fields
+export interface CustomerMessageContext {
+  customer: Customer;
+  car: Car | null;
+  contract: Contract | null;
+  template: MessageTemplate | null;
+  sender: User;
+}
+
+export interface InboundSmsMessage {
+  messageId: string;
+  from: string;
+  to: string;
+  body: string;
+  receivedAt: Date;
+}
+
+export interface CompanyMember {
+  userId: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: string;
+  customRoleId: string | null;
+  customRoleName: string | null;
+  joinedAt: Date | null;
+}
+
+const ERASED_CUSTOMER_NAME = "Slettet kunde";
+const REDACTED_ACTIVITY_MESSAGE = "Personopplysninger slettet";
+const REDACTED_CONTRACT_SIGNER = { signerName: null, signerEmail: null, signerPhone: null, signingUrl: null };
+
+function retentionEnd(saleDate: Date, years: number): Date {
+  const end = new Date(saleDate);
+  end.setFullYear(end.getFullYear() + years);
+  return end;
+}
+
+function userName(user: Pick<User, "firstName" | "lastName" | "email">): string | null {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || null;
+}
+
+// Contract statuses that start post-sale playbooks
+const PLAYBOOK_TRIGGER_BY_STATUS: Partial<Record<ContractStatus, PlaybookTrigger>> = {
+  signed: "contract_signed",
+  completed: "car_delivered",
+};
+
+interface PlaybookEvent {
+  trigger: PlaybookTrigger;
+  eventKey: string;
+  eventDate: Date;
+  contract: Contract;
+}
+
+// Next due time of a recurring follow-up, moved past `now` so an overdue
+// series does not pile up occurrences that are already late
+function nextOccurrence(dueAt: Date, unit: FollowupRecurrenceUnit, interval: number, now: Date): Date {
+  const next = new Date(dueAt);
+  do {
+    switch (unit) {
+      case "days": next.setDate(next.getDate() + interval); break;
+      case "weeks": next.setDate(next.getDate() + interval * 7); break;
+      case "months": next.setMonth(next.getMonth() + interval); break;
+      case "years": next.setFullYear(next.getFullYear() + interval); break;
+    }
+  } while (next <= now);
+  return next;
+}
+
+// A credit note only gives money back: a price reduction and nothing else
+function assertValidAmendment(amendment: { kind: string; priceAdjustment: string; addOns?: unknown[] | null }): void {
+  if (amendment.kind === "kreditnota" && (Number(amendment.priceAdjustment) >= 0 || (amendment.addOns ?? []).length > 0)) {
+    throw new Error('Credit notes must reduce the price');
+  }
+}
+
+// Year 0 means the sequence never resets
+function formatContractNumber(prefix: string, year: number, sequence: number): string {
+  return year
+    ? `${prefix}-${year}-${String(sequence).padStart(5, "0")}`
+    : `${prefix}-${String(sequence).padStart(6, "0")}`;
+}
+
+function contractNumberYear(yearlyReset: boolean): number {
+  return yearlyReset ? Number(new Date().toLocaleString("en-US", { timeZone: "Europe/Oslo", year: "numeric" })) : 0;
+}
+
+// Norwegian wall-clock time at `date`, expressed as if it were UTC
+function osloWallClock(date: Date): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: "Europe/Oslo",
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    }).formatToParts(date).map(part => [part.type, Number(part.value)]),
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// The last moment of `now`'s day in Norway, whatever time zone the server runs in
+function endOfOsloDay(now: Date): Date {
+  const today = new Date(osloWallClock(now));
+  const nextMidnight = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + 1);
+  const offset = osloWallClock(new Date(nextMidnight)) - nextMidnight;
+  return new Date(nextMidnight - offset - 1);
+}
+
+// Interface for storage operations. Methods take the calling user's ID and
+// scope reads and writes to that user's active company (see getActiveCompanyId)
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
@@ -49,9 +296,11 @@ export interface IStorage {
   // Car operations
   getCars(userId: string): Promise<Car[]>;
   getCarById(id: string, userId: string): Promise<Car | undefined>;
+  getCarByRegistration(registrationNumber: string, userId: string): Promise<Car | undefined>;
   createCar(car: InsertCar, userId: string): Promise<Car>;
-  updateCar(id: string, car: Partial<InsertCar>, userId: string): Promise<Car>;
+  updateCar(id: string, car: Partial<InsertCar>, userId: string, reason?: string | null): Promise<Car>;
   deleteCar(id: string, userId: string): Promise<boolean>;
+  getCarPriceHistory(carId: string, userId: string): Promise<Array<CarPriceHistory & { changedByName: string | null }>>;
   
   // Customer operations
   getCustomers(userId: string): Promise<Customer[]>;
@@ -63,9 +312,60 @@ export interface IStorage {
   // Contract operations
   getContracts(userId: string): Promise<Contract[]>;
   getContractById(id: string, userId: string): Promise<Contract | undefined>;
-  createContract(contract: InsertContract, userId: string): Promise<Contract>;
+  getTradeInContractForCar(carId: string, userId: string): Promise<Contract | undefined>;
+  createContract(contract: InsertContract & { contractNumber: string }, userId: string): Promise<Contract>;
+  createContractWithSale(contract: InsertContract, userId: string, tradeInCar?: InsertCar): Promise<Contract>;
   updateContract(id: string, contract: Partial<InsertContract>, userId: string): Promise<Contract>;
-  deleteContract(id: string, userId: string): Promise<boolean>;
+  updateContractSigning(id: string, signing: ContractSigningUpdate, companyId: string, changedBy?: string | null): Promise<Contract>;
+  transitionContract(
+    id: string,
+    to: ContractStatus,
+    userId: string,
+    changedBy: string,
+    reason?: string | null,
+    fields?: ContractSigningUpdate,
+  ): Promise<Contract>;
+  getContractTransitions(contractId: string, userId: string): Promise<Array<ContractStatusTransition & { changedByName: string | null }>>;
+
+  // Amendments and credit notes to signed contracts
+  getContractAmendments(contractId: string, userId: string): Promise<ContractAmendment[]>;
+  getContractAmendmentById(id: string, userId: string): Promise<ContractAmendment | undefined>;
+  createContractAmendment(contractId: string, amendment: InsertContractAmendment, userId: string): Promise<ContractAmendment>;
+  updateContractAmendment(id: string, amendment: Partial<InsertContractAmendment>, userId: string): Promise<ContractAmendment>;
+  updateAmendmentSigning(id: string, signing: AmendmentSigningUpdate, companyId: string): Promise<ContractAmendment>;
+  deleteContractAmendment(id: string, userId: string): Promise<boolean>;
+  getAmendmentBySigningDocument(provider: string, documentId: string): Promise<ContractAmendment | undefined>;
+
+  // E-signing webhooks (not user-scoped: the caller is the provider)
+  getContractBySigningDocument(provider: string, documentId: string): Promise<Contract | undefined>;
+  recordSigningWebhookEvent(event: {
+    provider: string;
+    eventId: string;
+    documentId: string;
+    contractId?: string | null;
+    payload?: unknown;
+  }): Promise<SigningWebhookEvent>;
+  markSigningWebhookEventProcessed(id: string): Promise<void>;
+
+  // Contract templates (company-managed, versioned on publish)
+  getContractTemplates(companyId: string): Promise<Array<ContractTemplate & { latestVersion: number | null }>>;
+  getContractTemplateById(id: string, companyId: string): Promise<ContractTemplate | undefined>;
+  createContractTemplate(template: InsertContractTemplate, companyId: string, userId: string): Promise<ContractTemplate>;
+  updateContractTemplate(id: string, template: Partial<InsertContractTemplate>, companyId: string): Promise<ContractTemplate>;
+  publishContractTemplate(id: string, companyId: string, userId: string, notes?: string): Promise<ContractTemplateVersion>;
+  getContractTemplateVersions(templateId: string, companyId: string): Promise<ContractTemplateVersion[]>;
+  getContractTemplateVersion(versionId: string, companyId: string): Promise<ContractTemplateVersion | undefined>;
+  getPublishedTemplateVersion(companyId: string, contractType: string): Promise<ContractTemplateVersion | undefined>;
+
+  // Company-defined roles and member role assignment
+  getCompanyRoles(companyId: string): Promise<Array<CompanyRole & { memberCount: number }>>;
+  getCompanyRoleById(id: string, companyId: string): Promise<CompanyRole | undefined>;
+  createCompanyRole(role: InsertCompanyRole, companyId: string, userId: string): Promise<CompanyRole>;
+  updateCompanyRole(id: string, role: Partial<InsertCompanyRole>, companyId: string): Promise<CompanyRole>;
+  deleteCompanyRole(id: string, companyId: string): Promise<boolean>;
+  getCompanyMembers(companyId: string): Promise<CompanyMember[]>;
+  updateMemberRole(memberUserId: string, update: MemberRoleUpdate, companyId: string): Promise<Membership>;
+  removeCompanyMember(memberUserId: string, companyId: string): Promise<boolean>;
   
   // Dashboard stats
   getDashboardStats(userId: string): Promise<{
@@ -94,10 +394,12 @@ export interface IStorage {
   createProfile(userId: string, fullName: string): Promise<void>;
 
   // Follow-ups methods  
-  getFollowups(userId: string): Promise<Followup[]>;
+  getFollowups(userId: string, filters?: { assignedTo?: string; status?: Followup["status"] }): Promise<FollowupWithNames[]>;
   createFollowup(followup: InsertFollowup, userId: string): Promise<Followup>;
-  updateFollowup(id: string, followup: Partial<InsertFollowup>, userId: string): Promise<Followup>;
-  getTodayFollowups(userId: string): Promise<Followup[]>;
+  updateFollowup(id: string, followup: UpdateFollowup, userId: string): Promise<Followup>;
+  getTodayFollowups(userId: string, now?: Date): Promise<FollowupWithNames[]>;
+  getDueFollowupReminders(until: Date): Promise<FollowupReminder[]>;
+  markFollowupReminded(id: string, at: Date): Promise<void>;
 
   // Customer 360 profile
   getCustomerProfile(customerId: string, userId: string): Promise<{
@@ -105,6 +407,7 @@ export interface IStorage {
     cars: Car[];
     contracts: Contract[];
     followups: Followup[];
+    messages: CustomerMessageWithSender[];
   }>;
   
   // Pricing operations
@@ -122,6 +425,66 @@ export interface IStorage {
     limit?: number;
   }): Promise<MarketComp[]>;
   createMarketComp(comp: InsertMarketComp): Promise<MarketComp>;
+
+  // Aging repricing (runs across companies; the job has no user)
+  getRepricingCandidates(): Promise<RepricingCandidate[]>;
+  recordPriceSuggestion(suggestion: InsertCarPriceSuggestion, apply: boolean): Promise<CarPriceSuggestion | null>;
+  getCarPriceSuggestions(carId: string, userId: string): Promise<CarPriceSuggestion[]>;
+  applyPriceSuggestion(id: string, userId: string): Promise<CarPriceSuggestion>;
+  dismissPriceSuggestion(id: string, userId: string): Promise<CarPriceSuggestion>;
+
+  // Reconditioning work orders; line costs are summed into the car's recondCost
+  getReconTasks(userId: string, filters?: { carId?: string; assignedTo?: string; doneSince?: Date }): Promise<ReconTaskWithLines[]>;
+  createReconTask(carId: string, task: InsertReconTask, userId: string): Promise<ReconTask>;
+  updateReconTask(id: string, updates: UpdateReconTask, userId: string): Promise<ReconTask>;
+  deleteReconTask(id: string, userId: string): Promise<boolean>;
+  addReconTaskLine(taskId: string, line: InsertReconTaskLine, userId: string): Promise<ReconTaskLine>;
+  deleteReconTaskLine(id: string, userId: string): Promise<boolean>;
+
+  // Lead pipeline. Converting a lead creates or links the customer, can open
+  // a draft contract, and marks the lead won.
+  getLeads(userId: string, filters?: { ownerId?: string }): Promise<LeadWithCars[]>;
+  getLeadById(id: string, userId: string): Promise<LeadWithCars | undefined>;
+  createLead(lead: InsertLead, userId: string): Promise<Lead>;
+  updateLead(id: string, updates: UpdateLead, userId: string): Promise<Lead>;
+  deleteLead(id: string, userId: string): Promise<boolean>;
+  convertLead(id: string, conversion: LeadConversion, userId: string): Promise<{ lead: Lead; customer: Customer; contract: Contract | null }>;
+  getLeadConversionStats(userId: string, range: { from?: Date; to?: Date }): Promise<LeadConversionStats>;
+
+  // Post-sale playbooks, scoped to the given company. Contract signing and
+  // delivery run them as part of the status change; EU control deadlines are
+  // picked up by a scheduled job.
+  getFollowupPlaybooks(companyId: string): Promise<FollowupPlaybook[]>;
+  createFollowupPlaybook(companyId: string, playbook: InsertFollowupPlaybook, userId: string): Promise<FollowupPlaybook>;
+  updateFollowupPlaybook(id: string, companyId: string, playbook: Partial<InsertFollowupPlaybook>): Promise<FollowupPlaybook>;
+  deleteFollowupPlaybook(id: string, companyId: string): Promise<boolean>;
+  getEuControlEvents(now: Date, until: Date): Promise<EuControlEvent[]>;
+  runEuControlPlaybooks(event: EuControlEvent, now?: Date): Promise<number>;
+
+  // Customer messages and templates, scoped to the given company. Inbound
+  // SMS are matched to a customer by the sender's number.
+  getMessageTemplates(companyId: string): Promise<MessageTemplate[]>;
+  createMessageTemplate(companyId: string, template: InsertMessageTemplate, userId: string): Promise<MessageTemplate>;
+  updateMessageTemplate(id: string, companyId: string, template: Partial<InsertMessageTemplate>): Promise<MessageTemplate>;
+  deleteMessageTemplate(id: string, companyId: string): Promise<boolean>;
+  getCustomerMessages(customerId: string, companyId: string): Promise<CustomerMessageWithSender[]>;
+  getCustomerMessageContext(
+    customerId: string,
+    companyId: string,
+    refs: { carId?: string | null; contractId?: string | null; templateId?: string | null },
+    userId: string,
+  ): Promise<CustomerMessageContext>;
+  createCustomerMessage(message: InsertCustomerMessage): Promise<CustomerMessage>;
+  recordInboundSms(provider: string, sms: InboundSmsMessage): Promise<{ message: CustomerMessage | null; duplicate: boolean }>;
+
+  // Data subject requests, scoped to the given company. Erasure deletes the
+  // customer, or pseudonymizes it while contracts must be kept.
+  getCustomerDataExport(customerId: string, companyId: string): Promise<CustomerDataExport>;
+  eraseCustomer(customerId: string, companyId: string, requestedBy: string | null, reason?: string | null, now?: Date): Promise<PrivacyRequest>;
+  recordPrivacyRequest(request: InsertPrivacyRequest): Promise<PrivacyRequest>;
+  getPrivacyRequests(companyId: string, customerId?: string): Promise<Array<PrivacyRequest & { requestedByName: string | null }>>;
+  getRetentionCandidates(now?: Date): Promise<RetentionCandidate[]>;
+  redactExpiredContracts(now?: Date): Promise<number>;
   
   getAllUsers(): Promise<User[]>;
   getContractsByCustomer(customerId: string, userId: string): Promise<Contract[]>;
@@ -130,6 +493,7 @@ export interface IStorage {
   getUserSettings(userId: string): Promise<any>;
   upsertUserSettings(userId: string, settings: any): Promise<any>;
   getCompanySettings(companyId: string): Promise<any>;
+  getNextContractNumber(companyId: string): Promise<string>;
   upsertCompanySettings(companyId: string, settings: any): Promise<any>;
   updateUser(userId: string, updates: any): Promise<User>;
   updateCompany(companyId: string, updates: any): Promise<any>;
@@ -161,32 +525,50 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  // Car operations - simplified without company isolation
+  // Car operations
   async getCars(userId: string): Promise<Car[]> {
+    const companyId = await this.getActiveCompanyId(userId);
     const results = await db.select().from(cars)
-      .where(eq(cars.userId, userId))
+      .where(eq(cars.companyId, companyId))
       .orderBy(desc(cars.createdAt));
     return results;
   }
 
   async getCarById(carId: string, userId: string): Promise<Car | undefined> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const [car] = await db.select().from(cars)
+      .where(and(eq(cars.id, carId), eq(cars.companyId, companyId)));
+    return car;
+  }
+
+  async getCarByRegistration(registrationNumber: string, userId: string): Promise<Car | undefined> {
+    const companyId = await this.getActiveCompanyId(userId);
     const [car] = await db.select().from(cars)
-      .where(and(eq(cars.id, carId), eq(cars.userId, userId)));
+      .where(and(eq(cars.registrationNumber, registrationNumber), eq(cars.companyId, companyId)));
     return car;
   }
 
   async createCar(car: InsertCar, userId: string): Promise<Car> {
-    const [newCar] = await db
-      .insert(cars)
-      .values({
-        ...car,
-        userId,
-      })
-      .returning();
-    return newCar;
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [newCar] = await tx
+        .insert(cars)
+        .values({
+          ...car,
+          userId,
+          companyId,
+        })
+        .returning();
+      await this.recordPriceChanges(tx, null, newCar, "intake", null, userId);
+      return newCar;
+    });
   }
 
-  async updateCar(id: string, car: Partial<InsertCar>, userId: string): Promise<Car> {
+  /**
+   * Update a car. Changes to the list price, cost or recon cost go to the
+   * price history with the given reason.
+   */
+  async updateCar(id: string, car: Partial<InsertCar>, userId: string, reason?: string | null): Promise<Car> {
     // Ensure Date objects are used for timestamp fields
     const updateData: any = { 
       ...car, 
@@ -200,53 +582,123 @@ export class DatabaseStorage implements IStorage {
       updateData.nextEuControl = new Date(car.nextEuControl);
     }
 
-    const [updatedCar] = await db
-      .update(cars)
-      .set(updateData)
-      .where(and(eq(cars.id, id), eq(cars.userId, userId)))
-      .returning();
-    
-    if (!updatedCar) throw new Error('Car not found or not authorized');
-    return updatedCar;
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(cars)
+        .where(and(eq(cars.id, id), eq(cars.companyId, companyId)))
+        .for('update');
+      if (!current) throw new Error('Car not found or not authorized');
+      await this.assertReconAllowsUpdate(tx, current, car);
+
+      const [updatedCar] = await tx
+        .update(cars)
+        .set(updateData)
+        .where(eq(cars.id, id))
+        .returning();
+      await this.recordPriceChanges(tx, current, updatedCar, "manual", reason ?? null, userId);
+      return updatedCar;
+    });
+  }
+
+  async getCarPriceHistory(carId: string, userId: string): Promise<Array<CarPriceHistory & { changedByName: string | null }>> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const rows = await db
+      .select({
+        entry: carPriceHistory,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(carPriceHistory)
+      .leftJoin(users, eq(carPriceHistory.changedBy, users.id))
+      .where(and(eq(carPriceHistory.carId, carId), eq(carPriceHistory.companyId, companyId)))
+      .orderBy(carPriceHistory.createdAt);
+
+    return rows.map(({ entry, firstName, lastName, email }) => ({
+      ...entry,
+      changedByName: [firstName, lastName].filter(Boolean).join(" ") || email || null,
+    }));
+  }
+
+  /**
+   * One history entry per price field that changed between two versions of
+   * a car. Without a previous version every non-zero value is logged as the
+   * intake value.
+   */
+  private async recordPriceChanges(
+    tx: Transaction,
+    before: Car | null,
+    after: Car,
+    source: CarPriceHistory["source"],
+    reason: string | null,
+    changedBy: string | null,
+  ): Promise<void> {
+    const entries = [];
+    for (const field of PRICE_FIELDS) {
+      const column = PRICE_FIELD_COLUMNS[field];
+      const oldValue = before ? before[column] : null;
+      const newValue = after[column];
+      if (newValue === null || newValue === undefined) continue;
+      if (before ? Number(oldValue || 0) === Number(newValue) : Number(newValue) === 0) continue;
+      entries.push({
+        companyId: after.companyId,
+        carId: after.id,
+        field,
+        oldPrice: oldValue,
+        newPrice: newValue,
+        source,
+        reason,
+        changedBy,
+      });
+    }
+    if (entries.length > 0) {
+      await tx.insert(carPriceHistory).values(entries);
+    }
   }
 
   async deleteCar(id: string, userId: string): Promise<boolean> {
+    const companyId = await this.getActiveCompanyId(userId);
     const result = await db
       .delete(cars)
-      .where(and(eq(cars.id, id), eq(cars.userId, userId)));
+      .where(and(eq(cars.id, id), eq(cars.companyId, companyId)));
     return result.rowCount > 0;
   }
 
   // Customer operations
   async getCustomers(userId: string): Promise<Customer[]> {
+    const companyId = await this.getActiveCompanyId(userId);
     const results = await db.select().from(customers)
-      .where(eq(customers.userId, userId))
+      .where(eq(customers.companyId, companyId))
       .orderBy(desc(customers.createdAt));
     return results;
   }
 
   async getCustomerById(customerId: string, userId: string): Promise<Customer | undefined> {
+    const companyId = await this.getActiveCompanyId(userId);
     const [customer] = await db.select().from(customers)
-      .where(and(eq(customers.id, customerId), eq(customers.userId, userId)));
+      .where(and(eq(customers.id, customerId), eq(customers.companyId, companyId)));
     return customer;
   }
 
   async createCustomer(customer: InsertCustomer, userId: string): Promise<Customer> {
+    const companyId = await this.getActiveCompanyId(userId);
     const [newCustomer] = await db
       .insert(customers)
       .values({
         ...customer,
         userId,
+        companyId,
       })
       .returning();
     return newCustomer;
   }
 
   async updateCustomer(id: string, customer: Partial<InsertCustomer>, userId: string): Promise<Customer> {
+    const companyId = await this.getActiveCompanyId(userId);
     const [updatedCustomer] = await db
       .update(customers)
       .set({ ...customer, updatedAt: new Date() })
-      .where(and(eq(customers.id, id), eq(customers.userId, userId)))
+      .where(and(eq(customers.id, id), eq(customers.companyId, companyId)))
       .returning();
     
     if (!updatedCustomer) throw new Error('Customer not found or not authorized');
@@ -254,53 +706,728 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCustomer(id: string, userId: string): Promise<boolean> {
+    const companyId = await this.getActiveCompanyId(userId);
     const result = await db
       .delete(customers)
-      .where(and(eq(customers.id, id), eq(customers.userId, userId)));
+      .where(and(eq(customers.id, id), eq(customers.companyId, companyId)));
     return result.rowCount > 0;
   }
 
+  // Rows that point at a customer must not reach into another company's register
+  private async assertCompanyCustomer(customerId: string, companyId: string, executor: Transaction | typeof db = db): Promise<void> {
+    const [customer] = await executor.select({ id: customers.id }).from(customers)
+      .where(and(eq(customers.id, customerId), eq(customers.companyId, companyId)));
+    if (!customer) throw new Error('Customer not found or not authorized');
+  }
+
   // Contract operations
   async getContracts(userId: string): Promise<Contract[]> {
+    const companyId = await this.getActiveCompanyId(userId);
     const results = await db.select().from(contracts)
-      .where(eq(contracts.userId, userId))
+      .where(eq(contracts.companyId, companyId))
       .orderBy(desc(contracts.createdAt));
     return results;
   }
 
   async getContractById(contractId: string, userId: string): Promise<Contract | undefined> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const [contract] = await db.select().from(contracts)
+      .where(and(eq(contracts.id, contractId), eq(contracts.companyId, companyId)));
+    return contract;
+  }
+
+  async getTradeInContractForCar(carId: string, userId: string): Promise<Contract | undefined> {
+    const companyId = await this.getActiveCompanyId(userId);
     const [contract] = await db.select().from(contracts)
-      .where(and(eq(contracts.id, contractId), eq(contracts.userId, userId)));
+      .where(and(eq(contracts.tradeInCarId, carId), eq(contracts.companyId, companyId)))
+      .orderBy(desc(contracts.createdAt))
+      .limit(1);
     return contract;
   }
 
-  async createContract(contract: InsertContract, userId: string): Promise<Contract> {
+  // Inserts with a caller-supplied number (seeding and imports); the app uses createContractWithSale
+  async createContract(contract: InsertContract & { contractNumber: string }, userId: string): Promise<Contract> {
+    const companyId = await this.getActiveCompanyId(userId);
     const [newContract] = await db
       .insert(contracts)
       .values({
         ...contract,
         userId,
+        companyId,
       })
       .returning();
     return newContract;
   }
 
+  /**
+   * Create the contract, mark the car sold, take in the trade-in and log the
+   * sale in one transaction so a failure leaves no half-sold car behind.
+   */
+  async createContractWithSale(contract: InsertContract, userId: string, tradeInCar?: InsertCar): Promise<Contract> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [car] = await tx.select().from(cars)
+        .where(and(eq(cars.id, contract.carId), eq(cars.companyId, companyId)))
+        .for('update');
+      if (!car) throw new Error('Car not found or not authorized');
+      await this.assertCompanyCustomer(contract.customerId, companyId, tx);
+      return this.insertContractWithSale(tx, car, contract, userId, tradeInCar);
+    });
+  }
+
+  // The body of createContractWithSale, for callers that already hold the car's lock
+  private async insertContractWithSale(
+    tx: Transaction,
+    car: Car,
+    contract: InsertContract,
+    userId: string,
+    tradeInCar?: InsertCar,
+  ): Promise<Contract> {
+    await this.assertCarForSale(tx, car);
+    // The contract belongs to the company that owns the car
+    const contractNumber = await this.allocateContractNumber(tx, car.companyId);
+    const [newContract] = await tx
+      .insert(contracts)
+      .values({ ...contract, contractNumber, userId, companyId: car.companyId })
+      .returning();
+    await this.recordContractTransition(tx, newContract.id, null, newContract.status || "draft", userId);
+
+    const soldCar = await this.sellContractCar(tx, newContract);
+
+    let created = newContract;
+    if (tradeInCar) {
+      tradeInCar = { ...tradeInCar, notes: `Innbytte fra kontrakt ${newContract.contractNumber}` };
+      const [existing] = await tx.select().from(cars)
+        .where(and(eq(cars.registrationNumber, tradeInCar.registrationNumber), eq(cars.companyId, car.companyId)));
+      const [intakeCar] = existing
+        ? await tx.update(cars)
+            .set({ ...tradeInCar, soldDate: null, soldPrice: null, soldToCustomerId: null, updatedAt: new Date() })
+            .where(eq(cars.id, existing.id))
+            .returning()
+        : await tx.insert(cars)
+            .values({ ...tradeInCar, userId, companyId: car.companyId })
+            .returning();
+      await this.recordPriceChanges(tx, existing ?? null, intakeCar, "intake", tradeInCar.notes ?? null, userId);
+
+      [created] = await tx.update(contracts)
+        .set({ tradeInCarId: intakeCar.id })
+        .where(eq(contracts.id, newContract.id))
+        .returning();
+    }
+
+    const [customer] = await tx.select({ name: customers.name }).from(customers)
+      .where(eq(customers.id, newContract.customerId));
+    await tx.insert(activityLog).values({
+      type: "contract_created",
+      message: `Kontrakt ${newContract.contractNumber} opprettet for ${customer?.name || "ukjent kunde"}`,
+      entityId: newContract.id,
+      entityType: "contracts",
+      userId,
+      companyId: car.companyId,
+      metadata: {
+        contractNumber: newContract.contractNumber,
+        carDetails: `${soldCar.make} ${soldCar.model} (${soldCar.year})`,
+        tradeInCarId: created.tradeInCarId,
+      },
+    });
+
+    return created;
+  }
+
+  /**
+   * Take the next number from the company's sequence. The row lock taken by
+   * the upsert serializes concurrent creates, and rolling back the caller's
+   * transaction hands the number back, so numbering stays gapless. Numbers
+   * already issued under earlier settings (prefix or yearly reset changed
+   * back and forth) are skipped rather than issued twice.
+   */
+  private async allocateContractNumber(tx: Transaction, companyId: string): Promise<string> {
+    const [settings] = await tx.select().from(companySettings)
+      .where(eq(companySettings.companyId, companyId))
+      .limit(1);
+    const prefix = settings?.contractNumberPrefix ?? "K";
+    const year = contractNumberYear(settings?.contractNumberYearlyReset ?? true);
+
+    for (;;) {
+      const [sequence] = await tx
+        .insert(contractNumberSequences)
+        .values({ companyId, year, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: [contractNumberSequences.companyId, contractNumberSequences.year],
+          set: { lastNumber: sql`${contractNumberSequences.lastNumber} + 1`, updatedAt: new Date() },
+        })
+        .returning();
+      const contractNumber = formatContractNumber(prefix, year, sequence.lastNumber);
+
+      const [issued] = await tx.select({ id: contracts.id }).from(contracts)
+        .where(and(eq(contracts.companyId, companyId), eq(contracts.contractNumber, contractNumber)))
+        .limit(1);
+      if (!issued) return contractNumber;
+    }
+  }
+
+  // A car can only be sold once: not after it is sold, nor while another contract holds it
+  private async assertCarForSale(tx: Transaction, car: Car, contractId?: string): Promise<void> {
+    if (car.status === "sold") throw new Error('Car is already sold');
+    const conditions = [eq(contracts.carId, car.id), inArray(contracts.status, [...OPEN_CONTRACT_STATUSES])];
+    if (contractId) conditions.push(ne(contracts.id, contractId));
+    const [open] = await tx.select({ id: contracts.id }).from(contracts)
+      .where(and(...conditions))
+      .limit(1);
+    if (open) throw new Error('Car already has an open contract');
+  }
+
+  private async sellContractCar(tx: Transaction, contract: Contract): Promise<Car> {
+    const [soldCar] = await tx
+      .update(cars)
+      .set({
+        status: "sold",
+        soldDate: contract.saleDate,
+        soldPrice: contract.salePrice,
+        soldToCustomerId: contract.customerId,
+        updatedAt: new Date(),
+      })
+      .where(eq(cars.id, contract.carId))
+      .returning();
+    return soldCar;
+  }
+
+  // Put the contract's car back on sale when the sale falls through
+  private async releaseContractCar(tx: Transaction, contract: Contract): Promise<void> {
+    await tx
+      .update(cars)
+      .set({
+        status: "available",
+        soldDate: null,
+        soldPrice: null,
+        soldToCustomerId: null,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(cars.id, contract.carId),
+        eq(cars.status, "sold"),
+        eq(cars.soldToCustomerId, contract.customerId),
+      ));
+  }
+
+  private async recordContractTransition(
+    tx: Transaction,
+    contractId: string,
+    fromStatus: string | null,
+    toStatus: string,
+    changedBy: string | null,
+    reason?: string | null,
+  ): Promise<void> {
+    await tx.insert(contractStatusTransitions).values({ contractId, fromStatus, toStatus, changedBy, reason });
+  }
+
+  private async lockContract(tx: Transaction, id: string, companyId: string): Promise<Contract> {
+    const [contract] = await tx.select().from(contracts)
+      .where(and(eq(contracts.id, id), eq(contracts.companyId, companyId)))
+      .for('update');
+    if (!contract) throw new Error('Contract not found or not authorized');
+    return contract;
+  }
+
+  // Terms only; the status moves through transitionContract
   async updateContract(id: string, contract: Partial<InsertContract>, userId: string): Promise<Contract> {
-    const [updatedContract] = await db
-      .update(contracts)
-      .set({ ...contract, updatedAt: new Date() })
-      .where(and(eq(contracts.id, id), eq(contracts.userId, userId)))
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const current = await this.lockContract(tx, id, companyId);
+      if (isContractLocked(current.status)) throw new Error('Contract is locked');
+
+      const { status: _status, ...terms } = contract;
+      if (terms.customerId && terms.customerId !== current.customerId) {
+        await this.assertCompanyCustomer(terms.customerId, companyId, tx);
+      }
+      const [updatedContract] = await tx
+        .update(contracts)
+        .set({ ...terms, updatedAt: new Date() })
+        .where(eq(contracts.id, id))
+        .returning();
+
+      // The car follows the terms: a new car or buyer moves the sale, a new price or date updates it
+      const saleChanged = (terms.carId !== undefined && terms.carId !== current.carId)
+        || (terms.customerId !== undefined && terms.customerId !== current.customerId)
+        || (terms.salePrice !== undefined && Number(terms.salePrice) !== Number(current.salePrice))
+        || (terms.saleDate !== undefined && new Date(terms.saleDate).getTime() !== current.saleDate.getTime());
+      if (saleChanged && !RELEASING_CONTRACT_STATUSES.includes(current.status as ContractStatus)) {
+        await this.releaseContractCar(tx, current);
+        const car = await this.lockCar(tx, updatedContract.carId);
+        if (car.companyId !== companyId) throw new Error('Car not found or not authorized');
+        await this.assertCarForSale(tx, car, id);
+        await this.sellContractCar(tx, updatedContract);
+      }
+      return updatedContract;
+    });
+  }
+
+  // Signing pipeline writes; a status change must still be an allowed transition.
+  // Scoped by the contract's company, as provider webhooks have no user.
+  async updateContractSigning(id: string, signing: ContractSigningUpdate, companyId: string, changedBy: string | null = null): Promise<Contract> {
+    return db.transaction(async (tx) => {
+      const current = await this.lockContract(tx, id, companyId);
+      const nextStatus = signing.status && signing.status !== current.status ? signing.status : null;
+      if (nextStatus && !(isContractStatus(nextStatus) && canTransitionContract(current.status, nextStatus))) {
+        throw new Error('Invalid contract status transition');
+      }
+
+      const [updatedContract] = await tx
+        .update(contracts)
+        .set({ ...signing, updatedAt: new Date() })
+        .where(eq(contracts.id, id))
+        .returning();
+
+      if (nextStatus) {
+        await this.recordContractTransition(
+          tx, id, current.status, nextStatus, changedBy,
+          signing.signingStatus ? `E-signering: ${signing.signingStatus}` : null,
+        );
+        if (RELEASING_CONTRACT_STATUSES.includes(nextStatus as ContractStatus)) {
+          await this.releaseContractCar(tx, updatedContract);
+        }
+        await this.runContractPlaybooks(tx, updatedContract, nextStatus as ContractStatus);
+      }
+      return updatedContract;
+    });
+  }
+
+  async transitionContract(
+    id: string,
+    to: ContractStatus,
+    userId: string,
+    changedBy: string,
+    reason?: string | null,
+    fields: ContractSigningUpdate = {},
+  ): Promise<Contract> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const current = await this.lockContract(tx, id, companyId);
+      if (!canTransitionContract(current.status, to)) throw new Error('Invalid contract status transition');
+
+      const [updatedContract] = await tx
+        .update(contracts)
+        .set({ ...fields, status: to, updatedAt: new Date() })
+        .where(eq(contracts.id, id))
+        .returning();
+
+      await this.recordContractTransition(tx, id, current.status, to, changedBy, reason);
+      if (RELEASING_CONTRACT_STATUSES.includes(to)) {
+        await this.releaseContractCar(tx, updatedContract);
+      }
+      await this.runContractPlaybooks(tx, updatedContract, to);
+      return updatedContract;
+    });
+  }
+
+  async getContractTransitions(contractId: string, userId: string): Promise<Array<ContractStatusTransition & { changedByName: string | null }>> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const rows = await db
+      .select({
+        transition: contractStatusTransitions,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(contractStatusTransitions)
+      .innerJoin(contracts, eq(contractStatusTransitions.contractId, contracts.id))
+      .leftJoin(users, eq(contractStatusTransitions.changedBy, users.id))
+      .where(and(eq(contractStatusTransitions.contractId, contractId), eq(contracts.companyId, companyId)))
+      .orderBy(contractStatusTransitions.createdAt);
+
+    return rows.map(({ transition, firstName, lastName, email }) => ({
+      ...transition,
+      changedByName: [firstName, lastName].filter(Boolean).join(" ") || email || null,
+    }));
+  }
+
+  // Contract amendments
+  async getContractAmendments(contractId: string, userId: string): Promise<ContractAmendment[]> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.select().from(contractAmendments)
+      .where(and(eq(contractAmendments.contractId, contractId), eq(contractAmendments.companyId, companyId)))
+      .orderBy(contractAmendments.amendmentNumber);
+  }
+
+  async getContractAmendmentById(id: string, userId: string): Promise<ContractAmendment | undefined> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const [amendment] = await db.select().from(contractAmendments)
+      .where(and(eq(contractAmendments.id, id), eq(contractAmendments.companyId, companyId)));
+    return amendment;
+  }
+
+  async createContractAmendment(contractId: string, amendment: InsertContractAmendment, userId: string): Promise<ContractAmendment> {
+    assertValidAmendment(amendment);
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      // The contract row lock also serializes amendment numbering
+      const contract = await this.lockContract(tx, contractId, companyId);
+      if (!isContractLocked(contract.status)) throw new Error('Contract is not signed');
+
+      const [{ lastNumber }] = await tx
+        .select({ lastNumber: sql<number>`coalesce(max(${contractAmendments.amendmentNumber}), 0)` })
+        .from(contractAmendments)
+        .where(eq(contractAmendments.contractId, contractId));
+
+      const [created] = await tx
+        .insert(contractAmendments)
+        .values({
+          ...amendment,
+          contractId,
+          companyId: contract.companyId,
+          amendmentNumber: Number(lastNumber) + 1,
+          createdBy: userId,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  private async lockAmendment(tx: Transaction, id: string, companyId: string): Promise<ContractAmendment> {
+    const [amendment] = await tx.select().from(contractAmendments)
+      .where(and(eq(contractAmendments.id, id), eq(contractAmendments.companyId, companyId)))
+      .for('update');
+    if (!amendment) throw new Error('Amendment not found or not authorized');
+    return amendment;
+  }
+
+  // Terms can change until the amendment is out for signing
+  async updateContractAmendment(id: string, amendment: Partial<InsertContractAmendment>, userId: string): Promise<ContractAmendment> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const current = await this.lockAmendment(tx, id, companyId);
+      if (current.status !== "draft" && current.status !== "rejected") throw new Error('Amendment is locked');
+
+      const { kind: _kind, ...terms } = amendment;
+      assertValidAmendment({ ...current, ...terms });
+      const [updated] = await tx
+        .update(contractAmendments)
+        .set({ ...terms, updatedAt: new Date() })
+        .where(eq(contractAmendments.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Scoped by the amendment's company, like updateContractSigning
+  async updateAmendmentSigning(id: string, signing: AmendmentSigningUpdate, companyId: string): Promise<ContractAmendment> {
+    return db.transaction(async (tx) => {
+      const current = await this.lockAmendment(tx, id, companyId);
+      const nextStatus = signing.status && signing.status !== current.status ? signing.status : null;
+      if (nextStatus && !(isAmendmentStatus(nextStatus) && canTransitionAmendment(current.status, nextStatus))) {
+        throw new Error('Invalid amendment status transition');
+      }
+
+      const [updated] = await tx
+        .update(contractAmendments)
+        .set({ ...signing, updatedAt: new Date() })
+        .where(eq(contractAmendments.id, id))
+        .returning();
+
+      if (nextStatus === "signed") {
+        await this.applyAmendmentsToCar(tx, updated.contractId);
+      }
+      return updated;
+    });
+  }
+
+  async deleteContractAmendment(id: string, userId: string): Promise<boolean> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(contractAmendments)
+        .where(and(eq(contractAmendments.id, id), eq(contractAmendments.companyId, companyId)))
+        .for('update');
+      if (!current) return false;
+      if (current.status === "signed" || current.status === "pending_signature") throw new Error('Amendment is locked');
+
+      await tx.delete(contractAmendments).where(eq(contractAmendments.id, id));
+      return true;
+    });
+  }
+
+  async getAmendmentBySigningDocument(provider: string, documentId: string): Promise<ContractAmendment | undefined> {
+    const [amendment] = await db.select().from(contractAmendments)
+      .where(and(eq(contractAmendments.signingProvider, provider), eq(contractAmendments.signingDocumentId, documentId)));
+    return amendment;
+  }
+
+  // The car's sold price is the contract price plus every signed amendment and credit note
+  private async applyAmendmentsToCar(tx: Transaction, contractId: string): Promise<void> {
+    const [contract] = await tx.select().from(contracts).where(eq(contracts.id, contractId));
+    const [{ adjustment }] = await tx
+      .select({ adjustment: sql<string>`coalesce(sum(${contractAmendments.priceAdjustment}), 0)` })
+      .from(contractAmendments)
+      .where(and(eq(contractAmendments.contractId, contractId), eq(contractAmendments.status, "signed")));
+
+    await tx
+      .update(cars)
+      .set({
+        soldPrice: String(Number(contract.salePrice) + Number(adjustment)),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(cars.id, contract.carId),
+        eq(cars.status, "sold"),
+        eq(cars.soldToCustomerId, contract.customerId),
+      ));
+  }
+
+  // E-signing webhooks
+  async getContractBySigningDocument(provider: string, documentId: string): Promise<Contract | undefined> {
+    const [contract] = await db.select().from(contracts)
+      .where(and(eq(contracts.signingProvider, provider), eq(contracts.signingDocumentId, documentId)));
+    return contract;
+  }
+
+  // Returns the stored row; a replayed delivery gets the original row back
+  // (with processedAt set once it has been handled)
+  async recordSigningWebhookEvent(event: {
+    provider: string;
+    eventId: string;
+    documentId: string;
+    contractId?: string | null;
+    payload?: unknown;
+  }): Promise<SigningWebhookEvent> {
+    const [created] = await db
+      .insert(signingWebhookEvents)
+      .values(event)
+      .onConflictDoNothing()
       .returning();
-    
-    if (!updatedContract) throw new Error('Contract not found or not authorized');
-    return updatedContract;
+    if (created) return created;
+
+    const [existing] = await db.select().from(signingWebhookEvents)
+      .where(and(
+        eq(signingWebhookEvents.provider, event.provider),
+        eq(signingWebhookEvents.eventId, event.eventId),
+      ));
+    return existing;
   }
 
-  async deleteContract(id: string, userId: string): Promise<boolean> {
-    const result = await db
-      .delete(contracts)
-      .where(and(eq(contracts.id, id), eq(contracts.userId, userId)));
-    return result.rowCount > 0;
+  async markSigningWebhookEventProcessed(id: string): Promise<void> {
+    await db
+      .update(signingWebhookEvents)
+      .set({ processedAt: new Date() })
+      .where(eq(signingWebhookEvents.id, id));
+  }
+
+  // Contract templates
+  async getContractTemplates(companyId: string): Promise<Array<ContractTemplate & { latestVersion: number | null }>> {
+    const templates = await db.select().from(contractTemplates)
+      .where(eq(contractTemplates.companyId, companyId))
+      .orderBy(contractTemplates.contractType);
+
+    const latest = await db
+      .select({
+        templateId: contractTemplateVersions.templateId,
+        version: sql<number>`max(${contractTemplateVersions.version})`,
+      })
+      .from(contractTemplateVersions)
+      .innerJoin(contractTemplates, eq(contractTemplateVersions.templateId, contractTemplates.id))
+      .where(eq(contractTemplates.companyId, companyId))
+      .groupBy(contractTemplateVersions.templateId);
+
+    return templates.map(template => ({
+      ...template,
+      latestVersion: latest.find(l => l.templateId === template.id)?.version ?? null,
+    }));
+  }
+
+  async getContractTemplateById(id: string, companyId: string): Promise<ContractTemplate | undefined> {
+    const [template] = await db.select().from(contractTemplates)
+      .where(and(eq(contractTemplates.id, id), eq(contractTemplates.companyId, companyId)));
+    return template;
+  }
+
+  async createContractTemplate(template: InsertContractTemplate, companyId: string, userId: string): Promise<ContractTemplate> {
+    const [created] = await db
+      .insert(contractTemplates)
+      .values({ ...template, companyId, createdBy: userId })
+      .returning();
+    return created;
+  }
+
+  async updateContractTemplate(id: string, template: Partial<InsertContractTemplate>, companyId: string): Promise<ContractTemplate> {
+    const [updated] = await db
+      .update(contractTemplates)
+      .set({ ...template, updatedAt: new Date() })
+      .where(and(eq(contractTemplates.id, id), eq(contractTemplates.companyId, companyId)))
+      .returning();
+
+    if (!updated) throw new Error('Template not found or not authorized');
+    return updated;
+  }
+
+  // Snapshot the current draft as the next version number
+  async publishContractTemplate(id: string, companyId: string, userId: string, notes?: string): Promise<ContractTemplateVersion> {
+    return db.transaction(async (tx) => {
+      const [template] = await tx.select().from(contractTemplates)
+        .where(and(eq(contractTemplates.id, id), eq(contractTemplates.companyId, companyId)))
+        .for('update');
+      if (!template) throw new Error('Template not found or not authorized');
+
+      const [{ current }] = await tx
+        .select({ current: sql<number>`coalesce(max(${contractTemplateVersions.version}), 0)` })
+        .from(contractTemplateVersions)
+        .where(eq(contractTemplateVersions.templateId, id));
+
+      const [version] = await tx
+        .insert(contractTemplateVersions)
+        .values({
+          templateId: id,
+          version: Number(current) + 1,
+          body: template.draftBody,
+          notes: notes || null,
+          publishedBy: userId,
+        })
+        .returning();
+      return version;
+    });
+  }
+
+  async getContractTemplateVersions(templateId: string, companyId: string): Promise<ContractTemplateVersion[]> {
+    const results = await db
+      .select({ version: contractTemplateVersions })
+      .from(contractTemplateVersions)
+      .innerJoin(contractTemplates, eq(contractTemplateVersions.templateId, contractTemplates.id))
+      .where(and(eq(contractTemplates.id, templateId), eq(contractTemplates.companyId, companyId)))
+      .orderBy(desc(contractTemplateVersions.version));
+    return results.map(r => r.version);
+  }
+
+  async getContractTemplateVersion(versionId: string, companyId: string): Promise<ContractTemplateVersion | undefined> {
+    const [result] = await db
+      .select({ version: contractTemplateVersions })
+      .from(contractTemplateVersions)
+      .innerJoin(contractTemplates, eq(contractTemplateVersions.templateId, contractTemplates.id))
+      .where(and(eq(contractTemplateVersions.id, versionId), eq(contractTemplates.companyId, companyId)));
+    return result?.version;
+  }
+
+  async getPublishedTemplateVersion(companyId: string, contractType: string): Promise<ContractTemplateVersion | undefined> {
+    const [result] = await db
+      .select({ version: contractTemplateVersions })
+      .from(contractTemplateVersions)
+      .innerJoin(contractTemplates, eq(contractTemplateVersions.templateId, contractTemplates.id))
+      .where(and(eq(contractTemplates.companyId, companyId), eq(contractTemplates.contractType, contractType)))
+      .orderBy(desc(contractTemplateVersions.version))
+      .limit(1);
+    return result?.version;
+  }
+
+  async getCompanyRoles(companyId: string): Promise<Array<CompanyRole & { memberCount: number }>> {
+    const roles = await db.select().from(companyRoles)
+      .where(eq(companyRoles.companyId, companyId))
+      .orderBy(companyRoles.name);
+
+    const counts = await db
+      .select({ customRoleId: memberships.customRoleId, count: sql<number>`count(*)::int` })
+      .from(memberships)
+      .where(eq(memberships.companyId, companyId))
+      .groupBy(memberships.customRoleId);
+
+    return roles.map(role => ({
+      ...role,
+      memberCount: counts.find(c => c.customRoleId === role.id)?.count ?? 0,
+    }));
+  }
+
+  async getCompanyRoleById(id: string, companyId: string): Promise<CompanyRole | undefined> {
+    const [role] = await db.select().from(companyRoles)
+      .where(and(eq(companyRoles.id, id), eq(companyRoles.companyId, companyId)));
+    return role;
+  }
+
+  async createCompanyRole(role: InsertCompanyRole, companyId: string, userId: string): Promise<CompanyRole> {
+    const [created] = await db
+      .insert(companyRoles)
+      .values({ ...role, companyId, createdBy: userId })
+      .returning();
+    return created;
+  }
+
+  async updateCompanyRole(id: string, role: Partial<InsertCompanyRole>, companyId: string): Promise<CompanyRole> {
+    const [updated] = await db
+      .update(companyRoles)
+      .set({ ...role, updatedAt: new Date() })
+      .where(and(eq(companyRoles.id, id), eq(companyRoles.companyId, companyId)))
+      .returning();
+
+    if (!updated) throw new Error('Role not found or not authorized');
+    return updated;
+  }
+
+  // Members on the role fall back to their built-in role (ON DELETE SET NULL)
+  async deleteCompanyRole(id: string, companyId: string): Promise<boolean> {
+    const result = await db.delete(companyRoles)
+      .where(and(eq(companyRoles.id, id), eq(companyRoles.companyId, companyId)))
+      .returning({ id: companyRoles.id });
+    return result.length > 0;
+  }
+
+  async getCompanyMembers(companyId: string): Promise<CompanyMember[]> {
+    return db
+      .select({
+        userId: memberships.userId,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        role: memberships.role,
+        customRoleId: memberships.customRoleId,
+        customRoleName: companyRoles.name,
+        joinedAt: memberships.joinedAt,
+      })
+      .from(memberships)
+      .innerJoin(users, eq(memberships.userId, users.id))
+      .leftJoin(companyRoles, eq(memberships.customRoleId, companyRoles.id))
+      .where(eq(memberships.companyId, companyId))
+      .orderBy(memberships.joinedAt);
+  }
+
+  async updateMemberRole(memberUserId: string, update: MemberRoleUpdate, companyId: string): Promise<Membership> {
+    return db.transaction(async (tx) => {
+      const keepsOwnership = update.role === 'EIER' && !update.customRoleId;
+      if (!keepsOwnership) {
+        await this.assertNotLastOwner(memberUserId, companyId, tx);
+      }
+
+      if (update.customRoleId) {
+        const [customRole] = await tx.select({ id: companyRoles.id }).from(companyRoles)
+          .where(and(eq(companyRoles.id, update.customRoleId), eq(companyRoles.companyId, companyId)));
+        if (!customRole) throw new Error('Role not found or not authorized');
+      }
+
+      const [membership] = await tx.update(memberships)
+        .set({ role: update.role, customRoleId: update.customRoleId ?? null })
+        .where(and(eq(memberships.userId, memberUserId), eq(memberships.companyId, companyId)))
+        .returning();
+      if (!membership) throw new Error('Member not found or not authorized');
+      return membership;
+    });
+  }
+
+  async removeCompanyMember(memberUserId: string, companyId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await this.assertNotLastOwner(memberUserId, companyId, tx);
+      const result = await tx.delete(memberships)
+        .where(and(eq(memberships.userId, memberUserId), eq(memberships.companyId, companyId)))
+        .returning({ id: memberships.id });
+      return result.length > 0;
+    });
+  }
+
+  // Owners are members on the built-in EIER role; locks them so two
+  // concurrent demotions cannot both pass
+  private async assertNotLastOwner(memberUserId: string, companyId: string, executor: Transaction): Promise<void> {
+    const owners = await executor.select({ userId: memberships.userId }).from(memberships)
+      .where(and(
+        eq(memberships.companyId, companyId),
+        eq(memberships.role, 'EIER'),
+        sql`${memberships.customRoleId} IS NULL`,
+      ))
+      .for('update');
+    if (owners.length === 1 && owners[0].userId === memberUserId) {
+      throw new Error('Company must keep an owner');
+    }
   }
 
   // Dashboard stats
@@ -310,14 +1437,15 @@ export class DatabaseStorage implements IStorage {
     totalContracts: number;
     monthlyProfit: number;
   }> {
+    const companyId = await this.getActiveCompanyId(userId);
     const [carsCount] = await db.select({ count: sql<number>`count(*)` }).from(cars)
-      .where(eq(cars.userId, userId));
+      .where(eq(cars.companyId, companyId));
     
     const [customersCount] = await db.select({ count: sql<number>`count(*)` }).from(customers)
-      .where(eq(customers.userId, userId));
+      .where(eq(customers.companyId, companyId));
     
     const [contractsCount] = await db.select({ count: sql<number>`count(*)` }).from(contracts)
-      .where(eq(contracts.userId, userId));
+      .where(eq(contracts.companyId, companyId));
 
     // Calculate monthly profit (simplified)
     const monthlyProfit = 0;
@@ -331,17 +1459,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Activity Log operations
+  // Logging never fails the action: a user without a company gets an unscoped entry
   async createActivityLog(activity: InsertActivityLog): Promise<ActivityLog> {
+    const companyId = activity.companyId ?? await this.findActiveCompanyId(activity.userId);
     const [newActivity] = await db
       .insert(activityLog)
-      .values(activity)
+      .values({ ...activity, companyId })
       .returning();
     return newActivity;
   }
 
   async getRecentActivities(userId: string, limit: number = 20): Promise<ActivityLog[]> {
+    const companyId = await this.getActiveCompanyId(userId);
     const results = await db.select().from(activityLog)
-      .where(eq(activityLog.userId, userId))
+      .where(eq(activityLog.companyId, companyId))
       .orderBy(desc(activityLog.createdAt))
       .limit(limit);
     return results;
@@ -390,42 +1521,159 @@ export class DatabaseStorage implements IStorage {
       });
   }
 
-  // Follow-ups methods  
-  async getFollowups(userId: string): Promise<Followup[]> {
-    const results = await db.select().from(followups)
-      .where(eq(followups.userId, userId))
-      .orderBy(followups.dueDate);
-    return results;
+  // Follow-ups methods
+  async getFollowups(userId: string, filters: { assignedTo?: string; status?: Followup["status"] } = {}): Promise<FollowupWithNames[]> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const conditions = [eq(followups.companyId, companyId)];
+    if (filters.assignedTo) conditions.push(eq(followups.userId, filters.assignedTo));
+    if (filters.status) conditions.push(eq(followups.status, filters.status));
+    return this.loadFollowups(and(...conditions)!);
+  }
+
+  private async loadFollowups(where: SQL): Promise<FollowupWithNames[]> {
+    const rows = await db.select({
+      followup: followups,
+      customerName: customers.name,
+      assigneeFirstName: users.firstName,
+      assigneeLastName: users.lastName,
+      assigneeEmail: users.email,
+    })
+      .from(followups)
+      .innerJoin(customers, eq(followups.customerId, customers.id))
+      .leftJoin(users, eq(followups.userId, users.id))
+      .where(where)
+      .orderBy(followups.dueAt);
+
+    return rows.map(row => ({
+      ...row.followup,
+      customerName: row.customerName,
+      assigneeName: [row.assigneeFirstName, row.assigneeLastName].filter(Boolean).join(" ") || row.assigneeEmail,
+    }));
   }
 
   async createFollowup(followup: InsertFollowup, userId: string): Promise<Followup> {
+    const companyId = await this.getActiveCompanyId(userId);
+    await this.assertCompanyCustomer(followup.customerId, companyId);
+    await this.assertAssignee(followup.userId, companyId);
     const [newFollowup] = await db
       .insert(followups)
       .values({
         ...followup,
-        userId,
+        recurrenceInterval: followup.recurrenceUnit ? followup.recurrenceInterval ?? 1 : null,
+        userId: followup.userId ?? userId,
+        companyId,
+        createdBy: userId,
       })
       .returning();
     return newFollowup;
   }
 
-  async updateFollowup(id: string, followup: Partial<InsertFollowup>, userId: string): Promise<Followup> {
-    const [updatedFollowup] = await db
-      .update(followups)
-      .set(followup)
-      .where(and(eq(followups.id, id), eq(followups.userId, userId)))
-      .returning();
-    
-    if (!updatedFollowup) throw new Error('Follow-up not found or not authorized');
-    return updatedFollowup;
+  /**
+   * Edit, reassign or close a follow-up. Closing a recurring one schedules
+   * the next occurrence, and a closed follow-up stays closed. Moving the due
+   * time or the assignee re-arms the reminder.
+   */
+  async updateFollowup(id: string, updates: UpdateFollowup, userId: string): Promise<Followup> {
+    const companyId = await this.getActiveCompanyId(userId);
+    if (updates.userId !== undefined) await this.assertAssignee(updates.userId, companyId);
+
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(followups)
+        .where(and(eq(followups.id, id), eq(followups.companyId, companyId)))
+        .for('update');
+      if (!current) throw new Error('Follow-up not found or not authorized');
+      if (current.status !== "OPEN") throw new Error('Follow-up is already closed');
+
+      const now = new Date();
+      const changes: Partial<typeof followups.$inferInsert> = { ...updates };
+      if (updates.recurrenceUnit !== undefined) {
+        changes.recurrenceInterval = updates.recurrenceUnit
+          ? updates.recurrenceInterval ?? current.recurrenceInterval ?? 1
+          : null;
+      }
+      if ((updates.dueAt && updates.dueAt.getTime() !== current.dueAt.getTime())
+        || (updates.userId && updates.userId !== current.userId)) {
+        changes.reminderSentAt = null;
+      }
+      const closing = updates.status !== undefined && updates.status !== "OPEN";
+      if (closing) {
+        changes.completedAt = now;
+        changes.completedBy = userId;
+      }
+
+      const [updatedFollowup] = await tx.update(followups)
+        .set(changes)
+        .where(eq(followups.id, id))
+        .returning();
+
+      if (closing && updatedFollowup.recurrenceUnit && updatedFollowup.recurrenceInterval) {
+        await tx.insert(followups).values({
+          companyId,
+          customerId: updatedFollowup.customerId,
+          userId: updatedFollowup.userId,
+          type: updatedFollowup.type,
+          note: updatedFollowup.note,
+          dueAt: nextOccurrence(updatedFollowup.dueAt, updatedFollowup.recurrenceUnit, updatedFollowup.recurrenceInterval, now),
+          recurrenceUnit: updatedFollowup.recurrenceUnit,
+          recurrenceInterval: updatedFollowup.recurrenceInterval,
+          previousId: updatedFollowup.id,
+          createdBy: userId,
+        });
+      }
+
+      return updatedFollowup;
+    });
   }
 
-  async getTodayFollowups(userId: string): Promise<Followup[]> {
-    const today = new Date().toISOString().split('T')[0];
-    const results = await db.select().from(followups)
-      .where(and(eq(followups.userId, userId), eq(followups.dueDate, today)))
-      .orderBy(followups.createdAt);
-    return results;
+  // The caller's open follow-ups due by the end of today, overdue ones included
+  async getTodayFollowups(userId: string, now = new Date()): Promise<FollowupWithNames[]> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const endOfToday = endOfOsloDay(now);
+    return this.loadFollowups(and(
+      eq(followups.companyId, companyId),
+      eq(followups.userId, userId),
+      eq(followups.status, "OPEN"),
+      lte(followups.dueAt, endOfToday),
+    )!);
+  }
+
+  // Open follow-ups due by `until` whose assignee has not been reminded yet
+  async getDueFollowupReminders(until: Date): Promise<FollowupReminder[]> {
+    const rows = await db.select({
+      followup: followups,
+      customerName: customers.name,
+      assigneeEmail: users.email,
+      assigneeFirstName: users.firstName,
+      assigneeLastName: users.lastName,
+      assigneePhone: profiles.phone,
+      notificationsEmail: userSettings.notificationsEmail,
+      notificationsSms: userSettings.notificationsSms,
+    })
+      .from(followups)
+      .innerJoin(customers, eq(followups.customerId, customers.id))
+      .innerJoin(users, eq(followups.userId, users.id))
+      .leftJoin(profiles, eq(profiles.id, users.id))
+      .leftJoin(userSettings, eq(userSettings.userId, users.id))
+      .where(and(
+        eq(followups.status, "OPEN"),
+        isNull(followups.reminderSentAt),
+        lte(followups.dueAt, until),
+      ))
+      .orderBy(followups.dueAt);
+
+    return rows.map(row => ({
+      followup: row.followup,
+      customerName: row.customerName,
+      assigneeEmail: row.assigneeEmail,
+      assigneeName: [row.assigneeFirstName, row.assigneeLastName].filter(Boolean).join(" ") || null,
+      assigneePhone: row.assigneePhone,
+      notificationsEmail: row.notificationsEmail,
+      notificationsSms: row.notificationsSms,
+    }));
+  }
+
+  async markFollowupReminded(id: string, at: Date): Promise<void> {
+    await db.update(followups).set({ reminderSentAt: at }).where(eq(followups.id, id));
   }
 
   // Customer 360 profile
@@ -434,6 +1682,7 @@ export class DatabaseStorage implements IStorage {
     cars: Car[];
     contracts: Contract[];
     followups: Followup[];
+    messages: CustomerMessageWithSender[];
   }> {
     // Get customer
     const customer = await this.getCustomerById(customerId, userId);
@@ -443,32 +1692,37 @@ export class DatabaseStorage implements IStorage {
 
     // Get customer's contracts
     const customerContracts = await this.getContractsByCustomer(customerId, userId);
+    const companyId = customer.companyId;
 
     // Get cars from contracts  
     const carIds = customerContracts.map(c => c.carId);
     const customerCars = carIds.length > 0 
       ? await db.select().from(cars).where(and(
-          eq(cars.userId, userId),
+          eq(cars.companyId, companyId),
           sql`${cars.id} = ANY(${carIds})`
         ))
       : [];
 
     // Get customer follow-ups
     const customerFollowups = await db.select().from(followups)
-      .where(and(eq(followups.userId, userId), eq(followups.customerId, customerId)))
+      .where(and(eq(followups.companyId, companyId), eq(followups.customerId, customerId)))
       .orderBy(desc(followups.createdAt));
 
+    const messages = await this.getCustomerMessages(customerId, companyId);
+
     return {
       customer,
       cars: customerCars,
       contracts: customerContracts,
       followups: customerFollowups,
+      messages,
     };
   }
 
   async getContractsByCustomer(customerId: string, userId: string): Promise<Contract[]> {
+    const companyId = await this.getActiveCompanyId(userId);
     const results = await db.select().from(contracts)
-      .where(and(eq(contracts.customerId, customerId), eq(contracts.userId, userId)))
+      .where(and(eq(contracts.customerId, customerId), eq(contracts.companyId, companyId)))
       .orderBy(desc(contracts.createdAt));
     return results;
   }
@@ -517,6 +1771,18 @@ export class DatabaseStorage implements IStorage {
     if (filters.gearbox) {
       conditions.push(eq(marketComps.gearbox, filters.gearbox));
     }
+    if (filters.yearMin !== undefined) {
+      conditions.push(gte(marketComps.year, filters.yearMin));
+    }
+    if (filters.yearMax !== undefined) {
+      conditions.push(lte(marketComps.year, filters.yearMax));
+    }
+    if (filters.kmMin !== undefined) {
+      conditions.push(gte(marketComps.km, filters.kmMin));
+    }
+    if (filters.kmMax !== undefined) {
+      conditions.push(lte(marketComps.km, filters.kmMax));
+    }
 
     if (conditions.length > 0) {
       query = query.where(and(...conditions));
@@ -539,6 +1805,1153 @@ export class DatabaseStorage implements IStorage {
     return newComp;
   }
 
+  async getRepricingCandidates(): Promise<RepricingCandidate[]> {
+    const rows = await db
+      .select({
+        car: cars,
+        mode: companySettings.repricingMode,
+        lastTier: sql<number>`coalesce(max(${carPriceSuggestions.agingTier}), 0)`.mapWith(Number),
+      })
+      .from(cars)
+      .leftJoin(companySettings, eq(companySettings.companyId, cars.companyId))
+      .leftJoin(carPriceSuggestions, eq(carPriceSuggestions.carId, cars.id))
+      .where(and(
+        eq(cars.status, "available"),
+        sql`coalesce(${companySettings.repricingMode}, 'suggest') <> 'off'`,
+      ))
+      .groupBy(cars.id, companySettings.id);
+    return rows.map(row => ({ car: row.car, mode: row.mode ?? "suggest", lastTier: row.lastTier }));
+  }
+
+  /**
+   * Record the aging job's proposal and, in auto mode, apply it straight
+   * away. Returns null when the tier was already handled or the car was sold
+   * or repriced since the job read it.
+   */
+  async recordPriceSuggestion(suggestion: InsertCarPriceSuggestion, apply: boolean): Promise<CarPriceSuggestion | null> {
+    return db.transaction(async (tx) => {
+      const [car] = await tx.select().from(cars)
+        .where(and(eq(cars.id, suggestion.carId), eq(cars.companyId, suggestion.companyId)))
+        .for('update');
+      if (!car || car.status !== "available" || Number(car.salePrice) !== Number(suggestion.currentPrice)) {
+        return null;
+      }
+
+      const [created] = await tx.insert(carPriceSuggestions)
+        .values(apply ? { ...suggestion, status: "applied", resolvedAt: new Date() } : suggestion)
+        .onConflictDoNothing()
+        .returning();
+      if (!created) return null;
+
+      // A deeper tier replaces proposals nobody acted on
+      await tx.update(carPriceSuggestions)
+        .set({ status: "dismissed", resolvedAt: new Date() })
+        .where(and(
+          eq(carPriceSuggestions.carId, car.id),
+          eq(carPriceSuggestions.status, "pending"),
+          sql`${carPriceSuggestions.agingTier} < ${created.agingTier}`,
+        ));
+
+      if (apply) {
+        await this.setSalePrice(tx, car, created.suggestedPrice, created.reason, null);
+      }
+
+      await tx.insert(activityLog).values({
+        type: apply ? "car_repriced" : "car_price_suggested",
+        message: apply
+          ? `Prisen på ${car.make} ${car.model} (${car.registrationNumber}) er satt ned etter ${created.daysOnLot} dager`
+          : `Foreslått prisreduksjon på ${car.make} ${car.model} (${car.registrationNumber}) etter ${created.daysOnLot} dager`,
+        entityId: car.id,
+        entityType: "cars",
+        userId: car.userId,
+        companyId: car.companyId,
+        metadata: {
+          suggestionId: created.id,
+          oldPrice: created.currentPrice,
+          newPrice: created.suggestedPrice,
+          agingTier: created.agingTier,
+        },
+      });
+
+      return created;
+    });
+  }
+
+  async getCarPriceSuggestions(carId: string, userId: string): Promise<CarPriceSuggestion[]> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.select().from(carPriceSuggestions)
+      .where(and(eq(carPriceSuggestions.carId, carId), eq(carPriceSuggestions.companyId, companyId)))
+      .orderBy(desc(carPriceSuggestions.createdAt));
+  }
+
+  async applyPriceSuggestion(id: string, userId: string): Promise<CarPriceSuggestion> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [found] = await tx.select({ carId: carPriceSuggestions.carId }).from(carPriceSuggestions)
+        .where(and(eq(carPriceSuggestions.id, id), eq(carPriceSuggestions.companyId, companyId)));
+      if (!found) throw new Error('Suggestion not found or not authorized');
+
+      // Car first, same lock order as the aging job
+      const [car] = await tx.select().from(cars).where(eq(cars.id, found.carId)).for('update');
+      const [suggestion] = await tx.select().from(carPriceSuggestions)
+        .where(eq(carPriceSuggestions.id, id))
+        .for('update');
+      if (!car || !suggestion) throw new Error('Suggestion not found or not authorized');
+      if (suggestion.status !== "pending") throw new Error('Suggestion is no longer pending');
+      if (car.status !== "available") throw new Error('Car is no longer available');
+
+      await this.setSalePrice(tx, car, suggestion.suggestedPrice, suggestion.reason, userId);
+      const [applied] = await tx.update(carPriceSuggestions)
+        .set({ status: "applied", resolvedBy: userId, resolvedAt: new Date() })
+        .where(eq(carPriceSuggestions.id, id))
+        .returning();
+      return applied;
+    });
+  }
+
+  async dismissPriceSuggestion(id: string, userId: string): Promise<CarPriceSuggestion> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const [dismissed] = await db.update(carPriceSuggestions)
+      .set({ status: "dismissed", resolvedBy: userId, resolvedAt: new Date() })
+      .where(and(
+        eq(carPriceSuggestions.id, id),
+        eq(carPriceSuggestions.companyId, companyId),
+        eq(carPriceSuggestions.status, "pending"),
+      ))
+      .returning();
+    if (!dismissed) throw new Error('Suggestion not found or not authorized');
+    return dismissed;
+  }
+
+  // Set the list price and keep the history; changedBy is null for the aging job
+  private async setSalePrice(
+    tx: Transaction,
+    car: Car,
+    newPrice: string,
+    reason: string | null,
+    changedBy: string | null,
+  ): Promise<void> {
+    const [updated] = await tx.update(cars)
+      .set({ salePrice: newPrice, updatedAt: new Date() })
+      .where(eq(cars.id, car.id))
+      .returning();
+    await this.recordPriceChanges(tx, car, updated, "aging", reason, changedBy);
+  }
+
+  async getReconTasks(
+    userId: string,
+    filters: { carId?: string; assignedTo?: string; doneSince?: Date } = {},
+  ): Promise<ReconTaskWithLines[]> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const conditions = [eq(reconTasks.companyId, companyId)];
+    if (filters.carId) conditions.push(eq(reconTasks.carId, filters.carId));
+    if (filters.assignedTo) conditions.push(eq(reconTasks.assignedTo, filters.assignedTo));
+    if (filters.doneSince) {
+      conditions.push(or(ne(reconTasks.status, "done"), gte(reconTasks.completedAt, filters.doneSince))!);
+    }
+
+    const rows = await db
+      .select({
+        task: reconTasks,
+        car: {
+          id: cars.id,
+          make: cars.make,
+          model: cars.model,
+          registrationNumber: cars.registrationNumber,
+          status: cars.status,
+        },
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(reconTasks)
+      .innerJoin(cars, eq(reconTasks.carId, cars.id))
+      .leftJoin(users, eq(reconTasks.assignedTo, users.id))
+      .where(and(...conditions))
+      .orderBy(reconTasks.createdAt);
+    if (rows.length === 0) return [];
+
+    const lines = await db.select().from(reconTaskLines)
+      .where(inArray(reconTaskLines.taskId, rows.map(row => row.task.id)))
+      .orderBy(reconTaskLines.createdAt);
+
+    return rows.map(({ task, car, firstName, lastName, email }) => {
+      const taskLines = lines.filter(line => line.taskId === task.id);
+      return {
+        ...task,
+        car,
+        lines: taskLines,
+        total: taskLines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unitCost), 0),
+        assigneeName: task.assignedTo ? [firstName, lastName].filter(Boolean).join(" ") || email || null : null,
+      };
+    });
+  }
+
+  async createReconTask(carId: string, task: InsertReconTask, userId: string): Promise<ReconTask> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const [car] = await db.select({ id: cars.id, status: cars.status }).from(cars)
+      .where(and(eq(cars.id, carId), eq(cars.companyId, companyId)));
+    if (!car) throw new Error('Car not found or not authorized');
+    if (car.status === "sold") throw new Error('Car is already sold');
+    await this.assertAssignee(task.assignedTo, companyId);
+
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(reconTasks)
+        .values({ ...task, companyId, carId, createdBy: userId })
+        .returning();
+      if (created.mandatory) await this.holdCarForRecon(tx, carId, companyId);
+      return created;
+    });
+  }
+
+  async updateReconTask(id: string, updates: UpdateReconTask, userId: string): Promise<ReconTask> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const [current] = await db.select().from(reconTasks)
+      .where(and(eq(reconTasks.id, id), eq(reconTasks.companyId, companyId)));
+    if (!current) throw new Error('Recon task not found or not authorized');
+    if (updates.assignedTo !== undefined) await this.assertAssignee(updates.assignedTo, companyId);
+
+    const completion = updates.status === undefined || (updates.status === "done") === (current.status === "done")
+      ? {}
+      : updates.status === "done"
+        ? { completedAt: new Date(), completedBy: userId }
+        : { completedAt: null, completedBy: null };
+
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(reconTasks)
+        .set({ ...updates, ...completion, updatedAt: new Date() })
+        .where(eq(reconTasks.id, id))
+        .returning();
+      if (updated.mandatory && updated.status !== "done") await this.holdCarForRecon(tx, updated.carId, companyId);
+      return updated;
+    });
+  }
+
+  async deleteReconTask(id: string, userId: string): Promise<boolean> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [task] = await tx.select({ carId: reconTasks.carId }).from(reconTasks)
+        .where(and(eq(reconTasks.id, id), eq(reconTasks.companyId, companyId)));
+      if (!task) return false;
+
+      const car = await this.lockCar(tx, task.carId);
+      await tx.delete(reconTasks).where(eq(reconTasks.id, id));
+      await this.syncReconCost(tx, car, userId);
+      return true;
+    });
+  }
+
+  async addReconTaskLine(taskId: string, line: InsertReconTaskLine, userId: string): Promise<ReconTaskLine> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [task] = await tx.select({ carId: reconTasks.carId }).from(reconTasks)
+        .where(and(eq(reconTasks.id, taskId), eq(reconTasks.companyId, companyId)));
+      if (!task) throw new Error('Recon task not found or not authorized');
+
+      const car = await this.lockCar(tx, task.carId);
+      const [created] = await tx.insert(reconTaskLines)
+        .values({ ...line, companyId, taskId, createdBy: userId })
+        .returning();
+      await this.syncReconCost(tx, car, userId);
+      return created;
+    });
+  }
+
+  async deleteReconTaskLine(id: string, userId: string): Promise<boolean> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [line] = await tx.select({ carId: reconTasks.carId })
+        .from(reconTaskLines)
+        .innerJoin(reconTasks, eq(reconTaskLines.taskId, reconTasks.id))
+        .where(and(eq(reconTaskLines.id, id), eq(reconTaskLines.companyId, companyId)));
+      if (!line) return false;
+
+      const car = await this.lockCar(tx, line.carId);
+      await tx.delete(reconTaskLines).where(eq(reconTaskLines.id, id));
+      await this.syncReconCost(tx, car, userId);
+      return true;
+    });
+  }
+
+  private async lockCar(tx: Transaction, carId: string): Promise<Car> {
+    const [car] = await tx.select().from(cars).where(eq(cars.id, carId)).for('update');
+    if (!car) throw new Error('Car not found or not authorized');
+    return car;
+  }
+
+  private async assertAssignee(assignedTo: string | null | undefined, companyId: string): Promise<void> {
+    if (assignedTo && !(await this.getUserMembership(assignedTo, companyId))) {
+      throw new Error('Assignee is not a member of the company');
+    }
+  }
+
+  private async hasReconLines(tx: Transaction, carId: string): Promise<boolean> {
+    const [line] = await tx.select({ id: reconTaskLines.id })
+      .from(reconTaskLines)
+      .innerJoin(reconTasks, eq(reconTaskLines.taskId, reconTasks.id))
+      .where(eq(reconTasks.carId, carId))
+      .limit(1);
+    return !!line;
+  }
+
+  // Recon cost becomes the sum of the car's work-order lines once it has any
+  private async syncReconCost(tx: Transaction, car: Car, changedBy: string): Promise<void> {
+    const [{ total }] = await tx
+      .select({ total: sql<string>`COALESCE(SUM(${reconTaskLines.quantity}::numeric * ${reconTaskLines.unitCost}::numeric), 0)` })
+      .from(reconTaskLines)
+      .innerJoin(reconTasks, eq(reconTaskLines.taskId, reconTasks.id))
+      .where(eq(reconTasks.carId, car.id));
+    const recondCost = String(Math.round(Number(total) * 100) / 100);
+    if (Number(car.recondCost || 0) === Number(recondCost)) return;
+
+    const [updated] = await tx.update(cars)
+      .set({ recondCost, updatedAt: new Date() })
+      .where(eq(cars.id, car.id))
+      .returning();
+    await this.recordPriceChanges(tx, car, updated, "recon", null, changedBy);
+  }
+
+  /**
+   * Work orders own the recon cost once they have lines, and a company can
+   * hold cars back from sale until their mandatory tasks are done.
+   */
+  private async assertReconAllowsUpdate(tx: Transaction, current: Car, changes: Partial<InsertCar>): Promise<void> {
+    if (
+      changes.recondCost !== undefined &&
+      Number(changes.recondCost || 0) !== Number(current.recondCost || 0) &&
+      await this.hasReconLines(tx, current.id)
+    ) {
+      throw new Error('Recon cost is calculated from work orders');
+    }
+
+    if (changes.status !== "available" || current.status === "available") return;
+    if (!(await this.requiresReconBeforeAvailable(tx, current.companyId))) return;
+
+    const [open] = await tx.select({ id: reconTasks.id }).from(reconTasks)
+      .where(and(eq(reconTasks.carId, current.id), eq(reconTasks.mandatory, true), ne(reconTasks.status, "done")))
+      .limit(1);
+    if (open) throw new Error('Mandatory recon tasks are not done');
+  }
+
+  private async requiresReconBeforeAvailable(tx: Transaction, companyId: string): Promise<boolean> {
+    const [settings] = await tx.select({ required: companySettings.requireReconBeforeAvailable })
+      .from(companySettings)
+      .where(eq(companySettings.companyId, companyId));
+    return !!settings?.required;
+  }
+
+  // Cars come in as available, so open mandatory work takes one off sale
+  // until the workshop is done and it is released again
+  private async holdCarForRecon(tx: Transaction, carId: string, companyId: string): Promise<void> {
+    if (!(await this.requiresReconBeforeAvailable(tx, companyId))) return;
+    await tx.update(cars)
+      .set({ status: RECON_HOLD_STATUS, updatedAt: new Date() })
+      .where(and(eq(cars.id, carId), eq(cars.status, "available")));
+  }
+
+  // Lead pipeline
+  async getLeads(userId: string, filters: { ownerId?: string } = {}): Promise<LeadWithCars[]> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const conditions = [eq(leads.companyId, companyId)];
+    if (filters.ownerId) conditions.push(eq(leads.ownerId, filters.ownerId));
+    return this.loadLeads(and(...conditions));
+  }
+
+  async getLeadById(id: string, userId: string): Promise<LeadWithCars | undefined> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const [lead] = await this.loadLeads(and(eq(leads.id, id), eq(leads.companyId, companyId)));
+    return lead;
+  }
+
+  private async loadLeads(where: SQL | undefined): Promise<LeadWithCars[]> {
+    const rows = await db
+      .select({
+        lead: leads,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(leads)
+      .leftJoin(users, eq(leads.ownerId, users.id))
+      .where(where)
+      .orderBy(desc(leads.createdAt));
+    if (rows.length === 0) return [];
+
+    const interest = await db
+      .select({
+        leadId: leadCars.leadId,
+        car: {
+          id: cars.id,
+          make: cars.make,
+          model: cars.model,
+          year: cars.year,
+          registrationNumber: cars.registrationNumber,
+          salePrice: cars.salePrice,
+          status: cars.status,
+        },
+      })
+      .from(leadCars)
+      .innerJoin(cars, eq(leadCars.carId, cars.id))
+      .where(inArray(leadCars.leadId, rows.map(row => row.lead.id)))
+      .orderBy(leadCars.createdAt);
+
+    return rows.map(({ lead, firstName, lastName, email }) => ({
+      ...lead,
+      cars: interest.filter(entry => entry.leadId === lead.id).map(entry => entry.car),
+      ownerName: [firstName, lastName].filter(Boolean).join(" ") || email || null,
+    }));
+  }
+
+  async createLead(lead: InsertLead, userId: string): Promise<Lead> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const { carIds, ...values } = lead;
+    await this.assertAssignee(values.ownerId, companyId);
+
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(leads)
+        .values({ ...values, ownerId: values.ownerId ?? userId, companyId, createdBy: userId })
+        .returning();
+      await this.setLeadCars(tx, created.id, carIds, companyId);
+      return created;
+    });
+  }
+
+  /**
+   * Move a lead along the pipeline or edit its details. A lost lead needs a
+   * reason, won is reached only through conversion, and converted leads are
+   * closed for changes.
+   */
+  async updateLead(id: string, updates: UpdateLead, userId: string): Promise<Lead> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const { carIds, ...values } = updates;
+    if (values.ownerId !== undefined) await this.assertAssignee(values.ownerId, companyId);
+
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(leads)
+        .where(and(eq(leads.id, id), eq(leads.companyId, companyId)))
+        .for('update');
+      if (!current) throw new Error('Lead not found or not authorized');
+      if (current.convertedAt) throw new Error('Lead is already converted');
+      if (values.stage === "won") throw new Error('Leads are won by converting them');
+
+      const stage = values.stage ?? current.stage;
+      const lostReason = stage === "lost" ? (values.lostReason ?? current.lostReason) : null;
+      if (stage === "lost" && !lostReason) throw new Error('A lost lead needs a reason');
+
+      const now = new Date();
+      const [updated] = await tx.update(leads)
+        .set({
+          ...values,
+          lostReason,
+          ...(stage !== current.stage ? { stageChangedAt: now } : {}),
+          updatedAt: now,
+        })
+        .where(eq(leads.id, id))
+        .returning();
+      if (carIds) await this.setLeadCars(tx, id, carIds, companyId);
+      return updated;
+    });
+  }
+
+  async deleteLead(id: string, userId: string): Promise<boolean> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const result = await db.delete(leads)
+      .where(and(eq(leads.id, id), eq(leads.companyId, companyId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private async setLeadCars(tx: Transaction, leadId: string, carIds: string[], companyId: string): Promise<void> {
+    const unique = Array.from(new Set(carIds));
+    if (unique.length) {
+      const owned = await tx.select({ id: cars.id }).from(cars)
+        .where(and(inArray(cars.id, unique), eq(cars.companyId, companyId)));
+      if (owned.length !== unique.length) throw new Error('Car not found or not authorized');
+    }
+
+    await tx.delete(leadCars).where(eq(leadCars.leadId, leadId));
+    if (unique.length) {
+      await tx.insert(leadCars).values(unique.map(carId => ({ leadId, carId })));
+    }
+  }
+
+  /**
+   * Turn a lead into a customer, or link it to an existing one, and with a
+   * car and price also open a draft contract the same way the contract
+   * form does. Everything happens in one transaction.
+   */
+  async convertLead(
+    id: string,
+    conversion: LeadConversion,
+    userId: string,
+  ): Promise<{ lead: Lead; customer: Customer; contract: Contract | null }> {
+    const companyId = await this.getActiveCompanyId(userId);
+    return db.transaction(async (tx) => {
+      const [lead] = await tx.select().from(leads)
+        .where(and(eq(leads.id, id), eq(leads.companyId, companyId)))
+        .for('update');
+      if (!lead) throw new Error('Lead not found or not authorized');
+      if (lead.convertedAt) throw new Error('Lead is already converted');
+      if (lead.stage === "lost") throw new Error('Lead is lost');
+
+      let customer: Customer | undefined;
+      if (conversion.customerId) {
+        [customer] = await tx.select().from(customers)
+          .where(and(eq(customers.id, conversion.customerId), eq(customers.companyId, companyId)));
+        if (!customer) throw new Error('Customer not found or not authorized');
+      } else {
+        [customer] = await tx.insert(customers)
+          .values({
+            name: lead.name,
+            email: lead.email,
+            phone: lead.phone,
+            address: conversion.address ?? null,
+            type: conversion.type,
+            userId,
+            companyId,
+          })
+          .returning();
+        await tx.insert(activityLog).values({
+          type: "customer_created",
+          message: `Kunde ${customer.name} opprettet fra lead`,
+          entityId: customer.id,
+          entityType: "customers",
+          userId,
+          companyId,
+          metadata: { leadId: lead.id, source: lead.source },
+        });
+      }
+
+      let contract: Contract | null = null;
+      if (conversion.contract) {
+        const car = await this.lockCar(tx, conversion.contract.carId);
+        if (car.companyId !== companyId) throw new Error('Car not found or not authorized');
+        contract = await this.insertContractWithSale(tx, car, {
+          carId: car.id,
+          customerId: customer.id,
+          salePrice: conversion.contract.salePrice,
+          saleDate: new Date(),
+          contractTemplate: "privatsalg",
+          addOns: [],
+          status: "draft",
+          eSignStatus: "ikke_sendt",
+        }, userId);
+      }
+
+      const now = new Date();
+      const [won] = await tx.update(leads)
+        .set({
+          stage: "won",
+          lostReason: null,
+          customerId: customer.id,
+          contractId: contract?.id ?? null,
+          stageChangedAt: now,
+          convertedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(leads.id, id))
+        .returning();
+      return { lead: won, customer, contract };
+    });
+  }
+
+  // Leads created in the range, with how many were won and lost, per source and per owner
+  async getLeadConversionStats(userId: string, range: { from?: Date; to?: Date }): Promise<LeadConversionStats> {
+    const companyId = await this.getActiveCompanyId(userId);
+    const conditions = [eq(leads.companyId, companyId)];
+    if (range.from) conditions.push(gte(leads.createdAt, range.from));
+    if (range.to) conditions.push(lte(leads.createdAt, range.to));
+
+    const counts = {
+      total: sql<number>`count(*)::int`,
+      won: sql<number>`(count(*) filter (where ${leads.stage} = 'won'))::int`,
+      lost: sql<number>`(count(*) filter (where ${leads.stage} = 'lost'))::int`,
+    };
+
+    const [bySource, byOwner] = await Promise.all([
+      db.select({ key: leads.source, ...counts })
+        .from(leads)
+        .where(and(...conditions))
+        .groupBy(leads.source),
+      db.select({
+          key: leads.ownerId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          ...counts,
+        })
+        .from(leads)
+        .leftJoin(users, eq(leads.ownerId, users.id))
+        .where(and(...conditions))
+        .groupBy(leads.ownerId, users.firstName, users.lastName, users.email),
+    ]);
+
+    const byTotal = (a: LeadConversionRow, b: LeadConversionRow) => b.total - a.total;
+    return {
+      bySource: bySource.map(row => ({ ...row, label: null })).sort(byTotal),
+      byOwner: byOwner
+        .map(({ key, firstName, lastName, email, total, won, lost }) => ({
+          key,
+          label: [firstName, lastName].filter(Boolean).join(" ") || email || null,
+          total,
+          won,
+          lost,
+        }))
+        .sort(byTotal),
+    };
+  }
+
+  // Post-sale playbooks
+  async getFollowupPlaybooks(companyId: string): Promise<FollowupPlaybook[]> {
+    return db.select().from(followupPlaybooks)
+      .where(eq(followupPlaybooks.companyId, companyId))
+      .orderBy(followupPlaybooks.trigger, followupPlaybooks.name);
+  }
+
+  async createFollowupPlaybook(companyId: string, playbook: InsertFollowupPlaybook, userId: string): Promise<FollowupPlaybook> {
+    for (const step of playbook.steps) await this.assertAssignee(step.assigneeId, companyId);
+    const [created] = await db.insert(followupPlaybooks)
+      .values({ ...playbook, companyId, createdBy: userId })
+      .returning();
+    return created;
+  }
+
+  async updateFollowupPlaybook(id: string, companyId: string, playbook: Partial<InsertFollowupPlaybook>): Promise<FollowupPlaybook> {
+    for (const step of playbook.steps ?? []) await this.assertAssignee(step.assigneeId, companyId);
+    const [updated] = await db.update(followupPlaybooks)
+      .set({ ...playbook, updatedAt: new Date() })
+      .where(and(eq(followupPlaybooks.id, id), eq(followupPlaybooks.companyId, companyId)))
+      .returning();
+    if (!updated) throw new Error('Playbook not found or not authorized');
+    return updated;
+  }
+
+  // Follow-ups already created by the playbook are kept
+  async deleteFollowupPlaybook(id: string, companyId: string): Promise<boolean> {
+    const deleted = await db.delete(followupPlaybooks)
+      .where(and(eq(followupPlaybooks.id, id), eq(followupPlaybooks.companyId, companyId)))
+      .returning({ id: followupPlaybooks.id });
+    return deleted.length > 0;
+  }
+
+  private async runContractPlaybooks(tx: Transaction, contract: Contract, status: ContractStatus): Promise<void> {
+    const trigger = PLAYBOOK_TRIGGER_BY_STATUS[status];
+    if (!trigger) return;
+    await this.runPlaybooks(tx, {
+      trigger,
+      eventKey: contract.id,
+      // Signing counts from the agreed sale date, delivery from now
+      eventDate: trigger === "contract_signed" ? contract.saleDate : new Date(),
+      contract,
+    });
+  }
+
+  /**
+   * Sold cars with an EU control deadline between now and `until`, in
+   * companies with an active EU control playbook, each with its latest
+   * signed or delivered contract.
+   */
+  async getEuControlEvents(now: Date, until: Date): Promise<EuControlEvent[]> {
+    const companiesWithPlaybook = db.select({ companyId: followupPlaybooks.companyId })
+      .from(followupPlaybooks)
+      .where(and(eq(followupPlaybooks.trigger, "eu_control_due"), eq(followupPlaybooks.active, true)));
+
+    const rows = await db.selectDistinctOn([cars.id], { carId: cars.id, nextEuControl: cars.nextEuControl, contract: contracts })
+      .from(cars)
+      .innerJoin(contracts, and(eq(contracts.carId, cars.id), inArray(contracts.status, ["signed", "completed"])))
+      .where(and(
+        eq(cars.status, "sold"),
+        gte(cars.nextEuControl, now),
+        lte(cars.nextEuControl, until),
+        inArray(cars.companyId, companiesWithPlaybook),
+      ))
+      .orderBy(cars.id, desc(contracts.saleDate));
+
+    return rows.map(row => ({ carId: row.carId, nextEuControl: row.nextEuControl!, contract: row.contract }));
+  }
+
+  async runEuControlPlaybooks(event: EuControlEvent, now = new Date()): Promise<number> {
+    return db.transaction(tx => this.runPlaybooks(tx, {
+      trigger: "eu_control_due",
+      // A new deadline after the next control starts the playbook again
+      eventKey: `${event.carId}:${event.nextEuControl.toISOString().slice(0, 10)}`,
+      eventDate: event.nextEuControl,
+      contract: event.contract,
+    }, now));
+  }
+
+  /**
+   * Create the follow-ups of every active playbook for the event's trigger
+   * that has not run for this event yet. Steps go to their chosen assignee
+   * while that user is still in the company, otherwise to the seller.
+   */
+  private async runPlaybooks(tx: Transaction, event: PlaybookEvent, now = new Date()): Promise<number> {
+    const { contract } = event;
+    const playbooks = await tx.select().from(followupPlaybooks)
+      .where(and(
+        eq(followupPlaybooks.companyId, contract.companyId),
+        eq(followupPlaybooks.trigger, event.trigger),
+        eq(followupPlaybooks.active, true),
+      ));
+    if (playbooks.length === 0) return 0;
+
+    const [noteData, members] = await Promise.all([
+      this.playbookNoteData(tx, contract),
+      tx.select({ userId: memberships.userId }).from(memberships).where(eq(memberships.companyId, contract.companyId)),
+    ]);
+    const memberIds = new Set(members.map(member => member.userId));
+    let created = 0;
+
+    for (const playbook of playbooks) {
+      const [run] = await tx.insert(followupPlaybookRuns)
+        .values({
+          companyId: contract.companyId,
+          playbookId: playbook.id,
+          eventKey: event.eventKey,
+          contractId: contract.id,
+          followupsCreated: playbook.steps.length,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!run || playbook.steps.length === 0) continue;
+
+      await tx.insert(followups).values(playbook.steps.map(step => ({
+        companyId: contract.companyId,
+        customerId: contract.customerId,
+        userId: step.assigneeId && memberIds.has(step.assigneeId) ? step.assigneeId : contract.userId,
+        type: step.type,
+        dueAt: playbookStepDueAt(event.eventDate, step, now),
+        note: renderMergeText(step.note, noteData),
+        playbookId: playbook.id,
+      })));
+      created += playbook.steps.length;
+    }
+    return created;
+  }
+
+  private async playbookNoteData(tx: Transaction, contract: Contract): Promise<MergeData> {
+    const [[customer], [car], [seller]] = await Promise.all([
+      tx.select().from(customers).where(eq(customers.id, contract.customerId)),
+      tx.select().from(cars).where(eq(cars.id, contract.carId)),
+      tx.select().from(users).where(eq(users.id, contract.userId)),
+    ]);
+    return buildMergeData({ customer, car, contract, sellerName: seller && userName(seller) });
+  }
+
+  // Customer messages and templates
+  async getMessageTemplates(companyId: string): Promise<MessageTemplate[]> {
+    return db.select().from(messageTemplates)
+      .where(eq(messageTemplates.companyId, companyId))
+      .orderBy(messageTemplates.channel, messageTemplates.name);
+  }
+
+  async createMessageTemplate(companyId: string, template: InsertMessageTemplate, userId: string): Promise<MessageTemplate> {
+    const [created] = await db.insert(messageTemplates)
+      .values({ ...template, subject: template.channel === "email" ? template.subject : null, companyId, createdBy: userId })
+      .returning();
+    return created;
+  }
+
+  async updateMessageTemplate(id: string, companyId: string, template: Partial<InsertMessageTemplate>): Promise<MessageTemplate> {
+    const [updated] = await db.update(messageTemplates)
+      .set({ ...template, updatedAt: new Date() })
+      .where(and(eq(messageTemplates.id, id), eq(messageTemplates.companyId, companyId)))
+      .returning();
+    if (!updated) throw new Error('Message template not found or not authorized');
+    return updated;
+  }
+
+  // Messages sent from the template keep their text
+  async deleteMessageTemplate(id: string, companyId: string): Promise<boolean> {
+    const deleted = await db.delete(messageTemplates)
+      .where(and(eq(messageTemplates.id, id), eq(messageTemplates.companyId, companyId)))
+      .returning({ id: messageTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async getCustomerMessages(customerId: string, companyId: string): Promise<CustomerMessageWithSender[]> {
+    const rows = await db
+      .select({ message: customerMessages, firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(customerMessages)
+      .leftJoin(users, eq(users.id, customerMessages.createdBy))
+      .where(and(eq(customerMessages.companyId, companyId), eq(customerMessages.customerId, customerId)))
+      .orderBy(desc(customerMessages.createdAt));
+    return rows.map(({ message, ...sender }) => ({
+      ...message,
+      createdByName: message.createdBy ? userName(sender) : null,
+    }));
+  }
+
+  /**
+   * Load the customer a message is for, and the car, contract and template
+   * it refers to, checking each belongs to the company. Without a car the
+   * contract's car is used.
+   */
+  async getCustomerMessageContext(
+    customerId: string,
+    companyId: string,
+    refs: { carId?: string | null; contractId?: string | null; templateId?: string | null },
+    userId: string,
+  ): Promise<CustomerMessageContext> {
+    const [customer] = await db.select().from(customers)
+      .where(and(eq(customers.id, customerId), eq(customers.companyId, companyId)));
+    if (!customer) throw new Error('Customer not found or not authorized');
+
+    let contract: Contract | null = null;
+    if (refs.contractId) {
+      [contract = null] = await db.select().from(contracts)
+        .where(and(
+          eq(contracts.id, refs.contractId),
+          eq(contracts.companyId, companyId),
+          eq(contracts.customerId, customerId),
+        ));
+      if (!contract) throw new Error('Contract not found or not authorized');
+    }
+
+    let car: Car | null = null;
+    const carId = refs.carId ?? contract?.carId;
+    if (carId) {
+      [car = null] = await db.select().from(cars)
+        .where(and(eq(cars.id, carId), eq(cars.companyId, companyId)));
+      if (!car) throw new Error('Car not found or not authorized');
+    }
+
+    let template: MessageTemplate | null = null;
+    if (refs.templateId) {
+      [template = null] = await db.select().from(messageTemplates)
+        .where(and(eq(messageTemplates.id, refs.templateId), eq(messageTemplates.companyId, companyId)));
+      if (!template) throw new Error('Message template not found or not authorized');
+    }
+
+    const [sender] = await db.select().from(users).where(eq(users.id, userId));
+    if (!sender) throw new Error('User not found');
+
+    return { customer, car, contract, template, sender };
+  }
+
+  async createCustomerMessage(message: InsertCustomerMessage): Promise<CustomerMessage> {
+    const [created] = await db.insert(customerMessages).values(message).returning();
+    return created;
+  }
+
+  /**
+   * Store an SMS a customer sent us. Messages from numbers no customer can
+   * be matched to are dropped; provider redeliveries are stored once.
+   */
+  async recordInboundSms(provider: string, sms: InboundSmsMessage): Promise<{ message: CustomerMessage | null; duplicate: boolean }> {
+    const [existing] = await db.select().from(customerMessages)
+      .where(and(eq(customerMessages.provider, provider), eq(customerMessages.providerMessageId, sms.messageId)));
+    if (existing) return { message: existing, duplicate: true };
+
+    const sender = await this.findSmsSender(sms);
+    if (!sender) return { message: null, duplicate: false };
+
+    const [message] = await db.insert(customerMessages)
+      .values({
+        ...sender,
+        channel: "sms",
+        direction: "inbound",
+        status: "received",
+        fromAddress: sms.from,
+        toAddress: sms.to || null,
+        body: sms.body,
+        provider,
+        providerMessageId: sms.messageId,
+        createdAt: sms.receivedAt,
+      })
+      .onConflictDoNothing()
+      .returning();
+    return { message: message ?? null, duplicate: !message };
+  }
+
+  /**
+   * The customer behind an SMS sender. A message to a company's own sender
+   * number is only matched within that company; one to the gateway's shared
+   * number can be for any company. A reply belongs to whoever last texted the
+   * number; otherwise the number must match exactly one customer.
+   * Numbers are compared on their last 8 digits, so "+47 912 34 567" and
+   * "91234567" are the same Norwegian number.
+   */
+  private async findSmsSender(sms: Pick<InboundSmsMessage, "from" | "to">): Promise<{ companyId: string; customerId: string } | null> {
+    const digits = sms.from.replace(/\D/g, "").slice(-8);
+    if (digits.length < 8) return null;
+    const lastDigits = (column: typeof customers.phone | typeof customerMessages.toAddress | typeof companySettings.smsSenderNumber) =>
+      sql`right(regexp_replace(${column}, '[^0-9]', '', 'g'), 8)`;
+
+    const toDigits = sms.to.replace(/\D/g, "").slice(-8);
+    const senders = toDigits.length === 8
+      ? await db.select({ companyId: companySettings.companyId }).from(companySettings)
+        .where(sql`${lastDigits(companySettings.smsSenderNumber)} = ${toDigits}`)
+      : [];
+    const companyIds = senders.map(sender => sender.companyId);
+
+    const [lastSent] = await db
+      .select({ companyId: customerMessages.companyId, customerId: customerMessages.customerId })
+      .from(customerMessages)
+      .where(and(
+        eq(customerMessages.channel, "sms"),
+        eq(customerMessages.direction, "outbound"),
+        sql`${lastDigits(customerMessages.toAddress)} = ${digits}`,
+        companyIds.length ? inArray(customerMessages.companyId, companyIds) : undefined,
+      ))
+      .orderBy(desc(customerMessages.createdAt))
+      .limit(1);
+    if (lastSent) return lastSent;
+
+    const matches = await db
+      .select({ companyId: customers.companyId, customerId: customers.id })
+      .from(customers)
+      .where(and(
+        isNull(customers.erasedAt),
+        sql`${lastDigits(customers.phone)} = ${digits}`,
+        companyIds.length ? inArray(customers.companyId, companyIds) : undefined,
+      ))
+      .limit(2);
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  // Data subject requests
+  async getCustomerDataExport(customerId: string, companyId: string): Promise<CustomerDataExport> {
+    const [customer] = await db.select().from(customers)
+      .where(and(eq(customers.id, customerId), eq(customers.companyId, companyId)));
+    if (!customer) throw new Error('Customer not found or not authorized');
+
+    const customerContracts = await db.select().from(contracts)
+      .where(and(eq(contracts.customerId, customerId), eq(contracts.companyId, companyId)))
+      .orderBy(contracts.createdAt);
+    const contractIds = customerContracts.map(contract => contract.id);
+    const carIds = customerContracts.flatMap(contract => [contract.carId, contract.tradeInCarId].filter((id): id is string => !!id));
+
+    const [contractCars, amendments, statusTransitions, signingEvents, customerFollowups, messages, customerLeads, activity] = await Promise.all([
+      carIds.length
+        ? db.select().from(cars).where(and(eq(cars.companyId, companyId), inArray(cars.id, carIds)))
+        : [],
+      contractIds.length
+        ? db.select().from(contractAmendments)
+            .where(inArray(contractAmendments.contractId, contractIds))
+            .orderBy(contractAmendments.createdAt)
+        : [],
+      contractIds.length
+        ? db.select().from(contractStatusTransitions)
+            .where(inArray(contractStatusTransitions.contractId, contractIds))
+            .orderBy(contractStatusTransitions.createdAt)
+        : [],
+      contractIds.length
+        ? db.select().from(signingWebhookEvents)
+            .where(inArray(signingWebhookEvents.contractId, contractIds))
+            .orderBy(signingWebhookEvents.receivedAt)
+        : [],
+      db.select().from(followups)
+        .where(and(eq(followups.companyId, companyId), eq(followups.customerId, customerId)))
+        .orderBy(followups.createdAt),
+      db.select().from(customerMessages)
+        .where(and(eq(customerMessages.companyId, companyId), eq(customerMessages.customerId, customerId)))
+        .orderBy(customerMessages.createdAt),
+      db.select().from(leads)
+        .where(and(eq(leads.companyId, companyId), eq(leads.customerId, customerId)))
+        .orderBy(leads.createdAt),
+      db.select().from(activityLog)
+        .where(and(eq(activityLog.companyId, companyId), this.customerActivity(customerId, contractIds)))
+        .orderBy(activityLog.createdAt),
+    ]);
+
+    return {
+      customer,
+      contracts: customerContracts,
+      cars: contractCars,
+      amendments,
+      statusTransitions,
+      signingEvents,
+      followups: customerFollowups,
+      messages,
+      leads: customerLeads,
+      activity,
+    };
+  }
+
+  // Activity entries about the customer or one of its contracts
+  private customerActivity(customerId: string, contractIds: string[]) {
+    const onCustomer = and(eq(activityLog.entityType, "customers"), eq(activityLog.entityId, customerId));
+    return contractIds.length
+      ? or(onCustomer, and(eq(activityLog.entityType, "contracts"), inArray(activityLog.entityId, contractIds)))
+      : onCustomer;
+  }
+
+  /**
+   * Erase a customer. Contracts are bookkeeping records and stay for the
+   * company's retention period, so a customer that has any keeps its row as
+   * a pseudonym with the contact details cleared; otherwise it is deleted.
+   * Follow-ups and messages go, activity entries lose their text and leads
+   * converted into the customer lose their contact details either way, and
+   * signer details are cleared on contracts already past retention.
+   */
+  async eraseCustomer(
+    customerId: string,
+    companyId: string,
+    requestedBy: string | null,
+    reason: string | null = null,
+    now = new Date(),
+  ): Promise<PrivacyRequest> {
+    const settings = await this.getCompanySettings(companyId);
+    const retentionYears = settings?.contractRetentionYears ?? 5;
+
+    return db.transaction(async (tx) => {
+      const [customer] = await tx.select().from(customers)
+        .where(and(eq(customers.id, customerId), eq(customers.companyId, companyId)))
+        .for('update');
+      if (!customer) throw new Error('Customer not found or not authorized');
+      if (customer.erasedAt) throw new Error('Customer is already erased');
+
+      const customerContracts = await tx.select({ id: contracts.id, saleDate: contracts.saleDate }).from(contracts)
+        .where(eq(contracts.customerId, customerId));
+      const retained = customerContracts.filter(contract => retentionEnd(contract.saleDate, retentionYears) > now);
+      const expiredIds = customerContracts
+        .filter(contract => retentionEnd(contract.saleDate, retentionYears) <= now)
+        .map(contract => contract.id);
+
+      const deletedFollowups = await tx.delete(followups)
+        .where(eq(followups.customerId, customerId))
+        .returning({ id: followups.id });
+      const deletedMessages = await tx.delete(customerMessages)
+        .where(eq(customerMessages.customerId, customerId))
+        .returning({ id: customerMessages.id });
+      const redactedActivity = await tx.update(activityLog)
+        .set({ message: REDACTED_ACTIVITY_MESSAGE, metadata: null })
+        .where(and(
+          eq(activityLog.companyId, companyId),
+          this.customerActivity(customerId, customerContracts.map(contract => contract.id)),
+        ))
+        .returning({ id: activityLog.id });
+      // The lead keeps its stage and source for the pipeline figures
+      const pseudonymizedLeads = await tx.update(leads)
+        .set({ name: ERASED_CUSTOMER_NAME, email: null, phone: null, notes: null, lostReason: null, updatedAt: now })
+        .where(and(eq(leads.companyId, companyId), eq(leads.customerId, customerId)))
+        .returning({ id: leads.id });
+      if (expiredIds.length) {
+        await tx.update(contracts).set(REDACTED_CONTRACT_SIGNER).where(inArray(contracts.id, expiredIds));
+      }
+
+      let outcome: PrivacyRequest["outcome"];
+      if (customerContracts.length) {
+        await tx.update(customers)
+          .set({
+            name: ERASED_CUSTOMER_NAME,
+            email: null,
+            phone: null,
+            organizationNumber: null,
+            address: null,
+            gdprConsent: false,
+            gdprConsentAt: null,
+            erasedAt: now,
+            updatedAt: now,
+          })
+          .where(eq(customers.id, customerId));
+        outcome = "pseudonymized";
+      } else {
+        await tx.update(cars)
+          .set({ soldToCustomerId: null })
+          .where(and(eq(cars.companyId, companyId), eq(cars.soldToCustomerId, customerId)));
+        await tx.delete(customers).where(eq(customers.id, customerId));
+        outcome = "deleted";
+      }
+
+      const retainedUntil = retained.reduce<Date | null>((latest, contract) => {
+        const end = retentionEnd(contract.saleDate, retentionYears);
+        return !latest || end > latest ? end : latest;
+      }, null);
+
+      const [request] = await tx.insert(privacyRequests)
+        .values({
+          companyId,
+          customerId,
+          type: "erasure",
+          outcome,
+          reason,
+          requestedBy,
+          details: {
+            contracts: customerContracts.length,
+            contractsRetained: retained.length,
+            retainedUntil: retainedUntil?.toISOString() ?? null,
+            followupsDeleted: deletedFollowups.length,
+            messagesDeleted: deletedMessages.length,
+            activityRedacted: redactedActivity.length,
+            leadsPseudonymized: pseudonymizedLeads.length,
+          },
+        })
+        .returning();
+      return request;
+    });
+  }
+
+  async recordPrivacyRequest(request: InsertPrivacyRequest): Promise<PrivacyRequest> {
+    const [created] = await db.insert(privacyRequests).values(request).returning();
+    return created;
+  }
+
+  async getPrivacyRequests(companyId: string, customerId?: string): Promise<Array<PrivacyRequest & { requestedByName: string | null }>> {
+    const conditions = [eq(privacyRequests.companyId, companyId)];
+    if (customerId) conditions.push(eq(privacyRequests.customerId, customerId));
+
+    const rows = await db
+      .select({
+        request: privacyRequests,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(privacyRequests)
+      .leftJoin(users, eq(privacyRequests.requestedBy, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(privacyRequests.createdAt));
+
+    return rows.map(({ request, firstName, lastName, email }) => ({
+      ...request,
+      requestedByName: [firstName, lastName].filter(Boolean).join(" ") || email || null,
+    }));
+  }
+
+  async getRetentionCandidates(now = new Date()): Promise<RetentionCandidate[]> {
+    const months = companySettings.inactiveCustomerRetentionMonths;
+    return db
+      .select({ companyId: customers.companyId, customerId: customers.id })
+      .from(customers)
+      .innerJoin(companySettings, eq(companySettings.companyId, customers.companyId))
+      .where(and(
+        sql`${customers.erasedAt} IS NULL`,
+        sql`${months} IS NOT NULL`,
+        sql`COALESCE(${customers.updatedAt}, ${customers.createdAt}) < ${now} - make_interval(months => ${months})`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${contracts}
+          WHERE ${contracts.customerId} = ${customers.id}
+            AND ${contracts.saleDate} > ${now} - make_interval(years => ${companySettings.contractRetentionYears})
+        )`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${followups}
+          WHERE ${followups.customerId} = ${customers.id}
+            AND (${followups.status} = 'OPEN' OR ${followups.createdAt} > ${now} - make_interval(months => ${months}))
+        )`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${customerMessages}
+          WHERE ${customerMessages.customerId} = ${customers.id}
+            AND ${customerMessages.createdAt} > ${now} - make_interval(months => ${months})
+        )`,
+      ));
+  }
+
+  // Signer details on erased customers' contracts go once retention runs out
+  async redactExpiredContracts(now = new Date()): Promise<number> {
+    const result = await db.update(contracts)
+      .set(REDACTED_CONTRACT_SIGNER)
+      .where(and(
+        sql`${contracts.customerId} IN (SELECT ${customers.id} FROM ${customers} WHERE ${customers.erasedAt} IS NOT NULL)`,
+        sql`${contracts.saleDate} + make_interval(years => COALESCE(
+          (SELECT ${companySettings.contractRetentionYears} FROM ${companySettings} WHERE ${companySettings.companyId} = ${contracts.companyId}),
+          5
+        )) <= ${now}`,
+        sql`(${contracts.signerName} IS NOT NULL OR ${contracts.signerEmail} IS NOT NULL OR ${contracts.signerPhone} IS NOT NULL)`,
+      ));
+    return result.rowCount ?? 0;
+  }
+
   async getAllUsers(): Promise<User[]> {
     const results = await db.select().from(users)
       .orderBy(desc(users.createdAt));
@@ -611,6 +3024,64 @@ export class DatabaseStorage implements IStorage {
     return result[0] || null;
   }
 
+  async addUserToCompany(userId: string, companyId: string, role: string) {
+    const existing = await this.getUserMembership(userId, companyId);
+    if (existing) return existing;
+    return this.createMembership({ userId, companyId, role, joinedAt: new Date() });
+  }
+
+  // The creator owns the new company and starts working in it
+  async createNewCompany(name: string, userId: string) {
+    return db.transaction(async (tx) => {
+      const [company] = await tx.insert(companies).values({ name }).returning();
+      await tx.insert(memberships).values({ userId, companyId: company.id, role: "EIER", joinedAt: new Date() });
+      await tx.update(users)
+        .set({ activeCompanyId: company.id, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      return company;
+    });
+  }
+
+  async getUserCompanies(userId: string): Promise<Array<{ id: string; name: string; role: string; isActive: boolean }>> {
+    const activeCompanyId = await this.findActiveCompanyId(userId);
+    const rows = await db.select({ id: companies.id, name: companies.name, role: memberships.role })
+      .from(memberships)
+      .innerJoin(companies, eq(memberships.companyId, companies.id))
+      .where(eq(memberships.userId, userId))
+      .orderBy(memberships.joinedAt);
+    return rows.map(row => ({ ...row, isActive: row.id === activeCompanyId }));
+  }
+
+  async switchActiveCompany(userId: string, companyId: string): Promise<boolean> {
+    const membership = await this.getUserMembership(userId, companyId);
+    if (!membership) return false;
+    await db.update(users)
+      .set({ activeCompanyId: companyId, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+    return true;
+  }
+
+  /**
+   * The company every car, customer, contract and follow-up query runs
+   * against: the one the user switched to, or their first membership. A
+   * switch to a company they have since left falls back the same way.
+   */
+  private async findActiveCompanyId(userId: string): Promise<string | null> {
+    const [row] = await db.select({ companyId: memberships.companyId })
+      .from(memberships)
+      .innerJoin(users, eq(memberships.userId, users.id))
+      .where(eq(memberships.userId, userId))
+      .orderBy(desc(sql`${memberships.companyId} = ${users.activeCompanyId}`), memberships.joinedAt)
+      .limit(1);
+    return row?.companyId ?? null;
+  }
+
+  async getActiveCompanyId(userId: string): Promise<string> {
+    const companyId = await this.findActiveCompanyId(userId);
+    if (!companyId) throw new Error('No company membership');
+    return companyId;
+  }
+
   // Refresh token methods
   async storeRefreshToken(data: {
     token: string;
@@ -659,23 +3130,39 @@ export class DatabaseStorage implements IStorage {
       .where(eq(passwordResetTokens.token, token));
   }
 
+  // The last list price set before each car's sale date, for cars with price history
+  private async getListedPricesAtSale(soldCars: Car[]): Promise<Map<string, number>> {
+    const listed = new Map<string, number>();
+    if (soldCars.length === 0) return listed;
+
+    const entries = await db.select().from(carPriceHistory)
+      .where(and(
+        inArray(carPriceHistory.carId, soldCars.map(car => car.id)),
+        eq(carPriceHistory.field, "sale_price"),
+      ))
+      .orderBy(carPriceHistory.createdAt);
+    const soldDates = new Map(soldCars.map(car => [car.id, car.soldDate ? new Date(car.soldDate) : null]));
+    for (const entry of entries) {
+      const soldDate = soldDates.get(entry.carId);
+      if (soldDate && entry.createdAt && entry.createdAt > soldDate) continue;
+      listed.set(entry.carId, Number(entry.newPrice));
+    }
+    return listed;
+  }
+
   async getAdvancedAnalytics(userId: string, timeRange: string) {
     const days = parseInt(timeRange) || 30;
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
     
     try {
-      // Get user's company
-      const user = await this.getUser(userId);
-      if (!user || !user.companyId) {
-        throw new Error('User or company not found');
-      }
+      const companyId = await this.getActiveCompanyId(userId);
 
-      // Get sold cars for analytics
+      // Get sold cars for analytics; soldPrice already includes signed amendments and credit notes
       const soldCars = await db.select()
         .from(cars)
         .where(and(
-          eq(cars.companyId, user.companyId),
+          eq(cars.companyId, companyId),
           eq(cars.status, 'sold'),
           gte(cars.soldDate, startDate)
         ));
@@ -696,6 +3183,15 @@ export class DatabaseStorage implements IStorage {
         sum + (parseFloat(car.soldPrice || '0') - parseFloat(car.costPrice || '0')), 0
       );
 
+      // Discount: list price when the car was sold vs. what it sold for
+      const listedAtSale = await this.getListedPricesAtSale(soldCars);
+      const discounts = soldCars.flatMap(car => {
+        const listed = listedAtSale.get(car.id) ?? parseFloat(car.salePrice || '0');
+        const sold = parseFloat(car.soldPrice || '0');
+        return listed > 0 && sold > 0 ? [{ amount: listed - sold, pct: ((listed - sold) / listed) * 100 }] : [];
+      });
+      const totalDiscount = discounts.reduce((sum, d) => sum + d.amount, 0);
+
       // Calculate average sale price
       const averageSalePrice = soldCars.length > 0 
         ? soldCars.reduce((sum, car) => sum + parseFloat(car.soldPrice || '0'), 0) / soldCars.length
@@ -705,7 +3201,7 @@ export class DatabaseStorage implements IStorage {
       const availableCars = await db.select()
         .from(cars)
         .where(and(
-          eq(cars.companyId, user.companyId),
+          eq(cars.companyId, companyId),
           eq(cars.status, 'available')
         ));
 
@@ -735,6 +3231,13 @@ export class DatabaseStorage implements IStorage {
           fastMoving: availableCars.filter(car => parseFloat(car.salePrice || '0') < 200000).length,
           slowMoving: availableCars.filter(car => parseFloat(car.salePrice || '0') >= 200000).length
         },
+        discount: {
+          average: discounts.length > 0 ? totalDiscount / discounts.length : 0,
+          averagePct: discounts.length > 0 ? discounts.reduce((sum, d) => sum + d.pct, 0) / discounts.length : 0,
+          total: totalDiscount,
+          soldBelowList: discounts.filter(d => d.amount > 0).length,
+          carsCounted: discounts.length
+        },
         monthlyTrends: [{
           month: new Date().toLocaleDateString('no-NO', { month: 'short' }),
           revenue: thisMonthRevenue,
@@ -751,6 +3254,7 @@ export class DatabaseStorage implements IStorage {
         sales: { thisMonth: 0, thisYear: 0, averageSalePrice: 0 },
         profitMargin: { gross: 0, net: 0 },
         inventory: { averageDaysOnLot: 0, totalValue: 0, fastMoving: 0, slowMoving: 0 },
+        discount: { average: 0, averagePct: 0, total: 0, soldBelowList: 0, carsCounted: 0 },
         monthlyTrends: [],
         salesByMake: [],
         inventoryAging: []
@@ -787,6 +3291,16 @@ export class DatabaseStorage implements IStorage {
     return settings || null;
   }
 
+  // Preview only; the number is allocated when the contract is created
+  async getNextContractNumber(companyId: string): Promise<string> {
+    const settings = await this.getCompanySettings(companyId);
+    const prefix = settings?.contractNumberPrefix ?? "K";
+    const year = contractNumberYear(settings?.contractNumberYearlyReset ?? true);
+    const [sequence] = await db.select().from(contractNumberSequences)
+      .where(and(eq(contractNumberSequences.companyId, companyId), eq(contractNumberSequences.year, year)));
+    return formatContractNumber(prefix, year, (sequence?.lastNumber ?? 0) + 1);
+  }
+
   async upsertCompanySettings(companyId: string, settings: Partial<CompanySettings>): Promise<CompanySettings> {
     const existing = await this.getCompanySettings(companyId);
     if (existing) {
@@ -514,20 +514,6 @@ export class SupabaseStorage implements IStorage {
     return data as Contract;
   }
 
-  async deleteContract(id: string, userId: string): Promise<boolean> {
-    const { error } = await this.supabase
-      .from('contracts')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', userId);
-
-    if (error) {
-      throw new Error(`Failed to delete contract: ${error.message}`);
-    }
-
-    return true;
-  }
-
   async getAdvancedAnalytics(userId: string, timeRange: string) {
     const days = parseInt(timeRange) || 30;
     const startDate = new Date();
@@ -1,6 +1,7 @@
 // Authentication and Organization Types
 
-export type OrgRole = 'owner' | 'admin' | 'sales' | 'workshop' | 'accountant' | 'viewer';
+import type { Role } from './roles';
+
 export type MemberStatus = 'active' | 'invited' | 'revoked';
 export type InviteStatus = 'pending' | 'accepted' | 'expired' | 'cancelled';
 export type PlanType = 'basic' | 'pro' | 'enterprise';
@@ -31,7 +32,7 @@ export interface Organization {
 export interface OrgMember {
   org_id: string;
   user_id: string;
-  role: OrgRole;
+  role: Role;
   invited_by?: string;
   status: MemberStatus;
   joined_at: Date;
@@ -44,7 +45,7 @@ export interface Invite {
   id: string;
   org_id: string;
   email: string;
-  role: OrgRole;
+  role: Role;
   token: string;
   status: InviteStatus;
   invited_by?: string;
@@ -112,7 +113,7 @@ export interface CreateOrgRequest {
 
 export interface InviteUserRequest {
   email: string;
-  role: OrgRole;
+  role: Role;
 }
 
 export interface AcceptInviteRequest {
@@ -125,7 +126,7 @@ export interface ChangePlanRequest {
 
 export interface UpdateMemberRoleRequest {
   user_id: string;
-  role: OrgRole;
+  role: Role;
 }
 
 // Auth context types
@@ -135,7 +136,7 @@ export interface AuthUser {
   profile?: Profile;
   organizations?: Organization[];
   current_org?: Organization;
-  role?: OrgRole;
+  role?: Role;
 }
 
 declare global {
@@ -206,61 +207,3 @@ export const PLAN_PRICING = {
     },
   },
 };
-
-// Role permissions matrix
-export const ROLE_PERMISSIONS = {
-  owner: {
-    cars: ['create', 'read', 'update', 'delete'],
-    customers: ['create', 'read', 'update', 'delete'],
-    contracts: ['create', 'read', 'update', 'delete'],
-    accounting: ['create', 'read', 'update', 'delete'],
-    settings: ['create', 'read', 'update', 'delete'],
-    billing: ['create', 'read', 'update', 'delete'],
-    members: ['create', 'read', 'update', 'delete'],
-  },
-  admin: {
-    cars: ['create', 'read', 'update', 'delete'],
-    customers: ['create', 'read', 'update', 'delete'],
-    contracts: ['create', 'read', 'update', 'delete'],
-    accounting: ['create', 'read', 'update', 'delete'],
-    settings: ['create', 'read', 'update'],
-    billing: ['read'],
-    members: ['create', 'read', 'update', 'delete'],
-  },
-  sales: {
-    cars: ['create', 'read', 'update'],
-    customers: ['create', 'read', 'update'],
-    contracts: ['create', 'read', 'update'],
-    accounting: [],
-    settings: ['read'],
-    billing: [],
-    members: ['read'],
-  },
-  workshop: {
-    cars: ['read', 'update'],
-    customers: ['read'],
-    contracts: ['read'],
-    accounting: [],
-    settings: [],
-    billing: [],
-    members: [],
-  },
-  accountant: {
-    cars: ['read'],
-    customers: ['read'],
-    contracts: ['read', 'update'],
-    accounting: ['create', 'read', 'update'],
-    settings: ['read'],
-    billing: ['read'],
-    members: ['read'],
-  },
-  viewer: {
-    cars: ['read'],
-    customers: ['read'],
-    contracts: ['read'],
-    accounting: ['read'],
-    settings: [],
-    billing: [],
-    members: ['read'],
-  },
-};
\ No newline at end of file
@@ -0,0 +1,80 @@
+// Contract status state machine, shared by the server (enforcement) and the
+// client (which actions to offer)
+
+export const CONTRACT_STATUSES = [
+  "draft",
+  "pending_signature",
+  "signed",
+  "completed",
+  "rejected",
+  "cancelled",
+] as const;
+export type ContractStatus = typeof CONTRACT_STATUSES[number];
+
+export const CONTRACT_STATUS_LABELS: Record<ContractStatus, string> = {
+  draft: "Tilbud",
+  pending_signature: "Venter signatur",
+  signed: "Signert",
+  completed: "Levert",
+  rejected: "Avvist",
+  cancelled: "Kansellert",
+};
+
+export const CONTRACT_TRANSITIONS: Record<ContractStatus, readonly ContractStatus[]> = {
+  draft: ["pending_signature", "signed", "cancelled"],
+  pending_signature: ["draft", "signed", "rejected", "cancelled"],
+  signed: ["completed"],
+  completed: [],
+  rejected: ["draft", "pending_signature", "cancelled"],
+  cancelled: [],
+};
+
+// Signed contracts are legal documents: their terms can no longer be edited or deleted
+export const LOCKED_CONTRACT_STATUSES: readonly ContractStatus[] = ["signed", "completed"];
+
+// The car goes back on sale when a contract ends up here
+export const RELEASING_CONTRACT_STATUSES: readonly ContractStatus[] = ["rejected", "cancelled"];
+
+// A contract here holds its car; a delivered car can come back as a trade-in
+export const OPEN_CONTRACT_STATUSES: readonly ContractStatus[] = ["draft", "pending_signature", "signed"];
+
+export function isContractStatus(value: unknown): value is ContractStatus {
+  return typeof value === "string" && (CONTRACT_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionContract(from: string | null | undefined, to: ContractStatus): boolean {
+  const current = isContractStatus(from) ? from : "draft";
+  return CONTRACT_TRANSITIONS[current].includes(to);
+}
+
+export function isContractLocked(status: string | null | undefined): boolean {
+  return isContractStatus(status) && LOCKED_CONTRACT_STATUSES.includes(status);
+}
+
+// Amendments (tillegg) and credit notes on a signed contract have their own,
+// shorter lifecycle: once signed they roll up into the contract and are final
+export const AMENDMENT_STATUSES = [
+  "draft",
+  "pending_signature",
+  "signed",
+  "rejected",
+  "cancelled",
+] as const;
+export type AmendmentStatus = typeof AMENDMENT_STATUSES[number];
+
+export const AMENDMENT_TRANSITIONS: Record<AmendmentStatus, readonly AmendmentStatus[]> = {
+  draft: ["pending_signature", "signed", "cancelled"],
+  pending_signature: ["draft", "signed", "rejected", "cancelled"],
+  signed: [],
+  rejected: ["draft", "pending_signature", "cancelled"],
+  cancelled: [],
+};
+
+export function isAmendmentStatus(value: unknown): value is AmendmentStatus {
+  return typeof value === "string" && (AMENDMENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionAmendment(from: string | null | undefined, to: AmendmentStatus): boolean {
+  const current = isAmendmentStatus(from) ? from : "draft";
+  return AMENDMENT_TRANSITIONS[current].includes(to);
+}
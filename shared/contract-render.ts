@@ -0,0 +1,722 @@
+import Handlebars from "handlebars";
+
+// Canonical contract data preparation and rendering, shared by the server
+// (HTML view, and the PDF and e-sign document laid out from it) and the
+// client (previews, template editor)
+
+// Default contract template for Norwegian car dealership
+export const DEFAULT_CONTRACT_TEMPLATE = `
+<!DOCTYPE html>
+<html lang="no">
+<head>
+  <meta charset="UTF-8">
+  <title>Kjøpekontrakt</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      max-width: 800px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    h1 { 
+      color: #2c3e50; 
+      border-bottom: 2px solid #3498db; 
+      padding-bottom: 10px; 
+    }
+    h2 { 
+      color: #34495e; 
+      margin-top: 30px; 
+    }
+    .header-info {
+      background: #f8f9fa;
+      padding: 15px;
+      border-radius: 5px;
+      margin-bottom: 20px;
+    }
+    .info-grid {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 15px;
+      margin: 20px 0;
+    }
+    .info-item {
+      padding: 10px;
+      background: #f1f3f4;
+      border-radius: 3px;
+    }
+    .info-label {
+      font-weight: bold;
+      color: #666;
+      font-size: 0.9em;
+    }
+    .info-value {
+      color: #2c3e50;
+      margin-top: 5px;
+      font-size: 1.1em;
+    }
+    .price-section {
+      background: #e8f4f8;
+      padding: 20px;
+      border-radius: 5px;
+      margin: 20px 0;
+      border-left: 4px solid #3498db;
+    }
+    .total-price {
+      font-size: 1.5em;
+      font-weight: bold;
+      color: #2c3e50;
+    }
+    .terms-section {
+      margin-top: 30px;
+      padding: 15px;
+      background: #fff9e6;
+      border-radius: 5px;
+      border: 1px solid #ffd700;
+    }
+    .signature-section {
+      margin-top: 40px;
+      padding: 20px;
+      background: #f8f9fa;
+      border-radius: 5px;
+    }
+    .signature-grid {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 40px;
+      margin-top: 30px;
+    }
+    .signature-box {
+      text-align: center;
+      padding-top: 20px;
+    }
+    .signature-line {
+      border-bottom: 2px solid #333;
+      margin: 50px 0 10px;
+    }
+    .footer {
+      margin-top: 50px;
+      padding-top: 20px;
+      border-top: 1px solid #ddd;
+      text-align: center;
+      color: #999;
+      font-size: 0.9em;
+    }
+  </style>
+</head>
+<body>
+  <h1>{{contractTitle}}</h1>
+  
+  <div class="header-info">
+    <strong>Kontraktnummer:</strong> {{contractNumber}}<br>
+    <strong>Dato:</strong> {{saleDate}}
+  </div>
+
+  <h2>1. PARTER</h2>
+  <div class="info-grid">
+    <div class="info-item">
+      <div class="info-label">SELGER</div>
+      <div class="info-value">
+        {{sellerName}}<br>
+        Org.nr: {{sellerOrgNumber}}<br>
+        {{sellerAddress}}<br>
+        Tlf: {{sellerPhone}}<br>
+        E-post: {{sellerEmail}}
+      </div>
+    </div>
+    <div class="info-item">
+      <div class="info-label">KJØPER</div>
+      <div class="info-value">
+        {{buyerName}}<br>
+        {{#if buyerOrgNumber}}Org.nr: {{buyerOrgNumber}}<br>{{/if}}
+        {{buyerAddress}}<br>
+        Tlf: {{buyerPhone}}<br>
+        E-post: {{buyerEmail}}
+      </div>
+    </div>
+  </div>
+
+  <h2>2. KJØRETØY</h2>
+  <div class="info-grid">
+    <div class="info-item">
+      <div class="info-label">Merke/Modell</div>
+      <div class="info-value">{{vehicleMake}} {{vehicleModel}}</div>
+    </div>
+    <div class="info-item">
+      <div class="info-label">Årsmodell</div>
+      <div class="info-value">{{vehicleYear}}</div>
+    </div>
+    <div class="info-item">
+      <div class="info-label">Registreringsnummer</div>
+      <div class="info-value">{{vehicleRegistration}}</div>
+    </div>
+    <div class="info-item">
+      <div class="info-label">Chassis/VIN</div>
+      <div class="info-value">{{vehicleVin}}</div>
+    </div>
+    <div class="info-item">
+      <div class="info-label">Kilometerstand</div>
+      <div class="info-value">{{vehicleMileage}} km</div>
+    </div>
+    <div class="info-item">
+      <div class="info-label">Leveringsdato</div>
+      <div class="info-value">{{deliveryDate}}</div>
+    </div>
+  </div>
+
+  <h2>3. PRIS OG BETALING</h2>
+  <div class="price-section">
+    <div class="info-grid">
+      <div class="info-item">
+        <div class="info-label">Kjøretøy</div>
+        <div class="info-value">kr {{vehiclePrice}}</div>
+      </div>
+      {{#each addOnLines}}
+      <div class="info-item">
+        <div class="info-label">{{description}}{{#if quantityLabel}} ({{quantityLabel}}){{/if}}</div>
+        <div class="info-value">kr {{amount}}</div>
+      </div>
+      {{/each}}
+      {{#if discount}}
+      <div class="info-item">
+        <div class="info-label">Rabatt</div>
+        <div class="info-value">- kr {{discount}}</div>
+      </div>
+      {{/if}}
+      {{#if tradeInValue}}
+      <div class="info-item">
+        <div class="info-label">Innbytte ({{tradeInRegistration}})</div>
+        <div class="info-value">- kr {{tradeInValue}}</div>
+      </div>
+      {{/if}}
+    </div>
+    <hr style="margin: 20px 0; border: none; border-top: 1px solid #ccc;">
+    <div class="total-price">
+      Å betale inkl. MVA: kr {{totalPrice}}
+    </div>
+    {{#if vatAmount}}
+    <div>Herav MVA (25 %): kr {{vatAmount}}</div>
+    {{/if}}
+    {{#if financingType}}
+    <div style="margin-top: 15px;">
+      <strong>Finansiering:</strong> {{financingType}}<br>
+      {{#if downPayment}}<strong>Egenandel:</strong> kr {{downPayment}}<br>{{/if}}
+      {{#if monthlyPayment}}<strong>Månedlig:</strong> kr {{monthlyPayment}}<br>{{/if}}
+      {{#if loanTerm}}<strong>Lånetid:</strong> {{loanTerm}} måneder<br>{{/if}}
+    </div>
+    {{/if}}
+  </div>
+
+  <h2>4. VILKÅR OG BETINGELSER</h2>
+  <div class="terms-section">
+    <p><strong>Garanti:</strong> {{#if warranty}}{{warrantyDescription}}{{else}}Iht. forbrukerkjøpsloven{{/if}}</p>
+    <p><strong>Leveringssted:</strong> Selgers forretningslokaler</p>
+    {{#if isCommission}}
+    <p><strong>Kommisjon:</strong> Selger formidler kjøretøyet på vegne av eier og opptrer som kommisjonær</p>
+    {{/if}}
+    {{#if isTradeIn}}
+    <p><strong>Innbytte:</strong> Innbyttebilen overtas i den stand den var ved besiktigelse. Kjøper innestår for at den er fri for heftelser ut over det som er opplyst</p>
+    {{/if}}
+    <p><strong>Eierskap:</strong> Eiendomsretten til kjøretøyet går over til kjøper når full betaling er mottatt</p>
+    <p><strong>Risiko:</strong> Risikoen for kjøretøyet går over til kjøper ved levering</p>
+    {{#if isDistanceSale}}
+    <p><strong>Angrerett:</strong> Som forbruker har du 14 dagers angrerett fra levering iht. angrerettloven</p>
+    {{/if}}
+    {{#if specialTerms}}
+    <p><strong>Spesielle betingelser:</strong><br>{{specialTerms}}</p>
+    {{/if}}
+  </div>
+
+  <h2>5. BEKREFTELSE</h2>
+  <p>
+    Begge parter bekrefter med dette at de har lest og forstått alle vilkår i denne kontrakten. 
+    Kjøper bekrefter å ha mottatt all nødvendig informasjon om kjøretøyet, inkludert service- og 
+    reparasjonshistorikk som selger har kjennskap til.
+  </p>
+
+  <div class="signature-section">
+    <h3>Signaturer</h3>
+    <div class="signature-grid">
+      <div class="signature-box">
+        <div class="signature-line"></div>
+        <strong>Selger</strong><br>
+        {{sellerName}}<br>
+        Dato: {{signatureDate}}
+      </div>
+      <div class="signature-box">
+        <div class="signature-line"></div>
+        <strong>Kjøper</strong><br>
+        {{buyerName}}<br>
+        Dato: {{signatureDate}}
+      </div>
+    </div>
+  </div>
+
+  <div class="footer">
+    <p>Kontrakt generert av ForhandlerPRO DMS - {{generatedDate}}</p>
+  </div>
+</body>
+</html>
+`;
+
+export const CONTRACT_TITLES: Record<string, string> = {
+  privatsalg: "KJØPEKONTRAKT - BRUKTBIL",
+  innbytte: "KJØPEKONTRAKT - BRUKTBIL MED INNBYTTE",
+  kommisjon: "KJØPEKONTRAKT - KOMMISJONSSALG",
+  mva_pliktig: "KJØPEKONTRAKT - NÆRINGSKJØP (MVA-PLIKTIG)",
+};
+
+type Amount = string | number | null | undefined;
+
+// Anything contract-shaped: a saved contract row or a form in progress
+export interface ContractInput {
+  contractNumber?: string | null;
+  contractTemplate?: string | null;
+  salePrice?: Amount;
+  saleDate?: Date | string | null;
+  deliveryDate?: Date | string | null;
+  addOns?: Array<{ description: string; price: Amount; quantity?: number | null }> | null;
+  discount?: Amount;
+  tradeInValuation?: Amount;
+  tradeInOwedToCustomer?: Amount;
+  tradeInRegistration?: string | null;
+  financingType?: string | null;
+  downPayment?: Amount;
+  monthlyPayment?: Amount;
+  loanTerm?: string | number | null;
+  warranty?: boolean | null;
+  warrantyDescription?: string | null;
+  isDistanceSale?: boolean | null;
+  notes?: string | null;
+}
+
+export interface ContractCarInput {
+  make?: string | null;
+  model?: string | null;
+  year?: number | string | null;
+  registrationNumber?: string | null;
+  vin?: string | null;
+  mileage?: number | null;
+  salePrice?: Amount;
+}
+
+export interface ContractCustomerInput {
+  name?: string | null;
+  organizationNumber?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export interface ContractCompanyInput {
+  name?: string | null;
+  orgNumber?: string | null;
+  organizationNumber?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export interface ContractTotals {
+  vehiclePrice: number;
+  addOnsTotal: number;
+  discount: number;
+  // What the dealer credits the buyer for the trade-in
+  tradeInCredit: number;
+  // Amount payable by the buyer, incl. VAT where applicable
+  total: number;
+  // VAT contained in the total (only for mva_pliktig sales)
+  vatAmount: number;
+}
+
+export interface ContractData {
+  contractNumber: string;
+  contractType: string;
+  contractTitle: string;
+  isTradeIn: boolean;
+  isCommission: boolean;
+  saleDate: string;
+  
+  // Seller info
+  sellerName: string;
+  sellerOrgNumber: string;
+  sellerAddress: string;
+  sellerPhone: string;
+  sellerEmail: string;
+  
+  // Buyer info
+  buyerName: string;
+  buyerOrgNumber?: string;
+  buyerAddress: string;
+  buyerPhone: string;
+  buyerEmail: string;
+  
+  // Vehicle info
+  vehicleMake: string;
+  vehicleModel: string;
+  vehicleYear: string;
+  vehicleRegistration: string;
+  vehicleVin: string;
+  vehicleMileage: string;
+  deliveryDate: string;
+  
+  // Price info
+  vehiclePrice: string;
+  addOnLines: Array<{ description: string; quantityLabel?: string; amount: string }>;
+  discount?: string;
+  tradeInValue?: string;
+  tradeInRegistration?: string;
+  totalPrice: string;
+  vatAmount?: string;
+  
+  // Financing
+  financingType?: string;
+  downPayment?: string;
+  monthlyPayment?: string;
+  loanTerm?: string;
+  
+  // Terms
+  warranty?: boolean;
+  warrantyDescription?: string;
+  isDistanceSale?: boolean;
+  specialTerms?: string;
+  
+  // Meta
+  signatureDate: string;
+  generatedDate: string;
+}
+
+const VAT_RATE = 0.25;
+
+function toNumber(value: Amount): number {
+  const parsed = typeof value === "number" ? value : parseFloat(value || "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function formatAmount(value: number): string {
+  return Math.round(value).toLocaleString("nb-NO");
+}
+
+// Fixed time zone so server and browser print the same date
+export function formatContractDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString("nb-NO", { timeZone: "Europe/Oslo" });
+}
+
+function optionalAmount(value: number): string | undefined {
+  return value > 0 ? formatAmount(value) : undefined;
+}
+
+export function calculateContractTotals(contract: ContractInput, car?: ContractCarInput | null): ContractTotals {
+  const vehiclePrice = toNumber(contract.salePrice ?? car?.salePrice);
+  const addOnsTotal = (contract.addOns ?? [])
+    .reduce((sum, addOn) => sum + toNumber(addOn.price) * (addOn.quantity ?? 1), 0);
+  const discount = toNumber(contract.discount);
+  // Owed-to-customer is the settled amount; fall back to the valuation before it is agreed
+  const tradeInCredit = toNumber(contract.tradeInOwedToCustomer) || toNumber(contract.tradeInValuation);
+
+  const salesAmount = vehiclePrice + addOnsTotal - discount;
+  const vatAmount = contract.contractTemplate === "mva_pliktig"
+    ? Math.round(salesAmount - salesAmount / (1 + VAT_RATE))
+    : 0;
+
+  return {
+    vehiclePrice,
+    addOnsTotal,
+    discount,
+    tradeInCredit,
+    total: salesAmount - tradeInCredit,
+    vatAmount,
+  };
+}
+
+export function prepareContractData(
+  contract: ContractInput,
+  car: ContractCarInput | null | undefined,
+  customer: ContractCustomerInput | null | undefined,
+  company: ContractCompanyInput | null | undefined,
+  now: Date = new Date(),
+): ContractData {
+  const today = formatContractDate(now);
+  const contractType = contract.contractTemplate || "privatsalg";
+  const totals = calculateContractTotals(contract, car);
+
+  return {
+    contractNumber: contract.contractNumber || "",
+    contractType,
+    contractTitle: CONTRACT_TITLES[contractType] || CONTRACT_TITLES.privatsalg,
+    isTradeIn: totals.tradeInCredit > 0,
+    isCommission: contractType === "kommisjon",
+    saleDate: contract.saleDate ? formatContractDate(contract.saleDate) : today,
+    
+    // Seller (company) info  
+    sellerName: company?.name || "",
+    sellerOrgNumber: company?.orgNumber || company?.organizationNumber || "",
+    sellerAddress: company?.address || "",
+    sellerPhone: company?.phone || "",
+    sellerEmail: company?.email || "",
+    
+    // Buyer (customer) info
+    buyerName: customer?.name || "",
+    buyerOrgNumber: customer?.organizationNumber || undefined,
+    buyerAddress: customer?.address || "",
+    buyerPhone: customer?.phone || "",
+    buyerEmail: customer?.email || "",
+    
+    // Vehicle info
+    vehicleMake: car?.make || "",
+    vehicleModel: car?.model || "",
+    vehicleYear: car?.year?.toString() || "",
+    vehicleRegistration: car?.registrationNumber || "",
+    vehicleVin: car?.vin || "",
+    vehicleMileage: car?.mileage != null ? formatAmount(car.mileage) : "",
+    deliveryDate: contract.deliveryDate ? formatContractDate(contract.deliveryDate) : today,
+    
+    // Price info
+    vehiclePrice: formatAmount(totals.vehiclePrice),
+    addOnLines: (contract.addOns ?? []).map(addOn => {
+      const quantity = addOn.quantity ?? 1;
+      return {
+        description: addOn.description,
+        quantityLabel: quantity > 1 ? `${quantity} stk` : undefined,
+        amount: formatAmount(toNumber(addOn.price) * quantity),
+      };
+    }),
+    discount: optionalAmount(totals.discount),
+    tradeInValue: optionalAmount(totals.tradeInCredit),
+    tradeInRegistration: contract.tradeInRegistration || undefined,
+    totalPrice: formatAmount(totals.total),
+    vatAmount: optionalAmount(totals.vatAmount),
+    
+    // Financing
+    financingType: getFinancingTypeLabel(contract.financingType),
+    downPayment: optionalAmount(toNumber(contract.downPayment)),
+    monthlyPayment: optionalAmount(toNumber(contract.monthlyPayment)),
+    loanTerm: contract.loanTerm ? String(contract.loanTerm) : undefined,
+    
+    // Terms
+    warranty: contract.warranty || false,
+    warrantyDescription: contract.warrantyDescription || "Standard forhandlergaranti 3 måneder",
+    isDistanceSale: contract.isDistanceSale || false,
+    specialTerms: contract.notes || undefined,
+    
+    signatureDate: today,
+    generatedDate: today,
+  };
+}
+
+// Isolated instance so dealer templates cannot register global helpers
+const handlebars = Handlebars.create();
+
+export function renderContractTemplate(data: ContractData, template?: string | null): string {
+  return handlebars.compile(template || DEFAULT_CONTRACT_TEMPLATE)(data);
+}
+
+function getFinancingTypeLabel(type?: string | null): string | undefined {
+  switch(type) {
+    case "loan": return "Billån";
+    case "lease": return "Leasing";
+    case "cash": return "Kontant";
+    default: return undefined;
+  }
+}
+
+// Amendments (tillegg) and credit notes (kreditnota) to a signed contract
+
+export const DEFAULT_AMENDMENT_TEMPLATE = `
+<!DOCTYPE html>
+<html lang="no">
+<head>
+  <meta charset="UTF-8">
+  <title>{{title}}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 20px; }
+    h1 { color: #2c3e50; border-bottom: 2px solid #3498db; padding-bottom: 10px; }
+    h2 { color: #34495e; margin-top: 30px; }
+    .header-info { background: #f8f9fa; padding: 15px; border-radius: 5px; margin-bottom: 20px; }
+    .price-section { background: #e8f4f8; padding: 20px; border-radius: 5px; margin: 20px 0; border-left: 4px solid #3498db; }
+    .price-row { display: flex; justify-content: space-between; padding: 4px 0; }
+    .total-price { font-size: 1.3em; font-weight: bold; color: #2c3e50; }
+    .signature-grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 40px; margin-top: 30px; }
+    .signature-box { text-align: center; padding-top: 20px; }
+    .signature-line { border-bottom: 2px solid #333; margin: 50px 0 10px; }
+    .footer { margin-top: 50px; padding-top: 20px; border-top: 1px solid #ddd; text-align: center; color: #999; font-size: 0.9em; }
+  </style>
+</head>
+<body>
+  <h1>{{title}}</h1>
+
+  <div class="header-info">
+    <strong>Nummer:</strong> {{reference}}<br>
+    <strong>Gjelder kontrakt:</strong> {{contractNumber}} av {{contractDate}}<br>
+    <strong>Dato:</strong> {{date}}
+  </div>
+
+  <h2>1. PARTER OG KJØRETØY</h2>
+  <p>
+    <strong>Selger:</strong> {{sellerName}}{{#if sellerOrgNumber}}, org.nr {{sellerOrgNumber}}{{/if}}<br>
+    <strong>Kjøper:</strong> {{buyerName}}{{#if buyerOrgNumber}}, org.nr {{buyerOrgNumber}}{{/if}}<br>
+    <strong>Kjøretøy:</strong> {{vehicleMake}} {{vehicleModel}} ({{vehicleYear}}), {{vehicleRegistration}}
+  </p>
+
+  <h2>2. ENDRING</h2>
+  <p>{{description}}</p>
+  {{#if deliveryDate}}
+  <p><strong>Ny leveringsdato:</strong> {{deliveryDate}}</p>
+  {{/if}}
+
+  <h2>3. PRIS</h2>
+  <div class="price-section">
+    {{#if priceAdjustment}}
+    <div class="price-row"><span>{{#if isCreditNote}}Kreditert{{else}}Prisjustering{{/if}}</span><span>kr {{priceAdjustment}}</span></div>
+    {{/if}}
+    {{#each addOnLines}}
+    <div class="price-row"><span>{{description}}{{#if quantityLabel}} ({{quantityLabel}}){{/if}}</span><span>kr {{amount}}</span></div>
+    {{/each}}
+    <hr style="margin: 15px 0; border: none; border-top: 1px solid #ccc;">
+    <div class="price-row total-price"><span>Sum denne {{#if isCreditNote}}kreditnotaen{{else}}endringen{{/if}}</span><span>kr {{amendmentTotal}}</span></div>
+    <div class="price-row"><span>Opprinnelig salgspris</span><span>kr {{originalPrice}}</span></div>
+    <div class="price-row"><span>Ny salgspris for kjøretøyet</span><span>kr {{newVehiclePrice}}</span></div>
+  </div>
+
+  <p>Kontrakt {{contractNumber}} gjelder uendret i den utstrekning den ikke er endret av dette dokumentet.</p>
+
+  <div class="signature-grid">
+    <div class="signature-box">
+      <div class="signature-line"></div>
+      <strong>Selger</strong><br>
+      {{sellerName}}<br>
+      Dato: {{signatureDate}}
+    </div>
+    <div class="signature-box">
+      <div class="signature-line"></div>
+      <strong>Kjøper</strong><br>
+      {{buyerName}}<br>
+      Dato: {{signatureDate}}
+    </div>
+  </div>
+
+  <div class="footer">
+    <p>Dokument generert av ForhandlerPRO DMS - {{generatedDate}}</p>
+  </div>
+</body>
+</html>
+`;
+
+export const AMENDMENT_TITLES: Record<string, string> = {
+  tillegg: "TILLEGG TIL KJØPEKONTRAKT",
+  kreditnota: "KREDITNOTA TIL KJØPEKONTRAKT",
+};
+
+export interface AmendmentInput {
+  amendmentNumber?: number | null;
+  kind?: string | null;
+  description?: string | null;
+  priceAdjustment?: Amount;
+  addOns?: Array<{ description: string; price: Amount; quantity?: number | null }> | null;
+  deliveryDate?: Date | string | null;
+  status?: string | null;
+}
+
+export interface AmendmentData {
+  reference: string;
+  contractNumber: string;
+  contractDate: string;
+  title: string;
+  isCreditNote: boolean;
+  date: string;
+
+  sellerName: string;
+  sellerOrgNumber: string;
+  buyerName: string;
+  buyerOrgNumber?: string;
+  vehicleMake: string;
+  vehicleModel: string;
+  vehicleYear: string;
+  vehicleRegistration: string;
+
+  description: string;
+  deliveryDate?: string;
+  priceAdjustment?: string;
+  addOnLines: Array<{ description: string; quantityLabel?: string; amount: string }>;
+  amendmentTotal: string;
+  originalPrice: string;
+  newVehiclePrice: string;
+
+  signatureDate: string;
+  generatedDate: string;
+}
+
+// Printed and referred to as the contract number with a T-suffix, e.g. K-2026-00012-T1
+export function amendmentReference(contractNumber: string | null | undefined, amendmentNumber: number | null | undefined): string {
+  return `${contractNumber || ""}-T${amendmentNumber ?? ""}`;
+}
+
+// What the amendment adds to (or, when negative, takes off) the amount payable
+export function calculateAmendmentTotal(amendment: AmendmentInput): number {
+  const addOnsTotal = (amendment.addOns ?? [])
+    .reduce((sum, addOn) => sum + toNumber(addOn.price) * (addOn.quantity ?? 1), 0);
+  return toNumber(amendment.priceAdjustment) + addOnsTotal;
+}
+
+// Vehicle price after the signed amendments and credit notes; drafts do not count
+export function effectiveSalePrice(salePrice: Amount, amendments: AmendmentInput[]): number {
+  return amendments
+    .filter(amendment => amendment.status === "signed")
+    .reduce((price, amendment) => price + toNumber(amendment.priceAdjustment), toNumber(salePrice));
+}
+
+export function prepareAmendmentData(
+  amendment: AmendmentInput,
+  contract: ContractInput,
+  car: ContractCarInput | null | undefined,
+  customer: ContractCustomerInput | null | undefined,
+  company: ContractCompanyInput | null | undefined,
+  signedBefore: AmendmentInput[] = [],
+  now: Date = new Date(),
+): AmendmentData {
+  const today = formatContractDate(now);
+  const kind = amendment.kind || "tillegg";
+  const priceAdjustment = toNumber(amendment.priceAdjustment);
+  const priceBefore = effectiveSalePrice(contract.salePrice ?? car?.salePrice, signedBefore);
+
+  return {
+    reference: amendmentReference(contract.contractNumber, amendment.amendmentNumber),
+    contractNumber: contract.contractNumber || "",
+    contractDate: contract.saleDate ? formatContractDate(contract.saleDate) : "",
+    title: AMENDMENT_TITLES[kind] || AMENDMENT_TITLES.tillegg,
+    isCreditNote: kind === "kreditnota",
+    date: today,
+
+    sellerName: company?.name || "",
+    sellerOrgNumber: company?.orgNumber || company?.organizationNumber || "",
+    buyerName: customer?.name || "",
+    buyerOrgNumber: customer?.organizationNumber || undefined,
+    vehicleMake: car?.make || "",
+    vehicleModel: car?.model || "",
+    vehicleYear: car?.year?.toString() || "",
+    vehicleRegistration: car?.registrationNumber || "",
+
+    description: amendment.description || "",
+    deliveryDate: amendment.deliveryDate ? formatContractDate(amendment.deliveryDate) : undefined,
+    priceAdjustment: priceAdjustment !== 0 ? formatAmount(priceAdjustment) : undefined,
+    addOnLines: (amendment.addOns ?? []).map(addOn => {
+      const quantity = addOn.quantity ?? 1;
+      return {
+        description: addOn.description,
+        quantityLabel: quantity > 1 ? `${quantity} stk` : undefined,
+        amount: formatAmount(toNumber(addOn.price) * quantity),
+      };
+    }),
+    amendmentTotal: formatAmount(calculateAmendmentTotal(amendment)),
+    originalPrice: formatAmount(toNumber(contract.salePrice ?? car?.salePrice)),
+    newVehiclePrice: formatAmount(priceBefore + priceAdjustment),
+
+    signatureDate: today,
+    generatedDate: today,
+  };
+}
+
+export function renderAmendmentTemplate(data: AmendmentData, template?: string | null): string {
+  return handlebars.compile(template || DEFAULT_AMENDMENT_TEMPLATE)(data);
+}
@@ -0,0 +1,59 @@
+import type { InsertFollowupPlaybook, PlaybookStep } from "./schema";
+
+// Post-sale playbook due times and suggestions. Step notes use the merge
+// fields in ./merge-fields.
+
+// Due time of a step, never earlier than `now` so late events still get their follow-ups
+export function playbookStepDueAt(eventDate: Date, step: Pick<PlaybookStep, "offsetDays" | "time">, now = new Date()): Date {
+  const [hours, minutes] = step.time.split(":").map(Number);
+  const due = new Date(eventDate);
+  due.setDate(due.getDate() + step.offsetDays);
+  due.setHours(hours, minutes, 0, 0);
+  return due < now ? now : due;
+}
+
+// Starting point for a company without playbooks
+export const SUGGESTED_PLAYBOOKS: InsertFollowupPlaybook[] = [
+  {
+    name: "Etter salg",
+    trigger: "contract_signed",
+    active: true,
+    steps: [
+      {
+        offsetDays: 3,
+        time: "10:00",
+        type: "call",
+        note: "Ring {{customerName}} og hør hvordan det går med {{carMake}} {{carModel}}",
+        assigneeId: null,
+      },
+      {
+        offsetDays: 30,
+        time: "10:00",
+        type: "call",
+        note: "Sjekk at {{customerName}} er fornøyd med {{carMake}} {{carModel}} ({{carRegistration}})",
+        assigneeId: null,
+      },
+      {
+        offsetDays: 1095,
+        time: "10:00",
+        type: "call",
+        note: "Tilby {{customerName}} innbytte av {{carMake}} {{carModel}} ({{carRegistration}}), kjøpt {{saleDate}}",
+        assigneeId: null,
+      },
+    ],
+  },
+  {
+    name: "EU-kontroll",
+    trigger: "eu_control_due",
+    active: true,
+    steps: [
+      {
+        offsetDays: -30,
+        time: "10:00",
+        type: "sms",
+        note: "Minn {{customerName}} på EU-kontroll for {{carRegistration}} innen {{euControlDate}}",
+        assigneeId: null,
+      },
+    ],
+  },
+];
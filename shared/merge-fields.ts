@@ -0,0 +1,51 @@
+import Handlebars from "handlebars";
+import type { Car, Contract, Customer } from "./schema";
+
+// Merge fields for texts about a customer's purchase: follow-up playbook
+// notes and customer message templates. Shared by the server, which renders
+// them, and the client, which shows editor help and previews.
+
+export const MERGE_FIELDS = {
+  customerName: "Kundens navn",
+  customerPhone: "Kundens telefon",
+  carMake: "Merke",
+  carModel: "Modell",
+  carRegistration: "Registreringsnummer",
+  contractNumber: "Kontraktnummer",
+  saleDate: "Salgsdato",
+  euControlDate: "Frist for EU-kontroll",
+  sellerName: "Selger",
+} as const;
+export type MergeField = keyof typeof MERGE_FIELDS;
+
+export type MergeData = Partial<Record<MergeField, string>>;
+
+export interface MergeSource {
+  customer?: Pick<Customer, "name" | "phone"> | null;
+  car?: Pick<Car, "make" | "model" | "registrationNumber" | "nextEuControl"> | null;
+  contract?: Pick<Contract, "contractNumber" | "saleDate"> | null;
+  sellerName?: string | null;
+}
+
+export function formatMergeDate(date: Date | string | null | undefined): string {
+  return date ? new Date(date).toLocaleDateString("nb-NO", { timeZone: "Europe/Oslo" }) : "";
+}
+
+export function buildMergeData({ customer, car, contract, sellerName }: MergeSource): MergeData {
+  return {
+    customerName: customer?.name,
+    customerPhone: customer?.phone ?? undefined,
+    carMake: car?.make,
+    carModel: car?.model,
+    carRegistration: car?.registrationNumber,
+    contractNumber: contract?.contractNumber,
+    saleDate: formatMergeDate(contract?.saleDate),
+    euControlDate: formatMergeDate(car?.nextEuControl),
+    sellerName: sellerName ?? undefined,
+  };
+}
+
+// Texts are plain, so values are not HTML-escaped; unknown fields render empty
+export function renderMergeText(template: string, data: MergeData): string {
+  return Handlebars.compile(template, { noEscape: true })(data).trim();
+}
@@ -0,0 +1,116 @@
+// Company roles and what each may do. The one catalogue behind server
+// middleware, the client permission hooks and the assistant. Companies can
+// also define their own roles as any set of these permissions.
+
+export const ROLES = ["EIER", "SELGER", "REGNSKAP", "VERKSTED", "LESER"] as const;
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  EIER: "Eier",
+  SELGER: "Selger",
+  REGNSKAP: "Regnskap",
+  VERKSTED: "Verksted",
+  LESER: "Leser",
+};
+
+export const PERMISSIONS = [
+  "cars.create",
+  "cars.update",
+  "cars.price",
+  "cars.delete",
+  "recon.manage",
+  "recon.work",
+  "customers.manage",
+  "customers.delete",
+  "customers.privacy",
+  "contracts.create",
+  "contracts.update",
+  "contracts.discount",
+  "contracts.sign",
+  "contracts.complete",
+  "contracts.delete",
+  "finance.view",
+  "data.export",
+  "team.manage",
+  "company.manage",
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "cars.create": "Registrere biler",
+  "cars.update": "Endre biler",
+  "cars.price": "Endre utsalgspris",
+  "cars.delete": "Slette biler",
+  "recon.manage": "Opprette og fordele klargjøringsoppgaver",
+  "recon.work": "Utføre klargjøring og føre deler og timer",
+  "customers.manage": "Registrere og endre kunder",
+  "customers.delete": "Slette kunder",
+  "customers.privacy": "Utlevere og slette kundedata (personvern)",
+  "contracts.create": "Opprette kontrakter",
+  "contracts.update": "Endre kontrakter",
+  "contracts.discount": "Godkjenne rabatt og kreditnota",
+  "contracts.sign": "Sende til og markere signering",
+  "contracts.complete": "Markere kontrakter som levert",
+  "contracts.delete": "Slette og kansellere kontrakter",
+  "finance.view": "Se kost, marginer og økonomi",
+  "data.export": "Eksportere data",
+  "team.manage": "Administrere brukere og roller",
+  "company.manage": "Administrere firmainnstillinger",
+};
+
+const SALES_PERMISSIONS: readonly Permission[] = [
+  "cars.create",
+  "cars.update",
+  "cars.price",
+  "recon.manage",
+  "customers.manage",
+  "contracts.create",
+  "contracts.update",
+  "contracts.discount",
+  "contracts.sign",
+  "data.export",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  EIER: PERMISSIONS,
+  SELGER: SALES_PERMISSIONS,
+  REGNSKAP: [...SALES_PERMISSIONS, "contracts.complete", "finance.view"],
+  VERKSTED: ["cars.create", "cars.update", "recon.manage", "recon.work"],
+  LESER: [],
+};
+
+// Role names used by the signup flow, the Supabase org tables and users.role
+// before the catalogue was unified
+const LEGACY_ROLES: Record<string, Role> = {
+  owner: "EIER",
+  admin: "EIER",
+  org_admin: "EIER",
+  sales: "SELGER",
+  accountant: "REGNSKAP",
+  workshop: "VERKSTED",
+  viewer: "LESER",
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function normalizeRole(role: string | null | undefined): Role | null {
+  if (!role) return null;
+  if (isRole(role)) return role;
+  return LEGACY_ROLES[role] ?? null;
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const normalized = normalizeRole(role);
+  return normalized ? ROLE_PERMISSIONS[normalized].includes(permission) : false;
+}
+
+export function permissionsFor(role: string | null | undefined): Permission[] {
+  const normalized = normalizeRole(role);
+  return normalized ? [...ROLE_PERMISSIONS[normalized]] : [];
+}
@@ -2,6 +2,7 @@ import { sql } from "drizzle-orm";
 import { relations } from "drizzle-orm";
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -15,6 +16,7 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { PERMISSIONS, ROLES, type Permission } from "./roles";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -52,7 +54,8 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  role: varchar("role").default("user"), // super_admin, org_admin, user
+  role: varchar("role").default("user"), // Platform role: super_admin or user. Company roles live on memberships
+  activeCompanyId: varchar("active_company_id").references(() => companies.id, { onDelete: "set null" }), // Chosen via company switch; earliest membership when unset
   passwordHash: varchar("password_hash"),
   lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -64,10 +67,25 @@ export const memberships = pgTable("memberships", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
-  role: varchar("role").notNull().default("user"), // admin, sales, workshop, accountant, viewer
+  role: varchar("role").notNull().default("LESER"), // A Role from @shared/roles: EIER, SELGER, REGNSKAP, VERKSTED, LESER
+  customRoleId: varchar("custom_role_id").references(() => companyRoles.id, { onDelete: "set null" }), // When set, its permissions replace the role's
   joinedAt: timestamp("joined_at").defaultNow(),
 });
 
+// Company-defined roles: a named set of permissions from @shared/roles
+export const companyRoles = pgTable("company_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull().default([]),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_company_roles_company_name").on(table.companyId, table.name),
+]);
+
 // Multi-tenant support tables
 export const profiles = pgTable("profiles", {
   id: varchar("id").primaryKey(), // Auth user ID
@@ -76,6 +94,10 @@ export const profiles = pgTable("profiles", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// What the aging job does with a car that reaches a pricing rules tier
+export const REPRICING_MODES = ["off", "suggest", "auto"] as const;
+export type RepricingMode = typeof REPRICING_MODES[number];
+
 // Company settings table
 export const companySettings = pgTable("company_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -83,6 +105,13 @@ export const companySettings = pgTable("company_settings", {
   logoUrl: text("logo_url"),
   organizationNumber: varchar("organization_number"),
   address: text("address"),
+  contractNumberPrefix: varchar("contract_number_prefix").notNull().default("K"),
+  contractNumberYearlyReset: boolean("contract_number_yearly_reset").notNull().default(true),
+  repricingMode: varchar("repricing_mode").notNull().default("suggest").$type<RepricingMode>(),
+  requireReconBeforeAvailable: boolean("require_recon_before_available").notNull().default(false),
+  contractRetentionYears: integer("contract_retention_years").notNull().default(5), // bookkeeping minimum is 5
+  inactiveCustomerRetentionMonths: integer("inactive_customer_retention_months"), // null keeps customers until erasure is requested
+  smsSenderNumber: varchar("sms_sender_number"), // SMS go out from this number and replies to it belong here; null uses the gateway's shared number
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -109,7 +138,7 @@ export const svvCache = pgTable("svv_cache", {
 export const cars = pgTable("cars", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
-  registrationNumber: varchar("registration_number").notNull().unique(),
+  registrationNumber: varchar("registration_number").notNull(), // unique per company, see idx_cars_company_registration
   make: varchar("make").notNull(),
   model: varchar("model").notNull(),
   variant: varchar("variant"),
@@ -146,7 +175,10 @@ export const cars = pgTable("cars", {
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   userId: varchar("user_id").notNull().references(() => users.id),
-});
+}, (table) => [
+  // Each dealer has its own stock; the same car can be on file at several dealers
+  uniqueIndex("idx_cars_company_registration").on(table.companyId, table.registrationNumber),
+]);
 
 // Customers table
 export const customers = pgTable("customers", {
@@ -160,29 +192,39 @@ export const customers = pgTable("customers", {
   type: varchar("type").default("PRIVAT").$type<'PRIVAT' | 'BEDRIFT'>(), // PRIVAT, BEDRIFT
   gdprConsent: boolean("gdpr_consent").default(false),
   gdprConsentAt: timestamp("gdpr_consent_at", { withTimezone: true }),
+  erasedAt: timestamp("erased_at", { withTimezone: true }), // pseudonymized after an erasure request, kept for retained contracts
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   userId: varchar("user_id").notNull().references(() => users.id),
 });
 
+export const CONTRACT_TYPES = ["privatsalg", "innbytte", "kommisjon", "mva_pliktig"] as const;
+export type ContractType = typeof CONTRACT_TYPES[number];
+
+// tillegg changes terms (delivery date, add-ons, price); kreditnota only reduces the price
+export const AMENDMENT_KINDS = ["tillegg", "kreditnota"] as const;
+export type AmendmentKind = typeof AMENDMENT_KINDS[number];
+
 // Contracts table
 export const contracts = pgTable("contracts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
-  contractNumber: varchar("contract_number").notNull().unique(),
+  contractNumber: varchar("contract_number").notNull(), // allocated per company, see contractNumberSequences
   carId: varchar("car_id").notNull().references(() => cars.id),
   customerId: varchar("customer_id").notNull().references(() => customers.id),
   salePrice: decimal("sale_price", { precision: 15, scale: 2 }).notNull(),
   saleDate: timestamp("sale_date").notNull(),
-  status: varchar("status").default("draft"), // draft, pending_signature, signed, completed, rejected
+  status: varchar("status").default("draft"), // see CONTRACT_TRANSITIONS in contract-lifecycle.ts; changed only through transitions
   pdfUrl: varchar("pdf_url"), // stored PDF file URL
   notes: text("notes"),
   
   // Template and enhanced fields
   contractTemplate: varchar("contract_template").notNull().default("privatsalg"), // privatsalg, innbytte, kommisjon, mva_pliktig
+  templateVersionId: varchar("template_version_id").references(() => contractTemplateVersions.id), // published template the signed document was produced from
   
   // Trade-in fields
   tradeInCarId: varchar("trade_in_car_id").references(() => cars.id),
+  tradeInRegistration: varchar("trade_in_registration"),
   tradeInValuation: varchar("trade_in_valuation"),
   tradeInReconCost: varchar("trade_in_recon_cost"),
   tradeInNet: varchar("trade_in_net"),
@@ -214,23 +256,129 @@ export const contracts = pgTable("contracts", {
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   userId: varchar("user_id").notNull().references(() => users.id),
-});
+}, (table) => [
+  uniqueIndex("idx_contracts_company_number").on(table.companyId, table.contractNumber),
+]);
+
+// Audit trail of contract status changes (changedBy is null when the signing provider moved it)
+export const contractStatusTransitions = pgTable("contract_status_transitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status"), // null for the initial draft
+  toStatus: varchar("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_contract_status_transitions_contract").on(table.contractId, table.createdAt),
+]);
+
+// Amendments and credit notes to a signed contract. Each is rendered and
+// signed on its own; signed ones roll up into the effective sale price.
+export const contractAmendments = pgTable("contract_amendments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  amendmentNumber: integer("amendment_number").notNull(), // 1, 2, ... per contract; printed as K-2026-00001-T1
+  kind: varchar("kind").notNull().default("tillegg"), // tillegg, kreditnota
+  description: text("description").notNull(),
+  priceAdjustment: decimal("price_adjustment", { precision: 15, scale: 2 }).notNull().default("0"), // change to the vehicle price, negative for reductions
+  addOns: jsonb("add_ons").$type<Array<{
+    id: string;
+    description: string;
+    cost: string;
+    price: string;
+    quantity: number;
+  }>>().default([]),
+  deliveryDate: timestamp("delivery_date"), // new agreed delivery date, if changed
+  status: varchar("status").notNull().default("draft"), // see AMENDMENT_TRANSITIONS in contract-lifecycle.ts
+
+  // E-signing, as on the contract
+  signingProvider: varchar("signing_provider"),
+  signingDocumentId: varchar("signing_document_id"),
+  signingUrl: varchar("signing_url"),
+  signingStatus: varchar("signing_status").default("not_sent"),
+  signedAt: timestamp("signed_at"),
+  signerName: varchar("signer_name"),
+  pdfUrl: varchar("pdf_url"),
+
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_contract_amendments_contract_number").on(table.contractId, table.amendmentNumber),
+  index("idx_contract_amendments_signing_document").on(table.signingProvider, table.signingDocumentId),
+]);
+
+// Last contract number handed out per company and year (year 0 when numbering never resets)
+export const contractNumberSequences = pgTable("contract_number_sequences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  year: integer("year").notNull(),
+  lastNumber: integer("last_number").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_contract_number_sequences_company_year").on(table.companyId, table.year),
+]);
+
+// Dealer-managed contract templates (Handlebars), one per company and contract type
+export const contractTemplates = pgTable("contract_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  contractType: varchar("contract_type").notNull(), // privatsalg, innbytte, kommisjon, mva_pliktig
+  name: varchar("name").notNull(),
+  draftBody: text("draft_body").notNull(), // work in progress, not used until published
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_contract_templates_company_type").on(table.companyId, table.contractType),
+]);
+
+// Immutable published snapshots of a template; contracts point at the version they were signed with
+export const contractTemplateVersions = pgTable("contract_template_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull().references(() => contractTemplates.id),
+  version: integer("version").notNull(),
+  body: text("body").notNull(),
+  notes: text("notes"),
+  publishedBy: varchar("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_contract_template_versions_template_version").on(table.templateId, table.version),
+]);
 
 // Activity Log table for tracking system activities (legacy)
 export const activityLog = pgTable("activity_log", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  type: varchar("type").notNull(), // car_created, car_updated, car_sold, customer_created, customer_updated, contract_created, contract_signed, user_login
+  type: varchar("type").notNull(), // car_created, car_updated, car_sold, car_price_suggested, car_repriced, customer_created, customer_updated, contract_created, contract_signed, user_login
   message: text("message").notNull(), // human-readable description
   entityId: varchar("entity_id"), // ID of the related entity (car, customer, contract)
   entityType: varchar("entity_type"), // cars, customers, contracts
   userId: varchar("user_id").notNull().references(() => users.id),
+  companyId: varchar("company_id").references(() => companies.id, { onDelete: "cascade" }), // null for users without a company
   metadata: jsonb("metadata"), // additional data like old/new values, prices, etc.
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_activity_log_user_id").on(table.userId),
+  index("idx_activity_log_company").on(table.companyId, table.createdAt),
   index("idx_activity_log_entity").on(table.entityId, table.entityType),
 ]);
 
+// Inbound e-signing webhook deliveries, keyed by provider event ID so replays are ignored
+export const signingWebhookEvents = pgTable("signing_webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(), // verified.no, scrive, signant, fake
+  eventId: varchar("event_id").notNull(),
+  documentId: varchar("document_id").notNull(),
+  contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "set null" }),
+  payload: jsonb("payload"),
+  processedAt: timestamp("processed_at"),
+  receivedAt: timestamp("received_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_signing_webhook_events_provider_event").on(table.provider, table.eventId),
+]);
+
 // Removed invites table - no longer needed without multi-tenant
 
 
@@ -312,6 +460,23 @@ export const insertMembershipSchema = createInsertSchema(memberships).omit({
   joinedAt: true,
 });
 
+export const insertCompanyRoleSchema = createInsertSchema(companyRoles).omit({
+  id: true,
+  companyId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+// A member gets a built-in role, optionally overridden by one of the company's own
+export const memberRoleSchema = z.object({
+  role: z.enum(ROLES),
+  customRoleId: z.string().nullable().optional(),
+});
+
 export const insertCarSchema = createInsertSchema(cars).omit({
   id: true,
   createdAt: true,
@@ -349,6 +514,7 @@ export const insertCustomerSchema = createInsertSchema(customers).omit({
   updatedAt: true,
   userId: true,
   companyId: true,
+  erasedAt: true,
 });
 
 export const insertContractSchema = createInsertSchema(contracts).omit({
@@ -368,6 +534,8 @@ export const insertContractSchema = createInsertSchema(contracts).omit({
   signerPhone: true,
   signingMethod: true,
   webhookStatus: true,
+  templateVersionId: true,
+  contractNumber: true, // allocated by the server
 }).extend({
   // Override field types to match frontend data
   salePrice: z.union([z.string(), z.number()]).transform(val => val.toString()),
@@ -386,7 +554,7 @@ export const insertContractSchema = createInsertSchema(contracts).omit({
     quantity: z.number().min(1).default(1),
   })).default([]),
   // Contract template validation
-  contractTemplate: z.enum(["privatsalg", "innbytte", "kommisjon", "mva_pliktig"]).default("privatsalg"),
+  contractTemplate: z.enum(CONTRACT_TYPES).default("privatsalg"),
   // E-sign status validation  
   eSignStatus: z.enum(["ikke_sendt", "sendt", "signert"]).default("ikke_sendt"),
 });
@@ -398,8 +566,12 @@ export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type Membership = typeof memberships.$inferSelect;
 export type InsertMembership = z.infer<typeof insertMembershipSchema>;
+export type CompanyRole = typeof companyRoles.$inferSelect;
+export type InsertCompanyRole = z.infer<typeof insertCompanyRoleSchema>;
+export type MemberRoleUpdate = z.infer<typeof memberRoleSchema>;
 
 // Activity Log types
+export type SigningWebhookEvent = typeof signingWebhookEvents.$inferSelect;
 export type ActivityLog = typeof activityLog.$inferSelect;
 export type InsertActivityLog = typeof activityLog.$inferInsert;
 export type InsertCar = z.infer<typeof insertCarSchema>;
@@ -408,6 +580,74 @@ export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Customer = typeof customers.$inferSelect;
 export type InsertContract = z.infer<typeof insertContractSchema>;
 export type Contract = typeof contracts.$inferSelect;
+export type ContractStatusTransition = typeof contractStatusTransitions.$inferSelect;
+export type ContractAmendment = typeof contractAmendments.$inferSelect;
+export type InsertContractAmendment = z.infer<typeof insertContractAmendmentSchema>;
+// Fields owned by the amendment's e-signing pipeline
+export type AmendmentSigningUpdate = Partial<Pick<ContractAmendment,
+  | 'status'
+  | 'signingProvider'
+  | 'signingDocumentId'
+  | 'signingUrl'
+  | 'signingStatus'
+  | 'signedAt'
+  | 'signerName'
+  | 'pdfUrl'
+>>;
+// Fields owned by the e-signing and PDF pipeline (not accepted from the contract form)
+export type ContractSigningUpdate = Partial<Pick<Contract,
+  | 'status'
+  | 'eSignStatus'
+  | 'eSignSentAt'
+  | 'signingProvider'
+  | 'signingDocumentId'
+  | 'signingUrl'
+  | 'signingStatus'
+  | 'signedAt'
+  | 'signerName'
+  | 'signerEmail'
+  | 'signerPhone'
+  | 'signingMethod'
+  | 'webhookStatus'
+  | 'pdfUrl'
+  | 'templateVersionId'
+>>;
+
+export const insertContractTemplateSchema = createInsertSchema(contractTemplates).omit({
+  id: true,
+  companyId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  contractType: z.enum(CONTRACT_TYPES),
+  name: z.string().min(1),
+  draftBody: z.string().min(1),
+});
+
+export const insertContractAmendmentSchema = createInsertSchema(contractAmendments).pick({
+  kind: true,
+  description: true,
+  priceAdjustment: true,
+  addOns: true,
+  deliveryDate: true,
+}).extend({
+  kind: z.enum(AMENDMENT_KINDS).default("tillegg"),
+  description: z.string().min(1),
+  priceAdjustment: z.union([z.string(), z.number()]).transform(val => val.toString()).default("0"),
+  addOns: z.array(z.object({
+    id: z.string(),
+    description: z.string(),
+    cost: z.string(),
+    price: z.string(),
+    quantity: z.number().min(1).default(1),
+  })).default([]),
+  deliveryDate: z.union([z.string(), z.date()]).transform(val => new Date(val)).nullable().optional(),
+});
+
+export type ContractTemplate = typeof contractTemplates.$inferSelect;
+export type InsertContractTemplate = z.infer<typeof insertContractTemplateSchema>;
+export type ContractTemplateVersion = typeof contractTemplateVersions.$inferSelect;
 
 // Saved Views schemas
 export const insertSavedViewSchema = createInsertSchema(userSavedViews).omit({
@@ -446,6 +686,7 @@ export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export const marketComps = pgTable("market_comps", {
   id: uuid("id").primaryKey().defaultRandom(),
   source: text("source").notNull(),
+  adId: text("ad_id"), // Set for comps kept in sync by the listing snapshot ingest
   regnr: text("regnr"),
   brand: text("brand"),
   model: text("model"),
@@ -459,7 +700,9 @@ export const marketComps = pgTable("market_comps", {
   listedAt: timestamp("listed_at", { withTimezone: true }).defaultNow(),
   fetchedAt: timestamp("fetched_at", { withTimezone: true }).defaultNow(),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("idx_market_comps_ad_id").on(table.adId),
+]);
 
 export const insertMarketCompSchema = createInsertSchema(marketComps).omit({ 
   id: true, 
@@ -490,28 +733,509 @@ export const insertPricingRulesSchema = createInsertSchema(pricingRules).omit({
 export type PricingRules = typeof pricingRules.$inferSelect;
 export type InsertPricingRules = z.infer<typeof insertPricingRulesSchema>;
 
+export const PRICE_FIELDS = ["sale_price", "cost_price", "recond_cost"] as const;
+export type PriceField = typeof PRICE_FIELDS[number];
+
+// Every change of a car's list price, cost or recon cost, starting with the
+// values it came in with. changedBy is null for the aging job; "recon"
+// entries come from work-order lines.
+export const carPriceHistory = pgTable("car_price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  carId: varchar("car_id").notNull().references(() => cars.id, { onDelete: "cascade" }),
+  field: varchar("field").notNull().default("sale_price").$type<PriceField>(),
+  oldPrice: varchar("old_price"), // null for the intake entry
+  newPrice: varchar("new_price").notNull(),
+  source: varchar("source").notNull().$type<'intake' | 'manual' | 'aging' | 'recon'>(),
+  reason: text("reason"),
+  changedBy: varchar("changed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_car_price_history_car").on(table.carId, table.createdAt),
+]);
+
+export type CarPriceHistory = typeof carPriceHistory.$inferSelect;
+
+// Price drops proposed by the aging job, one per car and tier. In "auto" mode
+// they are recorded as applied straight away.
+export const carPriceSuggestions = pgTable("car_price_suggestions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  carId: varchar("car_id").notNull().references(() => cars.id, { onDelete: "cascade" }),
+  agingTier: integer("aging_tier").notNull(), // 1-3, the pricingRules tier reached
+  daysOnLot: integer("days_on_lot").notNull(),
+  currentPrice: varchar("current_price").notNull(),
+  suggestedPrice: varchar("suggested_price").notNull(),
+  floorClamped: boolean("floor_clamped").notNull().default(false), // held at the minimum margin on cost
+  reason: text("reason"),
+  status: varchar("status").notNull().default("pending").$type<'pending' | 'applied' | 'dismissed'>(),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_car_price_suggestions_car_tier").on(table.carId, table.agingTier),
+  index("idx_car_price_suggestions_company_status").on(table.companyId, table.status),
+]);
+
+export type CarPriceSuggestion = typeof carPriceSuggestions.$inferSelect;
+export type InsertCarPriceSuggestion = typeof carPriceSuggestions.$inferInsert;
+
+export const PRIVACY_REQUEST_TYPES = ["export", "erasure"] as const;
+export type PrivacyRequestType = typeof PRIVACY_REQUEST_TYPES[number];
+
+// deleted: nothing had to be kept; pseudonymized: contracts still under retention reference the customer
+export type PrivacyRequestOutcome = "exported" | "deleted" | "pseudonymized";
+
+export interface PrivacyRequestDetails {
+  contracts?: number;
+  contractsRetained?: number;
+  retainedUntil?: string | null; // when the last retained contract may go
+  followupsDeleted?: number;
+  messagesDeleted?: number;
+  activityRedacted?: number;
+  leadsPseudonymized?: number;
+}
+
+// Audit record of each data subject request. customerId has no foreign key so
+// the record outlives a deleted customer; requestedBy is null when the
+// retention job erased the customer.
+export const privacyRequests = pgTable("privacy_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull(),
+  type: varchar("type").notNull().$type<PrivacyRequestType>(),
+  outcome: varchar("outcome").notNull().$type<PrivacyRequestOutcome>(),
+  reason: text("reason"),
+  details: jsonb("details").$type<PrivacyRequestDetails>(),
+  requestedBy: varchar("requested_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+}, (table) => [
+  index("idx_privacy_requests_company").on(table.companyId, table.createdAt),
+  index("idx_privacy_requests_customer").on(table.customerId),
+]);
+
+export type PrivacyRequest = typeof privacyRequests.$inferSelect;
+export type InsertPrivacyRequest = typeof privacyRequests.$inferInsert;
 
+export const RECON_TASK_TYPES = ["polish", "tyres", "service", "damage_repair", "inspection", "other"] as const;
+export type ReconTaskType = typeof RECON_TASK_TYPES[number];
+
+export const RECON_TASK_STATUSES = ["todo", "in_progress", "waiting_parts", "done"] as const;
+export type ReconTaskStatus = typeof RECON_TASK_STATUSES[number];
+
+// A car's work order is its set of recon tasks. Mandatory tasks must be done
+// before the car can be put up for sale when the company requires it.
+export const reconTasks = pgTable("recon_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  carId: varchar("car_id").notNull().references(() => cars.id, { onDelete: "cascade" }),
+  type: varchar("type").notNull().$type<ReconTaskType>(),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  mandatory: boolean("mandatory").notNull().default(true),
+  status: varchar("status").notNull().default("todo").$type<ReconTaskStatus>(),
+  assignedTo: varchar("assigned_to").references(() => users.id),
+  dueDate: timestamp("due_date"),
+  completedAt: timestamp("completed_at"),
+  completedBy: varchar("completed_by").references(() => users.id),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_recon_tasks_car").on(table.carId),
+  index("idx_recon_tasks_company_status").on(table.companyId, table.status),
+]);
+
+export const insertReconTaskSchema = createInsertSchema(reconTasks).pick({
+  type: true,
+  title: true,
+  description: true,
+  mandatory: true,
+  assignedTo: true,
+  dueDate: true,
+}).extend({
+  type: z.enum(RECON_TASK_TYPES),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).nullable().optional(),
+  assignedTo: z.string().nullable().optional(),
+  dueDate: z.union([z.string(), z.date()]).transform(val => new Date(val)).nullable().optional(),
+});
+
+export const updateReconTaskSchema = insertReconTaskSchema.partial().extend({
+  status: z.enum(RECON_TASK_STATUSES).optional(),
+});
+
+export type ReconTask = typeof reconTasks.$inferSelect;
+export type InsertReconTask = z.infer<typeof insertReconTaskSchema>;
+export type UpdateReconTask = z.infer<typeof updateReconTaskSchema>;
+
+export const RECON_LINE_KINDS = ["part", "labour"] as const;
+export type ReconLineKind = typeof RECON_LINE_KINDS[number];
+
+// Parts and labour booked on a task. Quantity is hours for labour; the sum of
+// quantity x unit cost over a car's lines is its recon cost.
+export const reconTaskLines = pgTable("recon_task_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  taskId: varchar("task_id").notNull().references(() => reconTasks.id, { onDelete: "cascade" }),
+  kind: varchar("kind").notNull().$type<ReconLineKind>(),
+  description: varchar("description").notNull(),
+  quantity: varchar("quantity").notNull().default("1"),
+  unitCost: varchar("unit_cost").notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_recon_task_lines_task").on(table.taskId),
+]);
+
+export const insertReconTaskLineSchema = createInsertSchema(reconTaskLines).pick({
+  kind: true,
+  description: true,
+  quantity: true,
+  unitCost: true,
+}).extend({
+  kind: z.enum(RECON_LINE_KINDS),
+  description: z.string().trim().min(1).max(200),
+  quantity: z.coerce.number().positive().default(1).transform(val => val.toString()),
+  unitCost: z.coerce.number().min(0).transform(val => val.toString()),
+});
+
+export type ReconTaskLine = typeof reconTaskLines.$inferSelect;
+export type InsertReconTaskLine = z.infer<typeof insertReconTaskLineSchema>;
+
+export type ReconTaskWithLines = ReconTask & {
+  lines: ReconTaskLine[];
+  total: number;
+  assigneeName: string | null;
+  car: Pick<Car, "id" | "make" | "model" | "registrationNumber" | "status">;
+};
+
+export const LEAD_SOURCES = ["phone", "walk_in", "web_form", "listing_site", "other"] as const;
+export type LeadSource = typeof LEAD_SOURCES[number];
+
+// won is reached by converting the lead; lost needs a reason
+export const LEAD_STAGES = ["new", "contacted", "test_drive", "offer", "won", "lost"] as const;
+export type LeadStage = typeof LEAD_STAGES[number];
+
+// Prospects ahead of the customer register. Converting a lead creates (or
+// links) the customer and optionally a draft contract, and marks it won.
+export const leads = pgTable("leads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  email: varchar("email"),
+  phone: varchar("phone"),
+  source: varchar("source").notNull().$type<LeadSource>(),
+  sourceDetail: varchar("source_detail"), // e.g. which listing site or campaign
+  stage: varchar("stage").notNull().default("new").$type<LeadStage>(),
+  lostReason: text("lost_reason"),
+  notes: text("notes"),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "set null" }),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "set null" }),
+  stageChangedAt: timestamp("stage_changed_at").defaultNow(),
+  convertedAt: timestamp("converted_at"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_leads_company_stage").on(table.companyId, table.stage),
+  index("idx_leads_owner").on(table.ownerId),
+]);
+
+// The cars a lead has asked about
+export const leadCars = pgTable("lead_cars", {
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  carId: varchar("car_id").notNull().references(() => cars.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_lead_cars_lead_car").on(table.leadId, table.carId),
+  index("idx_lead_cars_car").on(table.carId),
+]);
+
+export const insertLeadSchema = createInsertSchema(leads).pick({
+  name: true,
+  email: true,
+  phone: true,
+  source: true,
+  sourceDetail: true,
+  notes: true,
+  ownerId: true,
+}).extend({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().email().nullable().optional(),
+  phone: z.string().trim().max(50).nullable().optional(),
+  source: z.enum(LEAD_SOURCES),
+  sourceDetail: z.string().trim().max(200).nullable().optional(),
+  notes: z.string().trim().max(5000).nullable().optional(),
+  ownerId: z.string().nullable().optional(),
+  carIds: z.array(z.string()).max(20).default([]),
+});
+
+export const updateLeadSchema = insertLeadSchema.partial().extend({
+  carIds: z.array(z.string()).max(20).optional(),
+  stage: z.enum(LEAD_STAGES).optional(),
+  lostReason: z.string().trim().max(500).nullable().optional(),
+});
+
+export const leadConversionSchema = z.object({
+  customerId: z.string().optional(), // an existing customer instead of a new one
+  type: z.enum(["PRIVAT", "BEDRIFT"]).default("PRIVAT"),
+  address: z.string().trim().max(500).nullable().optional(),
+  contract: z.object({
+    carId: z.string(),
+    salePrice: z.coerce.number().positive().transform(val => val.toString()),
+  }).optional(),
+});
+
+export type Lead = typeof leads.$inferSelect;
+export type InsertLead = z.infer<typeof insertLeadSchema>;
+export type UpdateLead = z.infer<typeof updateLeadSchema>;
+export type LeadConversion = z.infer<typeof leadConversionSchema>;
+
+export type LeadWithCars = Lead & {
+  cars: Array<Pick<Car, "id" | "make" | "model" | "year" | "registrationNumber" | "salePrice" | "status">>;
+  ownerName: string | null;
+};
+
+// Leads created in a period, grouped by source or owner
+export interface LeadConversionRow {
+  key: string | null; // source, or owner ID (null for unassigned)
+  label: string | null; // owner name
+  total: number;
+  won: number;
+  lost: number;
+}
+
+export interface LeadConversionStats {
+  bySource: LeadConversionRow[];
+  byOwner: LeadConversionRow[];
+}
+
+
+
+// How a follow-up is carried out
+export const FOLLOWUP_TYPES = ["call", "email", "sms", "meeting", "other"] as const;
+export type FollowupType = typeof FOLLOWUP_TYPES[number];
+
+export const FOLLOWUP_STATUSES = ["OPEN", "DONE", "SKIPPED"] as const;
+export type FollowupStatus = typeof FOLLOWUP_STATUSES[number];
+
+// Closing a recurring follow-up schedules the next one this far after its due time
+export const FOLLOWUP_RECURRENCE_UNITS = ["days", "weeks", "months", "years"] as const;
+export type FollowupRecurrenceUnit = typeof FOLLOWUP_RECURRENCE_UNITS[number];
 
 // Follow-ups table for customer follow-ups and reminders
 export const followups = pgTable("followups", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
   customerId: varchar("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
-  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  dueDate: varchar("due_date").notNull(), // Using varchar for date to match existing pattern
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // assignee
+  type: varchar("type").notNull().default("call").$type<FollowupType>(),
+  dueAt: timestamp("due_at", { withTimezone: true }).notNull(),
   note: text("note"),
-  status: varchar("status").notNull().default("OPEN").$type<'OPEN' | 'DONE' | 'SKIPPED'>(),
+  status: varchar("status").notNull().default("OPEN").$type<FollowupStatus>(),
+  recurrenceUnit: varchar("recurrence_unit").$type<FollowupRecurrenceUnit>(),
+  recurrenceInterval: integer("recurrence_interval"),
+  previousId: varchar("previous_id"), // the occurrence this one was scheduled from
+  playbookId: varchar("playbook_id").references(() => followupPlaybooks.id, { onDelete: "set null" }),
+  reminderSentAt: timestamp("reminder_sent_at", { withTimezone: true }),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  completedBy: varchar("completed_by").references(() => users.id, { onDelete: "set null" }),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
-});
+}, (table) => [
+  index("idx_followups_company_due").on(table.companyId, table.status, table.dueAt),
+  index("idx_followups_assignee").on(table.userId, table.status),
+]);
 
 // Insert and Select Types for Follow-ups
-export const insertFollowupSchema = createInsertSchema(followups).omit({ 
-  id: true, 
-  createdAt: true 
+export const insertFollowupSchema = createInsertSchema(followups).pick({
+  customerId: true,
+  userId: true,
+  type: true,
+  dueAt: true,
+  note: true,
+  recurrenceUnit: true,
+  recurrenceInterval: true,
+}).extend({
+  userId: z.string().optional(), // defaults to the creator
+  type: z.enum(FOLLOWUP_TYPES).default("call"),
+  dueAt: z.coerce.date(),
+  note: z.string().trim().max(5000).nullable().optional(),
+  recurrenceUnit: z.enum(FOLLOWUP_RECURRENCE_UNITS).nullable().optional(),
+  recurrenceInterval: z.number().int().min(1).max(120).nullable().optional(),
 });
+
+export const updateFollowupSchema = insertFollowupSchema.omit({ customerId: true }).partial().extend({
+  status: z.enum(FOLLOWUP_STATUSES).optional(),
+});
+
 export type InsertFollowup = z.infer<typeof insertFollowupSchema>;
+export type UpdateFollowup = z.infer<typeof updateFollowupSchema>;
 export type Followup = typeof followups.$inferSelect;
 
+export type FollowupWithNames = Followup & {
+  customerName: string;
+  assigneeName: string | null;
+};
+
+// Events that start a post-sale playbook
+export const PLAYBOOK_TRIGGERS = ["contract_signed", "car_delivered", "eu_control_due"] as const;
+export type PlaybookTrigger = typeof PLAYBOOK_TRIGGERS[number];
+
+// One follow-up a playbook creates. Days count from the sale date, the
+// delivery, or the EU control deadline (negative means before it)
+export interface PlaybookStep {
+  offsetDays: number;
+  time: string; // HH:MM
+  type: FollowupType;
+  note: string; // Handlebars template, see shared/followup-playbooks.ts
+  assigneeId: string | null; // null assigns the seller on the contract
+}
+
+export const followupPlaybooks = pgTable("followup_playbooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  trigger: varchar("trigger").notNull().$type<PlaybookTrigger>(),
+  active: boolean("active").notNull().default(true),
+  steps: jsonb("steps").$type<PlaybookStep[]>().notNull().default([]),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_followup_playbooks_company_trigger").on(table.companyId, table.trigger),
+]);
+
+// One row per playbook and event, so an event never runs a playbook twice
+export const followupPlaybookRuns = pgTable("followup_playbook_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  playbookId: varchar("playbook_id").notNull().references(() => followupPlaybooks.id, { onDelete: "cascade" }),
+  eventKey: varchar("event_key").notNull(), // contract ID, or car ID and EU control date
+  contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "set null" }),
+  followupsCreated: integer("followups_created").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_followup_playbook_runs_event").on(table.playbookId, table.eventKey),
+]);
+
+const playbookStepSchema = z.object({
+  offsetDays: z.number().int().min(-365).max(3650),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).default("09:00"),
+  type: z.enum(FOLLOWUP_TYPES),
+  note: z.string().trim().min(1).max(2000),
+  assigneeId: z.string().nullable().default(null),
+});
+
+export const insertFollowupPlaybookSchema = createInsertSchema(followupPlaybooks).pick({
+  name: true,
+  trigger: true,
+  active: true,
+  steps: true,
+}).extend({
+  name: z.string().trim().min(1).max(200),
+  trigger: z.enum(PLAYBOOK_TRIGGERS),
+  active: z.boolean().default(true),
+  steps: z.array(playbookStepSchema).min(1).max(20),
+});
+
+export type FollowupPlaybook = typeof followupPlaybooks.$inferSelect;
+export type InsertFollowupPlaybook = z.infer<typeof insertFollowupPlaybookSchema>;
+export type FollowupPlaybookRun = typeof followupPlaybookRuns.$inferSelect;
+
+export const MESSAGE_CHANNELS = ["email", "sms"] as const;
+export type MessageChannel = typeof MESSAGE_CHANNELS[number];
+
+export const MESSAGE_DIRECTIONS = ["outbound", "inbound"] as const;
+export type MessageDirection = typeof MESSAGE_DIRECTIONS[number];
+
+export const MESSAGE_STATUSES = ["sent", "failed", "received"] as const;
+export type MessageStatus = typeof MESSAGE_STATUSES[number];
+
+// Reusable message texts with merge fields, see shared/merge-fields.ts
+export const messageTemplates = pgTable("message_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  channel: varchar("channel").notNull().$type<MessageChannel>(),
+  subject: varchar("subject"), // email only
+  body: text("body").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_message_templates_company").on(table.companyId, table.channel),
+]);
+
+// Every email and SMS sent to or received from a customer. Failed sends are
+// kept too, so the log shows what the customer did not get.
+export const customerMessages = pgTable("customer_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  channel: varchar("channel").notNull().$type<MessageChannel>(),
+  direction: varchar("direction").notNull().$type<MessageDirection>(),
+  status: varchar("status").notNull().$type<MessageStatus>(),
+  fromAddress: varchar("from_address"),
+  toAddress: varchar("to_address"),
+  subject: varchar("subject"),
+  body: text("body").notNull(),
+  carId: varchar("car_id").references(() => cars.id, { onDelete: "set null" }),
+  contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "set null" }),
+  templateId: varchar("template_id").references(() => messageTemplates.id, { onDelete: "set null" }),
+  provider: varchar("provider"), // "sendgrid", an SMS provider name, or null when logged by hand
+  providerMessageId: varchar("provider_message_id"),
+  error: text("error"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }), // sender, or who logged an inbound message
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("idx_customer_messages_customer").on(table.customerId, table.createdAt),
+  // Provider redeliveries of an inbound message are stored once
+  uniqueIndex("idx_customer_messages_provider").on(table.provider, table.providerMessageId),
+]);
+
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates).pick({
+  name: true,
+  channel: true,
+  subject: true,
+  body: true,
+}).extend({
+  name: z.string().trim().min(1).max(200),
+  channel: z.enum(MESSAGE_CHANNELS),
+  subject: z.string().trim().max(200).nullable().optional(),
+  body: z.string().trim().min(1).max(5000),
+});
+
+export const sendCustomerMessageSchema = z.object({
+  channel: z.enum(MESSAGE_CHANNELS),
+  subject: z.string().trim().max(200).nullable().optional(),
+  body: z.string().trim().min(1).max(5000),
+  carId: z.string().nullable().optional(),
+  contractId: z.string().nullable().optional(),
+  templateId: z.string().nullable().optional(),
+}).refine(message => message.channel !== "email" || !!message.subject, {
+  message: "Subject is required for email",
+  path: ["subject"],
+});
+
+// A message the customer sent outside the SMS webhook, e.g. an email reply
+export const logInboundMessageSchema = z.object({
+  channel: z.enum(MESSAGE_CHANNELS),
+  subject: z.string().trim().max(200).nullable().optional(),
+  body: z.string().trim().min(1).max(10000),
+  receivedAt: z.coerce.date().optional(),
+});
+
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type CustomerMessage = typeof customerMessages.$inferSelect;
+export type InsertCustomerMessage = typeof customerMessages.$inferInsert;
+export type SendCustomerMessage = z.infer<typeof sendCustomerMessageSchema>;
+export type LogInboundMessage = z.infer<typeof logInboundMessageSchema>;
+export type CustomerMessageWithSender = CustomerMessage & { createdByName: string | null };
+
 // Authentication tables
 export const refreshTokens = pgTable('refresh_tokens', {
   id: varchar('id').primaryKey().default(sql`gen_random_uuid()`),
@@ -63,6 +63,21 @@ create table if not exists public.sales_events (
   days_on_market int
 );
 
+-- Annonsens livsløp på tvers av snapshots (grunnlag for liggetid)
+create table if not exists public.listing_lifecycle (
+  ad_id text primary key,
+  source text not null default 'finn',
+  model_key text,
+  region text,
+  status text not null,
+  first_seen_at timestamptz not null,
+  last_seen_at timestamptz not null,
+  first_price int,
+  last_price int,
+  closed_at timestamptz,
+  days_on_market int
+);
+
 -- Feature store (modellinput) – 1 rad pr. aktiv annonse (seneste snapshot)
 create table if not exists public.price_features_current (
   ad_id text primary key,
@@ -103,6 +118,7 @@ ALTER TABLE public.price_predictions ADD COLUMN IF NOT EXISTS car_id uuid REFERE
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_listings_raw_ad_id ON public.listings_raw(ad_id);
 CREATE INDEX IF NOT EXISTS idx_listings_raw_captured_at ON public.listings_raw(captured_at DESC);
+CREATE INDEX IF NOT EXISTS idx_listing_lifecycle_model_region ON public.listing_lifecycle(model_key, region, status);
 CREATE INDEX IF NOT EXISTS idx_vehicles_enriched_ad_id ON public.vehicles_enriched(ad_id);
 CREATE INDEX IF NOT EXISTS idx_price_features_current_ad_id ON public.price_features_current(ad_id);
 CREATE INDEX IF NOT EXISTS idx_price_predictions_ad_id ON public.price_predictions(ad_id);
@@ -113,6 +129,7 @@ ALTER TABLE public.listings_raw ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.vehicles_enriched ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.market_features_daily ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.sales_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.listing_lifecycle ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.price_features_current ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.price_predictions ENABLE ROW LEVEL SECURITY;
 
@@ -129,6 +146,9 @@ CREATE POLICY "read_all_market" ON public.market_features_daily
 CREATE POLICY "read_all_sales" ON public.sales_events
   FOR SELECT USING (true);
   
+CREATE POLICY "read_all_lifecycle" ON public.listing_lifecycle
+  FOR SELECT USING (true);
+  
 CREATE POLICY "read_all_features" ON public.price_features_current
   FOR SELECT USING (true);
   
@@ -0,0 +1,61 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Permission } from "@shared/roles";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("assistant tools", () => {
+  let app: TestApp;
+  let seller: TestUser;
+  let tools: typeof import("../server/assistantTools");
+
+  function hints(permissions: Permission[]) {
+    return {
+      userId: seller.id,
+      access: { role: "SELGER" as const, customRoleId: "role-1", customRoleName: "Test", permissions },
+    };
+  }
+
+  async function customerNames(): Promise<string[]> {
+    return (await app.storage.getCustomers(seller.id)).map(customer => customer.name);
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    tools = await import("../server/assistantTools");
+    seller = await app.createUserWithCompany("seller", "Bilhuset B");
+    await app.storage.createCar({ registrationNumber: "EL12345", make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150" }, seller.id);
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  const command = "Opprett kontrakt med Ola Nordmann, telefon 900 00 000, på bil EL12345";
+
+  it("does not prepare contracts without contracts.create", async () => {
+    const result = await tools.parseContractCreationCommand(command, hints(["customers.manage"]));
+    assert.match(String(result.error), /ikke tilgang/);
+    assert.deepEqual(await customerNames(), []);
+  });
+
+  it("does not create the customer without customers.manage", async () => {
+    const result = await tools.parseContractCreationCommand(command, hints(["contracts.create"]));
+    assert.match(String(result.error), /ikke tilgang til å opprette kunder/);
+    assert.deepEqual(await customerNames(), []);
+  });
+
+  it("creates the customer and prefills the contract with both", async () => {
+    const result = await tools.parseContractCreationCommand(command, hints(["contracts.create", "customers.manage"]));
+    assert.equal(result.success, true);
+    assert.deepEqual(await customerNames(), ["Ola Nordmann"]);
+  });
+
+  it("refuses follow-ups without customers.manage", async () => {
+    const [customer] = await app.storage.getCustomers(seller.id);
+    await assert.rejects(
+      tools.createFollowup(customer.id, "2026-03-10T09:00:00.000Z", "Ring", hints(["contracts.create"])),
+      /Insufficient permissions/,
+    );
+    assert.deepEqual(await app.storage.getFollowups(seller.id), []);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Car, Contract, Customer } from "@shared/schema";
+import { CONTRACT_TITLES } from "@shared/contract-render";
+import {
+  generateContractHTML,
+  generateContractPDF,
+  htmlToPdfBlocks,
+  type ContractPdfCompany,
+  type PdfBlock,
+} from "../server/pdf-generator";
+import { assertGolden } from "./helpers/golden";
+
+const company: ContractPdfCompany = {
+  name: "Fjord Bil AS",
+  organizationNumber: "912 345 678",
+  address: "Sjøgata 1, 0150 Oslo",
+  phone: "22 33 44 55",
+  email: "post@fjordbil.no",
+};
+
+const car = {
+  id: "car-1",
+  registrationNumber: "EL12345",
+  make: "Volkswagen",
+  model: "ID.4",
+  year: 2021,
+  mileage: 45200,
+  vin: "WVGZZZE2ZMP012345",
+  salePrice: "289900",
+} as Car;
+
+const privateBuyer = {
+  id: "customer-1",
+  name: "Kari Nordmann",
+  address: "Bakkeveien 7, 1384 Asker",
+  phone: "912 34 567",
+  email: "kari@example.no",
+} as Customer;
+
+const businessBuyer = {
+  id: "customer-2",
+  name: "Hansen Transport AS",
+  organizationNumber: "987 654 321",
+  address: "Industriveien 3, 2000 Lillestrøm",
+  phone: "63 80 00 00",
+  email: "innkjop@hansentransport.no",
+} as Customer;
+
+function contract(overrides: Partial<Contract>): Contract {
+  return {
+    id: "contract-1",
+    companyId: "company-1",
+    contractNumber: "K-2026-00042",
+    carId: car.id,
+    customerId: privateBuyer.id,
+    salePrice: "289900",
+    saleDate: new Date("2026-03-02T09:00:00Z"),
+    createdAt: new Date("2026-03-02T09:00:00Z"),
+    contractTemplate: "privatsalg",
+    addOns: [],
+    notes: null,
+    ...overrides,
+  } as Contract;
+}
+
+// One sample contract per built-in contract type
+const SAMPLES: Record<string, { contract: Contract; customer: Customer }> = {
+  privatsalg: {
+    contract: contract({
+      addOns: [
+        { id: "a1", description: "Vinterhjul", cost: "6000", price: "9900", quantity: 1 },
+        { id: "a2", description: "Rustbehandling", cost: "1000", price: "2500", quantity: 2 },
+      ],
+      notes: "Bilen leveres med nyservice.",
+    }),
+    customer: privateBuyer,
+  },
+  innbytte: {
+    contract: contract({
+      contractTemplate: "innbytte",
+      tradeInRegistration: "AB12345",
+      tradeInValuation: "80000",
+      tradeInOwedToCustomer: "75000",
+    }),
+    customer: privateBuyer,
+  },
+  kommisjon: {
+    contract: contract({ contractTemplate: "kommisjon" }),
+    customer: privateBuyer,
+  },
+  mva_pliktig: {
+    contract: contract({
+      contractTemplate: "mva_pliktig",
+      customerId: businessBuyer.id,
+      addOns: [{ id: "a1", description: "Hengerfeste", cost: "8000", price: "12500", quantity: 1 }],
+    }),
+    customer: businessBuyer,
+  },
+};
+
+function formatBlocks(blocks: PdfBlock[]): string {
+  return blocks.map(block => {
+    switch (block.kind) {
+      case "title":
+        return `= ${block.text}`;
+      case "heading":
+        return `== ${block.text}`;
+      case "paragraph":
+        return block.lines.join("\n");
+      case "rule":
+        return "---";
+    }
+  }).join("\n\n") + "\n";
+}
+
+describe("contract PDF from the shared template", () => {
+  for (const [type, sample] of Object.entries(SAMPLES)) {
+    it(`renders the ${type} template`, async () => {
+      const html = generateContractHTML(sample.contract, car, sample.customer, company);
+      const blocks = htmlToPdfBlocks(html);
+      assertGolden(`contract-templates/${type}.html`, html);
+      assertGolden(`contract-templates/${type}.txt`, formatBlocks(blocks));
+      assert.deepEqual(blocks[0], { kind: "title", text: CONTRACT_TITLES[type] });
+
+      const pdf = await generateContractPDF(sample.contract, car, sample.customer, company);
+      assert.equal(pdf.content.subarray(0, 5).toString(), "%PDF-");
+      const again = await generateContractPDF(sample.contract, car, sample.customer, company);
+      assert.ok(pdf.content.equals(again.content), "PDF output is not deterministic");
+    });
+  }
+
+  it("prints a dealer template and changes the checksum with it", async () => {
+    const { contract: sale, customer } = SAMPLES.privatsalg;
+    const template = "<h1>{{contractTitle}}</h1><h2>Pris</h2><p>Totalt: kr {{totalPrice}}<br>Kjøper: {{buyerName}}</p>";
+    assert.deepEqual(htmlToPdfBlocks(generateContractHTML(sale, car, customer, company, template)), [
+      { kind: "title", text: CONTRACT_TITLES.privatsalg },
+      { kind: "heading", text: "Pris" },
+      { kind: "paragraph", lines: ["Totalt: kr 304 800", "Kjøper: Kari Nordmann"] },
+    ]);
+
+    const builtIn = await generateContractPDF(sale, car, customer, company);
+    const custom = await generateContractPDF(sale, car, customer, company, template);
+    assert.notEqual(custom.checksum, builtIn.checksum);
+  });
+});
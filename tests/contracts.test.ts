@@ -0,0 +1,84 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("contracts and the cars they sell", () => {
+  let app: TestApp;
+  let seller: TestUser;
+  let firstBuyer: string;
+  let secondBuyer: string;
+
+  async function createCar(registrationNumber: string): Promise<string> {
+    const car = await app.storage.createCar({ registrationNumber, make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150", salePrice: "250000" }, seller.id);
+    return car.id;
+  }
+
+  function createContract(carId: string, customerId: string, salePrice = "250000") {
+    return app.request(seller, "POST", "/api/contracts", { carId, customerId, salePrice, saleDate: "2026-03-02T09:00:00.000Z" });
+  }
+
+  async function car(id: string) {
+    return (await app.storage.getCarById(id, seller.id))!;
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    seller = await app.createUserWithCompany("seller", "Bilhuset B");
+    firstBuyer = (await app.request(seller, "POST", "/api/customers", { name: "Kari Nordmann", phone: "91234567" })).body.id;
+    secondBuyer = (await app.request(seller, "POST", "/api/customers", { name: "Ola Nordmann", phone: "97654321" })).body.id;
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("does not sell the same car twice", async () => {
+    const carId = await createCar("EL11111");
+    const first = await createContract(carId, firstBuyer);
+    assert.equal(first.status, 201, JSON.stringify(first.body));
+
+    const second = await createContract(carId, secondBuyer);
+    assert.equal(second.status, 409, JSON.stringify(second.body));
+    assert.equal((await car(carId)).soldToCustomerId, firstBuyer);
+  });
+
+  it("sells the car again once its contract is cancelled", async () => {
+    const carId = await createCar("EL22222");
+    const first = await createContract(carId, firstBuyer);
+    const cancelled = await app.request(seller, "POST", `/api/contracts/${first.body.id}/transitions`, { to: "cancelled" });
+    assert.equal(cancelled.status, 200, JSON.stringify(cancelled.body));
+
+    const second = await createContract(carId, secondBuyer);
+    assert.equal(second.status, 201, JSON.stringify(second.body));
+    assert.equal((await car(carId)).soldToCustomerId, secondBuyer);
+  });
+
+  it("moves the sale when a draft changes car, buyer or price", async () => {
+    const oldCarId = await createCar("EL33333");
+    const newCarId = await createCar("EL44444");
+    const contract = await createContract(oldCarId, firstBuyer);
+
+    const updated = await app.request(seller, "PUT", `/api/contracts/${contract.body.id}`, { carId: newCarId, customerId: secondBuyer, salePrice: "260000" });
+    assert.equal(updated.status, 200, JSON.stringify(updated.body));
+
+    const oldCar = await car(oldCarId);
+    assert.equal(oldCar.status, "available");
+    assert.equal(oldCar.soldToCustomerId, null);
+    const newCar = await car(newCarId);
+    assert.equal(newCar.status, "sold");
+    assert.equal(newCar.soldToCustomerId, secondBuyer);
+    assert.equal(Number(newCar.soldPrice), 260000);
+  });
+
+  it("does not move a draft onto a car another contract holds", async () => {
+    const takenCarId = await createCar("EL55555");
+    const carId = await createCar("EL66666");
+    await createContract(takenCarId, firstBuyer);
+    const contract = await createContract(carId, secondBuyer);
+
+    const updated = await app.request(seller, "PUT", `/api/contracts/${contract.body.id}`, { carId: takenCarId });
+    assert.equal(updated.status, 409, JSON.stringify(updated.body));
+    assert.equal((await car(carId)).soldToCustomerId, secondBuyer);
+    assert.equal((await car(takenCarId)).soldToCustomerId, firstBuyer);
+  });
+});
@@ -0,0 +1,53 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("customer privacy requests", () => {
+  let app: TestApp;
+  let seller: TestUser;
+  let leadId: string;
+  let customerId: string;
+
+  before(async () => {
+    app = await startTestApp();
+    seller = await app.createUserWithCompany("seller", "Bilhuset B");
+    const lead = await app.request(seller, "POST", "/api/leads", {
+      name: "Kari Nordmann",
+      email: "kari@example.no",
+      phone: "91234567",
+      source: "phone",
+      notes: "Bor på Lillehammer, vil ha hengerfeste",
+    });
+    assert.equal(lead.status, 201, JSON.stringify(lead.body));
+    const converted = await app.request(seller, "POST", `/api/leads/${lead.body.id}/convert`, {});
+    assert.equal(converted.status, 200, JSON.stringify(converted.body));
+    leadId = lead.body.id;
+    customerId = converted.body.customer.id;
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("exports the leads converted into the customer", async () => {
+    const response = await app.request(seller, "POST", `/api/customers/${customerId}/privacy/export`, {});
+    assert.equal(response.status, 200, JSON.stringify(response.body));
+    assert.equal(response.body.leads.length, 1);
+    assert.equal(response.body.leads[0].email, "kari@example.no");
+    assert.equal(response.body.leads[0].notes, "Bor på Lillehammer, vil ha hengerfeste");
+  });
+
+  it("clears the contact details of those leads on erasure", async () => {
+    const response = await app.request(seller, "POST", `/api/customers/${customerId}/privacy/erase`, {});
+    assert.equal(response.status, 200, JSON.stringify(response.body));
+    assert.equal(response.body.details.leadsPseudonymized, 1);
+
+    const lead = await app.request(seller, "GET", `/api/leads/${leadId}`);
+    assert.equal(lead.status, 200, JSON.stringify(lead.body));
+    assert.equal(lead.body.name, "Slettet kunde");
+    assert.equal(lead.body.email, null);
+    assert.equal(lead.body.phone, null);
+    assert.equal(lead.body.notes, null);
+    assert.equal(lead.body.stage, "won");
+  });
+});
@@ -0,0 +1,47 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("today's follow-ups", () => {
+  let app: TestApp;
+  let seller: TestUser;
+  let customerId: string;
+
+  async function createFollowup(dueAt: string): Promise<string> {
+    const response = await app.request(seller, "POST", "/api/followups", { customerId, dueAt, type: "call" });
+    assert.equal(response.status, 201, JSON.stringify(response.body));
+    return response.body.id;
+  }
+
+  async function dueToday(now: string): Promise<string[]> {
+    return (await app.storage.getTodayFollowups(seller.id, new Date(now))).map(followup => followup.id);
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    seller = await app.createUserWithCompany("seller", "Bilhuset B");
+    const customer = await app.request(seller, "POST", "/api/customers", { name: "Kari Nordmann", phone: "91234567" });
+    customerId = customer.body.id;
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  // The day ends at midnight in Norway, not at midnight where the server runs
+  it("ends the day at midnight Norwegian summer time", async () => {
+    const lateEvening = await createFollowup("2026-06-15T21:45:00.000Z"); // 23:45 in Oslo
+    const tomorrow = await createFollowup("2026-06-15T22:15:00.000Z"); // 00:15 the next day
+    const ids = await dueToday("2026-06-15T21:00:00.000Z");
+    assert.ok(ids.includes(lateEvening));
+    assert.ok(!ids.includes(tomorrow));
+  });
+
+  it("ends the day at midnight Norwegian winter time", async () => {
+    const lateEvening = await createFollowup("2026-12-15T22:45:00.000Z"); // 23:45 in Oslo
+    const tomorrow = await createFollowup("2026-12-15T23:15:00.000Z"); // 00:15 the next day
+    const ids = await dueToday("2026-12-15T22:30:00.000Z");
+    assert.ok(ids.includes(lateEvening));
+    assert.ok(!ids.includes(tomorrow));
+  });
+});
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures");
+
+/**
+ * Compare against a committed file under tests/fixtures. Run with
+ * UPDATE_GOLDEN=1 to write the current output instead, then review the diff.
+ */
+export function assertGolden(relativePath: string, actual: string): void {
+  const path = join(FIXTURES_DIR, relativePath);
+  if (process.env.UPDATE_GOLDEN === "1" || !existsSync(path)) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, actual);
+    if (process.env.UPDATE_GOLDEN !== "1") {
+      assert.fail(`Golden file ${relativePath} was missing and has been written; review and commit it`);
+    }
+    return;
+  }
+  assert.equal(actual, readFileSync(path, "utf8"), `Output differs from ${relativePath} (UPDATE_GOLDEN=1 to accept)`);
+}
+
+export function fixturePath(relativePath: string): string {
+  return join(FIXTURES_DIR, relativePath);
+}
+
+export function readFixture(relativePath: string): string {
+  return readFileSync(fixturePath(relativePath), "utf8");
+}
@@ -0,0 +1,116 @@
+import { mkdtempSync } from "node:fs";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+
+// The server modules read these at import time, so they are set before any of
+// them load: development auth, an in-memory database, the fake signing provider
+// and a throwaway document folder
+process.env.NODE_ENV = "development";
+process.env.DATABASE_URL = "pglite://memory";
+process.env.REPLIT_DOMAINS ??= "localhost";
+process.env.SIGNING_PROVIDER = "fake";
+process.env.FAKE_SIGNING_WEBHOOK_SECRET = "test-fake-signing-secret";
+process.env.DOCUMENT_STORAGE_DIR = mkdtempSync(path.join(tmpdir(), "contract-documents-"));
+
+export interface TestUser {
+  id: string;
+  email: string;
+}
+
+export interface TestApp {
+  baseUrl: string;
+  storage: typeof import("../../server/storage").storage;
+  /** A signed-in user with their own company */
+  createUserWithCompany(id: string, companyName: string): Promise<TestUser & { companyId: string }>;
+  /** A signed-in user with the given role in an existing company */
+  addUserToCompany(id: string, companyId: string, role: string): Promise<TestUser>;
+  /** Call the API as the given user */
+  request(user: TestUser | null, method: string, path: string, body?: unknown): Promise<{ status: number; body: any }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Boot the API routes on a random port against a fresh in-memory database.
+ * Requests name their user, which stands in for the session and the token
+ * claims the auth middleware would normally set.
+ */
+export async function startTestApp(): Promise<TestApp> {
+  const { db } = await import("../../server/db");
+  const schema = await import("@shared/schema");
+  // drizzle-kit's ESM build cannot load its own dependencies
+  const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api");
+  const { apply } = await pushSchema(schema, db);
+  await apply();
+
+  const { storage } = await import("../../server/storage");
+  const { registerRoutes } = await import("../../server/routes");
+
+  const users = new Map<string, TestUser>();
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  }));
+  app.use((req: any, _res, next) => {
+    const user = users.get(req.header("x-test-user") ?? "");
+    if (user) {
+      req.session = { user };
+      req.user = { claims: { sub: user.id } };
+    }
+    next();
+  });
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // The fake signing provider posts its webhooks back to this server
+  process.env.BASE_URL = baseUrl;
+
+  return {
+    baseUrl,
+    storage,
+
+    async createUserWithCompany(id, companyName) {
+      const user = await storage.upsertUser({ id, email: `${id}@example.no`, firstName: id, lastName: null, profileImageUrl: null });
+      const company = await storage.createNewCompany(companyName, user.id);
+      users.set(user.id, { id: user.id, email: user.email! });
+      return { id: user.id, email: user.email!, companyId: company.id };
+    },
+
+    async addUserToCompany(id, companyId, role) {
+      const user = await storage.upsertUser({ id, email: `${id}@example.no`, firstName: id, lastName: null, profileImageUrl: null });
+      await storage.addUserToCompany(user.id, companyId, role);
+      await storage.switchActiveCompany(user.id, companyId);
+      users.set(user.id, { id: user.id, email: user.email! });
+      return { id: user.id, email: user.email! };
+    },
+
+    async request(user, method, path, body) {
+      const response = await fetch(baseUrl + path, {
+        method,
+        headers: {
+          ...(user ? { "x-test-user": user.id } : {}),
+          ...(body === undefined ? {} : { "content-type": "application/json" }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      let parsed: any = text;
+      try {
+        parsed = text ? JSON.parse(text) : null;
+      } catch {
+        // Not JSON (HTML, PDF)
+      }
+      return { status: response.status, body: parsed };
+    },
+
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    },
+  };
+}
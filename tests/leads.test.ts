@@ -0,0 +1,85 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Permission } from "@shared/roles";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("converting a lead with a contract", () => {
+  let app: TestApp;
+  let owner: TestUser;
+  let junior: TestUser;
+
+  async function createCar(registrationNumber: string): Promise<string> {
+    const car = await app.storage.createCar({ registrationNumber, make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150", salePrice: "250000" }, owner.id);
+    return car.id;
+  }
+
+  async function createLead(name: string): Promise<string> {
+    const response = await app.request(owner, "POST", "/api/leads", { name, phone: "91234567", source: "phone" });
+    assert.equal(response.status, 201, JSON.stringify(response.body));
+    return response.body.id;
+  }
+
+  async function lead(id: string) {
+    return (await app.request(owner, "GET", `/api/leads/${id}`)).body;
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    owner = await app.createUserWithCompany("owner", "Bilhuset B");
+    junior = await app.addUserToCompany("junior", owner.companyId, "SELGER");
+
+    // Sales without the right to approve a discount
+    const permissions: Permission[] = ["customers.manage", "contracts.create", "contracts.update"];
+    const role = await app.request(owner, "POST", "/api/company-roles", { name: "Lærling", permissions });
+    assert.equal(role.status, 201, JSON.stringify(role.body));
+    const assigned = await app.request(owner, "PUT", `/api/team/members/${junior.id}/role`, { role: "SELGER", customRoleId: role.body.id });
+    assert.equal(assigned.status, 200, JSON.stringify(assigned.body));
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("wins the lead with a new customer and a draft contract that sells the car", async () => {
+    const carId = await createCar("EL11111");
+    const leadId = await createLead("Kari Nordmann");
+
+    const converted = await app.request(owner, "POST", `/api/leads/${leadId}/convert`, { contract: { carId, salePrice: 245000 } });
+    assert.equal(converted.status, 200, JSON.stringify(converted.body));
+    assert.equal(converted.body.customer.name, "Kari Nordmann");
+    assert.equal(converted.body.contract.status, "draft");
+    assert.equal(converted.body.contract.customerId, converted.body.customer.id);
+
+    const won = await lead(leadId);
+    assert.equal(won.stage, "won");
+    assert.equal(won.contractId, converted.body.contract.id);
+    const car = (await app.storage.getCarById(carId, owner.id))!;
+    assert.equal(car.status, "sold");
+    assert.equal(car.soldToCustomerId, converted.body.customer.id);
+  });
+
+  it("needs the discount permission to sell below the listed price", async () => {
+    const carId = await createCar("EL22222");
+    const leadId = await createLead("Ola Nordmann");
+
+    const discounted = await app.request(junior, "POST", `/api/leads/${leadId}/convert`, { contract: { carId, salePrice: 240000 } });
+    assert.equal(discounted.status, 403, JSON.stringify(discounted.body));
+    assert.equal((await lead(leadId)).convertedAt, null);
+
+    const listed = await app.request(junior, "POST", `/api/leads/${leadId}/convert`, { contract: { carId, salePrice: 250000 } });
+    assert.equal(listed.status, 200, JSON.stringify(listed.body));
+  });
+
+  it("leaves the lead open when the car is already sold", async () => {
+    const carId = await createCar("EL33333");
+    const first = await app.request(owner, "POST", `/api/leads/${await createLead("Per Hansen")}/convert`, { contract: { carId, salePrice: 250000 } });
+    assert.equal(first.status, 200, JSON.stringify(first.body));
+
+    const leadId = await createLead("Pål Hansen");
+    const second = await app.request(owner, "POST", `/api/leads/${leadId}/convert`, { contract: { carId, salePrice: 250000 } });
+    assert.equal(second.status, 409, JSON.stringify(second.body));
+    const open = await lead(leadId);
+    assert.equal(open.convertedAt, null);
+    assert.equal(open.customerId, null);
+  });
+});
@@ -0,0 +1,108 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { sql } from "drizzle-orm";
+import { startTestApp, type TestApp } from "./helpers/testApp";
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const fixture = (name: string) => path.join(here, "fixtures/market-ingest", name);
+const DAY_1 = new Date("2026-05-01T06:00:00.000Z");
+const DAY_11 = new Date("2026-05-11T06:00:00.000Z");
+
+describe("market snapshot ingest", () => {
+  let app: TestApp;
+  let db: typeof import("../server/db").db;
+  let ingest: typeof import("../server/etl/marketIngest");
+
+  async function rows(query: ReturnType<typeof sql>): Promise<any[]> {
+    return (await db.execute(query)).rows;
+  }
+
+  async function lifecycle(adId: string) {
+    const [row] = await rows(sql`SELECT * FROM listing_lifecycle WHERE ad_id = ${adId}`);
+    return row;
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    db = (await import("../server/db")).db;
+    ingest = await import("../server/etl/marketIngest");
+
+    // The market tables live outside the Drizzle schema; the rest of the file is Supabase policies
+    const schemaSql = readFileSync(path.join(here, "../sql/price_assistant_schema.sql"), "utf-8");
+    const createTables = schemaSql.split(";")
+      .map(statement => statement.replace(/^--.*$/gm, "").trim())
+      .filter(statement => /^create table/i.test(statement));
+    for (const statement of createTables) await db.execute(sql.raw(statement));
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("takes the county from municipality numbers only", () => {
+    assert.equal(ingest.regionOf("NO-0301"), "03");
+    assert.equal(ingest.regionOf("NO-5001"), "50");
+    assert.equal(ingest.regionOf("5003"), "unknown");
+    assert.equal(ingest.regionOf(null), "unknown");
+  });
+
+  it("keeps the last row of an ad repeated in the export", async () => {
+    const result = await ingest.ingestSnapshotFile(fixture("day1.json"), { complete: true });
+    assert.deepEqual(result, { received: 5, duplicates: 1, skipped: 1, stale: 0, listed: 4, closed: 0, enriched: 0, models: 3 });
+
+    const raw = await rows(sql`SELECT price FROM listings_raw WHERE ad_id = 'A2'`);
+    assert.deepEqual(raw.map(row => row.price), [310000]);
+    const a2 = await lifecycle("A2");
+    assert.equal(a2.first_price, 310000);
+    assert.equal(a2.region, "03");
+    assert.equal((await lifecycle("A4")).region, "unknown");
+  });
+
+  it("moves an ad's lifecycle forward and closes ads sold or gone from a complete snapshot", async () => {
+    const result = await ingest.ingestSnapshotFile(fixture("day11.csv"), { capturedAt: DAY_11, complete: true });
+    assert.deepEqual(result, { received: 4, duplicates: 0, skipped: 0, stale: 0, listed: 1, closed: 2, enriched: 0, models: 3 });
+
+    const a1 = await lifecycle("A1");
+    assert.equal(a1.status, "active");
+    assert.equal(new Date(a1.first_seen_at).getTime(), DAY_1.getTime());
+    assert.equal(a1.first_price, 300000);
+    assert.equal(a1.last_price, 295000);
+
+    const sold = await lifecycle("A2");
+    assert.equal(sold.status, "sold");
+    assert.equal(sold.days_on_market, 10);
+    const delisted = await lifecycle("A4");
+    assert.equal(delisted.status, "inactive");
+    assert.equal(new Date(delisted.closed_at).getTime(), DAY_11.getTime());
+    assert.equal(delisted.days_on_market, 10);
+
+    const features = await rows(sql`SELECT ad_id, price, supply_density FROM price_features_current ORDER BY ad_id`);
+    assert.deepEqual(features.map(row => row.ad_id), ["A1", "A3", "A5"]);
+    assert.equal(features[0].price, 295000);
+    assert.equal(features[0].supply_density, 2);
+    const comps = await rows(sql`SELECT ad_id FROM market_comps ORDER BY ad_id`);
+    assert.deepEqual(comps.map(row => row.ad_id), ["A1", "A3", "A5"]);
+  });
+
+  it("rolls up supply, prices and days on market per model and region", async () => {
+    const daily = await rows(sql`
+      SELECT model_key, region, active_supply, median_price, p10_price, p90_price, dom_p50
+      FROM market_features_daily WHERE snapshot_date = '2026-05-11' ORDER BY model_key, region`);
+    assert.deepEqual(daily, [
+      { model_key: "tesla model 3", region: "unknown", active_supply: 0, median_price: null, p10_price: null, p90_price: null, dom_p50: 10 },
+      { model_key: "volvo xc40", region: "03", active_supply: 2, median_price: 312500, p10_price: 298500, p90_price: 326500, dom_p50: 10 },
+      { model_key: "volvo xc40", region: "50", active_supply: 1, median_price: 280000, p10_price: 280000, p90_price: 280000, dom_p50: null },
+    ]);
+  });
+
+  it("only adds history for a snapshot older than what is recorded", async () => {
+    const result = await ingest.ingestSnapshotFile(fixture("day1.json"));
+    assert.equal(result.stale, 4);
+    assert.equal(result.listed, 0);
+    assert.equal((await lifecycle("A1")).last_price, 295000);
+    assert.equal((await lifecycle("A2")).status, "sold");
+  });
+});
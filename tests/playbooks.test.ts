@@ -0,0 +1,74 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+const NOW = new Date("2026-06-01T12:00:00.000Z");
+
+describe("follow-up playbooks", () => {
+  let app: TestApp;
+  let owner: TestUser;
+  let playbookJob: typeof import("../server/services/playbookService");
+  let carId: string;
+  let contractId: string;
+  let signedPlaybookId: string;
+  let euControlPlaybookId: string;
+
+  async function create(path: string, body: unknown): Promise<any> {
+    const response = await app.request(owner, "POST", path, body);
+    assert.ok(response.status < 300, `${path} answered ${response.status}: ${JSON.stringify(response.body)}`);
+    return response.body;
+  }
+
+  async function followupsFrom(playbookId: string) {
+    const response = await app.request(owner, "GET", "/api/followups");
+    return response.body.filter((followup: { playbookId: string | null }) => followup.playbookId === playbookId);
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    playbookJob = await import("../server/services/playbookService");
+    owner = await app.createUserWithCompany("owner", "Bilhuset B");
+
+    signedPlaybookId = (await create("/api/followup-playbooks", {
+      name: "Etter salg",
+      trigger: "contract_signed",
+      steps: [{ offsetDays: 7, type: "call", note: "Ring {{customerName}}" }],
+    })).id;
+    euControlPlaybookId = (await create("/api/followup-playbooks", {
+      name: "EU-kontroll",
+      trigger: "eu_control_due",
+      steps: [{ offsetDays: -30, type: "sms", note: "Minn kunden på EU-kontrollen" }],
+    })).id;
+
+    const car = await app.storage.createCar({ registrationNumber: "EL12345", make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150", salePrice: "250000", nextEuControl: new Date("2026-09-01T00:00:00.000Z") }, owner.id);
+    carId = car.id;
+    const customer = await create("/api/customers", { name: "Kari Nordmann", phone: "91234567" });
+    contractId = (await create("/api/contracts", { carId, customerId: customer.id, salePrice: "250000", saleDate: "2026-05-20T09:00:00.000Z" })).id;
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("creates the signing follow-ups once for the contract", async () => {
+    await create(`/api/contracts/${contractId}/transitions`, { to: "signed" });
+    const created = await followupsFrom(signedPlaybookId);
+    assert.equal(created.length, 1);
+    assert.equal(created[0].note, "Ring Kari Nordmann");
+
+    await create(`/api/contracts/${contractId}/transitions`, { to: "completed" });
+    assert.equal((await followupsFrom(signedPlaybookId)).length, 1);
+  });
+
+  it("runs an EU control playbook once per car and deadline", async () => {
+    assert.deepEqual(await playbookJob.runEuControlPlaybookJob(NOW), { events: 1, followups: 1 });
+    assert.deepEqual(await playbookJob.runEuControlPlaybookJob(NOW), { events: 1, followups: 0 });
+    assert.equal((await followupsFrom(euControlPlaybookId)).length, 1);
+  });
+
+  it("runs the EU control playbook again for the next deadline", async () => {
+    await app.storage.updateCar(carId, { nextEuControl: new Date("2026-11-01T00:00:00.000Z") }, owner.id);
+    assert.deepEqual(await playbookJob.runEuControlPlaybookJob(NOW), { events: 1, followups: 1 });
+    assert.equal((await followupsFrom(euControlPlaybookId)).length, 2);
+  });
+});
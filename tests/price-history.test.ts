@@ -0,0 +1,35 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("car price history", () => {
+  let app: TestApp;
+  let owner: TestUser;
+  let carId: string;
+
+  before(async () => {
+    app = await startTestApp();
+    owner = await app.createUserWithCompany("owner", "Bilhuset B");
+    const car = await app.storage.createCar({ registrationNumber: "EL12345", make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150", salePrice: "250000" }, owner.id);
+    carId = car.id;
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("saves a price change with its reason", async () => {
+    const updated = await app.request(owner, "PUT", `/api/cars/${carId}`, { salePrice: "239000", priceChangeReason: "Kampanje" });
+    assert.equal(updated.status, 200, JSON.stringify(updated.body));
+    assert.equal(Number(updated.body.salePrice), 239000);
+
+    const history = await app.request(owner, "GET", `/api/cars/${carId}/price-history`);
+    assert.equal(history.status, 200, JSON.stringify(history.body));
+    const change = history.body.find((entry: { source: string }) => entry.source === "manual");
+    assert.equal(change.field, "sale_price");
+    assert.equal(Number(change.oldPrice), 250000);
+    assert.equal(Number(change.newPrice), 239000);
+    assert.equal(change.reason, "Kampanje");
+    assert.equal(change.changedBy, owner.id);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { QuantileModel, type QuantileModelInput } from "../server/ml/quantileModel";
+import { fixturePath, readFixture } from "./helpers/golden";
+
+// Exported by server/ml/train_quantiles.py with TRAINING_YEAR=2026 (random_state=42),
+// and the sklearn predictions from server/ml/reference_predictions.py
+const MODEL = "price-model/model_quantiles.json";
+const reference: {
+  year: number;
+  cases: Array<{ input: QuantileModelInput; p10: number; p50: number; p90: number }>;
+} = JSON.parse(readFixture("price-model/reference_predictions.json"));
+
+describe("price quantile model", () => {
+  const model = QuantileModel.fromFile(fixturePath(MODEL));
+  const now = new Date(Date.UTC(reference.year, 5, 1));
+
+  for (const [i, expected] of reference.cases.entries()) {
+    const { year, km, fuel_type } = expected.input;
+    it(`matches sklearn for case ${i + 1} (${year}, ${km} km, ${fuel_type})`, () => {
+      const prediction = model.predict(expected.input, now);
+      for (const key of ["p10", "p50", "p90"] as const) {
+        // predict() truncates to whole kroner
+        assert.ok(
+          Math.abs(prediction[key] - expected[key]) < 1,
+          `${key}: ${prediction[key]}, sklearn gave ${expected[key]}`,
+        );
+      }
+    });
+  }
+
+  it("refuses an export that does not reproduce its training predictions", () => {
+    const file = JSON.parse(readFixture(MODEL));
+    file.samples[0].p50 += 1000;
+    const tampered = path.join(mkdtempSync(path.join(tmpdir(), "price-model-")), "model_quantiles.json");
+    writeFileSync(tampered, JSON.stringify(file));
+    assert.throws(() => QuantileModel.fromFile(tampered), /Price model p50 gives/);
+  });
+});
@@ -0,0 +1,42 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("price recommendation", () => {
+  let app: TestApp;
+  let owner: TestUser;
+  let seller: TestUser;
+  let carId: string;
+
+  before(async () => {
+    app = await startTestApp();
+    const company = await app.createUserWithCompany("owner", "Bilhuset B");
+    owner = company;
+    seller = await app.addUserToCompany("seller", company.companyId, "SELGER");
+    // No comparables and no price model, so the price comes from the target margin on cost
+    const car = await app.storage.createCar({ registrationNumber: "EL12345", make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150", costPrice: "123456", salePrice: "149000" }, owner.id);
+    carId = car.id;
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("shows a price taken from cost to users who may see cost", async () => {
+    const response = await app.request(owner, "GET", `/api/cars/${carId}/price-recommendation`);
+    assert.equal(response.status, 200, JSON.stringify(response.body));
+    assert.equal(response.body.costBased, true);
+    assert.equal(response.body.recommendedPrice, 138000);
+    assert.match(response.body.costExplanation.join(" "), /målmargin/);
+  });
+
+  it("leaves a price taken from cost out for other roles", async () => {
+    const response = await app.request(seller, "GET", `/api/cars/${carId}/price-recommendation`);
+    assert.equal(response.status, 200, JSON.stringify(response.body));
+    assert.equal(response.body.recommendedPrice, null);
+    assert.equal(response.body.floorPrice, undefined);
+    assert.equal(response.body.targetPrice, undefined);
+    assert.equal(response.body.costExplanation, undefined);
+    assert.doesNotMatch(response.body.explanation.join(" "), /kost/);
+  });
+});
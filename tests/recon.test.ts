@@ -0,0 +1,119 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("recon work orders", () => {
+  let app: TestApp;
+  let owner: TestUser;
+
+  async function createCar(registrationNumber: string): Promise<string> {
+    const car = await app.storage.createCar({ registrationNumber, make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150", salePrice: "250000" }, owner.id);
+    return car.id;
+  }
+
+  async function create(path: string, body: unknown): Promise<any> {
+    const response = await app.request(owner, "POST", path, body);
+    assert.ok(response.status < 300, `${path} answered ${response.status}: ${JSON.stringify(response.body)}`);
+    return response.body;
+  }
+
+  async function carStatus(carId: string): Promise<string | null> {
+    return (await app.storage.getCarById(carId, owner.id))!.status;
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    owner = await app.createUserWithCompany("owner", "Bilhuset B");
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  describe("recon cost", () => {
+    async function recondCost(carId: string): Promise<number> {
+      return Number((await app.storage.getCarById(carId, owner.id))!.recondCost);
+    }
+
+    it("adds up the work-order lines on the car", async () => {
+      const carId = await createCar("EL55555");
+      const task = await create(`/api/cars/${carId}/recon-tasks`, { type: "polish", title: "Vask" });
+      const tyres = await create(`/api/recon/tasks/${task.id}/lines`, { kind: "part", description: "Dekk", quantity: 2, unitCost: 1500 });
+      await create(`/api/recon/tasks/${task.id}/lines`, { kind: "labour", description: "Montering", quantity: 1, unitCost: 800 });
+      assert.equal(await recondCost(carId), 3800);
+
+      const removed = await app.request(owner, "DELETE", `/api/recon/lines/${tyres.id}`);
+      assert.equal(removed.status, 200, JSON.stringify(removed.body));
+      assert.equal(await recondCost(carId), 800);
+
+      const history = await app.request(owner, "GET", `/api/cars/${carId}/price-history`);
+      const reconPrices = history.body
+        .filter((entry: { source: string }) => entry.source === "recon")
+        .map((entry: { newPrice: string }) => Number(entry.newPrice));
+      assert.ok(reconPrices.includes(3800) && reconPrices.includes(800), JSON.stringify(reconPrices));
+    });
+
+    it("locks the recon cost while the car has work-order lines", async () => {
+      const carId = await createCar("EL66666");
+      const task = await create(`/api/cars/${carId}/recon-tasks`, { type: "polish", title: "Vask" });
+      await create(`/api/recon/tasks/${task.id}/lines`, { kind: "part", description: "Shampo", quantity: 1, unitCost: 200 });
+
+      const locked = await app.request(owner, "PUT", `/api/cars/${carId}`, { recondCost: "5000" });
+      assert.equal(locked.status, 409, JSON.stringify(locked.body));
+      assert.equal(await recondCost(carId), 200);
+
+      await app.request(owner, "DELETE", `/api/recon/tasks/${task.id}`);
+      assert.equal(await recondCost(carId), 0);
+      const unlocked = await app.request(owner, "PUT", `/api/cars/${carId}`, { recondCost: "5000" });
+      assert.equal(unlocked.status, 200, JSON.stringify(unlocked.body));
+      assert.equal(await recondCost(carId), 5000);
+    });
+  });
+
+  describe("with finished recon required before sale", () => {
+    before(async () => {
+      const response = await app.request(owner, "PUT", "/api/settings/recon", { requireReconBeforeAvailable: true });
+      assert.equal(response.status, 200, JSON.stringify(response.body));
+    });
+
+    after(async () => {
+      await app.request(owner, "PUT", "/api/settings/recon", { requireReconBeforeAvailable: false });
+    });
+
+    it("takes a car off sale when mandatory work is added, until it is done", async () => {
+      const carId = await createCar("EL11111");
+      const task = await create(`/api/cars/${carId}/recon-tasks`, { type: "polish", title: "Vask" });
+      assert.notEqual(await carStatus(carId), "available");
+
+      const early = await app.request(owner, "PUT", `/api/cars/${carId}`, { status: "available" });
+      assert.equal(early.status, 409, JSON.stringify(early.body));
+
+      await app.request(owner, "PATCH", `/api/recon/tasks/${task.id}`, { status: "done" });
+      const released = await app.request(owner, "PUT", `/api/cars/${carId}`, { status: "available" });
+      assert.equal(released.status, 200, JSON.stringify(released.body));
+      assert.equal(await carStatus(carId), "available");
+    });
+
+    it("takes a car off sale again when finished mandatory work is reopened", async () => {
+      const carId = await createCar("EL22222");
+      const task = await create(`/api/cars/${carId}/recon-tasks`, { type: "polish", title: "Vask" });
+      await app.request(owner, "PATCH", `/api/recon/tasks/${task.id}`, { status: "done" });
+      await app.request(owner, "PUT", `/api/cars/${carId}`, { status: "available" });
+
+      await app.request(owner, "PATCH", `/api/recon/tasks/${task.id}`, { status: "in_progress" });
+      assert.notEqual(await carStatus(carId), "available");
+    });
+
+    it("leaves the car for sale for optional work", async () => {
+      const carId = await createCar("EL33333");
+      await create(`/api/cars/${carId}/recon-tasks`, { type: "polish", title: "Voks", mandatory: false });
+      assert.equal(await carStatus(carId), "available");
+    });
+  });
+
+  it("leaves the car for sale when the company does not require finished recon", async () => {
+    const carId = await createCar("EL44444");
+    await create(`/api/cars/${carId}/recon-tasks`, { type: "polish", title: "Vask" });
+    assert.equal(await carStatus(carId), "available");
+  });
+});
@@ -0,0 +1,109 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Car } from "@shared/schema";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+const RULES = {
+  targetGrossPct: "0.12",
+  minGrossPct: "0.05",
+  agingDays1: 30,
+  agingDisc1: "0.02",
+  agingDays2: 45,
+  agingDisc2: "0.03",
+  agingDays3: 60,
+  agingDisc3: "0.05",
+};
+
+const NOW = new Date("2026-06-01T12:00:00.000Z");
+
+function carInStock(days: number, prices: { salePrice: string; costPrice?: string; recondCost?: string }): Car {
+  return { id: "car-1", createdAt: new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000), costPrice: null, recondCost: null, ...prices } as Car;
+}
+
+describe("aging repricing", () => {
+  let app: TestApp;
+  let repricing: typeof import("../server/services/repricingService");
+
+  before(async () => {
+    app = await startTestApp();
+    repricing = await import("../server/services/repricingService");
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  describe("proposeAgingPrice", () => {
+    function propose(car: Car, lastTier = 0) {
+      return repricing.proposeAgingPrice({ car, mode: "suggest", lastTier }, RULES, NOW);
+    }
+
+    it("takes the discount of the deepest tier reached off the list price", () => {
+      const proposal = propose(carInStock(50, { salePrice: "200000" }));
+      assert.deepEqual(proposal, {
+        tier: 2,
+        daysOnLot: 50,
+        price: 194000,
+        floorClamped: false,
+        reason: "Stått 50 dager (trinn 2): 3 % ned",
+      });
+    });
+
+    it("proposes nothing before the first tier or for a tier already handled", () => {
+      assert.equal(propose(carInStock(29, { salePrice: "200000" })), null);
+      assert.equal(propose(carInStock(50, { salePrice: "200000" }), 2), null);
+      assert.notEqual(propose(carInStock(60, { salePrice: "200000" }), 2), null);
+    });
+
+    it("holds the price at the minimum margin on cost plus recon", () => {
+      const proposal = propose(carInStock(50, { salePrice: "200000", costPrice: "180000", recondCost: "7000" }));
+      // 194 000 would be below 187 000 plus 5 % (196 350), rounded up to whole thousands
+      assert.equal(proposal?.price, 197000);
+      assert.equal(proposal?.floorClamped, true);
+      assert.match(proposal!.reason, /begrenset av minstemargin/);
+    });
+
+    it("proposes nothing when the floor leaves no room to go lower", () => {
+      assert.equal(propose(carInStock(50, { salePrice: "200000", costPrice: "195000" })), null);
+    });
+  });
+
+  describe("price suggestions", () => {
+    let owner: TestUser;
+    let seller: TestUser;
+    let carId: string;
+
+    before(async () => {
+      const company = await app.createUserWithCompany("owner", "Bilhuset B");
+      owner = company;
+      seller = await app.addUserToCompany("seller", company.companyId, "SELGER");
+      const car = await app.storage.createCar({ registrationNumber: "EL12345", make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150", costPrice: "187000", salePrice: "200000" }, owner.id);
+      carId = car.id;
+      await app.storage.recordPriceSuggestion({
+        companyId: company.companyId,
+        carId,
+        agingTier: 2,
+        daysOnLot: 50,
+        currentPrice: "200000",
+        suggestedPrice: "197000",
+        floorClamped: true,
+        reason: "Stått 50 dager (trinn 2): 3 % ned, begrenset av minstemargin",
+      }, false);
+    });
+
+    it("shows a price held at the margin floor to users who may see cost", async () => {
+      const response = await app.request(owner, "GET", `/api/cars/${carId}/price-suggestions`);
+      assert.equal(response.status, 200, JSON.stringify(response.body));
+      assert.equal(response.body[0].suggestedPrice, "197000");
+      assert.match(response.body[0].reason, /minstemargin/);
+    });
+
+    it("leaves a price held at the margin floor out for other roles", async () => {
+      const response = await app.request(seller, "GET", `/api/cars/${carId}/price-suggestions`);
+      assert.equal(response.status, 200, JSON.stringify(response.body));
+      assert.equal(response.body[0].suggestedPrice, null);
+      assert.equal(response.body[0].reason, null);
+      assert.equal(response.body[0].daysOnLot, 50);
+    });
+  });
+});
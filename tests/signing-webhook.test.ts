@@ -0,0 +1,83 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+describe("signing webhooks", () => {
+  let app: TestApp;
+  let seller: TestUser & { companyId: string };
+  let customerId: string;
+
+  // The customer signs on the fake provider's page, which posts the signed
+  // webhook back to the server: no session, just the HMAC over the raw body
+  async function signAsCustomer(documentId: string): Promise<void> {
+    const response = await fetch(`${app.baseUrl}/api/esign/fake/${documentId}/signed`, { method: "POST", redirect: "manual" });
+    assert.equal(response.status, 302, await response.text());
+  }
+
+  async function createContract(registrationNumber: string): Promise<any> {
+    const car = await app.storage.createCar({ registrationNumber, make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150" }, seller.id);
+    const response = await app.request(seller, "POST", "/api/contracts", {
+      carId: car.id,
+      customerId,
+      salePrice: "250000",
+      saleDate: "2026-03-02T09:00:00.000Z",
+    });
+    assert.equal(response.status, 201, JSON.stringify(response.body));
+    return response.body;
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    seller = await app.createUserWithCompany("seller", "Bilhuset B");
+    const customer = await app.request(seller, "POST", "/api/customers", { name: "Kari Nordmann", email: "kari@example.no", phone: "91234567" });
+    customerId = customer.body.id;
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("signs a contract after its seller has switched to another company", async () => {
+    const contract = await createContract("EL11111");
+    const sent = await app.request(seller, "POST", `/api/contracts/${contract.id}/send-for-esign`, { provider: "fake" });
+    assert.equal(sent.status, 200, JSON.stringify(sent.body));
+    assert.equal(sent.body.contract.status, "pending_signature");
+    const documentId = sent.body.contract.signingDocumentId;
+
+    await app.storage.createNewCompany("Bilhuset C", seller.id);
+    await signAsCustomer(documentId);
+
+    const signed = await app.storage.getContractBySigningDocument("fake", documentId);
+    assert.equal(signed?.companyId, seller.companyId);
+    assert.equal(signed?.status, "signed");
+    assert.equal(signed?.signingStatus, "signed");
+    assert.equal(signed?.webhookStatus, "processed");
+    assert.equal(signed?.signerName, "Kari Nordmann");
+
+    await app.storage.switchActiveCompany(seller.id, seller.companyId);
+  });
+
+  it("signs an amendment after its seller has switched to another company", async () => {
+    const contract = await createContract("EL22222");
+    const transition = await app.request(seller, "POST", `/api/contracts/${contract.id}/transitions`, { to: "signed" });
+    assert.equal(transition.status, 200, JSON.stringify(transition.body));
+    const amendment = await app.request(seller, "POST", `/api/contracts/${contract.id}/amendments`, {
+      kind: "tillegg",
+      description: "Vinterhjul",
+      priceAdjustment: "9900",
+    });
+    assert.equal(amendment.status, 201, JSON.stringify(amendment.body));
+    const sent = await app.request(seller, "POST", `/api/contract-amendments/${amendment.body.id}/send-for-esign`, { provider: "fake" });
+    assert.equal(sent.status, 200, JSON.stringify(sent.body));
+
+    await app.storage.createNewCompany("Bilhuset D", seller.id);
+    await signAsCustomer(sent.body.signingDocumentId);
+
+    const signed = await app.storage.getAmendmentBySigningDocument("fake", sent.body.signingDocumentId);
+    assert.equal(signed?.companyId, seller.companyId);
+    assert.equal(signed?.status, "signed");
+    assert.equal(signed?.signerName, "Kari Nordmann");
+
+    await app.storage.switchActiveCompany(seller.id, seller.companyId);
+  });
+});
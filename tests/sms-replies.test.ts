@@ -0,0 +1,74 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+process.env.STUB_SMS_WEBHOOK_SECRET = "test-stub-sms-secret";
+
+const SHARED_NUMBER = "+47 22 00 00 00";
+
+describe("inbound SMS replies", () => {
+  let app: TestApp;
+  let dealerA: TestUser & { companyId: string };
+  let dealerB: TestUser & { companyId: string };
+  let customerA: string;
+  let customerB: string;
+  let replies = 0;
+
+  // The gateway posts the reply with an HMAC over the raw body
+  async function reply(to: string): Promise<void> {
+    const body = JSON.stringify({ messageId: `reply-${++replies}`, from: "+47 912 34 567", to, body: "Ja takk" });
+    const signature = createHmac("sha256", process.env.STUB_SMS_WEBHOOK_SECRET!).update(body).digest("hex");
+    const response = await fetch(`${app.baseUrl}/api/webhooks/sms/stub`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-stub-signature": signature },
+      body,
+    });
+    assert.equal(response.status, 200, await response.text());
+  }
+
+  async function inbound(customerId: string, companyId: string): Promise<number> {
+    const messages = await app.storage.getCustomerMessages(customerId, companyId);
+    return messages.filter(message => message.direction === "inbound").length;
+  }
+
+  async function text(dealer: TestUser, customerId: string): Promise<void> {
+    const sent = await app.request(dealer, "POST", `/api/customers/${customerId}/messages`, { channel: "sms", subject: null, body: "Bilen er klar" });
+    assert.equal(sent.status, 201, JSON.stringify(sent.body));
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    dealerA = await app.createUserWithCompany("dealer-a", "Bilhuset A");
+    dealerB = await app.createUserWithCompany("dealer-b", "Bilhuset B");
+    // The same person is a customer at both dealers
+    customerA = (await app.request(dealerA, "POST", "/api/customers", { name: "Kari Nordmann", phone: "91234567" })).body.id;
+    customerB = (await app.request(dealerB, "POST", "/api/customers", { name: "Kari Nordmann", phone: "91234567" })).body.id;
+
+    const settings = await app.request(dealerA, "PUT", "/api/settings/sms", { smsSenderNumber: "+47 400 00 001" });
+    assert.equal(settings.status, 200, JSON.stringify(settings.body));
+    await text(dealerA, customerA);
+    await text(dealerB, customerB);
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("files a reply to a company's own number under that company", async () => {
+    await reply("40000001");
+    assert.equal(await inbound(customerA, dealerA.companyId), 1);
+    assert.equal(await inbound(customerB, dealerB.companyId), 0);
+  });
+
+  it("files a reply to the shared number under whoever texted last", async () => {
+    await reply(SHARED_NUMBER);
+    assert.equal(await inbound(customerA, dealerA.companyId), 1);
+    assert.equal(await inbound(customerB, dealerB.companyId), 1);
+  });
+
+  it("rejects a sender number that is not a phone number", async () => {
+    const response = await app.request(dealerA, "PUT", "/api/settings/sms", { smsSenderNumber: "Bilhuset" });
+    assert.equal(response.status, 400, JSON.stringify(response.body));
+  });
+});
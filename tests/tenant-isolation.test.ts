@@ -0,0 +1,214 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp, type TestUser } from "./helpers/testApp";
+
+// Company B's records, created through the API by B's owner
+interface Records {
+  car: string;
+  customer: string;
+  contract: string;
+  signedContract: string;
+  amendment: string;
+  lead: string;
+  followup: string;
+  reconTask: string;
+  reconLine: string;
+  messageTemplate: string;
+  contractTemplate: string;
+  playbook: string;
+  role: string;
+}
+
+type Route = [method: string, path: (ids: Records) => string, body?: unknown];
+
+const READS: Route[] = [
+  ["GET", ids => `/api/cars/${ids.car}`],
+  ["GET", ids => `/api/cars/${ids.car}/trade-in-contract`],
+  ["GET", ids => `/api/cars/${ids.car}/price-history`],
+  ["GET", ids => `/api/cars/${ids.car}/price-suggestions`],
+  ["GET", ids => `/api/cars/${ids.car}/recon-tasks`],
+  ["GET", ids => `/api/customers/${ids.customer}`],
+  ["GET", ids => `/api/customers/${ids.customer}/profile`],
+  ["GET", ids => `/api/customers/${ids.customer}/privacy/requests`],
+  ["GET", ids => `/api/leads/${ids.lead}`],
+  ["GET", ids => `/api/contracts/${ids.contract}`],
+  ["GET", ids => `/api/contracts/${ids.contract}/transitions`],
+  ["GET", ids => `/api/contracts/${ids.contract}/pdf`],
+  ["GET", ids => `/api/contracts/${ids.contract}/html`],
+  ["GET", ids => `/api/contracts/${ids.contract}/template`],
+  ["GET", ids => `/api/contracts/${ids.contract}/esign-status`],
+  ["GET", ids => `/api/contracts/${ids.signedContract}/amendments`],
+  ["GET", ids => `/api/contract-amendments/${ids.amendment}/esign-status`],
+  ["GET", ids => `/api/contract-amendments/${ids.amendment}/pdf`],
+  ["GET", ids => `/api/contract-templates/${ids.contractTemplate}/versions`],
+];
+
+const WRITES: Route[] = [
+  ["PUT", ids => `/api/cars/${ids.car}`, { mileage: 1 }],
+  ["PUT", ids => `/api/cars/${ids.car}/sold`, {}],
+  ["PUT", ids => `/api/cars/${ids.car}/sell`, { customerId: "x", soldPrice: "1" }],
+  ["POST", ids => `/api/cars/${ids.car}/recon-tasks`, { type: "polish", title: "Vask" }],
+  ["PATCH", ids => `/api/recon/tasks/${ids.reconTask}`, { status: "done" }],
+  ["POST", ids => `/api/recon/tasks/${ids.reconTask}/lines`, { kind: "part", description: "Voks", quantity: 1, unitCost: 100 }],
+  ["DELETE", ids => `/api/recon/lines/${ids.reconLine}`],
+  ["DELETE", ids => `/api/recon/tasks/${ids.reconTask}`],
+  ["PUT", ids => `/api/customers/${ids.customer}`, { name: "Endret" }],
+  ["POST", ids => `/api/customers/${ids.customer}/privacy/export`, {}],
+  ["POST", ids => `/api/customers/${ids.customer}/privacy/erase`, {}],
+  ["POST", ids => `/api/customers/${ids.customer}/messages`, { channel: "sms", subject: null, body: "Hei" }],
+  ["POST", ids => `/api/customers/${ids.customer}/messages/inbound`, { channel: "sms", body: "Hei" }],
+  ["PATCH", ids => `/api/leads/${ids.lead}`, { name: "Endret" }],
+  ["POST", ids => `/api/leads/${ids.lead}/convert`, {}],
+  ["PUT", ids => `/api/contracts/${ids.contract}`, { salePrice: "1" }],
+  ["POST", ids => `/api/contracts/${ids.contract}/transitions`, { to: "cancelled" }],
+  ["POST", ids => `/api/contracts/${ids.contract}/send-for-esign`, { provider: "fake" }],
+  ["POST", ids => `/api/contracts/${ids.signedContract}/amendments`, { kind: "tillegg", description: "Hengerfeste", priceAdjustment: "5000" }],
+  ["PUT", ids => `/api/contract-amendments/${ids.amendment}`, { description: "Endret" }],
+  ["POST", ids => `/api/contract-amendments/${ids.amendment}/transitions`, { to: "cancelled" }],
+  ["POST", ids => `/api/contract-amendments/${ids.amendment}/send-for-esign`, { provider: "fake" }],
+  ["PUT", ids => `/api/followups/${ids.followup}`, { status: "DONE" }],
+  ["PUT", ids => `/api/message-templates/${ids.messageTemplate}`, { name: "Endret", subject: null, body: "Endret" }],
+  ["PUT", ids => `/api/contract-templates/${ids.contractTemplate}`, { name: "Endret" }],
+  ["POST", ids => `/api/contract-templates/${ids.contractTemplate}/publish`, {}],
+  ["PUT", ids => `/api/followup-playbooks/${ids.playbook}`, { name: "Endret" }],
+  ["PUT", ids => `/api/company-roles/${ids.role}`, { name: "Endret", permissions: [] }],
+  // Deletes last, so the routes above still find the records if isolation is broken
+  ["DELETE", ids => `/api/message-templates/${ids.messageTemplate}`],
+  ["DELETE", ids => `/api/followup-playbooks/${ids.playbook}`],
+  ["DELETE", ids => `/api/company-roles/${ids.role}`],
+  ["DELETE", ids => `/api/contract-amendments/${ids.amendment}`],
+  ["DELETE", ids => `/api/contracts/${ids.contract}`],
+  ["DELETE", ids => `/api/leads/${ids.lead}`],
+  ["DELETE", ids => `/api/customers/${ids.customer}`],
+  ["DELETE", ids => `/api/cars/${ids.car}`],
+];
+
+// Denied outright, or answered as if the record did not exist
+function assertNoAccess(response: { status: number; body: any }, route: string) {
+  if (response.status === 200 && response.body === null) {
+    return;
+  }
+  if (response.status === 200 && Array.isArray(response.body)) {
+    assert.deepEqual(response.body, [], `${route} returned another company's records`);
+    return;
+  }
+  assert.ok([403, 404].includes(response.status), `${route} answered ${response.status}: ${JSON.stringify(response.body)}`);
+}
+
+describe("tenant isolation", () => {
+  let app: TestApp;
+  let userA: TestUser;
+  let userB: TestUser;
+  let ids: Records;
+  let ownView: Record<string, unknown>;
+
+  async function create(user: TestUser, path: string, body: unknown): Promise<any> {
+    const response = await app.request(user, "POST", path, body);
+    assert.ok(response.status < 300, `${path} answered ${response.status}: ${JSON.stringify(response.body)}`);
+    return response.body;
+  }
+
+  // What the owner sees of their records, to compare after the foreign requests
+  async function snapshot(user: TestUser): Promise<Record<string, unknown>> {
+    const paths = [
+      `/api/cars/${ids.car}`,
+      `/api/cars/${ids.car}/recon-tasks`,
+      `/api/customers/${ids.customer}`,
+      `/api/contracts/${ids.contract}`,
+      `/api/contracts/${ids.signedContract}/amendments`,
+      `/api/leads/${ids.lead}`,
+      "/api/followups",
+      "/api/message-templates",
+      "/api/contract-templates",
+      "/api/followup-playbooks",
+      "/api/company-roles",
+    ];
+    const views: Record<string, unknown> = {};
+    for (const path of paths) {
+      const response = await app.request(user, "GET", path);
+      assert.equal(response.status, 200, path);
+      views[path] = response.body;
+    }
+    return views;
+  }
+
+  before(async () => {
+    app = await startTestApp();
+    userA = await app.createUserWithCompany("user-a", "Bilhuset A");
+    userB = await app.createUserWithCompany("user-b", "Bilhuset B");
+
+    const car = await app.storage.createCar({ registrationNumber: "EL12345", make: "Volvo", model: "XC40", year: 2021, mileage: 40000, power: "150" }, userB.id);
+    const otherCar = await app.storage.createCar({ registrationNumber: "EL54321", make: "Volvo", model: "V90", year: 2019, mileage: 90000, power: "173" }, userB.id);
+    // Recon work is only open on cars in stock, so before the contract reserves it
+    const reconTask = await create(userB, `/api/cars/${car.id}/recon-tasks`, { type: "polish", title: "Vask" });
+    const reconLine = await create(userB, `/api/recon/tasks/${reconTask.id}/lines`, { kind: "part", description: "Shampo", quantity: 1, unitCost: 200 });
+    const customer = await create(userB, "/api/customers", { name: "Kari Nordmann", phone: "91234567", email: "kari@example.no" });
+    const contract = await create(userB, "/api/contracts", { carId: car.id, customerId: customer.id, salePrice: "250000", saleDate: "2026-03-02T09:00:00.000Z" });
+    const signedContract = await create(userB, "/api/contracts", { carId: otherCar.id, customerId: customer.id, salePrice: "300000", saleDate: "2026-03-02T09:00:00.000Z" });
+    await create(userB, `/api/contracts/${signedContract.id}/transitions`, { to: "signed" });
+    const amendment = await create(userB, `/api/contracts/${signedContract.id}/amendments`, { kind: "tillegg", description: "Vinterhjul", priceAdjustment: "9900" });
+    const lead = await create(userB, "/api/leads", { name: "Ola Nordmann", source: "phone" });
+    const followup = await create(userB, "/api/followups", { customerId: customer.id, dueAt: "2026-03-10T09:00:00.000Z", type: "call" });
+    const messageTemplate = await create(userB, "/api/message-templates", { name: "Klar", channel: "sms", subject: null, body: "Bilen er klar" });
+    const contractTemplate = await create(userB, "/api/contract-templates", { contractType: "privatsalg", name: "Egen", draftBody: "<h1>{{contractTitle}}</h1>" });
+    const playbook = await create(userB, "/api/followup-playbooks", {
+      name: "Etter salg",
+      trigger: "contract_signed",
+      steps: [{ offsetDays: 7, type: "call", note: "Ring kunden" }],
+    });
+    const role = await create(userB, "/api/company-roles", { name: "Lærling", baseRole: "SELGER", permissions: [] });
+
+    ids = {
+      car: car.id,
+      customer: customer.id,
+      contract: contract.id,
+      signedContract: signedContract.id,
+      amendment: amendment.id,
+      lead: lead.id,
+      followup: followup.id,
+      reconTask: reconTask.id,
+      reconLine: reconLine.id,
+      messageTemplate: messageTemplate.id,
+      contractTemplate: contractTemplate.id,
+      playbook: playbook.id,
+      role: role.id,
+    };
+    ownView = await snapshot(userB);
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("lists only the caller's own company records", async () => {
+    for (const path of ["/api/cars", "/api/customers", "/api/contracts", "/api/leads", "/api/followups", "/api/message-templates", "/api/contract-templates", "/api/followup-playbooks", "/api/company-roles"]) {
+      const response = await app.request(userA, "GET", path);
+      assert.equal(response.status, 200, path);
+      const rows = Array.isArray(response.body) ? response.body : response.body.items ?? response.body.data;
+      assert.ok(Array.isArray(rows), `${path} did not answer with a list`);
+      const foreign = rows.filter((row: any) => Object.values(ids).includes(row.id));
+      assert.deepEqual(foreign, [], `${path} listed another company's records`);
+    }
+  });
+
+  for (const [method, path] of READS) {
+    it(`refuses ${method} ${path(placeholderIds())} to another company`, async () => {
+      assertNoAccess(await app.request(userA, method, path(ids)), `${method} ${path(ids)}`);
+    });
+  }
+
+  for (const [method, path, body] of WRITES) {
+    it(`refuses ${method} ${path(placeholderIds())} to another company`, async () => {
+      assertNoAccess(await app.request(userA, method, path(ids), body), `${method} ${path(ids)}`);
+    });
+  }
+
+  it("leaves the other company's records untouched", async () => {
+    assert.deepEqual(await snapshot(userB), ownView);
+  });
+});
+
+// Readable test names before the records exist
+function placeholderIds(): Records {
+  return new Proxy({} as Records, { get: (_target, key) => `:${String(key)}` });
+}